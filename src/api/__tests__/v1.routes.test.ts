@@ -0,0 +1,177 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { InvalidDiscountError } from '../../services/discount.service';
+import { ApiV1Routes } from '../v1.routes';
+
+describe('/api/v1', () => {
+  let server: Server;
+  let baseUrl: string;
+  let orderService: any;
+
+  const order = {
+    id: 'abc123def456',
+    whatsappPhone: 'ayse@example.com',
+    channel: 'email',
+    customerEmail: 'ayse@example.com',
+    orderData: { song1: { type: 'Pop', style: 'Romantik' }, story: 'Anılarımız', deliveryOptions: { video: false } },
+    status: 'payment_pending',
+    totalPrice: 299,
+    song1Lyrics: '[Verse] ...',
+    paymentToken: 'secret-token',
+    createdAt: new Date('2026-01-01T10:00:00Z'),
+    estimatedDelivery: new Date(Date.now() + 30 * 60000),
+  };
+
+  const request = async (method: string, path: string, body?: any) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: (await response.json()) as any };
+  };
+
+  const validOrder = {
+    email: 'Ayse@Example.com',
+    song: { type: 'Pop', style: 'Romantik', vocal: 'Kadın' },
+    story: 'Birlikte geçirdiğimiz güzel anılar...',
+    includeNameInSong: true,
+    recipientName: 'Ayşe',
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    orderService = {
+      isPaymentConfigured: jest.fn(() => true),
+      previewDiscount: jest.fn(async (code: string) => ({
+        isValid: code === 'YILBASI',
+        message: code === 'YILBASI' ? '✅ YILBASI kodu uygulandı! 50 TL indirim' : '❌ Geçersiz indirim kodu',
+        basePrice: 299,
+        discountAmount: code === 'YILBASI' ? 50 : 0,
+        finalPrice: code === 'YILBASI' ? 249 : 299,
+      })),
+      createWebOrder: jest.fn(async () => ({
+        orderId: 'abc123def456',
+        paymentUrl: 'https://bihediye.art/payment/abc123def456',
+        totalPrice: 299,
+        discountApplied: 50,
+        finalPrice: 249,
+      })),
+      createWebPaymentLink: jest.fn(async () => 'https://bihediye.art/payment/abc123def456'),
+      getOrder: jest.fn(async (id: string) => (id === order.id ? { ...order } : null)),
+    };
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/v1', new ApiV1Routes(orderService).router);
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should create a web order with a discount', async () => {
+    const { status, body } = await request('POST', '/orders', { ...validOrder, discountCode: 'YILBASI', locale: 'en' });
+
+    expect(status).toBe(201);
+    expect(body).toEqual(expect.objectContaining({ orderId: 'abc123def456', status: 'payment_pending', finalPrice: 249 }));
+    expect(orderService.createWebOrder).toHaveBeenCalledWith(
+      expect.objectContaining({ song1: validOrder.song, includeNameInSong: true, recipientName: 'Ayşe' }),
+      'ayse@example.com',
+      'ayse@example.com',
+      { discountCode: 'YILBASI', locale: 'en' }
+    );
+  });
+
+  it('should list every invalid field', async () => {
+    const { status, body } = await request('POST', '/orders', {
+      email: 'not-an-email',
+      song: { type: 'Polka', style: 'Romantik' },
+      story: 'x'.repeat(901),
+      includeNameInSong: true,
+    });
+
+    expect(status).toBe(400);
+    expect(body.error.code).toBe('validation_failed');
+    expect(body.error.details.map((detail: any) => detail.field)).toEqual(['email', 'song.type', 'story', 'recipientName']);
+    expect(orderService.createWebOrder).not.toHaveBeenCalled();
+  });
+
+  it('should reject an invalid discount code before creating the order', async () => {
+    const { status, body } = await request('POST', '/orders', { ...validOrder, discountCode: 'YOK' });
+
+    expect(status).toBe(422);
+    expect(body.error.code).toBe('invalid_discount');
+    expect(orderService.createWebOrder).not.toHaveBeenCalled();
+  });
+
+  it('should reject a discount code that ran out after the preview', async () => {
+    orderService.createWebOrder.mockRejectedValue(new InvalidDiscountError('YILBASI', '❌ Bu indirim kodunun kullanım limiti dolmuş'));
+
+    const { status, body } = await request('POST', '/orders', { ...validOrder, discountCode: 'YILBASI' });
+
+    expect(status).toBe(422);
+    expect(body.error).toEqual(expect.objectContaining({ code: 'invalid_discount', message: '❌ Bu indirim kodunun kullanım limiti dolmuş' }));
+  });
+
+  it('should answer 503 when payments are not configured', async () => {
+    orderService.isPaymentConfigured.mockReturnValue(false);
+
+    const { status } = await request('POST', '/orders', validOrder);
+
+    expect(status).toBe(503);
+  });
+
+  it('should preview a discount', async () => {
+    const { status, body } = await request('POST', '/discounts/preview', { code: 'YILBASI', email: 'ayse@example.com' });
+
+    expect(status).toBe(200);
+    expect(body).toEqual(expect.objectContaining({ valid: true, discountAmount: 50, finalPrice: 249 }));
+  });
+
+  it('should renew the payment link only for unpaid orders', async () => {
+    const email = { email: 'ayse@example.com' };
+    expect((await request('POST', '/orders/abc123def456/payment-link', email)).body.paymentUrl).toContain('/payment/abc123def456');
+
+    orderService.getOrder.mockResolvedValue({ ...order, status: 'paid' });
+    const { status, body } = await request('POST', '/orders/abc123def456/payment-link', email);
+    expect(status).toBe(409);
+    expect(body.error.code).toBe('order_not_payable');
+  });
+
+  it('should renew the payment link only for the customer of a web order', async () => {
+    expect((await request('POST', '/orders/abc123def456/payment-link')).status).toBe(404);
+    expect((await request('POST', '/orders/abc123def456/payment-link', { email: 'baska@example.com' })).status).toBe(404);
+
+    orderService.getOrder.mockResolvedValue({ ...order, channel: 'whatsapp', whatsappPhone: '905551112233' });
+    expect((await request('POST', '/orders/abc123def456/payment-link', { email: 'ayse@example.com' })).status).toBe(404);
+    expect(orderService.createWebPaymentLink).not.toHaveBeenCalled();
+  });
+
+  it('should show order details only with the matching email', async () => {
+    const found = await request('GET', '/orders/abc123def456?email=AYSE@example.com');
+    expect(found.status).toBe(200);
+    expect(found.body.lyrics).toBe('[Verse] ...');
+    expect(found.body.paymentToken).toBeUndefined();
+
+    expect((await request('GET', '/orders/abc123def456?email=baska@example.com')).status).toBe(404);
+    expect((await request('GET', '/orders/abc123def456')).status).toBe(404);
+  });
+
+  it('should report the order status', async () => {
+    orderService.getOrder.mockResolvedValueOnce({ ...order, status: 'music_generating' });
+
+    const { status, body } = await request('GET', '/orders/abc123def456/status');
+
+    expect(status).toBe(200);
+    expect(body).toEqual(expect.objectContaining({ status: 'music_generating', completionPercentage: 50 }));
+    expect(body.estimatedTimeRemaining).toBeGreaterThan(0);
+    expect((await request('GET', '/orders/unknown000000/status')).status).toBe(404);
+  });
+});
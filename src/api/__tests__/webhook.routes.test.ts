@@ -0,0 +1,171 @@
+import { WebhookRoutes } from '../webhook.routes';
+import { BirdWebhookVerifier } from '../../services/bird-webhook-verifier';
+import { config } from '../../config/config';
+
+describe('Bird webhook idempotency', () => {
+  let routes: WebhookRoutes;
+  let orderService: { handleIncomingMessage: jest.Mock };
+  let seen: Set<string>;
+  let firebaseService: { registerInboundEvent: jest.Mock };
+
+  const inbound = (id: string, text: string) => ({
+    body: {
+      service: 'channels',
+      event: 'whatsapp.inbound',
+      payload: {
+        id,
+        sender: { contact: { id: 'contact-1', identifierValue: '+905551234567' } },
+        body: { type: 'text', text: { text } },
+      },
+    },
+  });
+  const res = { sendStatus: jest.fn() };
+
+  const deliver = (req: any) => (routes as any).handleBirdWebhook(req, res);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    seen = new Set();
+    firebaseService = {
+      registerInboundEvent: jest.fn(async (id: string) => {
+        if (seen.has(id)) return false;
+        seen.add(id);
+        return true;
+      }),
+    };
+    orderService = { handleIncomingMessage: jest.fn() };
+
+    routes = new WebhookRoutes();
+    routes.setOrderService(orderService as any);
+    routes.setFirebaseService(firebaseService as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should drop a redelivered message id', async () => {
+    await deliver(inbound('msg-1', 'Merhaba'));
+    await deliver(inbound('msg-1', 'Merhaba'));
+
+    expect(orderService.handleIncomingMessage).toHaveBeenCalledTimes(1);
+    expect(res.sendStatus).toHaveBeenCalledWith(200);
+  });
+
+  it('should process repeated text with different message ids', async () => {
+    await deliver(inbound('msg-1', '1'));
+    await deliver(inbound('msg-2', '1'));
+
+    expect(orderService.handleIncomingMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should process the message when the event store fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    firebaseService.registerInboundEvent.mockRejectedValueOnce(new Error('unavailable'));
+
+    await deliver(inbound('msg-1', 'Merhaba'));
+
+    expect(orderService.handleIncomingMessage).toHaveBeenCalledWith('+905551234567', 'Merhaba');
+  });
+});
+
+describe('Bird webhook signature verification', () => {
+  const signingKey = 'test-signing-key';
+  const body = Buffer.from(JSON.stringify({ service: 'channels', event: 'whatsapp.inbound', payload: { id: 'msg-1' } }));
+  const url = `${config.bird.webhookBaseUrl}/webhook/bird`;
+
+  const originalBird = { ...config.bird };
+  let routes: WebhookRoutes;
+  let firebaseService: { logAnalytics: jest.Mock };
+
+  const request = (headers: Record<string, string>, rawBody: Buffer | null = body) => ({
+    get: (name: string) => headers[name],
+    originalUrl: '/webhook/bird',
+    rawBody,
+    body: JSON.parse(body.toString()),
+    ip: '203.0.113.7',
+  });
+  const signedHeaders = (timestamp: number, key = signingKey) => ({
+    [BirdWebhookVerifier.TIMESTAMP_HEADER]: String(timestamp),
+    [BirdWebhookVerifier.SIGNATURE_HEADER]: new BirdWebhookVerifier({ signingKey: key, toleranceSeconds: 300 })
+      .sign(String(timestamp), url, body),
+  });
+  const response = () => {
+    const res: any = {};
+    res.status = jest.fn(() => res);
+    res.json = jest.fn(() => res);
+    return res;
+  };
+  const verify = async (req: any) => {
+    const res = response();
+    const next = jest.fn();
+    await (routes as any).verifyBirdSignature(req, res, next);
+    return { res, next };
+  };
+  const now = () => Math.floor(Date.now() / 1000);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    Object.assign(config.bird, { webhookSigningKey: signingKey, webhookToleranceSeconds: 300, webhookTestMode: false });
+
+    firebaseService = { logAnalytics: jest.fn() };
+    routes = new WebhookRoutes();
+    routes.setFirebaseService(firebaseService as any);
+  });
+
+  afterEach(() => {
+    Object.assign(config.bird, originalBird);
+    jest.restoreAllMocks();
+  });
+
+  it('should accept a correctly signed request', async () => {
+    const { res, next } = await verify(request(signedHeaders(now())));
+
+    expect(next).toHaveBeenCalled();
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it('should reject unsigned, forged and replayed requests and count them', async () => {
+    const unsigned = await verify(request({}));
+    const forged = await verify(request(signedHeaders(now(), 'attacker-key')));
+    const replayed = await verify(request(signedHeaders(now() - 600)));
+    // The parsed body can't be re-serialized byte for byte
+    const withoutBody = await verify(request(signedHeaders(now()), null));
+
+    [unsigned, forged, replayed, withoutBody].forEach(({ res, next }) => {
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+    });
+    expect((routes as any).rejections).toEqual({
+      missing_signature: 1,
+      invalid_signature: 1,
+      stale_timestamp: 1,
+      missing_body: 1,
+    });
+    expect(firebaseService.logAnalytics).toHaveBeenCalledWith(
+      'webhook_rejected',
+      expect.objectContaining({ reason: 'stale_timestamp' })
+    );
+  });
+
+  it('should sign with the webhook URL, not the payment callback URL', async () => {
+    const originalPaytr = { ...config.paytr };
+    config.paytr.baseUrl = 'https://pay.example.com';
+
+    const { next } = await verify(request(signedHeaders(now())));
+
+    expect(next).toHaveBeenCalled();
+    Object.assign(config.paytr, originalPaytr);
+  });
+
+  it('should let unsigned requests through only in test mode', async () => {
+    config.bird.webhookTestMode = true;
+
+    const unsigned = await verify(request({}));
+    const forged = await verify(request(signedHeaders(now(), 'attacker-key')));
+
+    expect(unsigned.next).toHaveBeenCalled();
+    expect(forged.next).not.toHaveBeenCalled();
+  });
+});
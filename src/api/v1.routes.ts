@@ -0,0 +1,335 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import { Locale, SUPPORTED_LOCALES } from '../i18n';
+import { Order, OrderRequest, OrderStatus, SongDetails } from '../models/order.model';
+import { InvalidDiscountError } from '../services/discount.service';
+import { OrderService } from '../services/order.service';
+import { deliveredPageUrl, deliveredSongUrl } from '../services/share-links';
+import { WhatsAppService } from '../services/whatsapp.service';
+
+const SONG_TYPES: SongDetails['type'][] = ['Pop', 'Rap', 'Jazz', 'Arabesk', 'Klasik', 'Rock', 'Metal', 'Nostaljik'];
+const SONG_STYLES: SongDetails['style'][] = ['Romantik', 'Duygusal', 'Eğlenceli', 'Sakin'];
+const VOCALS: NonNullable<SongDetails['vocal']>[] = ['Kadın', 'Erkek', 'Fark etmez'];
+const SONG_LANGUAGES: NonNullable<SongDetails['language']>[] = ['Türkçe', 'İngilizce', 'Almanca', 'Kürtçe', 'Azerice', 'Karışık'];
+
+const MAX_STORY_LENGTH = 900;
+const MAX_NOTES_LENGTH = 300;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Rough progress per status for the public status endpoint
+const STATUS_PROGRESS: Record<Order['status'], number> = {
+  payment_pending: 0,
+  paid: 5,
+  pending: 5,
+  lyrics_generating: 20,
+  music_generating: 50,
+  variant_selection: 95,
+  video_generating: 85,
+  completed: 100,
+  failed: 0,
+};
+
+/**
+ * HTTP error with a machine readable code
+ * Body: { "error": { "code": "...", "message": "...", "details": [...] } }
+ */
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: Array<{ field: string; message: string }>
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+interface CreateOrderInput {
+  orderRequest: OrderRequest;
+  email: string;
+  userId: string;
+  discountCode?: string;
+  locale?: Locale;
+}
+
+/**
+ * Validate the POST /orders body
+ * Collects every problem so the checkout can show them all at once
+ */
+export function validateCreateOrder(body: any): CreateOrderInput {
+  const errors: Array<{ field: string; message: string }> = [];
+  const invalid = (field: string, message: string) => errors.push({ field, message });
+  const optionalString = (field: string, value: any, maxLength: number) => {
+    if (value !== undefined && (typeof value !== 'string' || value.length > maxLength)) {
+      invalid(field, `must be a string of at most ${maxLength} characters`);
+    }
+  };
+
+  if (!body || typeof body !== 'object') {
+    throw new ApiError(400, 'invalid_body', 'Request body must be a JSON object');
+  }
+
+  const { email, userId, song, story, notes, recipientName, recipientRelation, includeNameInSong, phone, discountCode, locale } = body;
+
+  if (typeof email !== 'string' || !EMAIL_PATTERN.test(email)) {
+    invalid('email', 'must be a valid email address');
+  }
+  optionalString('userId', userId, 128);
+
+  if (!song || typeof song !== 'object') {
+    invalid('song', 'is required');
+  } else {
+    if (!SONG_TYPES.includes(song.type)) invalid('song.type', `must be one of ${SONG_TYPES.join(', ')}`);
+    if (!SONG_STYLES.includes(song.style)) invalid('song.style', `must be one of ${SONG_STYLES.join(', ')}`);
+    if (song.vocal !== undefined && !VOCALS.includes(song.vocal)) invalid('song.vocal', `must be one of ${VOCALS.join(', ')}`);
+    if (song.language !== undefined && !SONG_LANGUAGES.includes(song.language)) {
+      invalid('song.language', `must be one of ${SONG_LANGUAGES.join(', ')}`);
+    }
+    optionalString('song.artistStyleDescription', song.artistStyleDescription, 200);
+  }
+
+  if (typeof story !== 'string' || story.trim().length === 0) {
+    invalid('story', 'is required');
+  } else if (story.length > MAX_STORY_LENGTH) {
+    invalid('story', `must be at most ${MAX_STORY_LENGTH} characters`);
+  }
+  optionalString('notes', notes, MAX_NOTES_LENGTH);
+  optionalString('recipientRelation', recipientRelation, 100);
+  optionalString('recipientName', recipientName, 100);
+
+  if (includeNameInSong !== undefined && typeof includeNameInSong !== 'boolean') {
+    invalid('includeNameInSong', 'must be a boolean');
+  } else if (includeNameInSong && !recipientName) {
+    invalid('recipientName', 'is required when includeNameInSong is true');
+  }
+
+  if (phone !== undefined && (typeof phone !== 'string' || !WhatsAppService.validatePhoneNumber(phone))) {
+    invalid('phone', 'must be a Turkish mobile number');
+  }
+  optionalString('discountCode', discountCode, 50);
+  if (locale !== undefined && !SUPPORTED_LOCALES.includes(locale)) {
+    invalid('locale', `must be one of ${SUPPORTED_LOCALES.join(', ')}`);
+  }
+
+  if (errors.length > 0) {
+    throw new ApiError(400, 'validation_failed', 'Eksik veya geçersiz alanlar', errors);
+  }
+
+  const songDetails: SongDetails = {
+    type: song.type,
+    style: song.style,
+    vocal: song.vocal,
+    language: song.language,
+    artistStyleDescription: song.artistStyleDescription,
+  };
+
+  return {
+    email: email.trim().toLowerCase(),
+    userId: userId || email.trim().toLowerCase(),
+    discountCode: discountCode?.trim() || undefined,
+    locale,
+    orderRequest: {
+      song1: songDetails,
+      story: story.trim(),
+      notes: notes?.trim() || undefined,
+      recipientName: recipientName?.trim() || undefined,
+      recipientRelation: recipientRelation?.trim() || undefined,
+      includeNameInSong: !!includeNameInSong,
+      phone: phone ? WhatsAppService.formatPhoneNumber(phone) : '',
+      deliveryOptions: { audioFile: true, musicPlatform: false, video: false },
+    } as OrderRequest,
+  };
+}
+
+/**
+ * Public REST API for the web / mobile checkout (/api/v1)
+ *
+ * POST /orders                    create a web order (returns the payment link)
+ * POST /discounts/preview         price with a discount code
+ * POST /orders/:id/payment-link   renew the payment link of an unpaid web order ({ email } must match the order)
+ * GET  /orders/:id?email=         order details (email must match the order)
+ * GET  /orders/:id/status         status and progress
+ */
+export class ApiV1Routes {
+  public router: Router;
+
+  constructor(private orderService: OrderService) {
+    this.router = Router();
+    this.initializeRoutes();
+  }
+
+  private initializeRoutes(): void {
+    this.router.post('/orders', this.handle(this.createOrder));
+    this.router.post('/discounts/preview', this.handle(this.previewDiscount));
+    this.router.post('/orders/:id/payment-link', this.handle(this.createPaymentLink));
+    this.router.get('/orders/:id', this.handle(this.getOrder));
+    this.router.get('/orders/:id/status', this.handle(this.getOrderStatus));
+
+    this.router.use((req: Request, res: Response) => {
+      res.status(404).json({ error: { code: 'not_found', message: `No endpoint ${req.method} ${req.path}` } });
+    });
+    this.router.use(this.handleError.bind(this));
+  }
+
+  /**
+   * Bind a handler and forward rejections to the error handler
+   */
+  private handle(handler: (req: Request, res: Response) => Promise<void>) {
+    return (req: Request, res: Response, next: NextFunction) => {
+      handler.call(this, req, res).catch(next);
+    };
+  }
+
+  private async createOrder(req: Request, res: Response): Promise<void> {
+    const input = validateCreateOrder(req.body);
+
+    if (!this.orderService.isPaymentConfigured()) {
+      throw new ApiError(503, 'payment_unavailable', 'Ödeme sistemi şu anda kullanılamıyor');
+    }
+
+    if (input.discountCode) {
+      const preview = await this.orderService.previewDiscount(input.discountCode, input.orderRequest.phone || input.email);
+      if (!preview.isValid) {
+        throw new ApiError(422, 'invalid_discount', preview.message, [{ field: 'discountCode', message: preview.message }]);
+      }
+    }
+
+    // The code can still run out between the preview and the order
+    const result = await this.orderService.createWebOrder(input.orderRequest, input.userId, input.email, {
+      discountCode: input.discountCode,
+      locale: input.locale,
+    }).catch(error => {
+      if (error instanceof InvalidDiscountError) {
+        throw new ApiError(422, 'invalid_discount', error.message, [{ field: 'discountCode', message: error.message }]);
+      }
+      throw error;
+    });
+
+    res.status(201).json({
+      orderId: result.orderId,
+      status: result.paymentUrl ? 'payment_pending' : 'paid',
+      paymentUrl: result.paymentUrl,
+      totalPrice: result.totalPrice,
+      discountApplied: result.discountApplied,
+      finalPrice: result.finalPrice,
+    });
+  }
+
+  private async previewDiscount(req: Request, res: Response): Promise<void> {
+    const { code, email, phone } = req.body || {};
+    if (typeof code !== 'string' || code.trim().length === 0) {
+      throw new ApiError(400, 'validation_failed', 'Eksik veya geçersiz alanlar', [{ field: 'code', message: 'is required' }]);
+    }
+
+    const customer = typeof phone === 'string' && phone
+      ? WhatsAppService.formatPhoneNumber(phone)
+      : typeof email === 'string' ? email.trim().toLowerCase() : '';
+    const preview = await this.orderService.previewDiscount(code.trim(), customer);
+
+    res.json({
+      valid: preview.isValid,
+      message: preview.message,
+      basePrice: preview.basePrice,
+      discountAmount: preview.discountAmount,
+      finalPrice: preview.finalPrice,
+    });
+  }
+
+  private async createPaymentLink(req: Request, res: Response): Promise<void> {
+    const order = await this.findCustomerOrder(req.params.id, req.body?.email);
+
+    // WhatsApp orders get their payment link in the chat
+    if (order.channel !== 'email') {
+      throw new ApiError(404, 'order_not_found', 'Sipariş bulunamadı');
+    }
+
+    if (order.status !== 'payment_pending') {
+      throw new ApiError(409, 'order_not_payable', `Sipariş ödeme beklemiyor (durum: ${order.status})`);
+    }
+    if (!this.orderService.isPaymentConfigured()) {
+      throw new ApiError(503, 'payment_unavailable', 'Ödeme sistemi şu anda kullanılamıyor');
+    }
+
+    const paymentUrl = await this.orderService.createWebPaymentLink(order);
+    res.json({ orderId: order.id, paymentUrl, totalPrice: order.totalPrice });
+  }
+
+  private async getOrder(req: Request, res: Response): Promise<void> {
+    const order = await this.findCustomerOrder(req.params.id, req.query.email);
+
+    res.json({
+      orderId: order.id,
+      status: order.status,
+      song: order.orderData.song1,
+      recipientName: order.orderData.recipientName,
+      totalPrice: order.totalPrice,
+      discountAmount: order.discountAmount || 0,
+      lyrics: order.song1Lyrics || null,
+      audioUrl: order.status === 'completed' ? deliveredSongUrl(order) || null : null,
+      shareUrl: order.status === 'completed' ? deliveredPageUrl(order) || null : null,
+      videoUrl: order.status === 'completed' ? order.videoUrl || null : null,
+      createdAt: order.createdAt,
+      paidAt: order.paidAt || null,
+      completedAt: order.completedAt || null,
+      estimatedDelivery: order.estimatedDelivery || null,
+    });
+  }
+
+  private async getOrderStatus(req: Request, res: Response): Promise<void> {
+    const order = await this.findOrder(req.params.id);
+
+    const remainingMs = order.estimatedDelivery ? new Date(order.estimatedDelivery).getTime() - Date.now() : 0;
+    const status: OrderStatus = {
+      orderId: order.id,
+      status: order.status,
+      progress: {
+        song1Lyrics: !!order.song1Lyrics,
+        song2Lyrics: !!order.song2Lyrics,
+        song1Music: !!order.song1AudioUrl,
+        song2Music: !!order.song2AudioUrl,
+        video: !!order.videoUrl || !order.orderData.deliveryOptions?.video,
+      },
+      completionPercentage: STATUS_PROGRESS[order.status] ?? 0,
+      estimatedTimeRemaining: order.status === 'completed' || order.status === 'failed'
+        ? 0
+        : Math.max(0, Math.round(remainingMs / 60000)),
+    };
+
+    res.json(status);
+  }
+
+  private async findOrder(orderId: string): Promise<Order> {
+    if (!/^[A-Za-z0-9]{8,64}$/.test(orderId)) {
+      throw new ApiError(404, 'order_not_found', 'Sipariş bulunamadı');
+    }
+
+    const order = await this.orderService.getOrder(orderId);
+    if (!order) {
+      throw new ApiError(404, 'order_not_found', 'Sipariş bulunamadı');
+    }
+    return order;
+  }
+
+  /**
+   * Order only for the customer who placed it (same 404 to not reveal existence)
+   */
+  private async findCustomerOrder(orderId: string, email: unknown): Promise<Order> {
+    const order = await this.findOrder(orderId);
+
+    const normalized = typeof email === 'string' ? email.trim().toLowerCase() : '';
+    if (!normalized || order.customerEmail?.toLowerCase() !== normalized) {
+      throw new ApiError(404, 'order_not_found', 'Sipariş bulunamadı');
+    }
+    return order;
+  }
+
+  private handleError(err: any, req: Request, res: Response, next: NextFunction): void {
+    if (err instanceof ApiError) {
+      res.status(err.status).json({ error: { code: err.code, message: err.message, details: err.details } });
+      return;
+    }
+
+    console.error(`API error on ${req.method} ${req.originalUrl}:`, err);
+    res.status(500).json({ error: { code: 'internal_error', message: 'Beklenmeyen bir hata oluştu' } });
+  }
+}
@@ -1,5 +1,10 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { OrderService } from '../services/order.service';
+import { FirebaseService } from '../services/firebase.service';
+import { DeliveryTrackingService } from '../services/delivery-tracking.service';
+import { BirdWebhookVerifier, WebhookRejectionReason } from '../services/bird-webhook-verifier';
+import { TelegramChannel } from '../services/channels/telegram.channel';
+import { config } from '../config/config';
 
 /**
  * Bird.com webhook format
@@ -9,9 +14,19 @@ import { OrderService } from '../services/order.service';
 export class WebhookRoutes {
   public router: Router;
   private orderService?: OrderService;
+  private firebaseService?: FirebaseService;
+  private deliveryTrackingService?: DeliveryTrackingService;
+  private telegramChannel?: TelegramChannel;
+  private verifier: BirdWebhookVerifier;
+  // Rejected webhook requests per reason (since start)
+  private rejections: Partial<Record<WebhookRejectionReason, number>> = {};
 
   constructor() {
     this.router = Router();
+    this.verifier = new BirdWebhookVerifier({
+      signingKey: config.bird.webhookSigningKey,
+      toleranceSeconds: config.bird.webhookToleranceSeconds,
+    });
     this.initializeRoutes();
   }
 
@@ -22,13 +37,37 @@ export class WebhookRoutes {
     this.orderService = orderService;
   }
 
+  /**
+   * Set Firebase service (inbound event store for deduplicating Bird retries)
+   */
+  setFirebaseService(firebaseService: FirebaseService): void {
+    this.firebaseService = firebaseService;
+  }
+
+  /**
+   * Set delivery tracking service (outbound message status events)
+   */
+  setDeliveryTrackingService(deliveryTrackingService: DeliveryTrackingService): void {
+    this.deliveryTrackingService = deliveryTrackingService;
+  }
+
+  /**
+   * Set Telegram channel (only when a bot token is configured)
+   */
+  setTelegramChannel(telegramChannel: TelegramChannel): void {
+    this.telegramChannel = telegramChannel;
+  }
+
   private initializeRoutes(): void {
     // Bird.com webhook endpoint
-    this.router.post('/bird', this.handleBirdWebhook.bind(this));
+    this.router.post('/bird', this.verifyBirdSignature.bind(this), this.handleBirdWebhook.bind(this));
 
     // Health check for webhook
     this.router.get('/bird', this.verifyWebhook.bind(this));
 
+    // Telegram Bot API updates
+    this.router.post('/telegram', this.handleTelegramWebhook.bind(this));
+
     // Suno AI callback endpoint
     this.router.post('/suno/callback', this.handleSunoCallback.bind(this));
   }
@@ -40,10 +79,49 @@ export class WebhookRoutes {
     res.status(200).json({
       status: 'ok',
       service: 'Bird.com WhatsApp Webhook',
+      signatureVerification: config.bird.webhookTestMode ? 'test_mode' : 'enabled',
+      rejections: this.rejections,
       timestamp: new Date().toISOString(),
     });
   }
 
+  /**
+   * Reject webhook requests without a valid Bird signature
+   * In test mode (BIRD_WEBHOOK_TEST_MODE=1) unsigned requests are let through,
+   * signed ones are still verified
+   */
+  private async verifyBirdSignature(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const signature = req.get(BirdWebhookVerifier.SIGNATURE_HEADER);
+    const timestamp = req.get(BirdWebhookVerifier.TIMESTAMP_HEADER);
+
+    if (config.bird.webhookTestMode && !signature) {
+      console.warn('⚠️ Unsigned Bird webhook accepted (test mode)');
+      next();
+      return;
+    }
+
+    const result = this.verifier.verify(signature, timestamp, `${config.bird.webhookBaseUrl}${req.originalUrl}`, req.rawBody);
+
+    if (result.valid) {
+      next();
+      return;
+    }
+
+    this.rejections[result.reason] = (this.rejections[result.reason] || 0) + 1;
+    console.warn(`🚫 Bird webhook rejected (${result.reason}) from ${req.ip}`);
+    res.status(401).json({ error: 'Invalid webhook signature' });
+
+    try {
+      await this.firebaseService?.logAnalytics('webhook_rejected', {
+        reason: result.reason,
+        ip: req.ip,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error('Error logging webhook rejection:', error);
+    }
+  }
+
   /**
    * Handle incoming Bird.com webhook events
    *
@@ -57,10 +135,11 @@ export class WebhookRoutes {
    *     "sender": { "contact": { "id": "...", "identifierValue": "+905551234567" } },
    *     "receiver": { "connector": { "id": "...", "identifierValue": "..." } },
    *     "body": {
-   *       "type": "text" | "image" | "video" | "audio" | "document",
+   *       "type": "text" | "image" | "video" | "audio" | "document" | "action",
    *       "text": { "text": "message content" },
    *       "image": { "url": "..." },
-   *       "video": { "url": "..." }
+   *       "video": { "url": "..." },
+   *       "action": { "type": "reply", "reply": { "text": "Onayla", "action": "confirm:yes" } }
    *     },
    *     "status": "delivered" | "sent" | "read" | "failed",
    *     "direction": "incoming" | "outgoing",
@@ -94,6 +173,10 @@ export class WebhookRoutes {
       if (service === 'channels') {
         switch (eventType) {
           case 'whatsapp.inbound':
+            if (await this.isRedelivery(payload)) {
+              console.log(`🔁 Duplicate inbound event dropped: ${payload.id}`);
+              break;
+            }
             await this.handleInboundMessage(payload);
             break;
 
@@ -117,6 +200,27 @@ export class WebhookRoutes {
     }
   }
 
+  /**
+   * Whether Bird already delivered this message (retries reuse payload.id)
+   * If the store is unavailable the event is processed rather than lost
+   */
+  private async isRedelivery(payload: any): Promise<boolean> {
+    if (!this.firebaseService || !payload?.id) {
+      return false;
+    }
+
+    try {
+      const isNew = await this.firebaseService.registerInboundEvent(
+        payload.id,
+        config.bird.inboundEventTtlHours * 60 * 60 * 1000
+      );
+      return !isNew;
+    } catch (error) {
+      console.error('Inbound event store unavailable, processing without deduplication:', error);
+      return false;
+    }
+  }
+
   /**
    * Handle incoming message from customer (whatsapp.inbound)
    */
@@ -144,8 +248,19 @@ export class WebhookRoutes {
     });
 
     try {
+      // Handle reply button / list selections (skip LLM parsing)
+      if (body.type === 'action') {
+        const reply = body.action?.reply;
+        if (reply?.action) {
+          await this.orderService.handleIncomingSelection(from, {
+            id: reply.action,
+            title: reply.text || reply.action,
+          });
+        }
+      }
+
       // Handle text messages
-      if (body.type === 'text') {
+      else if (body.type === 'text') {
         const text = body.text?.text;
         if (text) {
           await this.orderService.handleIncomingMessage(from, text);
@@ -199,10 +314,19 @@ export class WebhookRoutes {
       lastStatusAt: payload.lastStatusAt,
     });
 
-    // TODO: Update message status in database
-    // - sent
-    // - delivered
-    // - failed
+    if (!this.deliveryTrackingService) {
+      return;
+    }
+
+    try {
+      await this.deliveryTrackingService.handleStatusEvent(
+        payload.id,
+        payload.status,
+        payload.failure?.description || payload.reason
+      );
+    } catch (error) {
+      console.error('Error handling outbound message status:', error);
+    }
   }
 
   /**
@@ -216,9 +340,54 @@ export class WebhookRoutes {
       timestamp: payload.createdAt,
     });
 
-    // TODO: Handle interactions
-    // - read receipts
-    // - message reactions
+    const messageId = payload.messageId || payload.message?.id;
+    if (!messageId) {
+      return;
+    }
+
+    try {
+      if (payload.type === 'read') {
+        await this.deliveryTrackingService?.handleStatusEvent(messageId, 'read');
+      } else if (payload.type === 'reaction') {
+        const emoji = payload.reaction?.emoji || payload.emoji;
+        if (emoji && this.orderService) {
+          await this.orderService.handleReaction(messageId, emoji);
+        }
+      }
+    } catch (error) {
+      console.error('Error handling interaction:', error);
+    }
+  }
+
+  /**
+   * Handle Telegram Bot API update
+   * Telegram retries until it gets a 200, so updates are deduplicated by update_id
+   */
+  private async handleTelegramWebhook(req: Request, res: Response): Promise<void> {
+    if (!this.telegramChannel) {
+      res.sendStatus(404);
+      return;
+    }
+
+    if (!this.telegramChannel.verifySecret(req.get(TelegramChannel.SECRET_HEADER))) {
+      console.warn(`🚫 Telegram webhook rejected (invalid secret) from ${req.ip}`);
+      res.sendStatus(401);
+      return;
+    }
+
+    const update = req.body;
+    res.sendStatus(200);
+
+    try {
+      if (update?.update_id !== undefined && await this.isRedelivery({ id: `telegram:${update.update_id}` })) {
+        console.log(`🔁 Duplicate Telegram update dropped: ${update.update_id}`);
+        return;
+      }
+
+      await this.telegramChannel.handleUpdate(update);
+    } catch (error) {
+      console.error('Error processing Telegram update:', error);
+    }
   }
 
   /**
@@ -1,8 +1,18 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import type { SmsFallbackMode } from '../services/sms.service';
+import type { VariantDeliveryMode } from '../models/order.model';
 
 dotenv.config();
 
+function smsFallbackMode(value: string | undefined, fallback: SmsFallbackMode): SmsFallbackMode {
+  return value === 'never' || value === 'on_failure' || value === 'always' ? value : fallback;
+}
+
+function variantDeliveryMode(value: string | undefined, fallback: VariantDeliveryMode): VariantDeliveryMode {
+  return value === 'choice' || value === 'bundle' ? value : fallback;
+}
+
 export const config = {
   port: process.env.PORT || 3000,
   nodeEnv: process.env.NODE_ENV || 'development',
@@ -19,11 +29,104 @@ export const config = {
     model: process.env.OPENAI_MODEL || 'gpt-4-turbo-preview',
   },
 
+  // Speech-to-text for voice-note stories ('whisper' or 'stub')
+  transcription: {
+    provider: process.env.TRANSCRIPTION_PROVIDER || 'whisper',
+    model: process.env.WHISPER_MODEL || 'whisper-1',
+  },
+
+  // Conversation flow
+  conversation: {
+    // Consecutive free-text messages within this window are merged (multi-part stories)
+    aggregationWindowMs: parseInt(process.env.MESSAGE_AGGREGATION_WINDOW_MS || '4000', 10),
+  },
+
   // Bird.com WhatsApp API Configuration
   bird: {
     accessKey: process.env.BIRD_ACCESS_KEY || '',
     workspaceId: process.env.BIRD_WORKSPACE_ID || '',
     channelId: process.env.BIRD_CHANNEL_ID || '',
+    // WhatsApp template (HSM) namespace - templates are sent outside the 24h window
+    templateNamespace: process.env.BIRD_TEMPLATE_NAMESPACE || '',
+    // Redelivered webhooks with an already seen message id are dropped within this TTL
+    inboundEventTtlHours: parseInt(process.env.BIRD_INBOUND_EVENT_TTL_HOURS || '24', 10),
+    // Webhook signing key (Bird dashboard > webhook subscription)
+    webhookSigningKey: process.env.BIRD_WEBHOOK_SIGNING_KEY || '',
+    // Public URL the webhook subscription points to (part of the signed data)
+    webhookBaseUrl: process.env.BIRD_WEBHOOK_BASE_URL || process.env.BASE_URL || 'http://localhost:3000',
+    // Max age of a signed webhook request (replay protection)
+    webhookToleranceSeconds: parseInt(process.env.BIRD_WEBHOOK_TOLERANCE_SECONDS || '300', 10),
+    // Accept unsigned webhooks (local tools / curl) - never enable in production
+    webhookTestMode: process.env.BIRD_WEBHOOK_TEST_MODE === '1',
+    // Outbound send queue: channel throughput and attempts on 429 / 5xx before dead-lettering
+    rateLimitPerSecond: parseInt(process.env.BIRD_RATE_LIMIT_PER_SECOND || '10', 10),
+    maxSendAttempts: parseInt(process.env.BIRD_MAX_SEND_ATTEMPTS || '5', 10),
+  },
+
+  // SMS fallback for critical notifications ('netgsm' or 'fake', empty = disabled)
+  sms: {
+    provider: process.env.SMS_PROVIDER || '',
+    netgsm: {
+      usercode: process.env.NETGSM_USERCODE || '',
+      password: process.env.NETGSM_PASSWORD || '',
+      header: process.env.NETGSM_HEADER || '',
+    },
+    // Per message type: never | on_failure | always
+    fallback: {
+      payment_link: smsFallbackMode(process.env.SMS_FALLBACK_PAYMENT_LINK, 'on_failure'),
+      completion: smsFallbackMode(process.env.SMS_FALLBACK_COMPLETION, 'never'),
+      download_link: smsFallbackMode(process.env.SMS_FALLBACK_DOWNLOAD_LINK, 'on_failure'),
+    },
+  },
+
+  // Email for web orders ('smtp' or 'fake', empty = disabled)
+  // Local development: MailHog / Mailpit on localhost:1025
+  email: {
+    transport: process.env.EMAIL_TRANSPORT || '',
+    from: process.env.EMAIL_FROM || 'bihediye.art <siparis@bihediye.art>',
+    smtp: {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '1025', 10),
+      secure: process.env.SMTP_SECURE === '1',
+      user: process.env.SMTP_USER || '',
+      password: process.env.SMTP_PASSWORD || '',
+    },
+  },
+
+  // Audio quality gate before delivery ('ffmpeg' or 'fake', empty = disabled)
+  audioQa: {
+    analyzer: process.env.AUDIO_QA_ANALYZER || '',
+    ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+    // Suno generations discarded for failing the gate before the best one is delivered anyway
+    maxRegenerations: parseInt(process.env.AUDIO_QA_MAX_REGENERATIONS || '1', 10),
+  },
+
+  // Post-processing before upload: ID3 tags (title, lyrics, cover art) are always written,
+  // mastering (loudness normalization, fades) only with 'ffmpeg'
+  audioProcessing: {
+    mastering: process.env.AUDIO_MASTERING || '',
+    ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+    targetLufs: parseFloat(process.env.AUDIO_TARGET_LUFS || '-14'),
+    coverArtPath: process.env.AUDIO_COVER_ART_PATH || '',
+  },
+
+  // Generated cover art, SVG -> PNG ('rsvg' = librsvg's rsvg-convert, 'fake', empty = disabled)
+  coverArt: {
+    renderer: process.env.COVER_ART_RENDERER || '',
+    rsvgPath: process.env.RSVG_CONVERT_PATH || 'rsvg-convert',
+  },
+
+  // Telegram bot (optional second ordering channel)
+  telegram: {
+    botToken: process.env.TELEGRAM_BOT_TOKEN || '',
+    // secret_token given to setWebhook - checked on every update
+    webhookSecret: process.env.TELEGRAM_WEBHOOK_SECRET || '',
+  },
+
+  // Web chat widget (WebSocket ordering channel)
+  webChat: {
+    enabled: process.env.WEB_CHAT_ENABLED === '1',
+    path: process.env.WEB_CHAT_PATH || '/ws/chat',
   },
 
   // Firebase Configuration
@@ -45,6 +148,15 @@ export const config = {
     songBasePrice: parseInt(process.env.SONG_BASE_PRICE || '350', 10),
   },
 
+  // Suno returns two variants per song, delivered per product tier
+  // ('choice': customer picks one, 'bundle': both). Web orders always get both.
+  songVariants: {
+    standard: variantDeliveryMode(process.env.SONG_VARIANTS_STANDARD, 'choice'),
+    premium: variantDeliveryMode(process.env.SONG_VARIANTS_PREMIUM, 'bundle'),
+    // Without an answer the first variant is delivered after this many hours
+    choiceTimeoutHours: parseInt(process.env.SONG_VARIANTS_CHOICE_TIMEOUT_HOURS || '12', 10),
+  },
+
   // Google Analytics 4 Configuration
   ga4: {
     measurementId: process.env.GA4_MEASUREMENT_ID || '',
@@ -55,6 +167,8 @@ export const config = {
   admin: {
     username: process.env.ADMIN_USERNAME || '33563dddsdeaa387d0eb45dffffb4c73f77d7',
     password: process.env.ADMIN_PASSWORD || 'c23a85b74d86fa13904sasdad4882ba8asdascbfaa84e421bc',
+    // WhatsApp number notified when a payment link / song delivery keeps failing
+    alertPhone: process.env.ADMIN_ALERT_PHONE || '',
   },
 };
 
@@ -73,6 +187,14 @@ export const validateConfig = (): void => {
     errors.push('BIRD_ACCESS_KEY is required');
   }
 
+  if (config.sms.provider === 'netgsm' && !(config.sms.netgsm.usercode && config.sms.netgsm.password && config.sms.netgsm.header)) {
+    errors.push('NETGSM_USERCODE, NETGSM_PASSWORD and NETGSM_HEADER are required for SMS_PROVIDER=netgsm');
+  }
+
+  if (config.nodeEnv === 'production' && !config.bird.webhookSigningKey) {
+    errors.push('BIRD_WEBHOOK_SIGNING_KEY is required in production');
+  }
+
   // Firebase is optional if using default credentials
   // if (!config.firebase.serviceAccountPath) {
   //   errors.push('FIREBASE_SERVICE_ACCOUNT_PATH is required');
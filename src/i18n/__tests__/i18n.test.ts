@@ -0,0 +1,36 @@
+import { detectLocale, localeFromPhone, localizeOptions, t } from '..';
+import { CONFIRM_OPTIONS } from '../../services/conversation/selections';
+
+describe('i18n', () => {
+  describe('detectLocale', () => {
+    it('should detect the chat language from the first message', () => {
+      expect(detectLocale('Merhaba, annem için şarkı istiyorum')).toBe('tr');
+      expect(detectLocale('Hi, I would like a song for my mom')).toBe('en');
+      expect(detectLocale('Hallo, ich möchte ein Lied für meine Mutter')).toBe('de');
+      expect(detectLocale('مرحبا، أريد أغنية لأمي')).toBe('ar');
+    });
+
+    it('should return null when the message gives no clear signal', () => {
+      expect(detectLocale('Pop')).toBeNull();
+      expect(detectLocale('123')).toBeNull();
+    });
+  });
+
+  it('should fall back to the phone country code', () => {
+    expect(localeFromPhone('+905551234567')).toBe('tr');
+    expect(localeFromPhone('+4915112345678')).toBe('de');
+    expect(localeFromPhone('+81312345678')).toBeNull();
+  });
+
+  it('should fill placeholders and fall back to Turkish', () => {
+    expect(t('en', 'order.completed', { orderId: 'abc' })).toContain('Order No: abc');
+    expect(t(undefined, 'command.backAtFirstStep')).toBe('Zaten ilk adımdasınız 😊');
+  });
+
+  it('should localize option titles but keep ids', () => {
+    const options = localizeOptions(CONFIRM_OPTIONS, 'de');
+
+    expect(options.map(option => option.id)).toEqual(CONFIRM_OPTIONS.map(option => option.id));
+    expect(options[0].title).toBe('Bestätigen');
+  });
+});
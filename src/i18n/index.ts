@@ -0,0 +1,163 @@
+import { tr, MessageKey, MessageCatalog } from './messages/tr';
+import { en } from './messages/en';
+import { de } from './messages/de';
+import { ar } from './messages/ar';
+import { InteractiveOption } from '../services/whatsapp.service';
+
+export { MessageKey, MessageCatalog };
+
+export type Locale = 'tr' | 'en' | 'de' | 'ar';
+
+export const DEFAULT_LOCALE: Locale = 'tr';
+export const SUPPORTED_LOCALES: Locale[] = ['tr', 'en', 'de', 'ar'];
+
+const catalogs: Record<Locale, MessageCatalog> = { tr, en, de, ar };
+
+/**
+ * Language names as used in (Turkish) LLM prompts
+ */
+export const LOCALE_LANGUAGE_NAMES: Record<Locale, string> = {
+  tr: 'Türkçe',
+  en: 'İngilizce',
+  de: 'Almanca',
+  ar: 'Arapça',
+};
+
+// Date formats per locale - times are shown in Turkey time (delivery hours)
+const DATE_LOCALES: Record<Locale, string> = {
+  tr: 'tr-TR',
+  en: 'en-GB',
+  de: 'de-DE',
+  ar: 'ar',
+};
+
+/**
+ * Format a date for a customer message
+ */
+export function formatDate(
+  date: Date,
+  locale: Locale | undefined,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'short' }
+): string {
+  return date.toLocaleString(DATE_LOCALES[locale as Locale] || DATE_LOCALES[DEFAULT_LOCALE], {
+    timeZone: 'Europe/Istanbul',
+    ...options,
+  });
+}
+
+/**
+ * Global command words in every supported language
+ */
+export const COMMAND_WORDS = {
+  greeting: ['merhaba', 'hello', 'hi', 'hallo', 'مرحبا'],
+  cancel: ['iptal', 'cancel', 'abbrechen', 'إلغاء', 'الغاء'],
+  back: ['geri', 'back', 'zurück', 'zuruck', 'رجوع'],
+  help: ['yardim', 'yardım', 'help', 'hilfe', 'مساعدة'],
+  status: ['durum', 'siparişlerim', 'siparislerim', 'status', 'my orders', 'bestellungen', 'الحالة', 'طلباتي'],
+};
+
+/**
+ * Status questions outside a conversation ("şarkım ne zaman hazır?")
+ */
+export const STATUS_PHRASES = [
+  'ne zaman hazır', 'ne zaman gelir', 'hazır mı', 'siparişim', 'siparisim',
+  'when will', 'is my song ready', 'my order',
+  'wann ist', 'meine bestellung',
+  'متى', 'طلبي',
+];
+
+/**
+ * Yes / no answers in every supported language
+ */
+export const ANSWER_WORDS = {
+  yes: ['evet', 'yes', 'ja', 'نعم'],
+  no: ['hayır', 'hayir', 'no', 'nein', 'لا'],
+};
+
+/**
+ * Whole-word match - "ja" must not match "Jale'nin", phrases match consecutive words
+ */
+export function containsAnyWord(message: string, words: string[]): boolean {
+  const text = ` ${message.toLowerCase().split(/[^\p{L}\p{M}\p{N}]+/u).filter(Boolean).join(' ')} `;
+  return words.some(word => text.includes(` ${word.toLowerCase()} `));
+}
+
+/**
+ * Translate a message key, filling {placeholders}
+ * Falls back to Turkish for unknown locales
+ */
+export function t(locale: Locale | undefined, key: MessageKey, params: Record<string, string | number> = {}): string {
+  const catalog = catalogs[locale as Locale] || catalogs[DEFAULT_LOCALE];
+  const template = catalog[key] ?? tr[key];
+
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
+
+/**
+ * Localize button / list titles (ids are locale independent)
+ */
+export function localizeOptions(options: InteractiveOption[], locale: Locale | undefined): InteractiveOption[] {
+  if (!locale || locale === DEFAULT_LOCALE) {
+    return options;
+  }
+
+  const catalog = catalogs[locale] as Record<string, string>;
+  return options.map(option => ({
+    ...option,
+    title: catalog[`option.${option.id}`] || option.title,
+  }));
+}
+
+// Frequent words per language (first messages are short: greetings, "a song for my mom")
+const LOCALE_WORDS: Record<Exclude<Locale, 'ar'>, string[]> = {
+  tr: ['merhaba', 'selam', 'şarkı', 'sarki', 'için', 'icin', 'annem', 'babam', 'sevgilim', 'istiyorum', 'bir', 've', 'bana', 'nasıl'],
+  en: ['hello', 'hi', 'hey', 'song', 'my', 'for', 'the', 'please', 'want', 'would', 'like', 'mom', 'and', 'how'],
+  de: ['hallo', 'guten', 'tag', 'lied', 'für', 'meine', 'meinen', 'ich', 'möchte', 'bitte', 'und', 'ein', 'eine', 'wie'],
+};
+
+/**
+ * Detect the chat language from a message
+ * Returns null when the text gives no clear signal
+ */
+export function detectLocale(message: string): Locale | null {
+  if (/[\u0600-\u06FF]/.test(message)) {
+    return 'ar';
+  }
+
+  if (/[ğĞşŞıİ]/.test(message)) {
+    return 'tr';
+  }
+
+  const words = message.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  const scores = (Object.keys(LOCALE_WORDS) as Array<keyof typeof LOCALE_WORDS>).map(locale => ({
+    locale,
+    score: words.filter(word => LOCALE_WORDS[locale].includes(word)).length + (locale === 'de' && /[äß]/i.test(message) ? 1 : 0),
+  }));
+
+  const best = scores.sort((a, b) => b.score - a.score)[0];
+  if (best.score === 0 || best.score === scores[1].score) {
+    return null;
+  }
+
+  return best.locale;
+}
+
+/**
+ * Guess the language from the phone country code (weak signal)
+ */
+export function localeFromPhone(phone: string): Locale | null {
+  const cleaned = phone.replace(/[^\d+]/g, '');
+
+  if (cleaned.startsWith('+90')) return 'tr';
+  if (['+49', '+43', '+41'].some(code => cleaned.startsWith(code))) return 'de';
+  if (['+971', '+966', '+974', '+965', '+973', '+968', '+962', '+20'].some(code => cleaned.startsWith(code))) return 'ar';
+  if (['+44', '+1', '+353', '+61'].some(code => cleaned.startsWith(code))) return 'en';
+
+  return null;
+}
+
+export function isSupportedLocale(value: any): value is Locale {
+  return SUPPORTED_LOCALES.includes(value);
+}
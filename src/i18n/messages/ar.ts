@@ -0,0 +1,441 @@
+import { MessageCatalog } from './tr';
+
+/**
+ * Arabic messages
+ */
+export const ar: MessageCatalog = {
+  // Conversation flow
+  'welcome': `🎵 *أهلاً بك في bihediye.art!*
+
+أهدِ أحبّاءك أغنية خاصة مصنوعة بالذكاء الاصطناعي! 💝
+
+💰 {price} TL | ⏱️ التسليم خلال ساعتين
+
+*📝 طريقتان للطلب:*
+
+*1️⃣ اكتب كل شيء في رسالة واحدة:*
+مثال: "أغنية بوب رومانسية لأمي بصوت نسائي. اذكر اسمها عائشة. اعتنت بنا بكل تفانٍ لمدة 30 عاماً..."
+
+*2️⃣ خطوة بخطوة:*
+🎵 النوع: Pop, Rap, Jazz, Arabesk, كلاسيك, Rock, Metal, حنين
+🎭 الطابع: رومانسي، عاطفي، مرح، هادئ
+🎤 الصوت: نسائي، رجالي، لا يهم
+
+---
+💡 للإلغاء اكتب *"إلغاء"*`,
+  'footer.back': '💡 اكتب *"رجوع"* للعودة أو *"إلغاء"* للإلغاء.',
+
+  'songSettings.pickType': '🎵 اختر نوع الأغنية:',
+  'songSettings.pickTypeButton': 'اختر النوع',
+  'songSettings.pickStyle': '🎭 اختر طابع الأغنية:',
+  'songSettings.pickStyleButton': 'اختر الطابع',
+  'songSettings.pickVocal': '🎤 أي صوت تفضّل؟',
+  'songSettings.current': `🎵 *إعدادات الأغنية:*
+
+النوع: {type}
+الطابع: {style}
+الصوت: {vocal}
+
+اختر أو اكتب ما ينقص 😊`,
+  'songSettings.fallback': 'عذراً، لم أفهم تماماً 😊 للمتابعة سأختار {type}، {style}، {vocal}.',
+
+  'recipient.title': '💝 *معلومات الهدية:*',
+  'recipient.prompt': `💝 *معلومات الهدية:*
+
+ما صلة هذا الشخص بك؟ (أمي، حبيبتي، إلخ)
+هل تريد ذكر اسمه في الأغنية؟ (نعم/لا)
+ما اسمه؟ (إن وُجد)
+
+مثال: "أمي، نعم، فاطمة"`,
+  'recipient.relationQuestion': 'ما صلة هذا الشخص بك؟ (أمي، حبيبتي، إلخ)',
+  'recipient.nameQuestion': 'هل تريد ذكر اسمه في الأغنية؟ (نعم/لا)\nما اسمه؟ (إن وُجد)',
+  'recipient.fallbackRelation': 'عذراً، لم أفهم تماماً 😊 للمتابعة سأختار "{relation}" وبدون ذكر اسم.',
+  'recipient.fallbackName': 'لم أفهم الاسم، سنتابع بـ "Sevgili" (عزيزي) 😊',
+
+  'story.prompt': `📖 *احكِ لنا قصتك:*
+
+اكتب المشاعر والذكريات والقصة التي تريدها في الأغنية.
+
+💡 يمكنك إضافة طلبات خاصة (الإيقاع، الأسلوب، إلخ)
+🎙️ يمكنك إرسال رسالة صوتية بدلاً من الكتابة.
+
+مثال:
+"نحن متزوجان منذ 10 سنوات وتجاوزنا كل الصعاب معاً...
+
+ملاحظة: إيقاع هادئ من فضلك"`,
+  'story.notAudio': 'يمكنك إرسال قصتك كتابةً أو كرسالة صوتية 😊',
+  'story.voiceUnavailable': 'لا يمكننا استقبال الرسائل الصوتية حالياً 🙏 يرجى كتابة قصتك.',
+  'story.transcribing': '🎙️ جارٍ تحويل رسالتك الصوتية إلى نص...',
+  'story.transcriptionEmpty': 'لم نتمكن من فهم رسالتك الصوتية 😔 أعد إرسالها أو اكتبها.',
+  'story.transcribed': `🎙️ *هذا ما فهمناه من رسالتك:*
+
+"{text}"`,
+  'story.transcriptionConfirm': 'هل هذا صحيح؟ إذا أكدت سنستخدمه كقصتك.',
+  'story.transcriptionRetry': 'حسناً 😊 أعد إرسال الرسالة الصوتية أو اكتب قصتك.',
+  'story.transcriptionFailed': 'تعذّرت معالجة رسالتك الصوتية 😔 يرجى كتابة قصتك.',
+
+  'story.tooLong': 'الرسالة طويلة جداً ({length} حرفاً). يرجى الكتابة في أقل من 1200 حرف.',
+  'story.tooShort': `هل يمكنك إعطاؤنا تفاصيل أكثر؟ 😊
+
+اكتب قصتك وأي طلبات خاصة (بضع جمل على الأقل).`,
+  'story.received': '✅ استلمنا قصتك! ستكون أغنية رائعة 💝',
+
+  'confirm.summary': `📋 *ملخص الطلب*
+
+🎵 {song}
+👤 {recipient}
+
+{pricing}
+
+⏰ التسليم خلال ساعتين{discountPrompt}
+
+1️⃣ تأكيد
+2️⃣ إلغاء
+
+✏️ *للتعديل:*
+3️⃣ النوع / الطابع / الصوت
+4️⃣ الشخص / الاسم
+5️⃣ القصة
+
+---
+💡 اكتب *"رجوع"* للعودة أو *"إلغاء"* للإلغاء.`,
+  'confirm.price': '💰 *الإجمالي: {price} TL*',
+  'confirm.priceDiscounted': `💰 *السعر: {basePrice} TL*
+🎁 *الخصم: -{discount} TL* ({code})
+✨ *الإجمالي: {price} TL*`,
+  'confirm.discountPrompt': '\n\n🎁 *هل لديك رمز خصم؟* اكتبه أو أكّد مباشرة.',
+  'confirm.discountApplied': '{message}\n\nملخص الطلب المحدّث:',
+  'confirm.discountInvalid': `{message}
+
+هل تريد المتابعة على أي حال؟
+1️⃣ نعم
+2️⃣ لا`,
+  'confirm.confirmed': '✅ رائع! جارٍ إنشاء طلبك...',
+  'confirm.chooseEdit': '✏️ ماذا تريد أن تعدّل؟',
+  'confirm.chooseEditButton': 'تعديل',
+  'confirm.unclear': '❌ هل تؤكد الطلب؟ اكتب "نعم" أو "لا".',
+
+  // Global commands
+  'command.cancelled': '❌ تم إلغاء الطلب. لطلب جديد اكتب "مرحبا".',
+  'command.cancelAfterPayment': `⚠️ *لا يمكن الإلغاء بعد إتمام الدفع.*
+
+لأي مشكلة يرجى التواصل معنا:
+📧 destek@bihediye.art
+
+طلبك قيد المعالجة...`,
+  'command.backAtFirstStep': 'أنت بالفعل في الخطوة الأولى 😊',
+  'command.backNotAllowed': '⚠️ لا يمكن الرجوع في هذه المرحلة.',
+  'command.help': `📚 *مساعدة*
+
+الأوامر:
+• "مرحبا" - بدء طلب جديد
+• "إلغاء" - إلغاء الطلب الحالي
+• "رجوع" - العودة خطوة
+• "الحالة" - حالة طلباتك
+• "مساعدة" - عرض هذه الرسالة
+
+الدعم: support@bihediye.art`,
+  'command.startFirst': 'يرجى بدء طلب أولاً. اكتب "مرحبا".',
+  'command.mediaNotAccepted': 'لا يمكننا استقبال الرسائل الصوتية في هذه الخطوة 🙏 يرجى كتابة إجابتك.',
+
+  'status.header': '📦 *طلباتك*',
+  'status.none': 'ليس لديك أي طلب بعد. اكتب "مرحبا" للبدء 😊',
+  'status.order': '🎵 *{songType}* · {date}\nرقم الطلب: {orderId}\nالحالة: {status}',
+  'status.queuePosition': '🔢 ترتيبك في قائمة الانتظار: {position}',
+  'status.progress': '📊 التقدّم: {progress}%',
+  'status.eta': '⏱️ الوقت المتوقع: ~{minutes} دقيقة',
+  'status.etaSoon': '⏱️ سيكون جاهزاً قريباً جداً!',
+  'status.footer': '💡 اكتب "مرحبا" لطلب جديد أو "مساعدة" للمساعدة.',
+  'status.payment_pending': '💳 بانتظار الدفع',
+  'status.paid': '✅ تم استلام الدفع',
+  'status.pending': '⏳ في قائمة الانتظار',
+  'status.lyrics_generating': '📝 تتم كتابة الكلمات / بانتظار موافقتك',
+  'status.music_generating': '🎵 يتم إنتاج الموسيقى',
+  'status.variant_selection': '🎧 أغنيتك جاهزة - بانتظار اختيارك للنسخة',
+  'status.video_generating': '🎬 يتم تحضير الفيديو',
+  'status.completed': '🎉 اكتمل',
+  'status.failed': '⚠️ حدثت مشكلة - فريق الدعم يتابعها',
+
+  // Order lifecycle
+  'order.paymentLink': `✅ *تم إنشاء الطلب!*
+
+🎵 رقم الطلب: {orderId}
+💰 المبلغ: {price} TL
+
+*للدفع:*
+👉 {url}
+
+⏰ الرابط صالح لمدة 30 دقيقة.
+
+سنبدأ بتحضير أغنيتك بعد إتمام الدفع!
+
+---
+
+💡 *الخيارات:*
+• اكتب *"1"* للحصول على رابط جديد
+• اكتب رمز الخصم إن وُجد
+• اكتب *"إلغاء"* لإلغاء الطلب`,
+  'order.paymentLinkFailed': '❌ تعذّر إنشاء رابط الدفع. يرجى المحاولة لاحقاً.',
+  'order.freeConfirmed': `🎉 *تم تأكيد طلبك!*
+
+🎵 رقم الطلب: {orderId}
+💰 المبلغ: 0 TL (هدية منّا! 🎁)
+
+بدأنا بتحضير أغنيتك! سيتم التسليم خلال ساعتين.
+
+شكراً لك! ❤️`,
+  'order.freeLyricsStarted': `🎁 *تم تأكيد الطلب!*
+
+🎵 رقم الطلب: {orderId}
+💰 0 TL (هدية منّا! 🎁)
+
+جارٍ كتابة كلمات أغنيتك... ⏳
+
+📍 تابع طلبك من هنا:
+{trackUrl}`,
+  'order.paymentUnavailable': `❌ *نظام الدفع غير متاح*
+
+نظام الدفع لدينا غير مُعدّ حالياً.
+
+يرجى المحاولة لاحقاً أو التواصل مع الدعم:
+📧 support@bihediye.art
+
+رقم طلبك: {orderId}`,
+  'order.createFailed': '❌ حدث خطأ أثناء إنشاء الطلب: {message}',
+  'order.waitingForPayment': `⏳ *بانتظار الدفع...*
+
+يرجى إتمام الدفع عبر رابط الدفع.
+
+💡 *الخيارات:*
+• اكتب *"1"* للحصول على رابط جديد
+• اكتب رمز الخصم إن وُجد
+• اكتب *"إلغاء"* لإلغاء الطلب`,
+  'order.newPaymentLink': '🔄 جارٍ إنشاء رابط دفع جديد...',
+  'order.noPendingOrder': `❌ لا يوجد طلب بانتظار الدفع.
+
+لطلب جديد اكتب "مرحبا".`,
+  'order.discountFree': `🎁 *تم تطبيق رمز الخصم!*
+
+{message}
+
+💰 المبلغ الجديد: 0 TL (هدية منّا! 🎁)
+
+سيتم تحضير طلبك دون دفع! 🎵`,
+  'order.discountApplied': `✅ *تم تطبيق رمز الخصم!*
+
+{message}
+
+💰 المبلغ السابق: {oldPrice} TL
+🎁 الخصم: -{discount} TL
+✨ المبلغ الجديد: {price} TL
+
+جارٍ إنشاء رابط دفع جديد... 🔄`,
+  'order.paymentSuccess': `✅ *تم الدفع بنجاح!*
+
+🎵 رقم الطلب: {orderId}
+💰 {price} TL
+
+جارٍ كتابة كلمات أغنيتك... ⏳
+
+📍 تابع طلبك من هنا:
+{trackUrl}`,
+  'order.lyricsReady': `📝 *كلمات أغنيتك جاهزة!*
+
+{lyrics}
+
+---
+
+✨ *يمكنك طلب تعديل الكلمات حتى مرتين.*`,
+  'order.lyricsQuestion': `ماذا تريد أن تفعل؟
+1️⃣ موافقة (البدء بالموسيقى)
+2️⃣ طلب تعديل (اكتب الجزء الذي تريد تغييره)
+3️⃣ سأكتبها بنفسي (أرسل كلماتك بتنسيق Suno AI)
+
+---
+💡 الدعم: destek@bihediye.art`,
+  'order.completed': `🎉 *طلبك جاهز!*
+
+🎵 رقم الطلب: {orderId}
+
+أغانيك ومقاطع الفيديو جاهزة! ستجد ملفاتك أدناه.
+
+شكراً لهديتك! ❤️`,
+  'order.shareLink': '🔗 صفحة أغنيتك (استمع، حمّل وشاركها مع أحبائك):\n{url}',
+  'order.reactionThanks': '💝 يسعدنا كثيرًا أن الأغنية أعجبتك! شكرًا لمشاركتنا رأيك.',
+  'order.error': `⚠️ *معالجة الطلب*
+
+🎵 رقم الطلب: {orderId}
+
+للأسف لا يمكن معالجة طلبك حالياً.
+
+📞 يرجى التواصل مع فريق الدعم:
+support@bihediye.art
+
+شكراً لتفهمك.`,
+  'order.confirmation': `✅ *تم استلام طلبك!*
+
+🎵 رقم الطلب: {orderId}
+💰 المبلغ الإجمالي: {price} TL
+⏰ موعد التسليم المتوقع: {delivery}
+
+طلبك قيد المعالجة. سنرسل لك أغانيك فور جاهزيتها.
+
+خلال ساعات العمل يتم التسليم في غضون ساعتين!
+
+شكراً لك! 🎁`,
+  'order.progress': `⏳ *حالة الطلب*
+
+🎵 رقم الطلب: {orderId}
+📊 التقدم: {progressBar} {progress}%
+💬 الحالة: {status}
+
+يتم تجهيز أغانيك، يرجى الانتظار...`,
+  'order.progress.lyrics': 'جارٍ كتابة الكلمات...',
+  'order.progress.musicReady': 'الموسيقى جاهزة!',
+  'order.progress.video': 'جارٍ إنشاء الفيديو...',
+  'order.progress.completed': 'اكتمل!',
+  'order.videoCaption': 'فيديو هديتك 🎬',
+
+  'lyrics.askRevision': '✏️ ماذا تريد أن تغيّر في الكلمات؟ اكتب طلبك.',
+  'lyrics.revising': '✏️ فهمت! جارٍ تعديل الكلمات...',
+  'lyrics.unclear': '❓ هل توافق على الكلمات أم تريد تعديلات؟\n\n1️⃣ موافقة\n2️⃣ أريد تعديلات\n3️⃣ سأكتبها بنفسي',
+  'lyrics.approved': '✅ تمت الموافقة على الكلمات! نتابع...',
+  'lyrics.writeOwn': `📝 *رائع! يمكنك كتابة كلماتك بنفسك.*
+
+*تنسيق Suno AI (استخدم العناوين):*
+
+**[Intro]** - المقدمة (موسيقى فقط)
+**[Verse]** - المقطع (يروي القصة)
+**[Pre-Chorus]** - الانتقال قبل اللازمة
+**[Chorus]** - اللازمة (الجزء الذي يعلق بالذهن)
+**[Bridge]** - الجسر (لحن/إحساس مختلف)
+**[Instrumental Break]** - فاصل موسيقي
+**[Outro]** - الخاتمة
+
+**مثال على الترتيب:**
+[Intro]
+[Verse]
+[Pre-Chorus]
+[Chorus]
+[Verse]
+[Chorus]
+[Bridge]
+[Chorus]
+[Outro]
+
+اكتب كلماتك الآن بهذا التنسيق وأرسلها! 🎵`,
+  'lyrics.formatting': '⏳ نحوّل كلماتك إلى تنسيق Suno AI...',
+  'lyrics.formatFailed': '❌ حدث خطأ أثناء تنسيق كلماتك: {message}\n\nيرجى المحاولة مرة أخرى أو إرسال كلمات أخرى.',
+  'lyrics.customReceived': `✅ *تم استلام الكلمات!*
+
+{lyrics}
+
+---
+
+نبدأ الآن بالموسيقى! 🎵`,
+  'lyrics.revisionLimit': `❌ لقد استخدمت كل التعديلات المتاحة (2/2).
+
+تمت الموافقة على الكلمات كما هي. ننتقل إلى الموسيقى... 🎵`,
+  'lyrics.revised': `📝 *الكلمات بعد التعديل:*
+
+{lyrics}
+
+---
+
+✨ *التعديلات المتبقية: {remaining}/2*`,
+  'lyrics.revisedQuestion': `ماذا تريد أن تفعل؟
+1️⃣ موافقة (البدء بالموسيقى)
+2️⃣ تعديل مرة أخرى
+3️⃣ سأكتبها بنفسي (أرسل كلماتك بتنسيق Suno AI)
+
+---
+💡 الدعم: destek@bihediye.art`,
+  'lyrics.revisedQuestionFinal': `ماذا تريد أن تفعل؟
+1️⃣ موافقة (البدء بالموسيقى)
+2️⃣ لم تتبقَّ تعديلات
+3️⃣ سأكتبها بنفسي (أرسل كلماتك بتنسيق Suno AI)
+
+---
+💡 الدعم: destek@bihediye.art`,
+
+  // Song delivery
+  'delivery.songReady': `🎵 *أغنيتك الخاصة جاهزة!*
+
+اضغط على الرابط أدناه للاستماع إلى أغنيتك:
+
+{url}
+
+🎁 نتمنى لك ولمن ستهديه لحظات جميلة!`,
+  'delivery.songReadyCaption': '🎵 *أغنيتك الخاصة جاهزة!*\n\n🎁 نتمنى لك ولمن ستهديه لحظات جميلة!',
+
+  // SMS fallback (plain text, kept short)
+  'sms.paymentLink': 'bihediye.art: رابط الدفع لطلبك {orderId}: {url}',
+  'sms.completed': 'bihediye.art: طلبك {orderId} جاهز. شكرًا لك!',
+  'sms.downloadLink': 'bihediye.art: أغنيتك جاهزة! للاستماع والتنزيل: {url}',
+
+  // Song file title (ID3 tag)
+  'song.title': 'إلى {name}',
+  'song.titleDefault': 'أغنية خاصة لك',
+
+  // Cover art
+  'cover.caption': '🎨 *{title}* - غلاف أغنيتك',
+  'cover.occasion.birthday': 'عيد ميلاد',
+  'cover.occasion.anniversary': 'ذكرى سنوية',
+  'cover.occasion.valentines': 'عيد الحب',
+  'cover.occasion.mothers_day': 'عيد الأم',
+  'cover.occasion.fathers_day': 'عيد الأب',
+  'cover.occasion.wedding': 'زفاف',
+  'cover.occasion.graduation': 'تخرج',
+
+  // Song variants ("1 mi 2 mi?")
+  'variant.previews': `🎵 *أغنيتك جاهزة - نسختان!*
+
+أعددنا نسختين مختلفتين من أغنيتك. استمع واختر النسخة المفضلة لديك:
+
+{previews}`,
+  'variant.previewLine': '{number}️⃣ النسخة {number} ({duration})\n{url}',
+  'variant.question': '1 أم 2؟ أي نسخة تريد؟ 🎧',
+  'variant.invalid': 'يرجى الرد بـ 1 أو 2 لاختيار نسخة 🎧',
+  'variant.selected': '✅ اخترت النسخة {number}، اختيار رائع! أغنيتك في الطريق 🎁',
+  'variant.timedOut': '⏰ لم نتلقَّ اختيارك، لذلك نرسل لك النسخة {number} - نتمنى أن تعجبك! 🎁',
+
+  // Email notifications (web orders)
+  'email.orderReceived.subject': 'تم استلام طلبك - {orderId}',
+  'email.orderReceived.title': 'تم استلام طلبك 🎁',
+  'email.orderReceived.body': 'شكرًا لاختيارك هدية الأغنية! سنبدأ في إعداد أغنيتك فور إتمام الدفع.',
+  'email.orderReceived.action': 'إتمام الدفع',
+  'email.paymentSuccess.subject': 'تم استلام الدفع - {orderId}',
+  'email.paymentSuccess.title': 'تم استلام الدفع ✅',
+  'email.paymentSuccess.body': 'تم تأكيد دفعتك بقيمة {price} ليرة تركية. تتم كتابة كلمات أغنيتك الآن، وسنرسل لك بريدًا إلكترونيًا عندما تصبح أغنيتك جاهزة.',
+  'email.lyricsReady.subject': 'كلمات أغنيتك جاهزة - {orderId}',
+  'email.lyricsReady.title': 'كلمات أغنيتك جاهزة 📝',
+  'email.lyricsReady.body': 'تمت كتابة كلمات أغنيتك ويجري تلحينها الآن. إليك الكلمات:',
+  'email.songDelivered.subject': 'أغنيتك جاهزة! 🎵 - {orderId}',
+  'email.songDelivered.title': 'أغنيتك جاهزة 🎉',
+  'email.songDelivered.body': 'أغنيتك الخاصة جاهزة. يمكنك الاستماع إليها وتنزيلها من الزر أدناه.',
+  'email.songDelivered.action': 'تنزيل الأغنية',
+  'email.orderNumber': 'رقم الطلب: {orderId}',
+  'email.footer': 'تم إرسال هذا البريد الإلكتروني بخصوص طلبك من bihediye.art.',
+
+  // Button / list titles (ids stay the same in every locale)
+  'option.style:Romantik': 'رومانسي',
+  'option.style:Duygusal': 'عاطفي',
+  'option.style:Eğlenceli': 'مرح',
+  'option.style:Sakin': 'هادئ',
+  'option.vocal:Kadın': 'نسائي',
+  'option.vocal:Erkek': 'رجالي',
+  'option.vocal:Fark etmez': 'لا يهم',
+  'option.confirm:yes': 'تأكيد',
+  'option.confirm:no': 'إلغاء',
+  'option.confirm:edit': 'تعديل',
+  'option.edit:song': 'النوع / الطابع / الصوت',
+  'option.edit:recipient': 'الشخص / الاسم',
+  'option.edit:story': 'القصة',
+  'option.lyrics:approve': 'موافقة',
+  'option.lyrics:revise': 'تعديل',
+  'option.lyrics:write_own': 'سأكتبها بنفسي',
+  'option.transcript:confirm': 'نعم، صحيح',
+  'option.transcript:retry': 'سأعيد الإرسال',
+  'option.variant:1': 'النسخة 1',
+  'option.variant:2': 'النسخة 2',
+};
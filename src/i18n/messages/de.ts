@@ -0,0 +1,441 @@
+import { MessageCatalog } from './tr';
+
+/**
+ * German messages
+ */
+export const de: MessageCatalog = {
+  // Conversation flow
+  'welcome': `🎵 *Willkommen bei bihediye.art!*
+
+Schenken Sie Ihren Liebsten einen persönlichen, mit KI erstellten Song! 💝
+
+💰 {price} TL | ⏱️ Lieferung in 2 Stunden
+
+*📝 ZWEI WEGE:*
+
+*1️⃣ ALLES IN EINER NACHRICHT:*
+Beispiel: "Ein romantischer Popsong für meine Mutter mit Frauenstimme. Ihr Name Ayşe soll vorkommen. Sie hat sich 30 Jahre lang aufopferungsvoll um uns gekümmert..."
+
+*2️⃣ SCHRITT FÜR SCHRITT:*
+🎵 Genre: Pop, Rap, Jazz, Arabesk, Klassik, Rock, Metal, Nostalgisch
+🎭 Stimmung: Romantisch, Gefühlvoll, Fröhlich, Ruhig
+🎤 Stimme: Weiblich, Männlich, Egal
+
+---
+💡 Abbrechen: *"abbrechen"* schreiben`,
+  'footer.back': '💡 *"zurück"* für den vorherigen Schritt, *"abbrechen"* zum Abbrechen.',
+
+  'songSettings.pickType': '🎵 Wählen Sie ein Genre:',
+  'songSettings.pickTypeButton': 'Genre wählen',
+  'songSettings.pickStyle': '🎭 Wählen Sie eine Stimmung:',
+  'songSettings.pickStyleButton': 'Stimmung wählen',
+  'songSettings.pickVocal': '🎤 Welche Stimme möchten Sie?',
+  'songSettings.current': `🎵 *Song-Einstellungen:*
+
+Genre: {type}
+Stimmung: {style}
+Stimme: {vocal}
+
+Wählen oder schreiben Sie die fehlenden Angaben 😊`,
+  'songSettings.fallback': 'Entschuldigung, das habe ich nicht ganz verstanden 😊 Damit es weitergeht, wähle ich {type}, {style}, {vocal}.',
+
+  'recipient.title': '💝 *Angaben zum Geschenk:*',
+  'recipient.prompt': `💝 *Angaben zum Geschenk:*
+
+Wer ist diese Person für Sie? (Meine Mutter, Mein Schatz, usw.)
+Soll ihr Name im Song vorkommen? (Ja/Nein)
+Wie heißt sie? (Falls ja)
+
+Beispiel: "Meine Mutter, Ja, Fatma"`,
+  'recipient.relationQuestion': 'Wer ist diese Person für Sie? (Meine Mutter, Mein Schatz, usw.)',
+  'recipient.nameQuestion': 'Soll ihr Name im Song vorkommen? (Ja/Nein)\nWie heißt sie? (Falls ja)',
+  'recipient.fallbackRelation': 'Entschuldigung, das habe ich nicht ganz verstanden 😊 Ich wähle "{relation}" und lasse den Namen weg.',
+  'recipient.fallbackName': 'Den Namen habe ich nicht verstanden, ich mache mit "Sevgili" (Liebling) weiter 😊',
+
+  'story.prompt': `📖 *Erzählen Sie Ihre Geschichte:*
+
+Schreiben Sie die Gefühle, Erinnerungen und die Geschichte, die im Song vorkommen sollen.
+
+💡 Sie können auch besondere Wünsche angeben (Tempo, Stil, usw.)
+🎙️ Statt zu schreiben, können Sie auch eine Sprachnachricht senden.
+
+Beispiel:
+"Wir sind seit 10 Jahren verheiratet und haben alles gemeinsam gemeistert...
+
+Hinweis: Bitte langsames Tempo"`,
+  'story.notAudio': 'Sie können Ihre Geschichte schreiben oder als Sprachnachricht senden 😊',
+  'story.voiceUnavailable': 'Sprachnachrichten können wir gerade nicht annehmen 🙏 Bitte schreiben Sie Ihre Geschichte.',
+  'story.transcribing': '🎙️ Ihre Sprachnachricht wird verschriftlicht...',
+  'story.transcriptionEmpty': 'Wir konnten Ihre Sprachnachricht nicht verstehen 😔 Bitte senden Sie sie erneut oder schreiben Sie.',
+  'story.transcribed': `🎙️ *So haben wir Sie verstanden:*
+
+"{text}"`,
+  'story.transcriptionConfirm': 'Ist das richtig? Wenn Sie bestätigen, verwenden wir es als Ihre Geschichte.',
+  'story.transcriptionRetry': 'Alles klar 😊 Senden Sie die Sprachnachricht erneut oder schreiben Sie Ihre Geschichte.',
+  'story.transcriptionFailed': 'Ihre Sprachnachricht konnte nicht verarbeitet werden 😔 Bitte schreiben Sie Ihre Geschichte.',
+
+  'story.tooLong': 'Die Nachricht ist zu lang ({length} Zeichen). Bitte unter 1200 Zeichen bleiben.',
+  'story.tooShort': `Können Sie uns etwas mehr erzählen? 😊
+
+Schreiben Sie Ihre Geschichte und besondere Wünsche (mindestens ein paar Sätze).`,
+  'story.received': '✅ Ihre Geschichte ist angekommen! Das wird ein toller Song 💝',
+
+  'confirm.summary': `📋 *Bestellübersicht*
+
+🎵 {song}
+👤 {recipient}
+
+{pricing}
+
+⏰ Lieferung in 2 Stunden{discountPrompt}
+
+1️⃣ Bestätigen
+2️⃣ Abbrechen
+
+✏️ *Bearbeiten:*
+3️⃣ Genre / Stimmung / Stimme
+4️⃣ Person / Name
+5️⃣ Geschichte
+
+---
+💡 *"zurück"* für den vorherigen Schritt, *"abbrechen"* zum Abbrechen.`,
+  'confirm.price': '💰 *Gesamt: {price} TL*',
+  'confirm.priceDiscounted': `💰 *Preis: {basePrice} TL*
+🎁 *Rabatt: -{discount} TL* ({code})
+✨ *Gesamt: {price} TL*`,
+  'confirm.discountPrompt': '\n\n🎁 *Haben Sie einen Rabattcode?* Schreiben Sie ihn oder bestätigen Sie direkt.',
+  'confirm.discountApplied': '{message}\n\nAktualisierte Bestellübersicht:',
+  'confirm.discountInvalid': `{message}
+
+Möchten Sie trotzdem fortfahren?
+1️⃣ Ja
+2️⃣ Nein`,
+  'confirm.confirmed': '✅ Super! Wir erstellen Ihre Bestellung...',
+  'confirm.chooseEdit': '✏️ Was möchten Sie bearbeiten?',
+  'confirm.chooseEditButton': 'Bearbeiten',
+  'confirm.unclear': '❌ Bestätigen Sie die Bestellung? Schreiben Sie "Ja" oder "Nein".',
+
+  // Global commands
+  'command.cancelled': '❌ Bestellung abgebrochen. Für eine neue Bestellung "hallo" schreiben.',
+  'command.cancelAfterPayment': `⚠️ *Nach der Zahlung ist keine Stornierung möglich.*
+
+Bei Problemen kontaktieren Sie uns bitte:
+📧 destek@bihediye.art
+
+Ihre Bestellung wird weiter bearbeitet...`,
+  'command.backAtFirstStep': 'Sie sind bereits beim ersten Schritt 😊',
+  'command.backNotAllowed': '⚠️ In diesem Schritt ist kein Zurück möglich.',
+  'command.help': `📚 *Hilfe*
+
+Befehle:
+• "hallo" - Neue Bestellung starten
+• "abbrechen" - Aktuelle Bestellung abbrechen
+• "zurück" - Einen Schritt zurück
+• "status" - Status Ihrer Bestellungen
+• "hilfe" - Diese Nachricht anzeigen
+
+Support: support@bihediye.art`,
+  'command.startFirst': 'Bitte starten Sie zuerst eine Bestellung. Schreiben Sie "hallo".',
+  'command.mediaNotAccepted': 'In diesem Schritt können wir keine Sprachnachrichten annehmen 🙏 Bitte schreiben Sie Ihre Antwort.',
+
+  'status.header': '📦 *Ihre Bestellungen*',
+  'status.none': 'Sie haben noch keine Bestellung. Schreiben Sie "hallo", um zu starten 😊',
+  'status.order': '🎵 *{songType}* · {date}\nBestellnr.: {orderId}\nStatus: {status}',
+  'status.queuePosition': '🔢 Ihr Platz in der Warteschlange: {position}',
+  'status.progress': '📊 Fortschritt: {progress} %',
+  'status.eta': '⏱️ Voraussichtlich: ~{minutes} Min.',
+  'status.etaSoon': '⏱️ Gleich fertig!',
+  'status.footer': '💡 "hallo" für eine neue Bestellung, "hilfe" für Hilfe.',
+  'status.payment_pending': '💳 Zahlung ausstehend',
+  'status.paid': '✅ Zahlung erhalten',
+  'status.pending': '⏳ In der Warteschlange',
+  'status.lyrics_generating': '📝 Songtext wird geschrieben / wartet auf Ihre Bestätigung',
+  'status.music_generating': '🎵 Musik wird produziert',
+  'status.variant_selection': '🎧 Ihr Song ist fertig - wartet auf Ihre Versionswahl',
+  'status.video_generating': '🎬 Video wird erstellt',
+  'status.completed': '🎉 Fertig',
+  'status.failed': '⚠️ Es gab ein Problem - unser Support kümmert sich darum',
+
+  // Order lifecycle
+  'order.paymentLink': `✅ *Bestellung erstellt!*
+
+🎵 Bestellnr.: {orderId}
+💰 Betrag: {price} TL
+
+*Zur Zahlung:*
+👉 {url}
+
+⏰ Der Link ist 30 Minuten gültig.
+
+Nach der Zahlung beginnen wir mit Ihrem Song!
+
+---
+
+💡 *Optionen:*
+• *"1"* schreiben für einen neuen Link
+• Rabattcode schreiben, falls vorhanden
+• *"abbrechen"* schreiben, um zu stornieren`,
+  'order.paymentLinkFailed': '❌ Der Zahlungslink konnte nicht erstellt werden. Bitte versuchen Sie es später erneut.',
+  'order.freeConfirmed': `🎉 *Ihre Bestellung ist bestätigt!*
+
+🎵 Bestellnr.: {orderId}
+💰 Betrag: 0 TL (Geht auf uns! 🎁)
+
+Wir beginnen mit Ihrem Song! Er wird innerhalb von 2 Stunden geliefert.
+
+Vielen Dank! ❤️`,
+  'order.freeLyricsStarted': `🎁 *Bestellung bestätigt!*
+
+🎵 Bestellnr.: {orderId}
+💰 0 TL (Geht auf uns! 🎁)
+
+Ihr Songtext wird geschrieben... ⏳
+
+📍 Verfolgen Sie Ihre Bestellung hier:
+{trackUrl}`,
+  'order.paymentUnavailable': `❌ *Zahlungen sind nicht verfügbar*
+
+Unser Zahlungssystem ist derzeit nicht eingerichtet.
+
+Bitte versuchen Sie es später erneut oder kontaktieren Sie den Support:
+📧 support@bihediye.art
+
+Ihre Bestellnummer: {orderId}`,
+  'order.createFailed': '❌ Fehler beim Erstellen der Bestellung: {message}',
+  'order.waitingForPayment': `⏳ *Wir warten auf Ihre Zahlung...*
+
+Bitte schließen Sie die Zahlung über den Zahlungslink ab.
+
+💡 *Optionen:*
+• *"1"* schreiben für einen neuen Link
+• Rabattcode schreiben, falls vorhanden
+• *"abbrechen"* schreiben, um zu stornieren`,
+  'order.newPaymentLink': '🔄 Neuer Zahlungslink wird erstellt...',
+  'order.noPendingOrder': `❌ Keine Bestellung wartet auf Zahlung.
+
+Für eine neue Bestellung "hallo" schreiben.`,
+  'order.discountFree': `🎁 *Rabattcode angewendet!*
+
+{message}
+
+💰 Neuer Betrag: 0 TL (Geht auf uns! 🎁)
+
+Ihre Bestellung wird ohne Zahlung vorbereitet! 🎵`,
+  'order.discountApplied': `✅ *Rabattcode angewendet!*
+
+{message}
+
+💰 Alter Betrag: {oldPrice} TL
+🎁 Rabatt: -{discount} TL
+✨ Neuer Betrag: {price} TL
+
+Neuer Zahlungslink wird erstellt... 🔄`,
+  'order.paymentSuccess': `✅ *Zahlung erfolgreich!*
+
+🎵 Bestellnr.: {orderId}
+💰 {price} TL
+
+Ihr Songtext wird geschrieben... ⏳
+
+📍 Verfolgen Sie Ihre Bestellung hier:
+{trackUrl}`,
+  'order.lyricsReady': `📝 *Ihr Songtext ist fertig!*
+
+{lyrics}
+
+---
+
+✨ *Sie können bis zu 2 Überarbeitungen anfordern.*`,
+  'order.lyricsQuestion': `Was möchten Sie tun?
+1️⃣ Bestätigen (Musik erstellen)
+2️⃣ Überarbeitung (schreiben Sie, was geändert werden soll)
+3️⃣ Selbst schreiben (eigenen Text im Suno-AI-Format senden)
+
+---
+💡 Support: destek@bihediye.art`,
+  'order.completed': `🎉 *Ihre Bestellung ist fertig!*
+
+🎵 Bestellnr.: {orderId}
+
+Ihre Songs und Videos sind fertig! Ihre Dateien finden Sie unten.
+
+Vielen Dank für Ihr Geschenk! ❤️`,
+  'order.shareLink': '🔗 Ihre Song-Seite (anhören, herunterladen und mit Ihren Liebsten teilen):\n{url}',
+  'order.reactionThanks': '💝 Wir freuen uns sehr, dass Ihnen Ihr Lied gefällt! Danke für Ihre Rückmeldung.',
+  'order.error': `⚠️ *Bestellbearbeitung*
+
+🎵 Bestellnr.: {orderId}
+
+Leider kann Ihre Bestellung gerade nicht bearbeitet werden.
+
+📞 Bitte kontaktieren Sie unser Support-Team:
+support@bihediye.art
+
+Vielen Dank für Ihr Verständnis.`,
+  'order.confirmation': `✅ *Bestellung Eingegangen!*
+
+🎵 Bestellnr.: {orderId}
+💰 Gesamtbetrag: {price} TL
+⏰ Voraussichtliche Lieferung: {delivery}
+
+Ihre Bestellung wird bearbeitet. Sobald Ihre Songs fertig sind, senden wir sie Ihnen.
+
+Während der Geschäftszeiten wird innerhalb von 2 Stunden geliefert!
+
+Vielen Dank! 🎁`,
+  'order.progress': `⏳ *Bestellstatus*
+
+🎵 Bestellnr.: {orderId}
+📊 Fortschritt: {progressBar} {progress}%
+💬 Status: {status}
+
+Ihre Songs werden vorbereitet, bitte warten Sie...`,
+  'order.progress.lyrics': 'Der Songtext wird geschrieben...',
+  'order.progress.musicReady': 'Die Musik ist fertig!',
+  'order.progress.video': 'Das Video wird erstellt...',
+  'order.progress.completed': 'Fertig!',
+  'order.videoCaption': 'Das Video zu Ihrem Geschenk 🎬',
+
+  'lyrics.askRevision': '✏️ Was möchten Sie am Songtext ändern? Schreiben Sie Ihren Wunsch.',
+  'lyrics.revising': '✏️ Verstanden! Wir überarbeiten den Songtext...',
+  'lyrics.unclear': '❓ Bestätigen Sie den Songtext oder möchten Sie Änderungen?\n\n1️⃣ Bestätigen\n2️⃣ Änderungen wünschen\n3️⃣ Selbst schreiben',
+  'lyrics.approved': '✅ Songtext bestätigt! Es geht weiter...',
+  'lyrics.writeOwn': `📝 *Super! Sie können Ihren eigenen Text schreiben.*
+
+*Suno-AI-Format (verwenden Sie die Überschriften):*
+
+**[Intro]** - Intro (instrumental)
+**[Verse]** - Strophe (erzählt die Geschichte)
+**[Pre-Chorus]** - Überleitung zum Refrain
+**[Chorus]** - Refrain (der eingängige Teil)
+**[Bridge]** - Bridge (andere Melodie/Stimmung)
+**[Instrumental Break]** - Instrumentales Zwischenspiel
+**[Outro]** - Schluss
+
+**Beispielreihenfolge:**
+[Intro]
+[Verse]
+[Pre-Chorus]
+[Chorus]
+[Verse]
+[Chorus]
+[Bridge]
+[Chorus]
+[Outro]
+
+Schreiben Sie Ihren Text jetzt in diesem Format und senden Sie ihn! 🎵`,
+  'lyrics.formatting': '⏳ Wir bringen Ihren Text ins Suno-AI-Format...',
+  'lyrics.formatFailed': '❌ Beim Formatieren Ihres Textes ist ein Fehler aufgetreten: {message}\n\nBitte versuchen Sie es erneut oder senden Sie einen anderen Text.',
+  'lyrics.customReceived': `✅ *Songtext erhalten!*
+
+{lyrics}
+
+---
+
+Wir beginnen mit der Musik! 🎵`,
+  'lyrics.revisionLimit': `❌ Sie haben alle Überarbeitungen genutzt (2/2).
+
+Der Songtext wird so übernommen. Weiter geht es mit der Musik... 🎵`,
+  'lyrics.revised': `📝 *Überarbeiteter Songtext:*
+
+{lyrics}
+
+---
+
+✨ *Verbleibende Überarbeitungen: {remaining}/2*`,
+  'lyrics.revisedQuestion': `Was möchten Sie tun?
+1️⃣ Bestätigen (Musik erstellen)
+2️⃣ Erneut überarbeiten
+3️⃣ Selbst schreiben (eigenen Text im Suno-AI-Format senden)
+
+---
+💡 Support: destek@bihediye.art`,
+  'lyrics.revisedQuestionFinal': `Was möchten Sie tun?
+1️⃣ Bestätigen (Musik erstellen)
+2️⃣ Keine Überarbeitungen mehr übrig
+3️⃣ Selbst schreiben (eigenen Text im Suno-AI-Format senden)
+
+---
+💡 Support: destek@bihediye.art`,
+
+  // Song delivery
+  'delivery.songReady': `🎵 *Ihr persönlicher Song ist fertig!*
+
+Tippen Sie auf den Link, um Ihren Song anzuhören:
+
+{url}
+
+🎁 Wir wünschen Ihnen und dem Beschenkten schöne Momente!`,
+  'delivery.songReadyCaption': '🎵 *Ihr persönlicher Song ist fertig!*\n\n🎁 Wir wünschen Ihnen und dem Beschenkten schöne Momente!',
+
+  // SMS fallback (plain text, kept short)
+  'sms.paymentLink': 'bihediye.art: Zahlungslink für Ihre Bestellung {orderId}: {url}',
+  'sms.completed': 'bihediye.art: Ihre Bestellung {orderId} ist fertig. Vielen Dank!',
+  'sms.downloadLink': 'bihediye.art: Ihr Song ist fertig! Anhören und herunterladen: {url}',
+
+  // Song file title (ID3 tag)
+  'song.title': 'Für {name}',
+  'song.titleDefault': 'Ein Lied nur für Sie',
+
+  // Cover art
+  'cover.caption': '🎨 *{title}* - das Cover Ihres Liedes',
+  'cover.occasion.birthday': 'Geburtstag',
+  'cover.occasion.anniversary': 'Jahrestag',
+  'cover.occasion.valentines': 'Valentinstag',
+  'cover.occasion.mothers_day': 'Muttertag',
+  'cover.occasion.fathers_day': 'Vatertag',
+  'cover.occasion.wedding': 'Hochzeit',
+  'cover.occasion.graduation': 'Abschluss',
+
+  // Song variants ("1 mi 2 mi?")
+  'variant.previews': `🎵 *Ihr Song ist fertig - 2 Versionen!*
+
+Wir haben zwei verschiedene Versionen Ihres Songs erstellt. Hören Sie rein und wählen Sie Ihren Favoriten:
+
+{previews}`,
+  'variant.previewLine': '{number}️⃣ Version {number} ({duration})\n{url}',
+  'variant.question': '1 oder 2? Welche Version möchten Sie? 🎧',
+  'variant.invalid': 'Bitte antworten Sie mit 1 oder 2, um eine Version zu wählen 🎧',
+  'variant.selected': '✅ Sie haben Version {number} gewählt, tolle Wahl! Ihr Song ist unterwegs 🎁',
+  'variant.timedOut': '⏰ Da wir keine Auswahl erhalten haben, senden wir Ihnen Version {number} - viel Freude damit! 🎁',
+
+  // Email notifications (web orders)
+  'email.orderReceived.subject': 'Ihre Bestellung ist eingegangen - {orderId}',
+  'email.orderReceived.title': 'Ihre Bestellung ist eingegangen 🎁',
+  'email.orderReceived.body': 'Vielen Dank für Ihr Song-Geschenk! Sobald Ihre Zahlung abgeschlossen ist, beginnen wir mit Ihrem Song.',
+  'email.orderReceived.action': 'Zahlung abschließen',
+  'email.paymentSuccess.subject': 'Zahlung erhalten - {orderId}',
+  'email.paymentSuccess.title': 'Zahlung erhalten ✅',
+  'email.paymentSuccess.body': 'Ihre Zahlung über {price} TL wurde bestätigt. Ihr Songtext wird jetzt geschrieben, wir schicken Ihnen eine E-Mail, sobald Ihr Song fertig ist.',
+  'email.lyricsReady.subject': 'Ihr Songtext ist fertig - {orderId}',
+  'email.lyricsReady.title': 'Ihr Songtext ist fertig 📝',
+  'email.lyricsReady.body': 'Der Text Ihres Songs ist geschrieben, jetzt wird die Musik komponiert. Hier ist der Text:',
+  'email.songDelivered.subject': 'Ihr Song ist fertig! 🎵 - {orderId}',
+  'email.songDelivered.title': 'Ihr Song ist fertig 🎉',
+  'email.songDelivered.body': 'Ihr persönlicher Song ist fertig. Über den Button unten können Sie ihn anhören und herunterladen.',
+  'email.songDelivered.action': 'Song herunterladen',
+  'email.orderNumber': 'Bestellnr.: {orderId}',
+  'email.footer': 'Diese E-Mail wurde für Ihre Bestellung bei bihediye.art gesendet.',
+
+  // Button / list titles (ids stay the same in every locale)
+  'option.style:Romantik': 'Romantisch',
+  'option.style:Duygusal': 'Gefühlvoll',
+  'option.style:Eğlenceli': 'Fröhlich',
+  'option.style:Sakin': 'Ruhig',
+  'option.vocal:Kadın': 'Weiblich',
+  'option.vocal:Erkek': 'Männlich',
+  'option.vocal:Fark etmez': 'Egal',
+  'option.confirm:yes': 'Bestätigen',
+  'option.confirm:no': 'Abbrechen',
+  'option.confirm:edit': 'Bearbeiten',
+  'option.edit:song': 'Genre/Stimmung/Stimme',
+  'option.edit:recipient': 'Person / Name',
+  'option.edit:story': 'Geschichte',
+  'option.lyrics:approve': 'Bestätigen',
+  'option.lyrics:revise': 'Überarbeiten',
+  'option.lyrics:write_own': 'Selbst schreiben',
+  'option.transcript:confirm': 'Ja, richtig',
+  'option.transcript:retry': 'Neu senden',
+  'option.variant:1': 'Version 1',
+  'option.variant:2': 'Version 2',
+};
@@ -0,0 +1,441 @@
+import { MessageCatalog } from './tr';
+
+/**
+ * English messages
+ */
+export const en: MessageCatalog = {
+  // Conversation flow
+  'welcome': `🎵 *Welcome to bihediye.art!*
+
+Gift your loved ones a personal song made with AI! 💝
+
+💰 {price} TL | ⏱️ 2-hour delivery
+
+*📝 TWO WAYS TO ORDER:*
+
+*1️⃣ TELL US EVERYTHING IN ONE MESSAGE:*
+Example: "A romantic pop song for my mom with a female voice. Mention her name, Ayşe. She has looked after us selflessly for 30 years..."
+
+*2️⃣ STEP BY STEP:*
+🎵 Genre: Pop, Rap, Jazz, Arabesk, Classical, Rock, Metal, Nostalgic
+🎭 Mood: Romantic, Emotional, Fun, Calm
+🎤 Vocal: Female, Male, No preference
+
+---
+💡 Cancel: type *"cancel"*`,
+  'footer.back': '💡 Type *"back"* to go back or *"cancel"* to cancel.',
+
+  'songSettings.pickType': '🎵 Choose a genre:',
+  'songSettings.pickTypeButton': 'Choose genre',
+  'songSettings.pickStyle': '🎭 Choose a mood:',
+  'songSettings.pickStyleButton': 'Choose mood',
+  'songSettings.pickVocal': '🎤 Which voice would you like?',
+  'songSettings.current': `🎵 *Song Settings:*
+
+Genre: {type}
+Mood: {style}
+Vocal: {vocal}
+
+Choose or type the missing ones 😊`,
+  'songSettings.fallback': 'Sorry, I didn\'t quite get that 😊 To keep going I\'m choosing {type}, {style}, {vocal}.',
+
+  'recipient.title': '💝 *Gift Details:*',
+  'recipient.prompt': `💝 *Gift Details:*
+
+Who is this person to you? (My mom, My partner, etc.)
+Should their name be in the song? (Yes/No)
+What is their name? (If included)
+
+Example: "My mom, Yes, Fatma"`,
+  'recipient.relationQuestion': 'Who is this person to you? (My mom, My partner, etc.)',
+  'recipient.nameQuestion': 'Should their name be in the song? (Yes/No)\nWhat is their name? (If included)',
+  'recipient.fallbackRelation': 'Sorry, I didn\'t quite get that 😊 To keep going I\'m choosing "{relation}" and leaving the name out.',
+  'recipient.fallbackName': 'I couldn\'t catch the name, continuing with "Sevgili" (dear) 😊',
+
+  'story.prompt': `📖 *Tell Us Your Story:*
+
+Write the feelings, memories and story you want in the song.
+
+💡 You can also add special requests (tempo, style, etc.)
+🎙️ You can send a voice message instead of typing.
+
+Example:
+"We've been married for 10 years and got through everything together...
+
+Note: Slow tempo please"`,
+  'story.notAudio': 'You can send your story as text or as a voice message 😊',
+  'story.voiceUnavailable': 'We can\'t accept voice messages right now 🙏 Please type your story.',
+  'story.transcribing': '🎙️ Transcribing your voice message...',
+  'story.transcriptionEmpty': 'We couldn\'t understand your voice message 😔 Please send it again or type it.',
+  'story.transcribed': `🎙️ *Here is what we heard:*
+
+"{text}"`,
+  'story.transcriptionConfirm': 'Is this correct? If you confirm, we\'ll use it as your story.',
+  'story.transcriptionRetry': 'Okay 😊 Send the voice message again or type your story.',
+  'story.transcriptionFailed': 'We couldn\'t process your voice message 😔 Please type your story.',
+
+  'story.tooLong': 'Your message is too long ({length} characters). Please keep it under 1200 characters.',
+  'story.tooShort': `Could you give us a bit more detail? 😊
+
+Write your story and any special requests (at least a few sentences).`,
+  'story.received': '✅ Got your story! This will be a great song 💝',
+
+  'confirm.summary': `📋 *Order Summary*
+
+🎵 {song}
+👤 {recipient}
+
+{pricing}
+
+⏰ 2-hour delivery{discountPrompt}
+
+1️⃣ Confirm
+2️⃣ Cancel
+
+✏️ *To edit:*
+3️⃣ Genre / Mood / Vocal
+4️⃣ Recipient / Name
+5️⃣ Story
+
+---
+💡 Type *"back"* to go back or *"cancel"* to cancel.`,
+  'confirm.price': '💰 *Total: {price} TL*',
+  'confirm.priceDiscounted': `💰 *Price: {basePrice} TL*
+🎁 *Discount: -{discount} TL* ({code})
+✨ *Total: {price} TL*`,
+  'confirm.discountPrompt': '\n\n🎁 *Have a discount code?* Type it or confirm directly.',
+  'confirm.discountApplied': '{message}\n\nUpdated order summary:',
+  'confirm.discountInvalid': `{message}
+
+Would you like to continue anyway?
+1️⃣ Yes
+2️⃣ No`,
+  'confirm.confirmed': '✅ Great! Creating your order...',
+  'confirm.chooseEdit': '✏️ What would you like to edit?',
+  'confirm.chooseEditButton': 'Edit',
+  'confirm.unclear': '❌ Do you confirm the order? Type "Yes" or "No".',
+
+  // Global commands
+  'command.cancelled': '❌ Order cancelled. Type "hello" to start a new order.',
+  'command.cancelAfterPayment': `⚠️ *Orders can't be cancelled after payment.*
+
+If anything is wrong, please contact us:
+📧 destek@bihediye.art
+
+Your order is still being processed...`,
+  'command.backAtFirstStep': 'You\'re already at the first step 😊',
+  'command.backNotAllowed': '⚠️ You can\'t go back at this stage.',
+  'command.help': `📚 *Help*
+
+Commands:
+• "hello" - Start a new order
+• "cancel" - Cancel the current order
+• "back" - Go back one step
+• "status" - Status of your orders
+• "help" - Show this message
+
+Support: support@bihediye.art`,
+  'command.startFirst': 'Please start an order first. Type "hello".',
+  'command.mediaNotAccepted': 'We can\'t accept voice messages at this step 🙏 Please type your answer.',
+
+  'status.header': '📦 *Your Orders*',
+  'status.none': 'You don\'t have any orders yet. Type "hello" to start one 😊',
+  'status.order': '🎵 *{songType}* · {date}\nOrder No: {orderId}\nStatus: {status}',
+  'status.queuePosition': '🔢 Your place in the queue: {position}',
+  'status.progress': '📊 Progress: {progress}%',
+  'status.eta': '⏱️ Estimated time: ~{minutes} min',
+  'status.etaSoon': '⏱️ Ready very soon!',
+  'status.footer': '💡 Type "hello" for a new order or "help" for help.',
+  'status.payment_pending': '💳 Waiting for payment',
+  'status.paid': '✅ Payment received',
+  'status.pending': '⏳ In the queue',
+  'status.lyrics_generating': '📝 Lyrics being written / waiting for your approval',
+  'status.music_generating': '🎵 Music being produced',
+  'status.variant_selection': '🎧 Your song is ready - waiting for your version choice',
+  'status.video_generating': '🎬 Video being prepared',
+  'status.completed': '🎉 Completed',
+  'status.failed': '⚠️ Something went wrong - our support team is on it',
+
+  // Order lifecycle
+  'order.paymentLink': `✅ *Order Created!*
+
+🎵 Order No: {orderId}
+💰 Amount: {price} TL
+
+*To pay:*
+👉 {url}
+
+⏰ The link is valid for 30 minutes.
+
+We'll start preparing your song once the payment is complete!
+
+---
+
+💡 *Options:*
+• Type *"1"* to get a new link
+• Type your discount code if you have one
+• Type *"cancel"* to cancel the order`,
+  'order.paymentLinkFailed': '❌ We couldn\'t create the payment link. Please try again later.',
+  'order.freeConfirmed': `🎉 *Your Order Is Confirmed!*
+
+🎵 Order No: {orderId}
+💰 Amount: 0 TL (It's on us! 🎁)
+
+We're starting on your song! It will be delivered within 2 hours.
+
+Thank you! ❤️`,
+  'order.freeLyricsStarted': `🎁 *Order Confirmed!*
+
+🎵 Order No: {orderId}
+💰 0 TL (It's on us! 🎁)
+
+Your lyrics are being written... ⏳
+
+📍 Track your order here:
+{trackUrl}`,
+  'order.paymentUnavailable': `❌ *Payments Are Unavailable*
+
+Our payment system is not configured at the moment.
+
+Please try again later or contact support:
+📧 support@bihediye.art
+
+Your order number: {orderId}`,
+  'order.createFailed': '❌ Error while creating your order: {message}',
+  'order.waitingForPayment': `⏳ *Waiting for your payment...*
+
+Please complete the payment using the payment link.
+
+💡 *Options:*
+• Type *"1"* to get a new link
+• Type your discount code if you have one
+• Type *"cancel"* to cancel the order`,
+  'order.newPaymentLink': '🔄 Creating a new payment link...',
+  'order.noPendingOrder': `❌ No order is waiting for payment.
+
+Type "hello" to start a new order.`,
+  'order.discountFree': `🎁 *Discount Code Applied!*
+
+{message}
+
+💰 New Amount: 0 TL (It's on us! 🎁)
+
+Your order will be prepared without payment! 🎵`,
+  'order.discountApplied': `✅ *Discount Code Applied!*
+
+{message}
+
+💰 Old Amount: {oldPrice} TL
+🎁 Discount: -{discount} TL
+✨ New Amount: {price} TL
+
+Creating a new payment link... 🔄`,
+  'order.paymentSuccess': `✅ *Payment Successful!*
+
+🎵 Order No: {orderId}
+💰 {price} TL
+
+Your lyrics are being written... ⏳
+
+📍 Track your order here:
+{trackUrl}`,
+  'order.lyricsReady': `📝 *Your Lyrics Are Ready!*
+
+{lyrics}
+
+---
+
+✨ *You can request up to 2 revisions of the lyrics.*`,
+  'order.lyricsQuestion': `What would you like to do?
+1️⃣ Approve (start the music)
+2️⃣ Request a revision (write the part you want changed)
+3️⃣ Write my own (send your own lyrics in Suno AI format)
+
+---
+💡 Support: destek@bihediye.art`,
+  'order.completed': `🎉 *Your Order Is Ready!*
+
+🎵 Order No: {orderId}
+
+Your songs and videos are ready! You'll find your files below.
+
+Thank you for your gift! ❤️`,
+  'order.shareLink': '🔗 Your song page (listen, download and share it with your loved ones):\n{url}',
+  'order.reactionThanks': '💝 We are so glad you love your song! Thank you for letting us know.',
+  'order.error': `⚠️ *Order Processing*
+
+🎵 Order No: {orderId}
+
+Unfortunately your order can't be processed right now.
+
+📞 Please contact our support team:
+support@bihediye.art
+
+Thank you for your understanding.`,
+  'order.confirmation': `✅ *Order Received!*
+
+🎵 Order No: {orderId}
+💰 Total: {price} TL
+⏰ Estimated Delivery: {delivery}
+
+Your order is being processed. We will send your songs as soon as they are ready.
+
+During business hours it is delivered within 2 hours!
+
+Thank you! 🎁`,
+  'order.progress': `⏳ *Order Status*
+
+🎵 Order No: {orderId}
+📊 Progress: {progressBar} {progress}%
+💬 Status: {status}
+
+Your songs are being prepared, please wait...`,
+  'order.progress.lyrics': 'Writing the lyrics...',
+  'order.progress.musicReady': 'Music is ready!',
+  'order.progress.video': 'Creating the video...',
+  'order.progress.completed': 'Completed!',
+  'order.videoCaption': 'The video of your gift 🎬',
+
+  'lyrics.askRevision': '✏️ What would you like to change in the lyrics? Type your request.',
+  'lyrics.revising': '✏️ Got it! Revising the lyrics...',
+  'lyrics.unclear': '❓ Do you approve the lyrics or would you like changes?\n\n1️⃣ Approve\n2️⃣ Request changes\n3️⃣ Write my own',
+  'lyrics.approved': '✅ Lyrics approved! Moving on...',
+  'lyrics.writeOwn': `📝 *Great! You can write your own lyrics.*
+
+*Suno AI Format (use the headers):*
+
+**[Intro]** - Intro music (instrumental)
+**[Verse]** - Verse (tells the story)
+**[Pre-Chorus]** - Build-up before the chorus
+**[Chorus]** - Chorus (the catchy part)
+**[Bridge]** - Bridge (different melody/mood)
+**[Instrumental Break]** - Instrumental break
+**[Outro]** - Ending
+
+**Example order:**
+[Intro]
+[Verse]
+[Pre-Chorus]
+[Chorus]
+[Verse]
+[Chorus]
+[Bridge]
+[Chorus]
+[Outro]
+
+Now write your lyrics in this format and send them! 🎵`,
+  'lyrics.formatting': '⏳ Converting your lyrics to Suno AI format...',
+  'lyrics.formatFailed': '❌ Something went wrong while formatting your lyrics: {message}\n\nPlease try again or send different lyrics.',
+  'lyrics.customReceived': `✅ *Lyrics Received!*
+
+{lyrics}
+
+---
+
+We're starting the music! 🎵`,
+  'lyrics.revisionLimit': `❌ You've used all your revisions (2/2).
+
+The lyrics are approved as they are. Moving on to the music... 🎵`,
+  'lyrics.revised': `📝 *Revised Lyrics:*
+
+{lyrics}
+
+---
+
+✨ *Revisions left: {remaining}/2*`,
+  'lyrics.revisedQuestion': `What would you like to do?
+1️⃣ Approve (start the music)
+2️⃣ Revise again
+3️⃣ Write my own (send your own lyrics in Suno AI format)
+
+---
+💡 Support: destek@bihediye.art`,
+  'lyrics.revisedQuestionFinal': `What would you like to do?
+1️⃣ Approve (start the music)
+2️⃣ No revisions left
+3️⃣ Write my own (send your own lyrics in Suno AI format)
+
+---
+💡 Support: destek@bihediye.art`,
+
+  // Song delivery
+  'delivery.songReady': `🎵 *Your Personal Song Is Ready!*
+
+Tap the link below to listen to your song:
+
+{url}
+
+🎁 We wish you and your loved one beautiful moments!`,
+  'delivery.songReadyCaption': '🎵 *Your Personal Song Is Ready!*\n\n🎁 We wish you and your loved one beautiful moments!',
+
+  // SMS fallback (plain text, kept short)
+  'sms.paymentLink': 'bihediye.art: payment link for your order {orderId}: {url}',
+  'sms.completed': 'bihediye.art: your order {orderId} is ready. Thank you!',
+  'sms.downloadLink': 'bihediye.art: your song is ready! Listen and download: {url}',
+
+  // Song file title (ID3 tag)
+  'song.title': 'For {name}',
+  'song.titleDefault': 'A Song Just for You',
+
+  // Cover art
+  'cover.caption': '🎨 *{title}* - your song cover',
+  'cover.occasion.birthday': 'Birthday',
+  'cover.occasion.anniversary': 'Anniversary',
+  'cover.occasion.valentines': "Valentine's Day",
+  'cover.occasion.mothers_day': "Mother's Day",
+  'cover.occasion.fathers_day': "Father's Day",
+  'cover.occasion.wedding': 'Wedding',
+  'cover.occasion.graduation': 'Graduation',
+
+  // Song variants ("1 mi 2 mi?")
+  'variant.previews': `🎵 *Your Song Is Ready - 2 Versions!*
+
+We made two different versions of your song. Listen and pick your favourite:
+
+{previews}`,
+  'variant.previewLine': '{number}️⃣ Version {number} ({duration})\n{url}',
+  'variant.question': '1 or 2? Which version would you like? 🎧',
+  'variant.invalid': 'Please reply 1 or 2 to pick a version 🎧',
+  'variant.selected': '✅ You picked version {number}, great choice! Your song is on its way 🎁',
+  'variant.timedOut': '⏰ We didn\'t hear back from you, so here is version {number} - we hope you love it! 🎁',
+
+  // Email notifications (web orders)
+  'email.orderReceived.subject': 'Your order has been received - {orderId}',
+  'email.orderReceived.title': 'Your order has been received 🎁',
+  'email.orderReceived.body': 'Thank you for your song gift! We will start creating your song as soon as your payment is complete.',
+  'email.orderReceived.action': 'Complete Payment',
+  'email.paymentSuccess.subject': 'Payment received - {orderId}',
+  'email.paymentSuccess.title': 'Payment received ✅',
+  'email.paymentSuccess.body': 'Your payment of {price} TL has been confirmed. Your lyrics are being written now, and we will email you when your song is ready.',
+  'email.lyricsReady.subject': 'Your lyrics are ready - {orderId}',
+  'email.lyricsReady.title': 'Your lyrics are ready 📝',
+  'email.lyricsReady.body': 'The lyrics of your song have been written and the music is being composed now. Here are the lyrics:',
+  'email.songDelivered.subject': 'Your song is ready! 🎵 - {orderId}',
+  'email.songDelivered.title': 'Your song is ready 🎉',
+  'email.songDelivered.body': 'Your personal song is finished. You can listen to it and download it with the button below.',
+  'email.songDelivered.action': 'Download Song',
+  'email.orderNumber': 'Order No: {orderId}',
+  'email.footer': 'This email was sent for your bihediye.art order.',
+
+  // Button / list titles (ids stay the same in every locale)
+  'option.style:Romantik': 'Romantic',
+  'option.style:Duygusal': 'Emotional',
+  'option.style:Eğlenceli': 'Fun',
+  'option.style:Sakin': 'Calm',
+  'option.vocal:Kadın': 'Female',
+  'option.vocal:Erkek': 'Male',
+  'option.vocal:Fark etmez': 'No preference',
+  'option.confirm:yes': 'Confirm',
+  'option.confirm:no': 'Cancel',
+  'option.confirm:edit': 'Edit',
+  'option.edit:song': 'Genre / Mood / Vocal',
+  'option.edit:recipient': 'Recipient / Name',
+  'option.edit:story': 'Story',
+  'option.lyrics:approve': 'Approve',
+  'option.lyrics:revise': 'Revise',
+  'option.lyrics:write_own': 'Write my own',
+  'option.transcript:confirm': 'Yes, correct',
+  'option.transcript:retry': 'I\'ll send it again',
+  'option.variant:1': 'Version 1',
+  'option.variant:2': 'Version 2',
+};
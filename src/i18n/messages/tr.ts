@@ -0,0 +1,443 @@
+/**
+ * Turkish messages (default locale - every other catalog must define the same keys)
+ * Placeholders: {name}
+ */
+export const tr = {
+  // Conversation flow
+  'welcome': `🎵 *bihediye.art'a hoş geldiniz!*
+
+Sevdiklerinize yapay zeka ile özel şarkı hediye edin! 💝
+
+💰 {price} TL | ⏱️ 2 saat teslimat
+
+*📝 İKİ YÖNTEM:*
+
+*1️⃣ TEK MESAJDA HER ŞEYİ YAZIN:*
+Örnek: "Annem için Pop tarzında Romantik bir şarkı, Kadın sesi olsun. İsmini geçsin, adı Ayşe. 30 yıldır bize fedakarlıkla baktı, her zaman yanımızda oldu..."
+
+*2️⃣ ADIM ADIM İLERLEYELİM:*
+🎵 Tür: Pop, Rap, Jazz, Arabesk, Klasik, Rock, Metal, Nostaljik
+🎭 Tarz: Romantik, Duygusal, Eğlenceli, Sakin
+🎤 Vokal: Kadın, Erkek, Fark etmez
+
+---
+💡 İptal: *"iptal"* yazın`,
+  'footer.back': '💡 Geri dönmek için *"geri"*, iptal etmek için *"iptal"* yazın.',
+
+  'songSettings.pickType': '🎵 Şarkı türünü seçin:',
+  'songSettings.pickTypeButton': 'Tür Seç',
+  'songSettings.pickStyle': '🎭 Şarkı tarzını seçin:',
+  'songSettings.pickStyleButton': 'Tarz Seç',
+  'songSettings.pickVocal': '🎤 Vokal tercihiniz:',
+  'songSettings.current': `🎵 *Şarkı Ayarları:*
+
+Tür: {type}
+Tarz: {style}
+Vokal: {vocal}
+
+Eksik olanları seçin veya yazın 😊`,
+  'songSettings.fallback': 'Üzgünüm, tam anlamadım 😊 Devam edebilmek için {type}, {style}, {vocal} seçiyorum.',
+
+  'recipient.title': '💝 *Hediye Bilgileri:*',
+  'recipient.prompt': `💝 *Hediye Bilgileri:*
+
+Bu kişi sizin neyiniz? (Annem, Sevgilim, vb.)
+Şarkıda ismini geçirmek ister misiniz? (Evet/Hayır)
+İsmi nedir? (Geçecekse)
+
+Örnek: "Annem, Evet, Fatma"`,
+  'recipient.relationQuestion': 'Bu kişi sizin neyiniz? (Annem, Sevgilim, vb.)',
+  'recipient.nameQuestion': 'Şarkıda ismini geçirmek ister misiniz? (Evet/Hayır)\nİsmi nedir? (Geçecekse)',
+  'recipient.fallbackRelation': 'Üzgünüm, tam anlamadım 😊 Devam edebilmek için "{relation}" seçiyorum ve isim kullanmadan devam ediyorum.',
+  'recipient.fallbackName': 'İsmi anlayamadım, "Sevgili" olarak devam ediyorum 😊',
+
+  'story.prompt': `📖 *Hikayenizi Anlatın:*
+
+Şarkıda geçmesini istediğiniz duyguları, anıları, hikayenizi yazın.
+
+💡 Varsa özel isteklerinizi de ekleyebilirsiniz (tempo, stil, vb.)
+🎙️ Yazmak yerine sesli mesaj da gönderebilirsiniz.
+
+Örnek:
+"10 yıldır evliyiz, her zorluğu birlikte atlattık...
+
+Not: Slow tempo olsun"`,
+  'story.notAudio': 'Hikayenizi yazarak veya sesli mesaj olarak gönderebilirsiniz 😊',
+  'story.voiceUnavailable': 'Sesli mesajları şu anda alamıyoruz 🙏 Lütfen hikayenizi yazarak gönderin.',
+  'story.transcribing': '🎙️ Sesli mesajınız yazıya çevriliyor...',
+  'story.transcriptionEmpty': 'Sesli mesajınızı anlayamadık 😔 Tekrar gönderebilir ya da yazabilirsiniz.',
+  'story.transcribed': `🎙️ *Sesli mesajınızı şöyle anladık:*
+
+"{text}"`,
+  'story.transcriptionConfirm': 'Doğru mu? Onaylarsanız hikayeniz olarak kullanacağız.',
+  'story.transcriptionRetry': 'Tamam 😊 Sesli mesajı tekrar gönderebilir ya da hikayenizi yazabilirsiniz.',
+  'story.transcriptionFailed': 'Sesli mesajınızı işleyemedik 😔 Lütfen hikayenizi yazarak gönderin.',
+
+  'story.tooLong': 'Mesaj çok uzun ({length} karakter). Lütfen 1200 karakter altında yazın.',
+  'story.tooShort': `Biraz daha detay verebilir misiniz? 😊
+
+Hikayenizi ve varsa özel isteklerinizi yazın (en az birkaç cümle).`,
+  'story.received': '✅ Hikayeniz alındı! Harika bir şarkı çıkacak 💝',
+
+  'confirm.summary': `📋 *Sipariş Özeti*
+
+🎵 {song}
+👤 {recipient}
+
+{pricing}
+
+⏰ 2 saat teslimat{discountPrompt}
+
+1️⃣ Onayla
+2️⃣ İptal
+
+✏️ *Düzenlemek için:*
+3️⃣ Tür / Tarz / Vokal
+4️⃣ Kişi / İsim
+5️⃣ Hikaye
+
+---
+💡 Geri dönmek için *"geri"*, iptal etmek için *"iptal"* yazın.`,
+  'confirm.price': '💰 *Toplam: {price} TL*',
+  'confirm.priceDiscounted': `💰 *Fiyat: {basePrice} TL*
+🎁 *İndirim: -{discount} TL* ({code})
+✨ *Toplam: {price} TL*`,
+  'confirm.discountPrompt': '\n\n🎁 *İndirim kodunuz var mı?* Kodu yazın veya direkt onaylayın.',
+  'confirm.discountApplied': '{message}\n\nGüncellenmiş sipariş özeti:',
+  'confirm.discountInvalid': `{message}
+
+Yine de devam etmek ister misiniz?
+1️⃣ Evet
+2️⃣ Hayır`,
+  'confirm.confirmed': '✅ Harika! Siparişinizi oluşturuyoruz...',
+  'confirm.chooseEdit': '✏️ Neyi düzenlemek istersiniz?',
+  'confirm.chooseEditButton': 'Düzenle',
+  'confirm.unclear': '❌ Siparişi onaylıyor musunuz? "Evet" veya "Hayır" yazın.',
+
+  // Global commands
+  'command.cancelled': '❌ Sipariş iptal edildi. Yeni sipariş için "merhaba" yazın.',
+  'command.cancelAfterPayment': `⚠️ *Ödeme tamamlandıktan sonra iptal yapılamaz.*
+
+Herhangi bir sorun için lütfen iletişime geçin:
+📧 destek@bihediye.art
+
+Siparişiniz işleme devam ediyor...`,
+  'command.backAtFirstStep': 'Zaten ilk adımdasınız 😊',
+  'command.backNotAllowed': '⚠️ Bu aşamada geri dönülemez.',
+  'command.help': `📚 *Yardım*
+
+Komutlar:
+• "merhaba" - Yeni sipariş başlat
+• "iptal" - Mevcut siparişi iptal et
+• "geri" - Bir önceki adıma dön
+• "durum" - Siparişlerinizin durumu
+• "yardim" - Bu mesajı göster
+
+Destek: support@bihediye.art`,
+  'command.startFirst': 'Önce sipariş başlatmalısınız. "merhaba" yazın.',
+  'command.mediaNotAccepted': 'Bu adımda sesli mesaj alamıyoruz 🙏 Lütfen cevabınızı yazarak gönderin.',
+
+  'status.header': '📦 *Siparişleriniz*',
+  'status.none': 'Henüz bir siparişiniz yok. Yeni sipariş için "merhaba" yazın 😊',
+  'status.order': '🎵 *{songType}* · {date}\nSipariş No: {orderId}\nDurum: {status}',
+  'status.queuePosition': '🔢 Sıradaki yeriniz: {position}',
+  'status.progress': '📊 İlerleme: %{progress}',
+  'status.eta': '⏱️ Tahmini süre: ~{minutes} dk',
+  'status.etaSoon': '⏱️ Çok yakında hazır!',
+  'status.footer': '💡 Yeni sipariş için "merhaba", yardım için "yardim" yazın.',
+  'status.payment_pending': '💳 Ödeme bekleniyor',
+  'status.paid': '✅ Ödeme alındı',
+  'status.pending': '⏳ Sırada',
+  'status.lyrics_generating': '📝 Şarkı sözleri hazırlanıyor / onayınızı bekliyor',
+  'status.music_generating': '🎵 Müzik üretiliyor',
+  'status.variant_selection': '🎧 Şarkınız hazır - versiyon seçiminizi bekliyor',
+  'status.video_generating': '🎬 Video hazırlanıyor',
+  'status.completed': '🎉 Tamamlandı',
+  'status.failed': '⚠️ Sorun oluştu - destek ekibimiz ilgileniyor',
+
+  // Order lifecycle
+  'order.paymentLink': `✅ *Sipariş Oluşturuldu!*
+
+🎵 Sipariş No: {orderId}
+💰 Tutar: {price} TL
+
+*Ödeme yapmak için:*
+👉 {url}
+
+⏰ Link 30 dakika geçerlidir.
+
+Ödeme tamamlandıktan sonra şarkınızın hazırlanmasına başlanacaktır!
+
+---
+
+💡 *Seçenekler:*
+• Rakam *"1"* yazarak yeni link alabilirsiniz
+• İndirim kodunuz varsa yazabilirsiniz
+• *"iptal"* yazarak siparişi iptal edebilirsiniz`,
+  'order.paymentLinkFailed': '❌ Ödeme linki oluşturulamadı. Lütfen daha sonra tekrar deneyin.',
+  'order.freeConfirmed': `🎉 *Siparişiniz Onaylandı!*
+
+🎵 Sipariş No: {orderId}
+💰 Tutar: 0 TL (Hediyemiz olsun! 🎁)
+
+Şarkınızın hazırlanmasına başlıyoruz! 2 saat içinde teslim edilecek.
+
+Teşekkür ederiz! ❤️`,
+  'order.freeLyricsStarted': `🎁 *Sipariş Onaylandı!*
+
+🎵 Sipariş No: {orderId}
+💰 0 TL (Hediyemiz olsun! 🎁)
+
+Şarkı sözleriniz yazılıyor... ⏳
+
+📍 Siparişinizi buradan takip edebilirsiniz:
+{trackUrl}`,
+  'order.paymentUnavailable': `❌ *Ödeme Sistemi Aktif Değil*
+
+Şu anda ödeme altyapımız yapılandırılmamış durumda.
+
+Lütfen daha sonra tekrar deneyin veya destek ile iletişime geçin:
+📧 support@bihediye.art
+
+Sipariş numaranız: {orderId}`,
+  'order.createFailed': '❌ Sipariş oluşturulurken hata: {message}',
+  'order.waitingForPayment': `⏳ *Ödemeniz bekleniyor...*
+
+Ödeme linkini kullanarak ödemeyi tamamlayın.
+
+💡 *Seçenekler:*
+• Rakam *"1"* yazarak yeni link alabilirsiniz
+• İndirim kodunuz varsa yazabilirsiniz
+• *"iptal"* yazarak siparişi iptal edebilirsiniz`,
+  'order.newPaymentLink': '🔄 Yeni ödeme linki oluşturuluyor...',
+  'order.noPendingOrder': `❌ Ödeme bekleyen sipariş bulunamadı.
+
+Yeni sipariş için "merhaba" yazabilirsiniz.`,
+  'order.discountFree': `🎁 *İndirim Kodu Uygulandı!*
+
+{message}
+
+💰 Yeni Tutar: 0 TL (Hediyemiz olsun! 🎁)
+
+Ödeme gerekmeden siparişiniz hazırlanacaktır! 🎵`,
+  'order.discountApplied': `✅ *İndirim Kodu Uygulandı!*
+
+{message}
+
+💰 Eski Tutar: {oldPrice} TL
+🎁 İndirim: -{discount} TL
+✨ Yeni Tutar: {price} TL
+
+Yeni ödeme linki oluşturuluyor... 🔄`,
+  'order.paymentSuccess': `✅ *Ödeme Başarılı!*
+
+🎵 Sipariş No: {orderId}
+💰 {price} TL
+
+Şarkı sözleriniz yazılıyor... ⏳
+
+📍 Siparişinizi buradan takip edebilirsiniz:
+{trackUrl}`,
+  'order.lyricsReady': `📝 *Şarkı Sözleriniz Hazır!*
+
+{lyrics}
+
+---
+
+✨ *Dilerseniz şarkı sözüne revizyon verebilirsiniz. Hakkınız 2 tanedir.*`,
+  'order.lyricsQuestion': `Ne yapmak istersiniz?
+1️⃣ Onayla (Müzik üretimine geç)
+2️⃣ Revizyon İstiyorum (Değiştirmek istediğiniz kısmı yazın)
+3️⃣ Komple Ben Yazacağım (Suno AI formatında kendi sözlerinizi gönderin)
+
+---
+💡 Destek: destek@bihediye.art`,
+  'order.completed': `🎉 *Siparişiniz Hazır!*
+
+🎵 Sipariş No: {orderId}
+
+Şarkılarınız ve videolarınız hazır! Aşağıda dosyalarınızı bulabilirsiniz.
+
+Hediyeniz için teşekkür ederiz! ❤️`,
+  'order.shareLink': '🔗 Şarkı sayfanız (dinleyin, indirin, sevdiklerinizle paylaşın):\n{url}',
+  'order.reactionThanks': '💝 Şarkınızı beğenmenize çok sevindik! Paylaştığınız için teşekkür ederiz.',
+  'order.error': `⚠️ *Sipariş İşlemi*
+
+🎵 Sipariş No: {orderId}
+
+Maalesef siparişiniz şu anda işlenemiyor.
+
+📞 Lütfen destek ekibimizle iletişime geçin:
+support@bihediye.art
+
+Anlayışınız için teşekkür ederiz.`,
+  'order.confirmation': `✅ *Siparişiniz Alındı!*
+
+🎵 Sipariş No: {orderId}
+💰 Toplam Tutar: {price} TL
+⏰ Tahmini Teslimat: {delivery}
+
+Siparişiniz işleme alınmıştır. Şarkılarınız hazırlandıktan sonra size iletilecektir.
+
+Mesai saatlerinde 2 saat içerisinde teslim edilecektir!
+
+Teşekkür ederiz! 🎁`,
+  'order.progress': `⏳ *Sipariş Durumu*
+
+🎵 Sipariş No: {orderId}
+📊 İlerleme: {progressBar} {progress}%
+💬 Durum: {status}
+
+Şarkılarınız hazırlanıyor, lütfen bekleyin...`,
+  'order.progress.lyrics': 'Şarkı sözleri yazılıyor...',
+  'order.progress.musicReady': 'Müzikler hazır!',
+  'order.progress.video': 'Video oluşturuluyor...',
+  'order.progress.completed': 'Tamamlandı!',
+  'order.videoCaption': 'Hediyenizin videosu 🎬',
+
+  'lyrics.askRevision': '✏️ Şarkı sözlerinde neyi değiştirmek istersiniz? Değişiklik isteğinizi yazın.',
+  'lyrics.revising': '✏️ Anladım! Şarkı sözlerini düzenliyoruz...',
+  'lyrics.unclear': '❓ Şarkı sözlerini onaylıyor musunuz yoksa değişiklik mi istiyorsunuz?\n\n1️⃣ Onayla\n2️⃣ Değişiklik İstiyorum\n3️⃣ Komple Ben Yazacağım',
+  'lyrics.approved': '✅ Şarkı sözleri onaylandı! Devam ediyoruz...',
+  'lyrics.writeOwn': `📝 *Harika! Kendi sözlerinizi yazabilirsiniz.*
+
+*Suno AI Formatı (Başlıkları kullanın):*
+
+**[Intro]** - Giriş müziği (enstrümantal)
+**[Verse]** - Kıta (hikayeyi anlatır)
+**[Pre-Chorus]** - Nakarat öncesi geçiş
+**[Chorus]** - Nakarat (akılda kalıcı kısım)
+**[Bridge]** - Köprü (farklı melodi/duygu)
+**[Instrumental Break]** - Enstrümantal ara
+**[Outro]** - Bitiş
+
+**Örnek Sıralama:**
+[Intro]
+[Verse]
+[Pre-Chorus]
+[Chorus]
+[Verse]
+[Chorus]
+[Bridge]
+[Chorus]
+[Outro]
+
+Şimdi sözlerinizi bu formatta yazıp gönderin! 🎵`,
+  'lyrics.formatting': '⏳ Sözlerinizi Suno AI formatına çeviriyoruz...',
+  'lyrics.formatFailed': '❌ Sözlerinizi formatlarken hata oluştu: {message}\n\nLütfen tekrar deneyin veya başka sözler gönderin.',
+  'lyrics.customReceived': `✅ *Şarkı Sözleri Alındı!*
+
+{lyrics}
+
+---
+
+Müzik üretimine başlıyoruz! 🎵`,
+  'lyrics.revisionLimit': `❌ Revizyon hakkınız dolmuştur (2/2).
+
+Şarkı sözleri mevcut haliyle onaylandı. Müzik üretimine geçiyoruz... 🎵`,
+  'lyrics.revised': `📝 *Revize Edilmiş Şarkı Sözleri:*
+
+{lyrics}
+
+---
+
+✨ *Kalan revizyon hakkınız: {remaining}/2*`,
+  'lyrics.revisedQuestion': `Ne yapmak istersiniz?
+1️⃣ Onayla (Müzik üretimine geç)
+2️⃣ Tekrar Revize Et
+3️⃣ Komple Ben Yazacağım (Suno AI formatında kendi sözlerinizi gönderin)
+
+---
+💡 Destek: destek@bihediye.art`,
+  'lyrics.revisedQuestionFinal': `Ne yapmak istersiniz?
+1️⃣ Onayla (Müzik üretimine geç)
+2️⃣ Revizyon hakkınız bitti
+3️⃣ Komple Ben Yazacağım (Suno AI formatında kendi sözlerinizi gönderin)
+
+---
+💡 Destek: destek@bihediye.art`,
+
+  // Song delivery
+  'delivery.songReady': `🎵 *Özel Şarkınız Hazır!*
+
+Şarkınızı dinlemek için aşağıdaki linke tıklayın:
+
+{url}
+
+🎁 Hediye edeceğiniz kişiye güzel anlar dileriz!`,
+  'delivery.songReadyCaption': '🎵 *Özel Şarkınız Hazır!*\n\n🎁 Hediye edeceğiniz kişiye güzel anlar dileriz!',
+
+  // SMS fallback (plain text, kept short)
+  'sms.paymentLink': 'bihediye.art: {orderId} nolu siparişiniz için ödeme linki: {url}',
+  'sms.completed': 'bihediye.art: {orderId} nolu siparişiniz hazır. Teşekkür ederiz!',
+  'sms.downloadLink': 'bihediye.art: Şarkınız hazır! Dinlemek ve indirmek için: {url}',
+
+  // Song file title (ID3 tag)
+  'song.title': '{name} için',
+  'song.titleDefault': 'Size Özel Bir Şarkı',
+
+  // Cover art
+  'cover.caption': '🎨 *{title}* - şarkınızın kapağı',
+  'cover.occasion.birthday': 'Doğum Günü',
+  'cover.occasion.anniversary': 'Yıl Dönümü',
+  'cover.occasion.valentines': 'Sevgililer Günü',
+  'cover.occasion.mothers_day': 'Anneler Günü',
+  'cover.occasion.fathers_day': 'Babalar Günü',
+  'cover.occasion.wedding': 'Düğün',
+  'cover.occasion.graduation': 'Mezuniyet',
+
+  // Song variants ("1 mi 2 mi?")
+  'variant.previews': `🎵 *Şarkınız Hazır - 2 Versiyon!*
+
+Şarkınızın iki farklı versiyonunu hazırladık. Dinleyin ve en beğendiğinizi seçin:
+
+{previews}`,
+  'variant.previewLine': '{number}️⃣ {number}. Versiyon ({duration})\n{url}',
+  'variant.question': '1 mi 2 mi? Hangi versiyonu istersiniz? 🎧',
+  'variant.invalid': 'Lütfen 1 veya 2 yazarak bir versiyon seçin 🎧',
+  'variant.selected': '✅ {number}. versiyonu seçtiniz, harika seçim! Şarkınız geliyor 🎁',
+  'variant.timedOut': '⏰ Seçim yapmadığınız için {number}. versiyonu gönderiyoruz, umarız çok beğenirsiniz! 🎁',
+
+  // Email notifications (web orders)
+  'email.orderReceived.subject': 'Siparişiniz alındı - {orderId}',
+  'email.orderReceived.title': 'Siparişiniz alındı 🎁',
+  'email.orderReceived.body': 'Şarkı hediyeniz için teşekkür ederiz! Ödemeniz tamamlanır tamamlanmaz şarkınızı hazırlamaya başlayacağız.',
+  'email.orderReceived.action': 'Ödemeyi Tamamla',
+  'email.paymentSuccess.subject': 'Ödemeniz alındı - {orderId}',
+  'email.paymentSuccess.title': 'Ödemeniz alındı ✅',
+  'email.paymentSuccess.body': '{price} TL tutarındaki ödemeniz onaylandı. Şarkı sözleriniz şimdi yazılıyor, şarkınız hazır olduğunda size e-posta göndereceğiz.',
+  'email.lyricsReady.subject': 'Şarkı sözleriniz hazır - {orderId}',
+  'email.lyricsReady.title': 'Şarkı sözleriniz hazır 📝',
+  'email.lyricsReady.body': 'Şarkınızın sözleri yazıldı, şimdi müziği besteleniyor. İşte sözler:',
+  'email.songDelivered.subject': 'Şarkınız hazır! 🎵 - {orderId}',
+  'email.songDelivered.title': 'Şarkınız hazır 🎉',
+  'email.songDelivered.body': 'Özel şarkınız tamamlandı. Aşağıdaki butondan dinleyebilir ve indirebilirsiniz.',
+  'email.songDelivered.action': 'Şarkıyı İndir',
+  'email.orderNumber': 'Sipariş No: {orderId}',
+  'email.footer': 'Bu e-posta bihediye.art siparişiniz için gönderilmiştir.',
+
+  // Button / list titles (ids stay the same in every locale)
+  'option.style:Romantik': 'Romantik',
+  'option.style:Duygusal': 'Duygusal',
+  'option.style:Eğlenceli': 'Eğlenceli',
+  'option.style:Sakin': 'Sakin',
+  'option.vocal:Kadın': 'Kadın',
+  'option.vocal:Erkek': 'Erkek',
+  'option.vocal:Fark etmez': 'Fark etmez',
+  'option.confirm:yes': 'Onayla',
+  'option.confirm:no': 'İptal',
+  'option.confirm:edit': 'Düzenle',
+  'option.edit:song': 'Tür / Tarz / Vokal',
+  'option.edit:recipient': 'Kişi / İsim',
+  'option.edit:story': 'Hikaye',
+  'option.lyrics:approve': 'Onayla',
+  'option.lyrics:revise': 'Revize Et',
+  'option.lyrics:write_own': 'Ben Yazacağım',
+  'option.transcript:confirm': 'Evet, doğru',
+  'option.transcript:retry': 'Tekrar göndereceğim',
+  'option.variant:1': '1. Versiyon',
+  'option.variant:2': '2. Versiyon',
+};
+
+export type MessageKey = keyof typeof tr;
+export type MessageCatalog = Record<MessageKey, string>;
@@ -9,21 +9,39 @@ import { FirebaseQueueService } from './services/firebase-queue.service';
 import { PaytrService } from './services/paytr.service';
 import { OrderService } from './services/order.service';
 import { DiscountService } from './services/discount.service';
-import { OrderRoutes } from './api/order.routes';
+import { DeliveryTrackingService } from './services/delivery-tracking.service';
+import { OrderProgressHub } from './services/order-progress-hub';
+import { createTranscriptionProvider } from './services/transcription.service';
+import { createSmsProvider, SmsService } from './services/sms.service';
+import { createEmailTransport, EmailService } from './services/email.service';
+import { AudioQaService, createAudioAnalyzer } from './services/audio-qa.service';
+import { createAudioPostProcessor } from './services/audio-processing.service';
+import { CoverArtService, createCoverRenderer } from './services/cover-art.service';
+import { ChannelRouter } from './services/channels/channel-router';
+import { TelegramChannel } from './services/channels/telegram.channel';
+import { WebChatChannel } from './services/channels/web-chat.channel';
+import { ApiV1Routes } from './api/v1.routes';
 import { WebhookRoutes } from './api/webhook.routes';
 import { createPaymentRouter } from './routes/payment.routes';
 import { createAdminRouter } from './routes/admin.routes';
+import { createTrackRouter } from './routes/track.routes';
+import { createShareRouter } from './routes/share.routes';
 
 class App {
   private app: Express;
   private sunoService: SunoService;
   private openaiService: OpenAIService;
   private whatsappService: WhatsAppService;
+  private channelRouter: ChannelRouter;
+  private telegramChannel?: TelegramChannel;
+  private webChatChannel?: WebChatChannel;
   private firebaseService: FirebaseService;
   private queueService: FirebaseQueueService;
   private paytrService?: PaytrService;
   private orderService: OrderService;
   private discountService: DiscountService;
+  private deliveryTrackingService: DeliveryTrackingService;
+  private progressHub: OrderProgressHub;
 
   constructor() {
     this.app = express();
@@ -45,7 +63,12 @@ class App {
 
   private initializeMiddlewares(): void {
     this.app.use(cors());
-    this.app.use(express.json());
+    // Keep the raw body for webhook signature verification
+    this.app.use(express.json({
+      verify: (req, res, buf) => {
+        req.rawBody = buf;
+      },
+    }));
     this.app.use(express.urlencoded({ extended: true }));
 
     // Request logging
@@ -73,22 +96,58 @@ class App {
       accessKey: config.bird.accessKey,
       workspaceId: config.bird.workspaceId,
       channelId: config.bird.channelId,
+      templateNamespace: config.bird.templateNamespace,
+      rateLimitPerSecond: config.bird.rateLimitPerSecond,
+      maxSendAttempts: config.bird.maxSendAttempts,
     });
 
     // Initialize Firebase service
     this.firebaseService = new FirebaseService(config.firebase.serviceAccountPath);
 
+    // Record outbound messages so delivery status events can be tracked
+    this.whatsappService.setMessageStore(this.firebaseService);
+    this.whatsappService.setSessionStore(this.firebaseService);
+
+    // Payment links / audio deliveries queued before a restart are sent now
+    this.whatsappService.setQueueStore(this.firebaseService);
+    this.whatsappService.restorePendingMessages().catch(error => {
+      console.error('Error restoring queued outbound messages:', error.message);
+    });
+    this.deliveryTrackingService = new DeliveryTrackingService(
+      this.firebaseService,
+      this.whatsappService,
+      config.admin.alertPhone
+    );
+
+    // Messaging channels - customers are keyed by channel + user id
+    this.channelRouter = new ChannelRouter(this.whatsappService);
+    if (config.telegram.botToken) {
+      this.telegramChannel = new TelegramChannel(config.telegram);
+      this.channelRouter.register(this.telegramChannel);
+      console.log('✅ Telegram channel enabled (/webhook/telegram)');
+    }
+    if (config.webChat.enabled) {
+      this.webChatChannel = new WebChatChannel(config.webChat.path);
+      this.channelRouter.register(this.webChatChannel);
+      console.log(`✅ Web chat channel enabled (${config.webChat.path})`);
+    }
+
     // Initialize Firebase Queue service (for async music generation)
     // Uses Firebase for persistence - no Redis required!
     console.log('🔄 Initializing Firebase Queue service...');
     this.queueService = new FirebaseQueueService(
       this.sunoService,
       this.firebaseService,
-      this.whatsappService,
+      this.channelRouter,
       this.openaiService
     );
     console.log('✅ Firebase Queue service initialized - async mode enabled');
 
+    // Live order progress for the tracking page (/track/:orderId)
+    this.progressHub = new OrderProgressHub();
+    this.firebaseService.setProgressHub(this.progressHub);
+    this.queueService.setProgressHub(this.progressHub);
+
     // Initialize PayTR service (if credentials provided)
     if (config.paytr.merchantId && config.paytr.merchantId !== 'your_merchant_id') {
       this.paytrService = new PaytrService({
@@ -114,11 +173,59 @@ class App {
     this.orderService = new OrderService(
       this.sunoService,
       this.openaiService,
-      this.whatsappService,
+      this.channelRouter,
       this.firebaseService,
       this.queueService,
-      this.paytrService
+      this.paytrService,
+      createTranscriptionProvider({
+        provider: config.transcription.provider,
+        apiKey: config.openai.apiKey,
+        model: config.transcription.model,
+      })
     );
+    this.telegramChannel?.setMessageHandler(this.orderService);
+    this.queueService.setVariantChoiceOpener((order, shareToken) => this.orderService.openVariantSelection(order, shareToken));
+
+    // SMS fallback for payment links, completion and download links
+    const smsProvider = createSmsProvider(config.sms);
+    if (smsProvider) {
+      const smsService = new SmsService(smsProvider, config.sms.fallback);
+      this.orderService.setSmsService(smsService);
+      this.queueService.setSmsService(smsService);
+      this.deliveryTrackingService.setEscalationHandler(message => this.orderService.handleUndeliveredMessage(message));
+      this.whatsappService.setUndeliveredHandler(message => this.orderService.handleUndeliveredMessage(message));
+      console.log(`✅ SMS fallback enabled (${smsProvider.name})`);
+    }
+
+    // Lifecycle emails for web orders
+    const emailTransport = createEmailTransport(config.email);
+    if (emailTransport) {
+      const emailService = new EmailService(emailTransport, config.email.from);
+      this.orderService.setEmailService(emailService);
+      this.queueService.setEmailService(emailService);
+      console.log(`✅ Email notifications enabled (${emailTransport.name})`);
+    }
+
+    // Audio quality gate before songs are delivered
+    const audioAnalyzer = createAudioAnalyzer(config.audioQa);
+    if (audioAnalyzer) {
+      this.queueService.setAudioQa(new AudioQaService(audioAnalyzer));
+      console.log(`✅ Audio quality gate enabled (${audioAnalyzer.name})`);
+    }
+
+    // Mastering (loudness, fades) and ID3 tags before songs are uploaded
+    this.queueService.setAudioPostProcessor(createAudioPostProcessor(config.audioProcessing));
+    if (config.audioProcessing.mastering === 'ffmpeg') {
+      console.log(`✅ Audio mastering enabled (${config.audioProcessing.targetLufs} LUFS)`);
+    }
+
+    // Personalized cover art (WhatsApp image, share page, embedded in the MP3)
+    const coverRenderer = createCoverRenderer(config.coverArt);
+    if (coverRenderer) {
+      this.queueService.setCoverArt(new CoverArtService(coverRenderer));
+      console.log(`✅ Cover art enabled (${coverRenderer.name})`);
+    }
+    this.webChatChannel?.setMessageHandler(this.orderService);
 
     console.log('✅ Services initialized successfully');
     console.log('📊 Firebase collections:');
@@ -151,6 +258,11 @@ class App {
     // Webhook routes
     const webhookRoutes = new WebhookRoutes();
     webhookRoutes.setOrderService(this.orderService); // Connect webhook to order service
+    webhookRoutes.setFirebaseService(this.firebaseService); // Inbound event idempotency
+    webhookRoutes.setDeliveryTrackingService(this.deliveryTrackingService); // Outbound status events
+    if (this.telegramChannel) {
+      webhookRoutes.setTelegramChannel(this.telegramChannel);
+    }
     this.app.use('/webhook', webhookRoutes.router);
 
     // Payment routes (PayTR callback and payment pages)
@@ -165,13 +277,23 @@ class App {
     this.app.use('/admin', adminRouter);
     console.log('✅ Admin panel initialized (/admin)');
 
-    // API routes (for manual order creation if needed)
-    const orderRoutes = new OrderRoutes(
-      this.sunoService,
-      this.openaiService,
-      this.whatsappService
-    );
-    this.app.use('/api/orders', orderRoutes.router);
+    // Customer order tracking page (link sent with the payment confirmation)
+    this.app.use('/track', createTrackRouter(this.orderService, this.progressHub));
+    console.log('✅ Order tracking initialized (/track/:orderId)');
+
+    // Song share page and permanent media links (/s/:shareToken, /media/:shareToken)
+    this.app.use(createShareRouter(this.orderService));
+    console.log('✅ Share links initialized (/s, /media)');
+
+    // Public checkout API (web / mobile)
+    const apiV1Routes = new ApiV1Routes(this.orderService);
+    this.app.use('/api/v1', apiV1Routes.router);
+    console.log('✅ Checkout API initialized (/api/v1)');
+
+    // Legacy in-memory order API - replaced by /api/v1
+    this.app.use('/api/orders', (req: Request, res: Response) => {
+      res.status(410).json({ error: 'Bu endpoint kaldırıldı, /api/v1/orders kullanın' });
+    });
 
     // Admin endpoints
     this.app.get('/admin/orders', async (req: Request, res: Response) => {
@@ -232,6 +354,13 @@ class App {
 
     // Error handler
     this.app.use((err: Error, req: Request, res: Response, next: any) => {
+      // Client errors raised by middleware (e.g. malformed JSON body)
+      const status = (err as any).status;
+      if (status >= 400 && status < 500) {
+        res.status(status).json({ error: err.message });
+        return;
+      }
+
       console.error('Error:', err);
       res.status(500).json({
         error: 'Internal server error',
@@ -243,7 +372,7 @@ class App {
   }
 
   public listen(): void {
-    this.app.listen(config.port, () => {
+    const server = this.app.listen(config.port, () => {
       console.log('\n🎁 ================================================');
       console.log('🎵 bihediye.art - AI-Powered Music Gift Service');
       console.log('================================================');
@@ -264,6 +393,8 @@ class App {
       console.log('   🔥 Firebase ile state yönetimi aktif');
       console.log('================================================\n');
     });
+
+    this.webChatChannel?.attach(server);
   }
 }
 
@@ -0,0 +1,56 @@
+import { OrderRequest } from './order.model';
+import { Locale } from '../i18n';
+
+export type ConversationStep =
+  | 'welcome'
+  | 'song_settings'      // Combined: type + style + vocal
+  | 'recipient_info'      // Combined: relation + name
+  | 'story_and_notes'     // Combined: story + notes
+  | 'confirm'             // Includes discount code
+  | 'lyrics_review_song1'
+  | 'processing'
+  | 'variant_selection';  // After music generation: "1 mi 2 mi?
+
+/**
+ * Answers the customer can edit mid-conversation ("tarzı değiştir", "ismi düzelt")
+ */
+export type EditableField = 'type' | 'style' | 'vocal' | 'relation' | 'name' | 'story';
+
+/**
+ * Reply button / list row chosen by the customer (bypasses LLM parsing)
+ */
+export interface ConversationSelection {
+  id: string;    // Option id we sent, e.g. "style:Romantik"
+  title: string; // Text shown on the button
+}
+
+/**
+ * Media message received during the conversation
+ */
+export interface ConversationMedia {
+  url: string;
+  type: 'image' | 'video' | 'audio' | 'document';
+}
+
+/**
+ * Conversation state for collecting order information via WhatsApp
+ */
+export interface ConversationState {
+  phone: string;
+  step: ConversationStep;
+  data: Partial<OrderRequest>;
+  discountCode?: string;
+  discountAmount?: number;
+  finalPrice?: number;
+  lastUpdated: Date;
+  tempLyrics?: string;
+  lyricsRevisionCount?: number;
+  retryCount?: number;  // Track failed parse attempts per step
+  waitingForCustomLyrics?: boolean; // User chose to write their own lyrics
+  history?: ConversationStep[]; // Completed steps, most recent last (for "geri")
+  returnToStep?: ConversationStep; // Step to resume after an answer edit
+  editSnapshot?: Partial<OrderRequest>; // Data before the edit (restored if the edit is abandoned)
+  pendingTranscription?: string; // Voice-note story waiting for the customer's confirmation
+  locale?: Locale; // Chat language (detected on the first message, default 'tr')
+  version?: number; // Optimistic concurrency version (set by FirebaseService.saveConversation)
+}
@@ -1,8 +1,16 @@
+import { Locale } from '../i18n';
+import type { ChannelName } from '../services/channels/messaging-channel';
+
+export type LyricsLanguage = 'Türkçe' | 'İngilizce' | 'Almanca' | 'Kürtçe' | 'Azerice';
+export type SongLanguage = LyricsLanguage | 'Karışık';
+
 export interface SongDetails {
   type: 'Pop' | 'Rap' | 'Jazz' | 'Arabesk' | 'Klasik' | 'Rock' | 'Metal' | 'Nostaljik';
   style: 'Romantik' | 'Duygusal' | 'Eğlenceli' | 'Sakin';
   vocal?: 'Kadın' | 'Erkek' | 'Fark etmez';
   artistStyleDescription?: string; // Optional artist style (when user provides artist name)
+  language?: SongLanguage; // Şarkı dili (yoksa müşterinin sohbet dili)
+  bilingual?: { verse: LyricsLanguage; chorus: LyricsLanguage }; // Karışık: kıtalar bir dilde, nakarat diğerinde
 }
 
 export interface DeliveryOption {
@@ -35,13 +43,87 @@ export interface OrderRequest {
   coverPhoto?: string;                 // Fotoğraf base64 veya URL
 }
 
+/**
+ * Ürün paketi (yoksa standard)
+ */
+export type ProductTier = 'standard' | 'premium';
+
+/**
+ * How the two Suno variants reach the customer
+ * choice: customer picks one ("1 mi 2 mi?"), the other is kept for upsell
+ * bundle: both are delivered
+ */
+export type VariantDeliveryMode = 'choice' | 'bundle';
+
+/**
+ * One of the two songs Suno produces per task
+ */
+export interface SongVariant {
+  number: number;                      // 1 / 2 - as shown to the customer
+  audioUrl: string;                    // Signed Storage URL (7 days) or provider URL
+  audioPath?: string;                  // Storage path (re-signed for /media links)
+  duration?: number;                   // Seconds
+}
+
+/**
+ * Audio measurements of a generated song (ffmpeg)
+ */
+export interface AudioMetrics {
+  durationSeconds: number;
+  leadingSilenceSeconds: number;
+  trailingSilenceSeconds: number;
+  clippedRatio: number;                // Share of samples within 1 dB of full scale
+  truePeakDb?: number;                 // dBTP
+  integratedLufs?: number;             // EBU R128 integrated loudness
+}
+
+export type AudioQaIssue =
+  | 'too_short'
+  | 'too_long'
+  | 'leading_silence'
+  | 'trailing_silence'
+  | 'clipping'
+  | 'too_quiet'
+  | 'too_loud';
+
+export interface AudioQaResult {
+  passed: boolean;
+  score: number;                       // 0-100, higher is better (picks between variants)
+  issues: AudioQaIssue[];
+  metrics: AudioMetrics;
+}
+
+/**
+ * Quality gate results of an order's song (admin review)
+ */
+export interface AudioQaReport {
+  checkedAt: Date;
+  regenerations: number;               // Suno generations discarded by the gate
+  passed: boolean;                     // The delivered audio passed every check
+  needsReview: boolean;                // Delivered without passing (out of regenerations / analysis error)
+  error?: string;                      // Analysis error (audio delivered unchecked)
+  results: Array<AudioQaResult & {
+    attempt: number;                   // 0 = first generation
+    sunoId?: string;
+    variant?: number;                  // Delivered as this variant (unset: discarded)
+  }>;
+}
+
+/**
+ * Where the customer is notified: a messaging channel, or email for web site orders
+ */
+export type OrderChannel = ChannelName | 'email';
+
 export interface Order {
   id: string;
-  whatsappPhone: string;               // Sipariş veren WhatsApp numarası
+  whatsappPhone: string;               // Müşteri anahtarı (WhatsApp numarası, telegram:<id>, web:<session>)
+  channel: OrderChannel;               // Bildirim kanalı
+  customerEmail?: string;              // Web siparişleri (channel 'email')
   orderData: OrderRequest;
 
   // İşlem Durumları
-  status: 'payment_pending' | 'paid' | 'pending' | 'lyrics_generating' | 'music_generating' | 'video_generating' | 'completed' | 'failed';
+  status: 'payment_pending' | 'paid' | 'pending' | 'lyrics_generating' | 'music_generating' | 'variant_selection' | 'video_generating' | 'completed' | 'failed';
+  tier?: ProductTier;
 
   // AI Task ID'leri
   song1LyricsTaskId?: string;
@@ -52,10 +134,17 @@ export interface Order {
 
   // Sonuç Dosyaları
   song1Lyrics?: string;
+  song1Title?: string;                 // Şarkı sözleriyle üretilen kişiye özel şarkı adı
   song2Lyrics?: string;
   song1LyricsRevisionCount?: number;  // Kaç kez revize edildi (max 2)
   song2LyricsRevisionCount?: number;  // Kaç kez revize edildi (max 2)
   song1AudioUrl?: string;
+  song1AudioPath?: string;             // Storage dosya yolu (/media linki her istekte yeniden imzalanır)
+  song1Variants?: SongVariant[];       // Suno'nun ürettiği iki versiyon (seçilmeyen upsell için saklanır)
+  song1SelectedVariant?: number;       // Müşterinin seçtiği versiyon (yoksa tüm versiyonlar teslim edilir)
+  variantOfferedAt?: Date;             // "1 mi 2 mi?" sorusunun gönderildiği an (cevap gelmezse 1. versiyon teslim edilir)
+  song1AudioQa?: AudioQaReport;        // Ses kalite kontrolü (süre, sessizlik, clipping, ses yüksekliği)
+  coverArtPath?: string;               // Üretilen kapak görseli (Storage, /cover/:shareToken)
   song2AudioUrl?: string;
   videoUrl?: string;
   soundcloudUrl?: string;
@@ -77,6 +166,20 @@ export interface Order {
   paymentToken?: string;
   paymentTransactionId?: string;
 
+  // Sipariş takip sayfası (/track/:orderId?t=<token>)
+  trackingToken?: string;
+
+  // Paylaşım sayfası (/s/:shareToken) ve kalıcı ses linki (/media/:shareToken)
+  shareToken?: string;
+
+  // Müşteri dili (WhatsApp mesajları ve varsayılan şarkı dili)
+  locale?: Locale;
+
+  // Müşteri Sinyalleri (WhatsApp okundu bilgisi / tepkiler)
+  paymentLinkReadAt?: Date;            // Ödeme linki okundu (hatırlatma: hiç görmedi mi, görüp ödemedi mi?)
+  customerReaction?: string;           // Teslim edilen şarkıya verilen tepki (örn. ❤️)
+  customerReactionAt?: Date;
+
   // Notlar
   errorMessage?: string;
 }
@@ -102,3 +205,20 @@ export interface OrderStatus {
   completionPercentage: number;
   estimatedTimeRemaining?: number;  // dakika cinsinden
 }
+
+/**
+ * Live state of an order on the tracking page
+ */
+export interface OrderTrackingState {
+  orderId: string;
+  status: Order['status'];
+  songType?: string;
+  recipientName?: string;
+  lyrics?: string;                     // Only once approved (music generation started)
+  progress?: number;                   // Music generation progress (0-100)
+  queuePosition?: number;
+  etaMinutes?: number;                 // Until the song is ready (music generation only)
+  audioUrl?: string;                   // Completed orders
+  shareUrl?: string;
+  updatedAt: string;
+}
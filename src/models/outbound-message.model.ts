@@ -0,0 +1,62 @@
+import type { BirdMessage } from '../services/whatsapp.service';
+
+/**
+ * What an outbound WhatsApp message is for (failed payment links and
+ * final audio deliveries are resent / escalated)
+ */
+export type OutboundMessageKind = 'payment_link' | 'lyrics' | 'audio' | 'completion' | 'general';
+
+export type OutboundMessageStatus = 'accepted' | 'sent' | 'delivered' | 'read' | 'failed';
+
+/**
+ * Context passed along with a send call
+ */
+export interface OutboundMessageMeta {
+  orderId?: string;
+  kind?: OutboundMessageKind;
+  attempt?: number; // Set on automatic resends
+  retryOf?: string; // Message id being resent
+}
+
+/**
+ * Outbound message record (bihediye_outbound_messages, keyed by Bird message id)
+ */
+export interface OutboundMessage {
+  id: string; // Bird message id
+  to: string;
+  orderId?: string;
+  kind: OutboundMessageKind;
+  bodyType: string; // Bird body type (text, image, file, list...)
+  status: OutboundMessageStatus;
+  payload: BirdMessage; // As sent (used for resending)
+  attempt: number; // 1 = first send, +1 per automatic resend
+  retryOf?: string;
+  failureReason?: string;
+  escalated?: boolean; // Handed over to the admin after the last resend failed
+  createdAt: Date;
+  updatedAt: Date;
+  sentAt?: Date;
+  deliveredAt?: Date;
+  readAt?: Date;
+  failedAt?: Date;
+}
+
+// Deliveries the customer can't do without - kept across restarts, resent on failure
+export const CRITICAL_MESSAGE_KINDS: OutboundMessageKind[] = ['payment_link', 'audio'];
+
+/**
+ * Entry of the outbound send queue (bihediye_outbound_queue)
+ * Critical messages are stored while pending; every message that runs out of
+ * attempts is kept as a dead letter for the admin panel
+ */
+export interface QueuedOutboundMessage {
+  id: string;
+  to: string;
+  payload: BirdMessage;
+  meta: OutboundMessageMeta;
+  status: 'pending' | 'dead';
+  attempts: number;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
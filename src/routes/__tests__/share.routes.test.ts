@@ -0,0 +1,98 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createShareRouter } from '../share.routes';
+import { OrderService } from '../../services/order.service';
+import { Order } from '../../models/order.model';
+
+describe('Share links', () => {
+  let server: Server;
+  let baseUrl: string;
+  let firebase: any;
+  let order: Order;
+
+  const SHARE_TOKEN = '0123456789abcdef0123456789abcdef';
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(global, 'setInterval').mockImplementationOnce((() => 0) as any);
+
+    order = {
+      id: 'order-1',
+      whatsappPhone: '905551112233',
+      channel: 'whatsapp',
+      orderData: { song1: { type: 'Pop', style: 'Romantik' }, story: 'Anılarımız', recipientName: 'Ayşe' } as any,
+      status: 'completed',
+      basePrice: 299,
+      additionalCosts: 0,
+      totalPrice: 299,
+      song1Lyrics: '[Nakarat]\n<Ayşe> & ben',
+      song1AudioUrl: 'https://storage.googleapis.com/bucket/music/order-1/song1.mp3?X-Goog-Expires=604800',
+      song1AudioPath: 'music/order-1/song1.mp3',
+      shareToken: SHARE_TOKEN,
+      createdAt: new Date(),
+    };
+
+    firebase = {
+      getOrderByShareToken: jest.fn(async (token: string) => (token === order.shareToken ? { ...order } : null)),
+      getSignedFileUrl: jest.fn(async (path: string) => `https://storage.googleapis.com/bucket/${path}?fresh=1`),
+      getPendingMessageBuffers: jest.fn(async () => []),
+    };
+    const orderService = new OrderService({} as any, {} as any, {} as any, firebase);
+
+    const app = express();
+    app.use(createShareRouter(orderService));
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should render the song page with dedication, player and lyrics', async () => {
+    const response = await fetch(`${baseUrl}/s/${SHARE_TOKEN}`);
+    const html = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(html).toContain('<h1>Ayşe için</h1>');
+    expect(html).toContain(`src="https://bihediye.art/media/${SHARE_TOKEN}"`);
+    expect(html).toContain(`href="https://bihediye.art/media/${SHARE_TOKEN}?download=1"`);
+    expect(html).toContain('&lt;Ayşe&gt; &amp; ben');
+    // The expiring Storage URL is never shown
+    expect(html).not.toContain('X-Goog-Expires');
+  });
+
+  it('should not show unknown or undelivered songs', async () => {
+    expect((await fetch(`${baseUrl}/s/ffffffffffffffffffffffffffffffff`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/s/not-a-token`)).status).toBe(404);
+    expect(firebase.getOrderByShareToken).toHaveBeenCalledTimes(1);
+
+    order.status = 'music_generating';
+    expect((await fetch(`${baseUrl}/s/${SHARE_TOKEN}`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/media/${SHARE_TOKEN}`, { redirect: 'manual' })).status).toBe(404);
+  });
+
+  it('should redirect media links to a freshly signed Storage URL', async () => {
+    const response = await fetch(`${baseUrl}/media/${SHARE_TOKEN}`, { redirect: 'manual' });
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('location')).toBe('https://storage.googleapis.com/bucket/music/order-1/song1.mp3?fresh=1');
+    expect(firebase.getSignedFileUrl).toHaveBeenCalledWith('music/order-1/song1.mp3', 3600000, undefined);
+
+    await fetch(`${baseUrl}/media/${SHARE_TOKEN}?download=1`, { redirect: 'manual' });
+    expect(firebase.getSignedFileUrl).toHaveBeenLastCalledWith('music/order-1/song1.mp3', 3600000, 'bihediye-order-1.mp3');
+  });
+
+  it('should fall back to the stored URL when the song is not in Storage', async () => {
+    order.song1AudioPath = undefined;
+    order.song1AudioUrl = 'https://cdn.suno.ai/song.mp3';
+
+    const response = await fetch(`${baseUrl}/media/${SHARE_TOKEN}`, { redirect: 'manual' });
+
+    expect(response.headers.get('location')).toBe('https://cdn.suno.ai/song.mp3');
+    expect(firebase.getSignedFileUrl).not.toHaveBeenCalled();
+  });
+});
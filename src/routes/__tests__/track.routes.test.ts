@@ -0,0 +1,143 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createTrackRouter } from '../track.routes';
+import { OrderProgressHub } from '../../services/order-progress-hub';
+import { OrderService } from '../../services/order.service';
+import { Order } from '../../models/order.model';
+
+describe('/track', () => {
+  let server: Server;
+  let baseUrl: string;
+  let hub: OrderProgressHub;
+  let order: Order;
+  let orderService: OrderService;
+  let queue: any;
+
+  const TOKEN = 'a'.repeat(32);
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(global, 'setInterval').mockImplementationOnce((() => 0) as any);
+
+    order = {
+      id: 'order-1',
+      whatsappPhone: '905551112233',
+      channel: 'whatsapp',
+      orderData: { song1: { type: 'Pop', style: 'Romantik' }, story: 'Anılarımız', recipientName: 'Ayşe' } as any,
+      status: 'lyrics_generating',
+      basePrice: 299,
+      additionalCosts: 0,
+      totalPrice: 299,
+      song1Lyrics: '[Verse] </script><b>Ayşe</b>',
+      trackingToken: TOKEN,
+      createdAt: new Date(),
+      estimatedDelivery: new Date(Date.now() + 10 * 60000),
+    };
+
+    const firebase: any = {
+      getOrder: jest.fn(async () => ({ ...order })),
+      getPendingMessageBuffers: jest.fn(async () => []),
+    };
+    queue = {
+      getJobStatus: jest.fn(async () => null),
+      getQueuePosition: jest.fn(async () => null),
+      estimateRemainingMinutes: jest.fn(() => 3),
+    };
+    orderService = new OrderService({} as any, {} as any, {} as any, firebase, queue);
+
+    hub = new OrderProgressHub();
+    const app = express();
+    app.use('/track', createTrackRouter(orderService, hub, 60000));
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/track`;
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  /**
+   * Read SSE "data:" events until `count` are received or the stream ends
+   */
+  const readEvents = async (body: ReadableStream<Uint8Array>, count: number, onEvent?: (index: number) => void) => {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    const events: any[] = [];
+    let buffer = '';
+
+    while (events.length < count) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let index: number;
+      while ((index = buffer.indexOf('\n\n')) >= 0) {
+        const chunk = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        if (chunk.startsWith('data: ')) {
+          events.push(JSON.parse(chunk.slice(6)));
+          onEvent?.(events.length);
+        }
+      }
+    }
+
+    return { events, reader };
+  };
+
+  it('should only show the page with the order token', async () => {
+    expect((await fetch(`${baseUrl}/order-1`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/order-1?t=${'b'.repeat(32)}`)).status).toBe(404);
+
+    const response = await fetch(`${baseUrl}/order-1?t=${TOKEN}`);
+    const html = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(html).toContain('"status":"lyrics_generating"');
+    expect(html).toContain(`/track/order-1/events?t=${TOKEN}`);
+    // Lyrics are not approved yet
+    expect(html).not.toContain('[Verse]');
+  });
+
+  it('should stream progress until the order is completed', async () => {
+    order.status = 'music_generating';
+    queue.getJobStatus.mockResolvedValue({ id: 'order-1-song1', status: 'processing', progress: 40 });
+
+    const response = await fetch(`${baseUrl}/order-1/events?t=${TOKEN}`);
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+
+    const { events, reader } = await readEvents(response.body!, 3, received => {
+      if (received === 1) {
+        queue.getJobStatus.mockResolvedValue({ id: 'order-1-song1', status: 'processing', progress: 70 });
+        hub.publish({ orderId: 'order-1', progress: 70 });
+      } else if (received === 2) {
+        order.status = 'completed';
+        order.song1AudioUrl = 'https://storage/song.mp3';
+        hub.publish({ orderId: 'order-1', status: 'completed' });
+      }
+    });
+
+    expect(events.map(event => [event.status, event.progress])).toEqual([
+      ['music_generating', 40],
+      ['music_generating', 70],
+      ['completed', undefined],
+    ]);
+    expect(events[0].etaMinutes).toBe(3);
+    expect(events[0].lyrics).toBe(order.song1Lyrics);
+    expect(events[2].audioUrl).toBe('https://storage/song.mp3');
+
+    // The stream ends and the listener is removed once completed
+    expect((await reader.read()).done).toBe(true);
+    expect(hub.listenerCount('order-1')).toBe(0);
+  });
+
+  it('should refuse the stream with a wrong token', async () => {
+    const response = await fetch(`${baseUrl}/order-1/events?t=wrong`);
+
+    expect(response.status).toBe(404);
+    expect(hub.listenerCount('order-1')).toBe(0);
+  });
+});
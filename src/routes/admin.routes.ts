@@ -46,6 +46,7 @@ export function createAdminRouter(
     try {
       const stats = await orderService.getStats();
       const discountCodes = await discountService.getAllDiscountCodes();
+      const deadLetters = await whatsappService.getDeadLetters();
 
       res.send(`
         <!DOCTYPE html>
@@ -189,10 +190,44 @@ export function createAdminRouter(
               <a href="/admin/send-discount" class="btn">🎁 İndirim Kodu Gönder</a>
             </div>
 
+            <div class="section">
+              <h2>📮 Gönderilemeyen Mesajlar (${deadLetters.length})</h2>
+
+              <table>
+                <thead>
+                  <tr>
+                    <th>Alıcı</th>
+                    <th>Mesaj</th>
+                    <th>Sipariş</th>
+                    <th>Deneme</th>
+                    <th>Son Hata</th>
+                    <th>İşlemler</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  ${deadLetters.length === 0 ? '<tr><td colspan="6" style="text-align:center">Gönderilemeyen mesaj yok</td></tr>' : ''}
+                  ${deadLetters.map(message => `
+                    <tr>
+                      <td>${message.to}</td>
+                      <td>${message.meta.kind || 'general'}: ${(message.payload.body?.text?.text || message.payload.body?.type || '').substring(0, 60)}</td>
+                      <td>${message.meta.orderId || '-'}</td>
+                      <td>${message.attempts}</td>
+                      <td style="font-size:12px">${(message.lastError || '').substring(0, 80)}</td>
+                      <td>
+                        <button onclick="retryDeadLetter('${message.id}')" class="btn" style="font-size:12px;padding:6px 12px">🔁 Tekrar Gönder</button>
+                        <button onclick="deleteDeadLetter('${message.id}')" class="btn btn-danger" style="font-size:12px;padding:6px 12px">🗑️</button>
+                      </td>
+                    </tr>
+                  `).join('')}
+                </tbody>
+              </table>
+            </div>
+
             <div class="section">
               <h2>📦 Siparişler & Müşteriler</h2>
               <a href="/admin/orders" class="btn">Tüm Siparişleri Gör</a>
               <a href="/admin/conversations" class="btn">Aktif Konuşmalar</a>
+              <a href="/admin/audio-qa" class="btn">Ses Kontrolü İncelemesi</a>
             </div>
           </div>
 
@@ -212,6 +247,35 @@ export function createAdminRouter(
                 alert('Hata: ' + error.message);
               }
             }
+
+            async function retryDeadLetter(id) {
+              try {
+                const response = await fetch('/admin/dead-letters/' + id + '/retry', { method: 'POST' });
+                if (response.ok) {
+                  alert('Mesaj gönderildi');
+                } else {
+                  alert('Gönderilemedi: ' + await response.text());
+                }
+                location.reload();
+              } catch (error) {
+                alert('Hata: ' + error.message);
+              }
+            }
+
+            async function deleteDeadLetter(id) {
+              if (!confirm('Bu mesajı silmek istediğinize emin misiniz?')) return;
+
+              try {
+                const response = await fetch('/admin/dead-letters/' + id, { method: 'DELETE' });
+                if (response.ok) {
+                  location.reload();
+                } else {
+                  alert('Hata oluştu');
+                }
+              } catch (error) {
+                alert('Hata: ' + error.message);
+              }
+            }
           </script>
         </body>
         </html>
@@ -354,6 +418,30 @@ export function createAdminRouter(
     }
   });
 
+  /**
+   * Gönderilemeyen mesajı tekrar gönder
+   */
+  router.post('/dead-letters/:id/retry', async (req: Request, res: Response) => {
+    try {
+      await whatsappService.retryDeadLetter(req.params.id);
+      res.status(200).send('OK');
+    } catch (error: any) {
+      res.status(500).send(error.message);
+    }
+  });
+
+  /**
+   * Gönderilemeyen mesajı sil
+   */
+  router.delete('/dead-letters/:id', async (req: Request, res: Response) => {
+    try {
+      await whatsappService.deleteDeadLetter(req.params.id);
+      res.status(200).send('OK');
+    } catch (error: any) {
+      res.status(500).send(error.message);
+    }
+  });
+
   /**
    * Tüm siparişler
    */
@@ -366,6 +454,24 @@ export function createAdminRouter(
     }
   });
 
+  /**
+   * Ses kalite kontrolünden geçemeden teslim edilen siparişler
+   */
+  router.get('/audio-qa', async (req: Request, res: Response) => {
+    try {
+      const orders = await orderService.getOrdersNeedingAudioReview();
+      res.json(orders.map(order => ({
+        id: order.id,
+        status: order.status,
+        createdAt: order.createdAt,
+        song1AudioPath: order.song1AudioPath,
+        song1AudioQa: order.song1AudioQa,
+      })));
+    } catch (error: any) {
+      res.status(500).send(error.message);
+    }
+  });
+
   /**
    * Aktif konuşmalar
    */
@@ -688,7 +794,10 @@ bihediye.art - Yapay zeka ile özel şarkı hediyesi 🎵</textarea>
 
       // WhatsApp mesajını gönder
       try {
-        await whatsappService.sendTextMessage(phone, finalMessage);
+        // Outside the 24h window only the approved discount template can be delivered
+        await whatsappService.sendTextMessage(phone, finalMessage, {
+          template: { id: 'discount_offer', params: { code: discountCode.code, discount } },
+        });
         console.log(`✅ İndirim mesajı gönderildi: ${phone} - Kod: ${discountCode.code}`);
       } catch (error: any) {
         console.error(`❌ İndirim mesajı gönderilemedi: ${error.message}`);
@@ -0,0 +1,203 @@
+import { Router, Request, Response } from 'express';
+import { Order } from '../models/order.model';
+import { OrderService } from '../services/order.service';
+import { coverArtUrl, deliveredVariants, songMediaUrl } from '../services/share-links';
+
+const SHARE_TOKEN_PATTERN = /^[a-f0-9]{32}$/;
+
+/**
+ * Şarkı paylaşım sayfası ve kalıcı medya linkleri
+ * /s/:shareToken     - oynatıcı, şarkı sözleri ve ithaf
+ * /media/:shareToken - Storage'daki ses dosyasına kısa ömürlü imzalı URL ile yönlendirir
+ *                      (?variant=2 ikinci Suno versiyonu - seçim sırasında önizleme)
+ * /cover/:shareToken - şarkıya özel üretilen kapak görseli
+ * Storage dosyaları gizli kalır, teslim edilen linkler ise hiç eskimez.
+ */
+export function createShareRouter(orderService: OrderService): Router {
+  const router = Router();
+
+  const findOrder = async (shareToken: string): Promise<Order | null> => {
+    if (!SHARE_TOKEN_PATTERN.test(shareToken)) {
+      return null;
+    }
+    return await orderService.getOrderByShareToken(shareToken);
+  };
+
+  /**
+   * Paylaşım sayfası
+   */
+  router.get('/s/:shareToken', async (req: Request, res: Response) => {
+    try {
+      // Versiyon seçimi bekleyen siparişlerin sadece önizleme linkleri açıktır
+      const order = await findOrder(req.params.shareToken);
+      if (!order || order.status !== 'completed') {
+        return res.status(404).send(renderNotFoundPage());
+      }
+
+      res.send(renderSharePage(order, req.params.shareToken));
+    } catch (error: any) {
+      console.error('Error rendering share page:', error);
+      res.status(500).send('Bir hata oluştu, lütfen daha sonra tekrar deneyin.');
+    }
+  });
+
+  /**
+   * Ses dosyası (?variant=1|2, ?download=1 ile indirme)
+   * Her istekte yeniden imzalanır - tarayıcı/WhatsApp yönlendirmeyi takip eder
+   */
+  router.get('/media/:shareToken', async (req: Request, res: Response) => {
+    try {
+      const order = await findOrder(req.params.shareToken);
+      const variant = typeof req.query.variant === 'string' ? parseInt(req.query.variant, 10) || undefined : undefined;
+      const fileUrl = order
+        ? await orderService.getSongFileUrl(order, { variant, download: req.query.download === '1' })
+        : null;
+      if (!fileUrl) {
+        return res.status(404).json({ error: 'Dosya bulunamadı' });
+      }
+
+      res.set('Cache-Control', 'no-store');
+      res.redirect(302, fileUrl);
+    } catch (error: any) {
+      console.error('Error resolving media link:', error);
+      res.status(500).json({ error: 'Bir hata oluştu' });
+    }
+  });
+
+  /**
+   * Kapak görseli (WhatsApp görseli ve sayfa önizlemesi)
+   */
+  router.get('/cover/:shareToken', async (req: Request, res: Response) => {
+    try {
+      const order = await findOrder(req.params.shareToken);
+      const imageUrl = order ? await orderService.getCoverArtUrl(order) : null;
+      if (!imageUrl) {
+        return res.status(404).json({ error: 'Kapak bulunamadı' });
+      }
+
+      res.set('Cache-Control', 'no-store');
+      res.redirect(302, imageUrl);
+    } catch (error: any) {
+      console.error('Error resolving cover link:', error);
+      res.status(500).json({ error: 'Bir hata oluştu' });
+    }
+  });
+
+  return router;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderNotFoundPage(): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Şarkı Bulunamadı</title>
+      <style>
+        body { font-family: Arial, sans-serif; text-align: center; padding: 50px; background: #f5f5f5; color: #333; }
+      </style>
+    </head>
+    <body>
+      <h1>🎵 Şarkı bulunamadı</h1>
+      <p>Bağlantı geçersiz veya şarkı henüz hazır değil.</p>
+      <p><a href="https://bihediye.art">bihediye.art</a></p>
+    </body>
+    </html>
+  `;
+}
+
+function renderSharePage(order: Order, shareToken: string): string {
+  const recipientName = order.orderData.recipientName?.trim();
+  const title = recipientName ? `${recipientName} için` : 'Size Özel Bir Şarkı';
+  const dedication = recipientName
+    ? `🎁 Bu şarkı ${recipientName} için özel olarak bestelendi.`
+    : '🎁 Bu şarkı sevdikleriniz için özel olarak bestelendi.';
+  const songInfo = [order.orderData.song1?.type, order.orderData.song1?.style].filter(Boolean).join(' · ');
+
+  // Paket teslimatta her versiyon için ayrı oynatıcı
+  const variants = deliveredVariants(order);
+  const players = variants.length > 1
+    ? variants.map(variant => `
+        <h3>${variant.number}. Versiyon</h3>
+        <audio controls preload="metadata" src="${songMediaUrl(shareToken, { variant: variant.number })}"></audio>
+        <div><a class="download" href="${songMediaUrl(shareToken, { variant: variant.number, download: true })}">⬇️ ${variant.number}. Versiyonu İndir</a></div>`).join('')
+    : `
+        <audio controls preload="metadata" src="${songMediaUrl(shareToken)}"></audio>
+        <div><a class="download" href="${songMediaUrl(shareToken, { download: true })}">⬇️ Şarkıyı İndir</a></div>`;
+  const lyrics = order.song1Lyrics
+    ? `<div class="lyrics">${escapeHtml(order.song1Lyrics)}</div>`
+    : '';
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${escapeHtml(title)} - bihediye.art</title>
+      <meta property="og:title" content="${escapeHtml(title)}">
+      <meta property="og:description" content="${escapeHtml(dedication)}">
+      <meta property="og:type" content="music.song">
+      <meta property="og:audio" content="${songMediaUrl(shareToken)}">
+      ${order.coverArtPath ? `<meta property="og:image" content="${coverArtUrl(shareToken)}">` : ''}
+      <style>
+        body {
+          font-family: Arial, sans-serif;
+          margin: 0;
+          padding: 30px 15px;
+          background: linear-gradient(135deg, #e4405f 0%, #764ba2 100%);
+          color: #333;
+          min-height: 100vh;
+        }
+        .card {
+          background: white;
+          border-radius: 20px;
+          padding: 30px;
+          max-width: 600px;
+          margin: 0 auto;
+          box-shadow: 0 10px 40px rgba(0,0,0,0.2);
+          text-align: center;
+        }
+        .icon { font-size: 60px; }
+        .cover { width: 100%; max-width: 320px; border-radius: 12px; box-shadow: 0 6px 20px rgba(0,0,0,0.25); }
+        h1 { margin: 10px 0 5px; font-size: 28px; }
+        .song-info { color: #888; margin-bottom: 15px; }
+        .dedication { font-size: 17px; line-height: 1.6; margin: 15px 0 25px; }
+        audio { width: 100%; }
+        h3 { margin: 25px 0 10px; font-size: 18px; }
+        .download {
+          display: inline-block; margin-top: 15px; padding: 12px 24px; border-radius: 8px;
+          background: #e4405f; color: white; text-decoration: none; font-weight: bold;
+        }
+        .lyrics {
+          background: #fdf2f4; border-radius: 10px; padding: 20px; white-space: pre-line;
+          font-style: italic; line-height: 1.6; margin-top: 25px; text-align: left;
+        }
+        .footer { text-align: center; color: rgba(255,255,255,0.85); margin-top: 20px; font-size: 14px; }
+        .footer a { color: white; }
+      </style>
+    </head>
+    <body>
+      <div class="card">
+        ${order.coverArtPath ? `<img class="cover" src="${coverArtUrl(shareToken)}" alt="${escapeHtml(title)}">` : '<div class="icon">🎵</div>'}
+        <h1>${escapeHtml(title)}</h1>
+        ${songInfo ? `<div class="song-info">${escapeHtml(songInfo)}</div>` : ''}
+        <p class="dedication">${escapeHtml(dedication)}</p>
+        ${players}
+        ${lyrics}
+      </div>
+      <div class="footer">Sevdiklerinize özel şarkı hediye edin: <a href="https://bihediye.art">bihediye.art</a></div>
+    </body>
+    </html>
+  `;
+}
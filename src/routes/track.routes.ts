@@ -0,0 +1,285 @@
+import { Router, Request, Response } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { Order } from '../models/order.model';
+import { OrderService } from '../services/order.service';
+import { OrderProgressHub } from '../services/order-progress-hub';
+
+/**
+ * Sipariş takip sayfası ve canlı ilerleme (SSE)
+ * Bağlantı ödeme onayı mesajında gönderilir: /track/:orderId?t=<trackingToken>
+ * Token eşleşmezse sipariş yokmuş gibi 404 döner.
+ */
+export function createTrackRouter(
+  orderService: OrderService,
+  progressHub: OrderProgressHub,
+  refreshIntervalMs: number = 30000
+): Router {
+  const router = Router();
+
+  const findOrder = async (req: Request): Promise<Order | null> => {
+    const order = await orderService.getOrder(req.params.orderId);
+    if (!order || !tokenMatches(order.trackingToken, req.query.t)) {
+      return null;
+    }
+    return order;
+  };
+
+  /**
+   * Takip sayfası - ilk durum sayfaya gömülür, sonrası /events üzerinden gelir
+   */
+  router.get('/:orderId', async (req: Request, res: Response) => {
+    try {
+      const order = await findOrder(req);
+      if (!order) {
+        return res.status(404).send(renderNotFoundPage());
+      }
+
+      const state = await orderService.getTrackingState(order);
+      const eventsUrl = `${req.baseUrl}/${encodeURIComponent(order.id)}/events?t=${encodeURIComponent(order.trackingToken!)}`;
+
+      res.set('Cache-Control', 'no-store');
+      res.send(renderTrackPage(state, eventsUrl));
+    } catch (error: any) {
+      console.error('Error rendering tracking page:', error);
+      res.status(500).send('Bir hata oluştu, lütfen daha sonra tekrar deneyin.');
+    }
+  });
+
+  /**
+   * Canlı ilerleme (Server-Sent Events)
+   * Sipariş durumu ve müzik üretim ilerlemesi değiştikçe güncel durum gönderilir.
+   * Başka bir instance'taki değişiklikler için periyodik olarak da yenilenir.
+   */
+  router.get('/:orderId/events', async (req: Request, res: Response) => {
+    let order: Order | null;
+    try {
+      order = await findOrder(req);
+    } catch (error: any) {
+      console.error('Error opening tracking stream:', error);
+      return res.status(500).json({ error: 'Bir hata oluştu' });
+    }
+    if (!order) {
+      return res.status(404).json({ error: 'Sipariş bulunamadı' });
+    }
+
+    const orderId = order.id;
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    let closed = false;
+    let pending: Promise<void> = Promise.resolve();
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(refreshTimer);
+      unsubscribe();
+      res.end();
+    };
+
+    const sendState = async (current: Order | null) => {
+      if (closed || !current) return;
+      const state = await orderService.getTrackingState(current);
+      if (closed) return;
+
+      res.write(`data: ${JSON.stringify(state)}\n\n`);
+      if (current.status === 'completed' || current.status === 'failed') {
+        close();
+      }
+    };
+
+    // Sends are chained so updates never arrive out of order
+    const refresh = () => {
+      pending = pending
+        .then(async () => sendState(closed ? null : await orderService.getOrder(orderId)))
+        .catch(error => console.error(`Error refreshing tracking state for ${orderId}:`, error.message));
+    };
+
+    const unsubscribe = progressHub.subscribe(orderId, refresh);
+    const refreshTimer = setInterval(refresh, refreshIntervalMs);
+    req.on('close', close);
+
+    pending = sendState(order).catch(error => console.error(`Error sending tracking state for ${orderId}:`, error.message));
+  });
+
+  return router;
+}
+
+function tokenMatches(expected: string | undefined, received: unknown): boolean {
+  if (!expected || typeof received !== 'string') {
+    return false;
+  }
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received);
+  return expectedBuffer.length === receivedBuffer.length && timingSafeEqual(expectedBuffer, receivedBuffer);
+}
+
+function renderNotFoundPage(): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Sipariş Bulunamadı</title>
+      <style>
+        body { font-family: Arial, sans-serif; text-align: center; padding: 50px; background: #f5f5f5; color: #333; }
+      </style>
+    </head>
+    <body>
+      <h1>❌ Sipariş bulunamadı</h1>
+      <p>Takip bağlantısı geçersiz. Lütfen size gönderilen bağlantıyı kullanın.</p>
+    </body>
+    </html>
+  `;
+}
+
+function renderTrackPage(state: object, eventsUrl: string): string {
+  // JSON inside <script> - escape "<" so lyrics can't close the tag
+  const initialState = JSON.stringify(state).replace(/</g, '\\u003c');
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Sipariş Takibi - bihediye.art</title>
+      <style>
+        body {
+          font-family: Arial, sans-serif;
+          margin: 0;
+          padding: 30px 15px;
+          background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+          color: #333;
+          min-height: 100vh;
+        }
+        .card {
+          background: white;
+          border-radius: 20px;
+          padding: 30px;
+          max-width: 600px;
+          margin: 0 auto;
+          box-shadow: 0 10px 40px rgba(0,0,0,0.2);
+        }
+        h1 { margin: 0 0 5px; font-size: 26px; }
+        .order-id { color: #888; font-family: monospace; margin-bottom: 25px; }
+        .timeline { list-style: none; padding: 0; margin: 0 0 25px; }
+        .timeline li { display: flex; align-items: center; padding: 10px 0; color: #aaa; }
+        .timeline li .dot {
+          width: 28px; height: 28px; border-radius: 50%; background: #eee;
+          display: flex; align-items: center; justify-content: center; margin-right: 12px; font-size: 14px;
+        }
+        .timeline li.done { color: #333; }
+        .timeline li.done .dot { background: #38ef7d; color: white; }
+        .timeline li.active { color: #333; font-weight: bold; }
+        .timeline li.active .dot { background: #667eea; color: white; }
+        .progress { background: #eee; border-radius: 10px; height: 12px; overflow: hidden; margin: 10px 0; }
+        .progress div { background: #667eea; height: 100%; width: 0; transition: width 0.5s; }
+        .info { color: #555; margin: 8px 0; }
+        .lyrics {
+          background: #f8f7fc; border-radius: 10px; padding: 20px; white-space: pre-line;
+          font-style: italic; line-height: 1.6; margin-top: 20px;
+        }
+        .failed { background: #fdecea; color: #b71c1c; border-radius: 10px; padding: 15px; }
+        audio { width: 100%; margin-top: 15px; }
+        .hidden { display: none; }
+      </style>
+    </head>
+    <body>
+      <div class="card">
+        <h1>🎵 Sipariş Takibi</h1>
+        <div class="order-id" id="order-id"></div>
+
+        <ol class="timeline" id="timeline">
+          <li data-step="0"><span class="dot">1</span>Ödeme bekleniyor</li>
+          <li data-step="1"><span class="dot">2</span>Ödeme alındı</li>
+          <li data-step="2"><span class="dot">3</span>Şarkı sözleri yazılıyor</li>
+          <li data-step="3"><span class="dot">4</span>Müzik üretiliyor</li>
+          <li data-step="4"><span class="dot">5</span>Şarkınız hazır</li>
+        </ol>
+
+        <div id="failed" class="failed hidden">❌ Siparişinizde bir sorun oluştu. Ekibimiz sizinle iletişime geçecek.</div>
+
+        <div id="music" class="hidden">
+          <div class="progress"><div id="progress-bar"></div></div>
+          <div class="info" id="progress-text"></div>
+          <div class="info" id="queue-text"></div>
+          <div class="info" id="eta-text"></div>
+        </div>
+
+        <div id="completed" class="hidden">
+          <p class="info">🎉 Şarkınız hazır! Hemen dinleyebilirsiniz:</p>
+          <audio id="audio" controls></audio>
+          <p class="info"><a id="share-link" href="#">🔗 Şarkı sayfanızı açın ve paylaşın</a></p>
+        </div>
+
+        <div id="lyrics" class="lyrics hidden"></div>
+      </div>
+
+      <script>
+        var STEPS = {
+          payment_pending: 0, paid: 1, pending: 1, lyrics_generating: 2,
+          music_generating: 3, variant_selection: 3, video_generating: 3, completed: 4, failed: -1
+        };
+
+        function show(id, visible) {
+          document.getElementById(id).classList.toggle('hidden', !visible);
+        }
+
+        function render(state) {
+          var step = STEPS[state.status];
+          document.getElementById('order-id').textContent = 'Sipariş No: ' + state.orderId +
+            (state.recipientName ? ' · ' + state.recipientName + ' için' : '');
+
+          var items = document.querySelectorAll('#timeline li');
+          for (var i = 0; i < items.length; i++) {
+            var index = Number(items[i].getAttribute('data-step'));
+            items[i].className = index < step || step === 4 ? 'done' : index === step ? 'active' : '';
+          }
+
+          show('failed', state.status === 'failed');
+          show('music', step === 1 || step === 3);
+          var progress = state.progress || 0;
+          document.getElementById('progress-bar').style.width = progress + '%';
+          document.getElementById('progress-text').textContent = state.progress !== undefined ? '🎼 İlerleme: %' + progress : '';
+          document.getElementById('queue-text').textContent = state.queuePosition ? '👥 Sıradaki yeriniz: ' + state.queuePosition : '';
+          document.getElementById('eta-text').textContent = state.etaMinutes !== undefined
+            ? (state.etaMinutes > 0 ? '⏱️ Tahmini kalan süre: ~' + state.etaMinutes + ' dk' : '⏱️ Birazdan hazır!')
+            : '';
+
+          show('completed', !!state.audioUrl);
+          var audio = document.getElementById('audio');
+          if (state.audioUrl && audio.getAttribute('src') !== state.audioUrl) {
+            audio.setAttribute('src', state.audioUrl);
+          }
+
+          if (state.shareUrl) {
+            document.getElementById('share-link').setAttribute('href', state.shareUrl);
+          }
+
+          show('lyrics', !!state.lyrics);
+          document.getElementById('lyrics').textContent = state.lyrics || '';
+        }
+
+        render(${initialState});
+
+        if (window.EventSource) {
+          var events = new EventSource(${JSON.stringify(eventsUrl)});
+          events.onmessage = function (event) {
+            var state = JSON.parse(event.data);
+            render(state);
+            if (state.status === 'completed' || state.status === 'failed') {
+              events.close();
+            }
+          };
+        }
+      </script>
+    </body>
+    </html>
+  `;
+}
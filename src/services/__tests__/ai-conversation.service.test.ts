@@ -67,5 +67,29 @@ describe('AIConversationService - Lyrics Review', () => {
 
       expect(result.action).toBeNull();
     });
+
+    it('should not read names containing answer words as approval', async () => {
+      const request = "Jale'nin adını nakarata ekle";
+      const result = await aiConversationService.parseLyricsReview(request);
+
+      expect(result.action).toBe('revise');
+      expect(result.revisionRequest).toBe(request);
+      expect((await aiConversationService.parseLyricsReview('Yesim')).action).toBeNull();
+    });
+  });
+
+  describe('parseConfirmation', () => {
+    it('should match whole answers in every language', async () => {
+      expect((await aiConversationService.parseConfirmation('Ja, bestätigen!')).confirmed).toBe(true);
+      expect((await aiConversationService.parseConfirmation('yes please')).confirmed).toBe(true);
+      expect((await aiConversationService.parseConfirmation('hayır, vazgeçtim')).confirmed).toBe(false);
+      expect((await aiConversationService.parseConfirmation('لا')).confirmed).toBe(false);
+    });
+
+    it('should not confirm messages that only contain answer words inside other words', async () => {
+      expect((await aiConversationService.parseConfirmation('Japonca olsun')).confirmed).toBeNull();
+      expect((await aiConversationService.parseConfirmation('Yesenia için')).confirmed).toBeNull();
+      expect((await aiConversationService.parseConfirmation('Nora')).confirmed).toBeNull();
+    });
   });
 });
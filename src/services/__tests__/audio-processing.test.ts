@@ -0,0 +1,114 @@
+import { AudioPostProcessor, orderAudioTags, stripId3Tag, writeId3Tag } from '../audio-processing.service';
+import { Order } from '../../models/order.model';
+
+// ID3v2.3 frames of a tagged file: id -> body
+function readFrames(file: Buffer): Record<string, Buffer> {
+  const size = (file[6] << 21) | (file[7] << 14) | (file[8] << 7) | file[9];
+  const frames: Record<string, Buffer> = {};
+  let offset = 10;
+
+  while (offset < 10 + size) {
+    const id = file.toString('latin1', offset, offset + 4);
+    const length = file.readUInt32BE(offset + 4);
+    frames[id] = file.subarray(offset + 10, offset + 10 + length);
+    offset += 10 + length;
+  }
+  return frames;
+}
+
+// Text frame body: encoding byte + UTF-16 with BOM
+function text(frame: Buffer): string {
+  return frame.subarray(3).toString('utf16le');
+}
+
+describe('Audio post-processing', () => {
+  const MP3 = Buffer.from('MP3-FRAMES');
+  const COVER = { mimeType: 'image/png', data: Buffer.from([0x89, 0x50, 0x4e, 0x47]) };
+
+  let order: Order;
+
+  beforeEach(() => {
+    order = {
+      id: 'order-1',
+      whatsappPhone: '905551112233',
+      channel: 'whatsapp',
+      orderData: { song1: { type: 'Pop', style: 'Romantik' }, story: 'Anılarımız', recipientName: ' Ayşe ' } as any,
+      status: 'music_generating',
+      basePrice: 299,
+      additionalCosts: 0,
+      totalPrice: 299,
+      song1Lyrics: '[Nakarat]\nAyşe, sen benim her şeyimsin',
+      createdAt: new Date('2026-02-14T10:00:00Z'),
+    };
+  });
+
+  it('should build personalized tags in the customer language', () => {
+    expect(orderAudioTags(order)).toEqual({
+      title: 'Ayşe için',
+      artist: 'bihediye.art',
+      album: 'bihediye.art',
+      year: '2026',
+      lyrics: order.song1Lyrics,
+      language: 'tur',
+    });
+
+    order.locale = 'en';
+    order.orderData.recipientName = undefined;
+    expect(orderAudioTags(order, 'New lyrics')).toEqual(expect.objectContaining({
+      title: 'A Song Just for You',
+      lyrics: 'New lyrics',
+      language: 'eng',
+    }));
+  });
+
+  it('should write title, artist, lyrics and cover art as ID3v2.3', () => {
+    const tagged = writeId3Tag(MP3, { ...orderAudioTags(order), cover: COVER });
+    const frames = readFrames(tagged);
+
+    expect(tagged.toString('latin1', 0, 4)).toBe('ID3\x03');
+    expect(text(frames.TIT2)).toBe('Ayşe için');
+    expect(text(frames.TPE1)).toBe('bihediye.art');
+    expect(text(frames.TYER)).toBe('2026');
+
+    // encoding, language, empty descriptor (BOM + terminator), lyrics
+    expect(frames.USLT.toString('latin1', 1, 4)).toBe('tur');
+    expect(frames.USLT.subarray(10).toString('utf16le')).toBe(order.song1Lyrics);
+
+    expect(frames.APIC.toString('latin1', 1, 10)).toBe('image/png');
+    expect(frames.APIC[11]).toBe(0x03);
+    expect(frames.APIC.subarray(13)).toEqual(COVER.data);
+
+    expect(stripId3Tag(tagged)).toEqual(MP3);
+  });
+
+  it('should replace the tag Suno wrote', () => {
+    const sunoFile = writeId3Tag(MP3, { title: 'Pop Song', artist: 'Suno' });
+
+    const tagged = writeId3Tag(sunoFile, { title: 'Ayşe için', artist: 'bihediye.art' });
+
+    expect(text(readFrames(tagged).TIT2)).toBe('Ayşe için');
+    expect(stripId3Tag(tagged)).toEqual(MP3);
+  });
+
+  it('should master the audio and add the default cover art', async () => {
+    const masterer = { name: 'test', master: jest.fn(async () => Buffer.from('MASTERED')) };
+    const processor = new AudioPostProcessor(masterer, COVER);
+
+    const file = await processor.process(MP3, orderAudioTags(order));
+
+    expect(masterer.master).toHaveBeenCalledWith(MP3);
+    expect(stripId3Tag(file).toString()).toBe('MASTERED');
+    expect(readFrames(file).APIC.subarray(13)).toEqual(COVER.data);
+  });
+
+  it('should tag the original audio when mastering fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const processor = new AudioPostProcessor({ name: 'test', master: jest.fn().mockRejectedValue(new Error('ffmpeg: not found')) });
+
+    const file = await processor.process(MP3, orderAudioTags(order));
+
+    expect(stripId3Tag(file)).toEqual(MP3);
+    expect(readFrames(file).APIC).toBeUndefined();
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,198 @@
+import { AudioQaService, FakeAudioAnalyzer, parseFfmpegAnalysis } from '../audio-qa.service';
+import { FirebaseQueueService, MusicGenerationJob } from '../firebase-queue.service';
+import { AudioMetrics, Order } from '../../models/order.model';
+
+const FFMPEG_OUTPUT = `
+Input #0, mp3, from '/tmp/bihediye-qa-x/song.mp3':
+  Duration: 00:03:05.40, start: 0.025057, bitrate: 192 kb/s
+  Stream #0:0: Audio: mp3, 48000 Hz, stereo, fltp, 192 kb/s
+[silencedetect @ 0x1] silence_start: -0.0250567
+[silencedetect @ 0x1] silence_end: 1.20 | silence_duration: 1.22
+[silencedetect @ 0x1] silence_start: 92.1
+[silencedetect @ 0x1] silence_end: 92.8 | silence_duration: 0.7
+[silencedetect @ 0x1] silence_start: 181.9
+[Parsed_volumedetect_1 @ 0x2] n_samples: 17798400
+[Parsed_volumedetect_1 @ 0x2] mean_volume: -17.3 dB
+[Parsed_volumedetect_1 @ 0x2] max_volume: 0.0 dB
+[Parsed_volumedetect_1 @ 0x2] histogram_0db: 17798
+[Parsed_ebur128_2 @ 0x3] Summary:
+
+  Integrated loudness:
+    I:         -12.4 LUFS
+    Threshold: -22.6 LUFS
+
+  True peak:
+    Peak:        0.4 dBFS
+`;
+
+const GOOD: AudioMetrics = {
+  durationSeconds: 185,
+  leadingSilenceSeconds: 0,
+  trailingSilenceSeconds: 1,
+  clippedRatio: 0,
+  truePeakDb: -1,
+  integratedLufs: -14,
+};
+
+describe('Audio quality gate', () => {
+  it('should read duration, silence, clipping and loudness from ffmpeg', () => {
+    const metrics = parseFfmpegAnalysis(FFMPEG_OUTPUT);
+
+    expect(metrics.durationSeconds).toBeCloseTo(185.4);
+    expect(metrics.leadingSilenceSeconds).toBeCloseTo(1.2);
+    expect(metrics.trailingSilenceSeconds).toBeCloseTo(3.5);
+    expect(metrics.clippedRatio).toBeCloseTo(0.001);
+    expect(metrics.truePeakDb).toBe(0.4);
+    expect(metrics.integratedLufs).toBe(-12.4);
+  });
+
+  it('should fail silent, clipped or truncated songs', () => {
+    const qa = new AudioQaService(new FakeAudioAnalyzer());
+
+    expect(qa.evaluate(GOOD)).toEqual(expect.objectContaining({ passed: true, issues: [], score: 99 }));
+    expect(qa.evaluate({ ...GOOD, durationSeconds: 42, leadingSilenceSeconds: 6 }).issues).toEqual(['too_short', 'leading_silence']);
+    expect(qa.evaluate({ ...GOOD, clippedRatio: 0.02, integratedLufs: -4 }).issues).toEqual(['clipping', 'too_loud']);
+    expect(qa.evaluate({ ...GOOD, integratedLufs: -30 }).passed).toBe(false);
+  });
+
+  describe('before delivery', () => {
+    let order: Order;
+    let firebase: any;
+    let messaging: any;
+    let jobDoc: any;
+    let queue: FirebaseQueueService;
+    let job: MusicGenerationJob;
+
+    const processWith = async (...results: AudioMetrics[]) => {
+      queue.setAudioQa(new AudioQaService(new FakeAudioAnalyzer(results)));
+      await (queue as any).processMusicGeneration(job);
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      jest.spyOn(global, 'setInterval').mockImplementation((() => 0) as any);
+      jest.spyOn(global, 'setTimeout').mockImplementation((() => 0) as any);
+
+      order = {
+        id: 'order-1',
+        whatsappPhone: '905551112233',
+        channel: 'whatsapp',
+        orderData: { song1: { type: 'Pop', style: 'Romantik' }, story: 'Anılarımız' } as any,
+        status: 'music_generating',
+        tier: 'premium',
+        basePrice: 299,
+        additionalCosts: 0,
+        totalPrice: 299,
+        createdAt: new Date(),
+      };
+
+      jobDoc = { update: jest.fn(async () => {}), delete: jest.fn(async () => {}) };
+      firebase = {
+        getDb: () => ({ collection: () => ({ doc: () => jobDoc }) }),
+        getOrder: jest.fn(async () => ({ ...order })),
+        updateOrder: jest.fn(async (_id: string, updates: Partial<Order>) => Object.assign(order, updates)),
+        uploadAudio: jest.fn(async (orderId: string, _songIndex: number, audio: Buffer, variant: number) => ({
+          path: `music/${orderId}/${audio.toString()}_v${variant}.mp3`,
+          url: `https://storage/${audio.toString()}`,
+        })),
+        deleteConversation: jest.fn(async () => {}),
+        logAnalytics: jest.fn(async () => {}),
+      };
+      messaging = {
+        sendAudioMessage: jest.fn(async () => {}),
+        sendOrderCompletion: jest.fn(async () => {}),
+      };
+
+      const suno = {
+        generateMusic: jest.fn(async () => ({ task_id: 'task-1' })),
+        waitForTaskCompletion: jest.fn(async () => ({
+          task_id: 'task-1',
+          status: 'Success',
+          file_url: 'https://suno/a.mp3',
+          variants: [
+            { id: 'a', audioUrl: 'https://suno/a.mp3', duration: 185 },
+            { id: 'b', audioUrl: 'https://suno/b.mp3', duration: 190 },
+          ],
+        })),
+        downloadFile: jest.fn(async (url: string) => Buffer.from(url.endsWith('a.mp3') ? 'a' : 'b')),
+      };
+      queue = new FirebaseQueueService(suno as any, firebase, messaging, {} as any);
+
+      job = {
+        id: 'order-1-song1',
+        orderId: 'order-1',
+        phoneNumber: order.whatsappPhone,
+        songIndex: 1,
+        request: { lyrics: 'Sözler', style: 'Pop', title: 'Şarkı' } as any,
+        status: 'processing',
+        progress: 0,
+        attempts: 1,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should deliver the better song as variant 1', async () => {
+      await processWith({ ...GOOD, integratedLufs: -19 }, GOOD);
+
+      expect(firebase.uploadAudio.mock.calls.map((call: any[]) => [call[2].toString(), call[3]])).toEqual([['b', 1], ['a', 2]]);
+      expect(order.status).toBe('completed');
+      expect(order.song1AudioQa).toEqual(expect.objectContaining({ passed: true, needsReview: false, regenerations: 0 }));
+      expect(order.song1AudioQa!.results.map(result => [result.sunoId, result.variant])).toEqual([['a', 2], ['b', 1]]);
+    });
+
+    it('should drop a failing variant', async () => {
+      await processWith({ ...GOOD, durationSeconds: 20 }, GOOD);
+
+      expect(order.song1Variants).toEqual([expect.objectContaining({ number: 1, audioUrl: 'https://storage/b' })]);
+      expect(messaging.sendAudioMessage).toHaveBeenCalledTimes(1);
+      expect(order.song1AudioQa!.results[0]).toEqual(expect.objectContaining({ passed: false, issues: ['too_short'], variant: undefined }));
+    });
+
+    it('should regenerate when every variant fails', async () => {
+      await processWith({ ...GOOD, clippedRatio: 0.05 });
+
+      expect(firebase.uploadAudio).not.toHaveBeenCalled();
+      expect(messaging.sendAudioMessage).not.toHaveBeenCalled();
+      expect(jobDoc.update).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'pending', attempts: 0, qaRegenerations: 1 }));
+      expect(order.status).toBe('music_generating');
+      expect(order.song1AudioQa).toEqual(expect.objectContaining({ passed: false, regenerations: 1 }));
+      expect(order.song1AudioQa!.results).toHaveLength(2);
+    });
+
+    it('should deliver the best failing song for review when out of regenerations', async () => {
+      order.song1AudioQa = {
+        checkedAt: new Date(),
+        regenerations: 1,
+        passed: false,
+        needsReview: false,
+        results: [{ passed: false, score: 50, issues: ['clipping'], metrics: GOOD, attempt: 0 }],
+      };
+      job.qaRegenerations = 1;
+
+      await processWith({ ...GOOD, trailingSilenceSeconds: 30 }, { ...GOOD, trailingSilenceSeconds: 9 });
+
+      expect(order.status).toBe('completed');
+      expect(firebase.uploadAudio.mock.calls[0][2].toString()).toBe('b');
+      expect(order.song1AudioQa).toEqual(expect.objectContaining({ passed: false, needsReview: true, regenerations: 1 }));
+      expect(order.song1AudioQa!.results.map(result => result.attempt)).toEqual([0, 1, 1]);
+    });
+
+    it('should deliver unchecked songs when the analysis fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const analyzer = new FakeAudioAnalyzer();
+      jest.spyOn(analyzer, 'analyze').mockRejectedValue(new Error('ffmpeg: not found'));
+      queue.setAudioQa(new AudioQaService(analyzer));
+
+      await (queue as any).processMusicGeneration(job);
+
+      expect(order.status).toBe('completed');
+      expect(order.song1AudioQa).toEqual(expect.objectContaining({ needsReview: true, error: 'ffmpeg: not found' }));
+    });
+  });
+});
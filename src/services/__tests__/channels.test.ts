@@ -0,0 +1,177 @@
+import { EventEmitter } from 'events';
+import { Duplex } from 'stream';
+import { ChannelRouter } from '../channels/channel-router';
+import { customerKey, parseCustomerKey } from '../channels/messaging-channel';
+import { TelegramChannel } from '../channels/telegram.channel';
+import { WebChatChannel } from '../channels/web-chat.channel';
+import { WebSocketConnection } from '../channels/websocket';
+
+describe('Messaging channels', () => {
+  const handler = () => ({
+    handleIncomingMessage: jest.fn(),
+    handleIncomingSelection: jest.fn(),
+    handleIncomingMedia: jest.fn(),
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('customer keys', () => {
+    it('should keep bare phone numbers for WhatsApp and prefix other channels', () => {
+      expect(customerKey('whatsapp', '+905551234567')).toBe('+905551234567');
+      expect(customerKey('telegram', '42')).toBe('telegram:42');
+
+      expect(parseCustomerKey('+905551234567')).toEqual({ channel: 'whatsapp', userId: '+905551234567' });
+      expect(parseCustomerKey('web:3f2a-99')).toEqual({ channel: 'web', userId: '3f2a-99' });
+    });
+  });
+
+  describe('ChannelRouter', () => {
+    it('should send on the channel the customer key belongs to', async () => {
+      const whatsapp: any = { name: 'whatsapp', sendTextMessage: jest.fn() };
+      const telegram: any = { name: 'telegram', sendTextMessage: jest.fn() };
+      const router = new ChannelRouter(whatsapp);
+      router.register(telegram);
+
+      await router.sendTextMessage('telegram:42', 'Merhaba');
+      await router.sendTextMessage('+905551234567', 'Merhaba');
+
+      expect(telegram.sendTextMessage).toHaveBeenCalledWith('42', 'Merhaba', {});
+      expect(whatsapp.sendTextMessage).toHaveBeenCalledWith('+905551234567', 'Merhaba', {});
+      await expect(router.sendTextMessage('web:abc', 'Merhaba')).rejects.toThrow('not configured: web');
+    });
+
+    it('should send order updates in the customer language', async () => {
+      const whatsapp: any = { name: 'whatsapp', sendTextMessage: jest.fn() };
+      const router = new ChannelRouter(whatsapp);
+
+      await router.sendOrderConfirmation('+4915112345678', 'order-1', 299, new Date('2026-02-14T10:30:00Z'), 'de');
+      await router.sendProgressUpdate('+4915112345678', 'order-1', 'Die Musik ist fertig!', 70, 'de');
+
+      const [confirmation, progress] = whatsapp.sendTextMessage.mock.calls.map((call: any[]) => call[1]);
+      expect(confirmation).toContain('Bestellung Eingegangen');
+      expect(confirmation).toContain('14.02.26, 13:30');
+      expect(progress).toContain('Fortschritt:');
+      expect(progress).toContain('Die Musik ist fertig!');
+    });
+  });
+
+  describe('TelegramChannel', () => {
+    let channel: TelegramChannel;
+    let post: jest.Mock;
+    let messages: ReturnType<typeof handler>;
+
+    beforeEach(() => {
+      post = jest.fn(async () => ({ data: { ok: true } }));
+      channel = new TelegramChannel({ botToken: 'token', webhookSecret: 'secret' });
+      (channel as any).client = { post };
+      messages = handler();
+      channel.setMessageHandler(messages);
+    });
+
+    it('should hand over text messages keyed by chat id', async () => {
+      await channel.handleUpdate({ update_id: 1, message: { chat: { id: 42 }, from: { first_name: 'Ayşe' }, text: '/start' } });
+
+      expect(messages.handleIncomingMessage).toHaveBeenCalledWith('telegram:42', 'merhaba');
+    });
+
+    it('should turn button taps into selections', async () => {
+      await channel.handleUpdate({
+        update_id: 2,
+        callback_query: {
+          id: 'cb-1',
+          data: 'style:Pop',
+          from: { id: 7 },
+          message: {
+            chat: { id: 42 },
+            reply_markup: { inline_keyboard: [[{ text: 'Pop', callback_data: 'style:Pop' }]] },
+          },
+        },
+      });
+
+      expect(messages.handleIncomingSelection).toHaveBeenCalledWith('telegram:42', { id: 'style:Pop', title: 'Pop' });
+      expect(post).toHaveBeenCalledWith('/answerCallbackQuery', { callback_query_id: 'cb-1' });
+    });
+
+    it('should resend as plain text when the markup is rejected', async () => {
+      post.mockRejectedValueOnce({ response: { data: { description: "Bad Request: can't parse entities" } } });
+
+      await channel.sendTextMessage('42', '*Sipariş_1');
+
+      expect(post).toHaveBeenNthCalledWith(1, '/sendMessage', { chat_id: '42', text: '*Sipariş_1', parse_mode: 'Markdown' });
+      expect(post).toHaveBeenNthCalledWith(2, '/sendMessage', { chat_id: '42', text: '*Sipariş_1' });
+    });
+
+    it('should check the webhook secret', () => {
+      expect(channel.verifySecret('secret')).toBe(true);
+      expect(channel.verifySecret('wrong')).toBe(false);
+    });
+  });
+
+  describe('WebChatChannel', () => {
+    const fakeConnection = () => Object.assign(new EventEmitter(), { isOpen: true, send: jest.fn() });
+
+    it('should keep replies for a disconnected session until it reconnects', async () => {
+      const channel = new WebChatChannel();
+      await channel.sendTextMessage('session-1234', 'Şarkınız hazır');
+
+      const connection = fakeConnection();
+      channel.connect('session-1234', connection as any);
+
+      expect(connection.send.mock.calls.map(([data]) => JSON.parse(data))).toEqual([
+        { type: 'session', sessionId: 'session-1234' },
+        { type: 'text', text: 'Şarkınız hazır' },
+      ]);
+    });
+
+    it('should hand over widget messages keyed by session', async () => {
+      const channel = new WebChatChannel();
+      const messages = handler();
+      channel.setMessageHandler(messages);
+      const connection = fakeConnection();
+      channel.connect('session-1234', connection as any);
+
+      connection.emit('message', JSON.stringify({ type: 'text', text: 'merhaba' }));
+      connection.emit('message', JSON.stringify({ type: 'selection', id: 'confirm:yes', title: 'Onayla' }));
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(messages.handleIncomingMessage).toHaveBeenCalledWith('web:session-1234', 'merhaba');
+      expect(messages.handleIncomingSelection).toHaveBeenCalledWith('web:session-1234', { id: 'confirm:yes', title: 'Onayla' });
+    });
+  });
+
+  describe('WebSocketConnection', () => {
+    it('should complete the handshake and exchange text frames', () => {
+      const written: Buffer[] = [];
+      const socket = new Duplex({
+        read() {},
+        write(chunk, encoding, callback) {
+          written.push(Buffer.from(chunk));
+          callback();
+        },
+      });
+      const req: any = { headers: { upgrade: 'websocket', 'sec-websocket-key': 'dGhlIHNhbXBsZSBub25jZQ==' } };
+
+      const connection = WebSocketConnection.accept(req, socket)!;
+      const received: string[] = [];
+      connection.on('message', text => received.push(text));
+
+      // Sample key and accept value from RFC 6455
+      expect(written[0].toString()).toContain('Sec-WebSocket-Accept: s3pPLMBiTxaQ9kYGzzhZRbK+xOo=');
+
+      const mask = Buffer.from([1, 2, 3, 4]);
+      const payload = Buffer.from('merhaba').map((byte, i) => byte ^ mask[i % 4]);
+      socket.emit('data', Buffer.concat([Buffer.from([0x81, 0x80 | payload.length]), mask, payload]));
+      expect(received).toEqual(['merhaba']);
+
+      connection.send('selam');
+      expect(written[1]).toEqual(Buffer.concat([Buffer.from([0x81, 5]), Buffer.from('selam')]));
+    });
+  });
+});
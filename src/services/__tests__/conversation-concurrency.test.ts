@@ -0,0 +1,146 @@
+import { OrderService } from '../order.service';
+import { ConversationConflictError } from '../firebase.service';
+import { ConversationEngine } from '../conversation/conversation-engine';
+import { KeyedMutex } from '../conversation/keyed-mutex';
+import { ConversationState } from '../../models/conversation.model';
+
+const tick = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * In-memory conversations with the same version check as FirebaseService
+ */
+function createFakeFirebase() {
+  const store = new Map<string, ConversationState>();
+  const clone = (conversation: ConversationState): ConversationState => ({
+    ...JSON.parse(JSON.stringify(conversation)),
+    lastUpdated: new Date(conversation.lastUpdated),
+  });
+
+  return {
+    store,
+    getConversation: jest.fn(async (phone: string) => {
+      await tick(1);
+      const stored = store.get(phone);
+      return stored ? clone(stored) : null;
+    }),
+    saveConversation: jest.fn(async (conversation: ConversationState) => {
+      await tick(1);
+      const stored = store.get(conversation.phone);
+      if (conversation.version !== undefined && stored && stored.version !== conversation.version) {
+        throw new ConversationConflictError(conversation.phone, conversation.version, stored.version);
+      }
+      conversation.version = (stored?.version || 0) + 1;
+      store.set(conversation.phone, clone(conversation));
+    }),
+    deleteConversation: jest.fn(async (phone: string) => {
+      store.delete(phone);
+    }),
+    getPendingMessageBuffers: jest.fn(async () => []),
+    getUser: jest.fn(async () => null),
+    saveUser: jest.fn(),
+    logAnalytics: jest.fn(),
+  };
+}
+
+describe('KeyedMutex', () => {
+  it('should run tasks of the same key in arrival order', async () => {
+    const mutex = new KeyedMutex();
+    const events: string[] = [];
+
+    await Promise.all([
+      mutex.runExclusive('a', async () => { events.push('a1:start'); await tick(10); events.push('a1:end'); }),
+      mutex.runExclusive('a', async () => { events.push('a2:start'); await tick(1); events.push('a2:end'); }),
+      mutex.runExclusive('b', async () => { events.push('b1:start'); await tick(1); events.push('b1:end'); }),
+    ]);
+
+    expect(events.indexOf('a2:start')).toBeGreaterThan(events.indexOf('a1:end'));
+    // Other keys are not blocked
+    expect(events.indexOf('b1:end')).toBeLessThan(events.indexOf('a1:end'));
+    expect(mutex.size).toBe(0);
+  });
+
+  it('should release the lock when a task fails', async () => {
+    const mutex = new KeyedMutex();
+
+    await expect(mutex.runExclusive('a', async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(mutex.runExclusive('a', async () => 'ok')).resolves.toBe('ok');
+  });
+});
+
+describe('Per-phone message serialization', () => {
+  const phone = '+905551234567';
+
+  let firebase: ReturnType<typeof createFakeFirebase>;
+  let service: OrderService;
+
+  beforeEach(() => {
+    jest.spyOn(global, 'setInterval').mockImplementation((() => 0) as any);
+
+    firebase = createFakeFirebase();
+    const whatsappService = { sendTextMessage: jest.fn(), sendButtonMessage: jest.fn(), recordInboundMessage: jest.fn() };
+    service = new OrderService({} as any, {} as any, whatsappService as any, firebase as any);
+
+    // Every message is appended to the notes after a slow (LLM-like) call
+    const engine = new ConversationEngine({ messaging: whatsappService, firebaseService: firebase } as any)
+      .register({ step: 'welcome', transitions: ['story_and_notes'], handle: async () => ({ next: 'story_and_notes' }) })
+      .register({
+        step: 'story_and_notes',
+        transitions: [],
+        handle: async ({ conversation, message }) => {
+          await tick(5);
+          conversation.data.notes = [conversation.data.notes, message].filter(Boolean).join(',');
+        },
+      });
+    (service as any).conversationEngine = engine;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should apply concurrent messages of one sender in order without lost updates', async () => {
+    await service.handleIncomingMessage(phone, 'Merhaba');
+
+    const messages = ['m1', 'm2', 'm3', 'm4', 'm5'];
+    await Promise.all(messages.map(message => service.handleIncomingMessage(phone, message)));
+
+    const stored = firebase.store.get(phone)!;
+    expect(stored.data.notes).toBe('m1,m2,m3,m4,m5');
+    expect(stored.version).toBe(messages.length + 1);
+  });
+
+  it('should retry on fresh state when another instance saved in between', async () => {
+    await service.handleIncomingMessage(phone, 'Merhaba');
+
+    // Another instance handles a message right after this one loaded the state
+    firebase.getConversation.mockImplementationOnce(async () => {
+      const loaded = { ...firebase.store.get(phone)!, data: { ...firebase.store.get(phone)!.data } };
+      const other = firebase.store.get(phone)!;
+      firebase.store.set(phone, { ...other, data: { notes: 'other' }, version: other.version! + 1 });
+      return loaded;
+    });
+
+    await service.handleIncomingMessage(phone, 'mine');
+
+    expect(firebase.store.get(phone)!.data.notes).toBe('other,mine');
+    expect(firebase.logAnalytics).toHaveBeenCalledWith('conversation_conflict', expect.objectContaining({ phone }));
+  });
+
+  it('should keep the merged story when its processing is retried', async () => {
+    await service.handleIncomingMessage(phone, 'Merhaba');
+
+    const aggregator = (service as any).messageAggregator;
+    const take = jest.spyOn(aggregator, 'take').mockResolvedValueOnce('part1 part2');
+    firebase.getConversation.mockImplementationOnce(async () => {
+      const loaded = { ...firebase.store.get(phone)!, data: { ...firebase.store.get(phone)!.data } };
+      const other = firebase.store.get(phone)!;
+      firebase.store.set(phone, { ...other, data: { notes: 'other' }, version: other.version! + 1 });
+      return loaded;
+    });
+
+    await (service as any).processAggregatedMessages(phone);
+
+    expect(take).toHaveBeenCalledTimes(1);
+    expect(firebase.store.get(phone)!.data.notes).toBe('other,part1 part2');
+  });
+});
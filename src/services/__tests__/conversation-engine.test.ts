@@ -0,0 +1,168 @@
+import { ConversationEngine, ConversationDeps, StepHandler } from '../conversation/conversation-engine';
+import { ConversationState } from '../../models/conversation.model';
+
+describe('ConversationEngine', () => {
+  let engine: ConversationEngine;
+  let deps: ConversationDeps;
+  let conversation: ConversationState;
+
+  const welcome: StepHandler = {
+    step: 'welcome',
+    transitions: ['song_settings'],
+    handle: jest.fn(async () => ({ next: 'song_settings' as const })),
+    onExit: jest.fn(async () => {}),
+  };
+
+  const songSettings: StepHandler = {
+    step: 'song_settings',
+    transitions: ['recipient_info'],
+    handle: jest.fn(async () => ({ next: 'confirm' as const })),
+    onEnter: jest.fn(async () => {}),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    deps = {
+      firebaseService: { logAnalytics: jest.fn() },
+    } as any;
+
+    engine = new ConversationEngine(deps)
+      .register(welcome)
+      .register(songSettings);
+
+    conversation = {
+      phone: '+905551234567',
+      step: 'welcome',
+      data: {},
+      lastUpdated: new Date(),
+    };
+  });
+
+  it('should move to an allowed step and run exit/enter hooks', async () => {
+    const shouldSave = await engine.process(conversation, 'merhaba');
+
+    expect(shouldSave).toBe(true);
+    expect(conversation.step).toBe('song_settings');
+    expect(welcome.onExit).toHaveBeenCalled();
+    expect(songSettings.onEnter).toHaveBeenCalledWith(
+      expect.objectContaining({ previousStep: 'welcome' })
+    );
+  });
+
+  it('should reject and log illegal transitions', async () => {
+    conversation.step = 'song_settings';
+
+    await engine.process(conversation, 'Pop, Romantik, Kadın');
+
+    expect(conversation.step).toBe('song_settings');
+    expect(deps.firebaseService.logAnalytics).toHaveBeenCalledWith(
+      'conversation_illegal_transition',
+      expect.objectContaining({ fromStep: 'song_settings', toStep: 'confirm' })
+    );
+  });
+
+  it('should fall back after the configured number of failed attempts', async () => {
+    const fallbacks: boolean[] = [];
+    engine.register({
+      step: 'recipient_info',
+      transitions: [],
+      handle: async (ctx) => {
+        fallbacks.push(ctx.registerFailedAttempt());
+      },
+    });
+    conversation.step = 'recipient_info';
+
+    await engine.process(conversation, 'a');
+    await engine.process(conversation, 'b');
+
+    expect(fallbacks).toEqual([false, true]);
+    expect(conversation.retryCount).toBe(0);
+  });
+
+  it('should pass button selections to the step without checking edit intents', async () => {
+    const handle = jest.fn(async () => {});
+    deps.aiConversationService = { parseEditIntent: jest.fn() } as any;
+    engine.register({
+      step: 'confirm',
+      transitions: [],
+      acceptsEditIntents: true,
+      handle,
+    });
+    conversation.step = 'confirm';
+
+    await engine.process(conversation, 'Onayla', { id: 'confirm:yes', title: 'Onayla' });
+
+    expect(deps.aiConversationService.parseEditIntent).not.toHaveBeenCalled();
+    expect(handle).toHaveBeenCalledWith(
+      expect.objectContaining({ selection: { id: 'confirm:yes', title: 'Onayla' } })
+    );
+  });
+
+  describe('back and edit', () => {
+    const recipient: StepHandler = {
+      step: 'recipient_info',
+      transitions: ['story_and_notes', 'song_settings'],
+      fields: ['relation', 'name'],
+      clearData: (conv) => {
+        conv.data.recipientRelation = undefined;
+      },
+      handle: async (ctx) => {
+        ctx.conversation.data.recipientRelation = ctx.message;
+        return { next: 'story_and_notes' as const };
+      },
+    };
+
+    const story: StepHandler = {
+      step: 'story_and_notes',
+      transitions: ['recipient_info'],
+      handle: async () => {},
+    };
+
+    beforeEach(() => {
+      engine.register(recipient).register(story);
+      conversation.step = 'story_and_notes';
+      conversation.history = ['welcome', 'song_settings', 'recipient_info'];
+      conversation.data.recipientRelation = 'Annem';
+    });
+
+    it('should go back to the previous step and clear its answers', async () => {
+      const moved = await engine.back(conversation);
+
+      expect(moved).toBe(true);
+      expect(conversation.step).toBe('recipient_info');
+      expect(conversation.history).toEqual(['welcome', 'song_settings']);
+      expect(conversation.data.recipientRelation).toBeUndefined();
+    });
+
+    it('should not go back to welcome', async () => {
+      conversation.step = 'song_settings';
+      conversation.history = ['welcome'];
+
+      expect(await engine.back(conversation)).toBe(false);
+      expect(conversation.step).toBe('song_settings');
+    });
+
+    it('should return to the original step after an edited answer', async () => {
+      await engine.edit(conversation, ['relation']);
+
+      expect(conversation.step).toBe('recipient_info');
+      expect(conversation.returnToStep).toBe('story_and_notes');
+
+      await engine.process(conversation, 'Sevgilim');
+
+      expect(conversation.step).toBe('story_and_notes');
+      expect(conversation.data.recipientRelation).toBe('Sevgilim');
+      expect(conversation.returnToStep).toBeUndefined();
+      expect(conversation.history).toEqual(['welcome', 'song_settings', 'recipient_info']);
+    });
+
+    it('should restore previous answers when an edit is abandoned', async () => {
+      await engine.edit(conversation, ['relation']);
+      await engine.back(conversation);
+
+      expect(conversation.step).toBe('story_and_notes');
+      expect(conversation.data.recipientRelation).toBe('Annem');
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { CoverArtService, FakeCoverRenderer, detectOccasion, orderCoverDetails, renderCoverSvg } from '../cover-art.service';
+import { AudioPostProcessor } from '../audio-processing.service';
+import { FirebaseQueueService, MusicGenerationJob } from '../firebase-queue.service';
+import { extractSongTitle } from '../openai.service';
+import { Order } from '../../models/order.model';
+
+describe('Personalized cover art', () => {
+  let order: Order;
+
+  beforeEach(() => {
+    order = {
+      id: 'order-1',
+      whatsappPhone: '905551112233',
+      channel: 'whatsapp',
+      orderData: {
+        song1: { type: 'Rock', style: 'Romantik' },
+        story: 'Ayşe\'nin doğum günü için, ilk tanıştığımız konser',
+        recipientName: 'Ayşe',
+      } as any,
+      status: 'music_generating',
+      basePrice: 299,
+      additionalCosts: 0,
+      totalPrice: 299,
+      song1Title: 'Konser Gecesi',
+      createdAt: new Date('2026-02-14T10:00:00Z'),
+    };
+  });
+
+  it('should read the title line of the generated lyrics', () => {
+    expect(extractSongTitle('[Title]: «Sonsuz Yaz»\n\n[verse]\nla la')).toEqual({ title: 'Sonsuz Yaz', lyrics: '[verse]\nla la' });
+    expect(extractSongTitle('[verse]\nla la')).toEqual({ lyrics: '[verse]\nla la' });
+    expect(extractSongTitle('[title]\n[verse]\nla la').title).toBeUndefined();
+  });
+
+  it('should detect the occasion from the story', () => {
+    expect(detectOccasion(order)).toBe('birthday');
+
+    order.orderData.story = 'Unser erster Urlaub';
+    expect(detectOccasion(order)).toBeUndefined();
+
+    order.orderData.notes = 'Happy Valentine';
+    expect(detectOccasion(order)).toBe('valentines');
+  });
+
+  it('should render title, dedication and occasion in the genre colors', () => {
+    const svg = renderCoverSvg(orderCoverDetails(order));
+
+    expect(svg).toContain('>Konser Gecesi</text>');
+    expect(svg).toContain('>Ayşe için</text>');
+    expect(svg).toContain('>Doğum Günü</text>');
+    expect(svg).toContain('stop-color="#b31217"');
+
+    // No dedication when the title already names the recipient
+    order.song1Title = 'Ayşe & <Ben>';
+    const escaped = renderCoverSvg(orderCoverDetails(order));
+    expect(escaped).toContain('>Ayşe &amp; &lt;Ben&gt;</text>');
+    expect(escaped).not.toContain('Ayşe için');
+  });
+
+  it('should embed the cover in the song and send it before the audio', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(global, 'setInterval').mockImplementation((() => 0) as any);
+    jest.spyOn(global, 'setTimeout').mockImplementation((() => 0) as any);
+
+    const jobDoc = { update: jest.fn(async () => {}), delete: jest.fn(async () => {}) };
+    const firebase: any = {
+      getDb: () => ({ collection: () => ({ doc: () => jobDoc }) }),
+      getOrder: jest.fn(async () => ({ ...order })),
+      updateOrder: jest.fn(async (_id: string, updates: Partial<Order>) => Object.assign(order, updates)),
+      uploadCoverArt: jest.fn(async (orderId: string) => ({ path: `music/${orderId}/cover.png`, url: 'https://storage/cover' })),
+      uploadAudio: jest.fn(async (orderId: string) => ({ path: `music/${orderId}/song.mp3`, url: 'https://storage/song' })),
+      deleteConversation: jest.fn(async () => {}),
+      logAnalytics: jest.fn(async () => {}),
+    };
+    const sent: string[] = [];
+    const messaging: any = {
+      sendImageMessage: jest.fn(async (_to: string, url: string) => { sent.push(url); }),
+      sendAudioMessage: jest.fn(async (_to: string, url: string) => { sent.push(url); }),
+      sendOrderCompletion: jest.fn(async () => {}),
+    };
+    const suno: any = {
+      generateMusic: jest.fn(async () => ({ task_id: 'task-1' })),
+      waitForTaskCompletion: jest.fn(async () => ({ task_id: 'task-1', status: 'Success', file_url: 'https://suno/a.mp3' })),
+      downloadFile: jest.fn(async () => Buffer.from('MP3')),
+    };
+
+    const renderer = new FakeCoverRenderer();
+    const queue = new FirebaseQueueService(suno, firebase, messaging, {} as any);
+    queue.setAudioPostProcessor(new AudioPostProcessor(null));
+    queue.setCoverArt(new CoverArtService(renderer));
+
+    const job: MusicGenerationJob = {
+      id: 'order-1-song1',
+      orderId: 'order-1',
+      phoneNumber: order.whatsappPhone,
+      songIndex: 1,
+      request: { lyrics: 'Sözler', style: 'Rock', title: 'Konser Gecesi' } as any,
+      status: 'processing',
+      progress: 0,
+      attempts: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    await (queue as any).processMusicGeneration(job);
+
+    const [, png] = firebase.uploadCoverArt.mock.calls[0];
+    expect(renderer.rendered[0]).toContain('Konser Gecesi');
+    expect(order.coverArtPath).toBe('music/order-1/cover.png');
+    expect(firebase.uploadAudio.mock.calls[0][2].includes(png)).toBe(true);
+
+    expect(sent).toEqual([expect.stringContaining('/cover/'), expect.stringContaining('/media/')]);
+    expect(messaging.sendImageMessage).toHaveBeenCalledWith(order.whatsappPhone, expect.any(String), expect.stringContaining('Konser Gecesi'));
+    jest.restoreAllMocks();
+  });
+});
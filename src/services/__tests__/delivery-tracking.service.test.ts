@@ -0,0 +1,131 @@
+import { DeliveryTrackingService } from '../delivery-tracking.service';
+import { WhatsAppService } from '../whatsapp.service';
+import { OutboundMessage } from '../../models/outbound-message.model';
+
+describe('Outbound message tracking', () => {
+  const phone = '+905551234567';
+
+  it('should record sent messages with order id and kind', async () => {
+    const store = { saveOutboundMessage: jest.fn() };
+    const whatsappService = new WhatsAppService({ accessKey: 'test' });
+    (whatsappService as any).client = { post: jest.fn(async () => ({ data: { id: 'bird-1', status: 'accepted' } })) };
+    whatsappService.setMessageStore(store);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    await whatsappService.sendTextMessage(phone, 'Ödeme linki', { orderId: 'order-1', kind: 'payment_link' });
+
+    expect(store.saveOutboundMessage).toHaveBeenCalledWith(expect.objectContaining({
+      id: 'bird-1',
+      to: phone,
+      orderId: 'order-1',
+      kind: 'payment_link',
+      status: 'accepted',
+      attempt: 1,
+    }));
+  });
+});
+
+describe('DeliveryTrackingService', () => {
+  const adminPhone = '+905550000000';
+
+  let messages: Map<string, OutboundMessage>;
+  let firebaseService: any;
+  let whatsappService: any;
+  let service: DeliveryTrackingService;
+
+  const track = (overrides: Partial<OutboundMessage>): OutboundMessage => {
+    const message: OutboundMessage = {
+      id: 'bird-1',
+      to: '+905551234567',
+      orderId: 'order-1',
+      kind: 'general',
+      bodyType: 'text',
+      status: 'accepted',
+      payload: { receiver: { contacts: [{ identifierValue: '+905551234567' }] }, body: { type: 'text', text: { text: 'Merhaba' } } },
+      attempt: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    };
+    messages.set(message.id, message);
+    return message;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    messages = new Map();
+    firebaseService = {
+      getOutboundMessage: jest.fn(async (id: string) => messages.get(id) || null),
+      updateOutboundMessage: jest.fn(async (id: string, updates: Partial<OutboundMessage>) => {
+        messages.set(id, { ...messages.get(id)!, ...updates });
+      }),
+      updateOrder: jest.fn(),
+      logAnalytics: jest.fn(),
+    };
+    whatsappService = {
+      resendMessage: jest.fn(async (message: OutboundMessage) => {
+        track({ ...message, id: `bird-${messages.size + 1}`, attempt: message.attempt + 1, status: 'accepted' });
+        return `bird-${messages.size}`;
+      }),
+      sendTextMessage: jest.fn(),
+    };
+    service = new DeliveryTrackingService(firebaseService, whatsappService, adminPhone);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should apply status events without going backwards', async () => {
+    track({});
+
+    await service.handleStatusEvent('bird-1', 'read');
+    await service.handleStatusEvent('bird-1', 'delivered');
+
+    const message = messages.get('bird-1')!;
+    expect(message.status).toBe('read');
+    expect(message.readAt).toBeInstanceOf(Date);
+    expect(message.deliveredAt).toBeInstanceOf(Date);
+  });
+
+  it('should store when the payment link was read', async () => {
+    track({ kind: 'payment_link' });
+
+    await service.handleStatusEvent('bird-1', 'read');
+
+    expect(firebaseService.updateOrder).toHaveBeenCalledWith('order-1', { paymentLinkReadAt: expect.any(Date) });
+  });
+
+  it('should resend a failed payment link', async () => {
+    track({ kind: 'payment_link' });
+
+    await service.handleStatusEvent('bird-1', 'failed', 'Message undeliverable');
+
+    expect(messages.get('bird-1')!.failureReason).toBe('Message undeliverable');
+    expect(whatsappService.resendMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 'bird-1' }));
+    expect(firebaseService.logAnalytics).toHaveBeenCalledWith('delivery_retried', expect.objectContaining({ kind: 'payment_link' }));
+  });
+
+  it('should escalate to the admin when the last resend of the audio fails', async () => {
+    track({ kind: 'audio' });
+
+    await service.handleStatusEvent('bird-1', 'failed');
+    await service.handleStatusEvent('bird-2', 'failed');
+    await service.handleStatusEvent('bird-3', 'failed');
+
+    expect(whatsappService.resendMessage).toHaveBeenCalledTimes(2);
+    expect(messages.get('bird-3')!.escalated).toBe(true);
+    expect(whatsappService.sendTextMessage).toHaveBeenCalledWith(adminPhone, expect.stringContaining('order-1'));
+  });
+
+  it('should not resend ordinary messages', async () => {
+    track({ kind: 'general' });
+
+    await service.handleStatusEvent('bird-1', 'failed');
+
+    expect(whatsappService.resendMessage).not.toHaveBeenCalled();
+    expect(whatsappService.sendTextMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,193 @@
+import * as net from 'net';
+import { EmailService, FakeEmailTransport } from '../email.service';
+import { OrderService } from '../order.service';
+import { SmtpClient } from '../smtp-client';
+import { Order } from '../../models/order.model';
+
+describe('Email notifications', () => {
+  const webOrder = (overrides: Partial<Order> = {}): Order => ({
+    id: 'order-1',
+    whatsappPhone: 'ayse@example.com',
+    channel: 'email',
+    customerEmail: 'ayse@example.com',
+    orderData: { song1: { type: 'Pop', style: 'Romantik' }, story: 'İlk tanıştığımız gün...' } as any,
+    status: 'payment_pending',
+    basePrice: 299,
+    additionalCosts: 0,
+    totalPrice: 299,
+    locale: 'tr',
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  let transport: FakeEmailTransport;
+  let emailService: EmailService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    transport = new FakeEmailTransport();
+    emailService = new EmailService(transport, 'bihediye.art <siparis@bihediye.art>');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('EmailService', () => {
+    it('should send the download link to the customer email', async () => {
+      await expect(emailService.sendSongDelivered(webOrder(), 'https://storage/song.mp3')).resolves.toBe(true);
+
+      expect(transport.sent).toHaveLength(1);
+      const [email] = transport.sent;
+      expect(email.to).toBe('ayse@example.com');
+      expect(email.subject).toContain('order-1');
+      expect(email.html).toContain('href="https://storage/song.mp3"');
+      expect(email.text).toContain('Şarkıyı İndir: https://storage/song.mp3');
+    });
+
+    it('should escape lyrics in the HTML and use the customer language', async () => {
+      await emailService.sendLyricsReady(webOrder({ locale: 'en' }), '[Verse]\n<Ayşe> & me');
+
+      const [email] = transport.sent;
+      expect(email.subject).toBe('Your lyrics are ready - order-1');
+      expect(email.html).toContain('&lt;Ayşe&gt; &amp; me');
+      expect(email.text).toContain('<Ayşe> & me');
+    });
+
+    it('should not fail when the order has no email or the transport is down', async () => {
+      await expect(emailService.sendPaymentSuccess(webOrder({ customerEmail: undefined }))).resolves.toBe(false);
+
+      jest.spyOn(transport, 'send').mockRejectedValue(new Error('connection refused'));
+      await expect(emailService.sendPaymentSuccess(webOrder())).resolves.toBe(false);
+    });
+  });
+
+  describe('SmtpClient', () => {
+    let server: net.Server;
+    let received: { commands: string[]; data: string };
+
+    beforeEach(async () => {
+      received = { commands: [], data: '' };
+
+      // MailHog-like server: no TLS, no auth
+      server = net.createServer(socket => {
+        let buffer = '';
+        let inData = false;
+        socket.write('220 localhost ESMTP\r\n');
+
+        socket.on('data', chunk => {
+          buffer += chunk.toString();
+          let index: number;
+          while ((index = buffer.indexOf('\r\n')) >= 0) {
+            const line = buffer.slice(0, index);
+            buffer = buffer.slice(index + 2);
+
+            if (inData) {
+              if (line === '.') {
+                inData = false;
+                socket.write('250 Ok: queued as ABC123\r\n');
+              } else {
+                received.data += `${line}\r\n`;
+              }
+              continue;
+            }
+
+            received.commands.push(line);
+            if (line.startsWith('EHLO')) socket.write('250-localhost\r\n250 PIPELINING\r\n');
+            else if (line === 'DATA') { inData = true; socket.write('354 End data with <CR><LF>.<CR><LF>\r\n'); }
+            else if (line === 'QUIT') socket.end('221 Bye\r\n');
+            else socket.write('250 Ok\r\n');
+          }
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should deliver a multipart message', async () => {
+      const { port } = server.address() as net.AddressInfo;
+      const client = new SmtpClient({ host: '127.0.0.1', port, secure: false });
+
+      const reply = await client.send({
+        from: 'bihediye.art <siparis@bihediye.art>',
+        to: 'ayse@example.com',
+        subject: 'Şarkınız hazır!',
+        html: '<p>Merhaba</p>',
+        text: 'Merhaba',
+      });
+
+      expect(reply).toBe('Ok: queued as ABC123');
+      expect(received.commands).toEqual([
+        'EHLO bihediye.art',
+        'MAIL FROM:<siparis@bihediye.art>',
+        'RCPT TO:<ayse@example.com>',
+        'DATA',
+        'QUIT',
+      ]);
+      expect(received.data).toContain(`Subject: =?UTF-8?B?${Buffer.from('Şarkınız hazır!').toString('base64')}?=`);
+      expect(received.data).toContain('Content-Type: multipart/alternative');
+      expect(received.data).toContain(Buffer.from('<p>Merhaba</p>').toString('base64'));
+    });
+
+    it('should reject when the server refuses the recipient', async () => {
+      server.removeAllListeners('connection');
+      server.on('connection', socket => {
+        socket.write('220 localhost ESMTP\r\n');
+        socket.on('data', chunk => {
+          const line = chunk.toString().trim();
+          if (line.startsWith('EHLO')) socket.write('250 localhost\r\n');
+          else if (line.startsWith('RCPT')) socket.write('550 No such user\r\n');
+          else socket.write('250 Ok\r\n');
+        });
+      });
+      const { port } = server.address() as net.AddressInfo;
+
+      await expect(new SmtpClient({ host: '127.0.0.1', port, secure: false }).send({
+        from: 'siparis@bihediye.art',
+        to: 'yok@example.com',
+        subject: 'Test',
+        html: '',
+        text: '',
+      })).rejects.toThrow('SMTP RCPT failed: 550 No such user');
+    });
+  });
+
+  describe('web orders in OrderService', () => {
+    it('should email the payment confirmation and lyrics instead of messaging', async () => {
+      jest.spyOn(global, 'setInterval').mockImplementation((() => 0) as any);
+
+      const order = webOrder();
+      const firebase: any = {
+        getOrder: jest.fn(async () => ({ ...order })),
+        updateOrder: jest.fn(),
+        logAnalytics: jest.fn(),
+        getPendingMessageBuffers: jest.fn(async () => []),
+      };
+      const openai: any = {
+        generateLyrics: jest.fn(async () => ({ lyrics: '[Verse] Ayşe için' })),
+        synthesizeMusicGenre: jest.fn(async () => 'pop, romantic'),
+      };
+      const queue: any = { addMusicGenerationJob: jest.fn() };
+      const messaging: any = { sendTextMessage: jest.fn(), sendProgressUpdate: jest.fn() };
+
+      const service = new OrderService({} as any, openai, messaging, firebase, queue);
+      service.setEmailService(emailService);
+
+      await service.handlePaymentSuccess('order-1');
+
+      expect(transport.sent.map(email => email.subject)).toEqual([
+        'Ödemeniz alındı - order-1',
+        'Şarkı sözleriniz hazır - order-1',
+      ]);
+      expect(queue.addMusicGenerationJob).toHaveBeenCalledWith(expect.objectContaining({ orderId: 'order-1' }));
+      expect(messaging.sendTextMessage).not.toHaveBeenCalled();
+      expect(messaging.sendProgressUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
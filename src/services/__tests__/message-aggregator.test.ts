@@ -0,0 +1,124 @@
+import { MessageAggregator, MessageBufferStore } from '../conversation/message-aggregator';
+import { OrderService } from '../order.service';
+import { ConversationEngine } from '../conversation/conversation-engine';
+import { storyAndNotesStep } from '../conversation/steps/story-and-notes.step';
+import { ConversationState } from '../../models/conversation.model';
+import { config } from '../../config/config';
+
+const tick = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function createBufferStore(): MessageBufferStore & { buffers: Map<string, { fragments: string[]; flushAt: Date }> } {
+  const buffers = new Map<string, { fragments: string[]; flushAt: Date }>();
+
+  return {
+    buffers,
+    appendMessageFragment: jest.fn(async (phone: string, text: string, flushAt: Date) => {
+      const buffer = buffers.get(phone) || { fragments: [], flushAt };
+      buffers.set(phone, { fragments: [...buffer.fragments, text], flushAt });
+    }),
+    takeMessageFragments: jest.fn(async (phone: string) => {
+      const fragments = buffers.get(phone)?.fragments || [];
+      buffers.delete(phone);
+      return fragments;
+    }),
+    getPendingMessageBuffers: jest.fn(async () =>
+      [...buffers.entries()].map(([phone, buffer]) => ({ phone, flushAt: buffer.flushAt }))
+    ),
+  };
+}
+
+describe('MessageAggregator', () => {
+  const phone = '+905551234567';
+
+  it('should merge fragments sent within the window', async () => {
+    const store = createBufferStore();
+    const merged: string[] = [];
+    const aggregator = new MessageAggregator(store, async (p) => {
+      merged.push((await aggregator.take(p))!);
+    }, 30);
+
+    await aggregator.add(phone, 'Annemle babam 30 yıldır evli.');
+    await tick(10);
+    await aggregator.add(phone, 'Tanıştıkları gün');
+    await tick(10);
+    await aggregator.add(phone, 'yağmur yağıyordu');
+    expect(aggregator.hasPending(phone)).toBe(true);
+
+    await tick(60);
+
+    expect(merged).toEqual(['Annemle babam 30 yıldır evli.\nTanıştıkları gün\nyağmur yağıyordu']);
+    expect(aggregator.hasPending(phone)).toBe(false);
+    expect(store.buffers.size).toBe(0);
+  });
+
+  it('should resume persisted windows after a restart', async () => {
+    // Buffered by the previous process - its timer is gone, the buffer is not
+    const store = createBufferStore();
+    await store.appendMessageFragment(phone, 'Kızım için', new Date(Date.now() + 10));
+
+    const onReady = jest.fn(async () => {});
+    const after = new MessageAggregator(store, onReady, 10000);
+
+    expect(await after.restore()).toBe(1);
+    await tick(40);
+
+    expect(onReady).toHaveBeenCalledWith(phone);
+    expect(await after.take(phone)).toBe('Kızım için');
+  });
+});
+
+describe('Multi-part story messages', () => {
+  const phone = '+905551234567';
+  let originalWindow: number;
+
+  beforeEach(() => {
+    originalWindow = config.conversation.aggregationWindowMs;
+    config.conversation.aggregationWindowMs = 30;
+    jest.spyOn(global, 'setInterval').mockImplementation((() => 0) as any);
+  });
+
+  afterEach(() => {
+    config.conversation.aggregationWindowMs = originalWindow;
+    jest.restoreAllMocks();
+  });
+
+  it('should parse the story once with all parts merged', async () => {
+    const conversations = new Map<string, ConversationState>([
+      [phone, { phone, step: 'story_and_notes', data: {}, lastUpdated: new Date() }],
+    ]);
+    const firebase = {
+      ...createBufferStore(),
+      getConversation: jest.fn(async (p: string) => ({ ...conversations.get(p)! })),
+      saveConversation: jest.fn(async (conversation: ConversationState) => {
+        conversations.set(conversation.phone, conversation);
+      }),
+      logAnalytics: jest.fn(),
+    };
+    const whatsappService = { sendTextMessage: jest.fn(), sendButtonMessage: jest.fn(), recordInboundMessage: jest.fn() };
+    const aiConversationService = {
+      parseStoryAndNotes: jest.fn(async (message: string) => ({ story: message, notes: null, response: '' })),
+      parseEditIntent: jest.fn(),
+    };
+
+    const service = new OrderService({} as any, {} as any, whatsappService as any, firebase as any);
+    (service as any).conversationEngine = new ConversationEngine({ messaging: whatsappService, firebaseService: firebase, aiConversationService } as any)
+      .register(storyAndNotesStep)
+      .register({ step: 'confirm', transitions: [], handle: async () => {} });
+
+    await service.handleIncomingMessage(phone, 'Sevgilim için');
+    await service.handleIncomingMessage(phone, 'ilk buluşmamız');
+    await service.handleIncomingMessage(phone, 'hayatımı değiştiren gün');
+    expect(aiConversationService.parseStoryAndNotes).not.toHaveBeenCalled();
+
+    await tick(80);
+
+    expect(aiConversationService.parseStoryAndNotes).toHaveBeenCalledTimes(1);
+    expect(aiConversationService.parseStoryAndNotes).toHaveBeenCalledWith(
+      'Sevgilim için\nilk buluşmamız\nhayatımı değiştiren gün',
+      undefined
+    );
+    expect(conversations.get(phone)!.step).toBe('confirm');
+    // The story is an answer, not an edit request
+    expect(aiConversationService.parseEditIntent).not.toHaveBeenCalled();
+  });
+});
@@ -143,4 +143,63 @@ Changed line here`;
       expect(userMessage.content).toContain(originalLyrics);
     });
   });
+
+  describe('generateLyrics - song language', () => {
+    const baseRequest = {
+      songDetails: { type: 'Pop' as const, style: 'Romantik' as const },
+      story: 'Birlikte geçirdiğimiz on yıl',
+      includeNameInSong: false,
+    };
+
+    const getUserPrompt = () =>
+      mockAxiosInstance.post.mock.calls[0][1].messages.find((m: any) => m.role === 'user').content;
+
+    beforeEach(() => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: { choices: [{ message: { content: '[verse]\nla la' } }] },
+      });
+    });
+
+    it('should default to the customer chat language', async () => {
+      await openaiService.generateLyrics({ ...baseRequest, locale: 'de' });
+
+      expect(getUserPrompt()).toContain('**Şarkı Dili:** Almanca');
+    });
+
+    it('should use the chosen song language over the chat language', async () => {
+      await openaiService.generateLyrics({
+        ...baseRequest,
+        songDetails: { ...baseRequest.songDetails, language: 'Kürtçe' },
+        locale: 'tr',
+      });
+
+      expect(getUserPrompt()).toContain('**Şarkı Dili:** Kürtçe');
+    });
+
+    it('should write verses and chorus in different languages for bilingual songs', async () => {
+      await openaiService.generateLyrics({
+        ...baseRequest,
+        songDetails: {
+          ...baseRequest.songDetails,
+          language: 'Karışık',
+          bilingual: { verse: 'Türkçe', chorus: 'İngilizce' },
+        },
+      });
+
+      const prompt = getUserPrompt();
+      expect(prompt).toContain('[verse], [pre-chorus], [bridge] ve [outro] Türkçe');
+      expect(prompt).toContain('[chorus] İngilizce');
+    });
+
+    it('should split the personalized title off the lyrics', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: { choices: [{ message: { content: '[title] "On Yılın Şarkısı"\n\n[verse]\nla la' } }] },
+      });
+
+      const result = await openaiService.generateLyrics(baseRequest);
+
+      expect(result.title).toBe('On Yılın Şarkısı');
+      expect(result.lyrics).toBe('[verse]\nla la');
+    });
+  });
 });
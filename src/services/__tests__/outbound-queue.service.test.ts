@@ -0,0 +1,181 @@
+import { OutboundQueueService, OutboundQueueStore } from '../outbound-queue.service';
+import { BirdMessage } from '../whatsapp.service';
+import { QueuedOutboundMessage } from '../../models/outbound-message.model';
+
+describe('OutboundQueueService', () => {
+  let stored: Map<string, QueuedOutboundMessage>;
+  let store: OutboundQueueStore;
+  let transport: jest.Mock;
+  let onSent: jest.Mock;
+  let queue: OutboundQueueService;
+
+  const payload = (to: string, text: string): BirdMessage => ({
+    receiver: { contacts: [{ identifierValue: to }] },
+    body: { type: 'text', text: { text } },
+  });
+  const httpError = (status: number, headers: any = {}) => ({ message: `HTTP ${status}`, response: { status, headers, data: {} } });
+  const sentTexts = () => transport.mock.calls.map(([sent]) => sent.body.text.text);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    stored = new Map();
+    store = {
+      saveQueuedMessage: jest.fn(async (entry: QueuedOutboundMessage) => { stored.set(entry.id, { ...entry }); }),
+      updateQueuedMessage: jest.fn(async (id: string, updates: Partial<QueuedOutboundMessage>) => {
+        stored.set(id, { ...stored.get(id)!, ...updates });
+      }),
+      deleteQueuedMessage: jest.fn(async (id: string) => { stored.delete(id); }),
+      getQueuedMessages: jest.fn(async (status: QueuedOutboundMessage['status']) =>
+        Array.from(stored.values()).filter(entry => entry.status === status)),
+    };
+    transport = jest.fn(async () => ({ id: `bird-${transport.mock.calls.length}`, status: 'accepted' }));
+    onSent = jest.fn();
+    queue = new OutboundQueueService(transport, onSent, { ratePerSecond: 1000, maxAttempts: 3, baseDelayMs: 5, maxDelayMs: 50 });
+    queue.setStore(store);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should keep per-recipient order while a message is retried', async () => {
+    transport.mockRejectedValueOnce(httpError(429));
+
+    const first = queue.enqueue(payload('+905551111111', 'first'));
+    const second = queue.enqueue(payload('+905551111111', 'second'));
+    await Promise.all([first, second]);
+    await queue.settled();
+
+    expect(sentTexts()).toEqual(['first', 'first', 'second']);
+    expect(onSent).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not keep the caller waiting while a message is retried', async () => {
+    queue = new OutboundQueueService(transport, onSent, { ratePerSecond: 1000, maxAttempts: 3, baseDelayMs: 5, maxDelayMs: 5000 });
+    transport.mockRejectedValueOnce(httpError(429, { 'retry-after': '1' }));
+
+    const startedAt = Date.now();
+    await expect(queue.enqueue(payload('+905551111111', 'first'))).resolves.toEqual({ status: 'deferred' });
+    await expect(queue.enqueue(payload('+905551111111', 'second'))).resolves.toEqual({ status: 'deferred' });
+    // Other recipients are not affected
+    await expect(queue.enqueue(payload('+905552222222', 'other'))).resolves.toEqual({ status: 'sent', id: 'bird-2' });
+
+    expect(Date.now() - startedAt).toBeLessThan(500);
+    expect(sentTexts()).toEqual(['first', 'other']);
+
+    await queue.settled();
+    expect(sentTexts()).toEqual(['first', 'other', 'first', 'second']);
+    // Tracked once the retried messages went out
+    expect(onSent).toHaveBeenCalledWith(expect.objectContaining({ body: expect.objectContaining({ text: { text: 'second' } }) }), { id: 'bird-4', status: 'accepted' }, {});
+  });
+
+  it('should honour Retry-After on 429', async () => {
+    queue = new OutboundQueueService(transport, onSent, { ratePerSecond: 1000, maxAttempts: 3, baseDelayMs: 5, maxDelayMs: 5000 });
+    transport.mockRejectedValueOnce(httpError(429, { 'retry-after': '1' }));
+
+    const startedAt = Date.now();
+    await queue.enqueue(payload('+905551111111', 'hello'));
+    await queue.settled();
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(950);
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it('should space sends by the global rate limit', async () => {
+    queue = new OutboundQueueService(transport, onSent, { ratePerSecond: 20, maxAttempts: 3, baseDelayMs: 5, maxDelayMs: 50 });
+
+    const startedAt = Date.now();
+    await Promise.all(['+905551111111', '+905552222222', '+905553333333']
+      .map(to => queue.enqueue(payload(to, 'hi'))));
+
+    // 3 sends at 20/s: the third waits two 50ms slots
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(95);
+  });
+
+  it('should return permanent errors to the caller without retrying', async () => {
+    transport.mockRejectedValueOnce(httpError(400));
+
+    await expect(queue.enqueue(payload('+905551111111', 'bad'))).rejects.toEqual(httpError(400));
+
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(stored.size).toBe(0);
+  });
+
+  it('should dead-letter a message after the last attempt', async () => {
+    transport.mockRejectedValue(httpError(503));
+
+    await queue.enqueue(payload('+905551111111', 'lost'), { orderId: 'order-1' });
+    await queue.settled();
+
+    expect(transport).toHaveBeenCalledTimes(3);
+    const deadLetters = await queue.getDeadLetters();
+    expect(deadLetters).toHaveLength(1);
+    expect(deadLetters[0]).toEqual(expect.objectContaining({ status: 'dead', attempts: 3, meta: { orderId: 'order-1' } }));
+    expect(deadLetters[0].lastError).toContain('503');
+  });
+
+  it('should report a retried message that never got out', async () => {
+    const onUndelivered = jest.fn(async () => {});
+    queue.setUndeliveredHandler(onUndelivered);
+    transport.mockRejectedValue(httpError(503));
+
+    await expect(queue.enqueue(payload('+905551111111', 'song'), { orderId: 'order-1', kind: 'audio' })).resolves.toEqual({ status: 'deferred' });
+    expect(onUndelivered).not.toHaveBeenCalled();
+
+    await queue.settled();
+    expect(onUndelivered).toHaveBeenCalledWith(expect.objectContaining({ status: 'dead', meta: { orderId: 'order-1', kind: 'audio' } }));
+  });
+
+  it('should not report permanent errors the caller already got', async () => {
+    const onUndelivered = jest.fn(async () => {});
+    queue.setUndeliveredHandler(onUndelivered);
+    transport.mockRejectedValueOnce(httpError(400));
+
+    await expect(queue.enqueue(payload('+905551111111', 'bad'))).rejects.toEqual(httpError(400));
+    expect(onUndelivered).not.toHaveBeenCalled();
+  });
+
+  it('should resend a dead letter from the admin panel', async () => {
+    transport.mockRejectedValueOnce(httpError(503)).mockRejectedValueOnce(httpError(503)).mockRejectedValueOnce(httpError(503));
+    await queue.enqueue(payload('+905551111111', 'lost'));
+    await queue.settled();
+
+    const [deadLetter] = await queue.getDeadLetters();
+    await queue.retryDeadLetter(deadLetter.id);
+
+    expect(transport).toHaveBeenCalledTimes(4);
+    expect(stored.size).toBe(0);
+  });
+
+  it('should persist payment links until they are sent', async () => {
+    await queue.enqueue(payload('+905551111111', 'pay'), { orderId: 'order-1', kind: 'payment_link' });
+
+    expect(store.saveQueuedMessage).toHaveBeenCalledWith(expect.objectContaining({ status: 'pending', meta: expect.objectContaining({ kind: 'payment_link' }) }));
+    expect(store.deleteQueuedMessage).toHaveBeenCalled();
+    expect(stored.size).toBe(0);
+  });
+
+  it('should resume persisted messages after a restart', async () => {
+    const createdAt = new Date();
+    stored.set('queued-1', {
+      id: 'queued-1',
+      to: '+905551111111',
+      payload: payload('+905551111111', 'song'),
+      meta: { orderId: 'order-1', kind: 'audio' },
+      status: 'pending',
+      attempts: 1,
+      createdAt,
+      updatedAt: createdAt,
+    });
+
+    expect(await queue.restore()).toBe(1);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(sentTexts()).toEqual(['song']);
+    expect(onSent).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ status: 'accepted' }), { orderId: 'order-1', kind: 'audio' });
+    expect(stored.size).toBe(0);
+  });
+});
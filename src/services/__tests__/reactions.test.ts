@@ -0,0 +1,77 @@
+import { OrderService } from '../order.service';
+import { ConversationEngine } from '../conversation/conversation-engine';
+import { ConversationSelection, ConversationState } from '../../models/conversation.model';
+import { OutboundMessage } from '../../models/outbound-message.model';
+
+describe('WhatsApp reactions', () => {
+  const phone = '+905551234567';
+
+  let conversation: ConversationState;
+  let messages: Record<string, Partial<OutboundMessage>>;
+  let firebase: any;
+  let whatsappService: any;
+  let service: OrderService;
+  let selections: ConversationSelection[];
+
+  beforeEach(() => {
+    jest.spyOn(global, 'setInterval').mockImplementation((() => 0) as any);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    conversation = { phone, step: 'lyrics_review_song1', data: {}, lastUpdated: new Date(), tempLyrics: '[Verse] ...' };
+    messages = {
+      'bird-lyrics': { id: 'bird-lyrics', to: phone, orderId: 'order-1', kind: 'lyrics' },
+      'bird-audio': { id: 'bird-audio', to: phone, orderId: 'order-1', kind: 'audio' },
+    };
+    firebase = {
+      getOutboundMessage: jest.fn(async (id: string) => messages[id] || null),
+      getConversation: jest.fn(async () => ({ ...conversation })),
+      saveConversation: jest.fn(),
+      getOrder: jest.fn(async () => ({ id: 'order-1', whatsappPhone: phone, locale: 'tr' })),
+      updateOrder: jest.fn(),
+      logAnalytics: jest.fn(),
+      getPendingMessageBuffers: jest.fn(async () => []),
+    };
+    whatsappService = { sendTextMessage: jest.fn(), sendButtonMessage: jest.fn() };
+    service = new OrderService({} as any, {} as any, whatsappService, firebase);
+
+    selections = [];
+    (service as any).conversationEngine = new ConversationEngine({ messaging: whatsappService, firebaseService: firebase } as any)
+      .register({
+        step: 'lyrics_review_song1',
+        transitions: [],
+        handle: async ({ selection }) => {
+          selections.push(selection!);
+        },
+      });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should approve the lyrics on a thumbs up during review', async () => {
+    await service.handleReaction('bird-lyrics', '👍🏽');
+
+    expect(selections).toEqual([{ id: 'lyrics:approve', title: '👍🏽' }]);
+  });
+
+  it('should ignore a thumbs up outside lyrics review', async () => {
+    conversation.step = 'processing';
+
+    await service.handleReaction('bird-lyrics', '👍');
+
+    expect(selections).toEqual([]);
+  });
+
+  it('should record a heart on the delivered song as satisfaction', async () => {
+    await service.handleReaction('bird-audio', '❤️');
+
+    expect(firebase.updateOrder).toHaveBeenCalledWith('order-1', {
+      customerReaction: '❤️',
+      customerReactionAt: expect.any(Date),
+    });
+    expect(firebase.logAnalytics).toHaveBeenCalledWith('song_loved', expect.objectContaining({ orderId: 'order-1' }));
+    expect(whatsappService.sendTextMessage).toHaveBeenCalledWith(phone, expect.stringContaining('💝'));
+    expect(selections).toEqual([]);
+  });
+});
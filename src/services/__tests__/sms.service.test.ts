@@ -0,0 +1,99 @@
+import { FakeSmsProvider, NetgsmSmsProvider, SmsService } from '../sms.service';
+
+describe('SmsService', () => {
+  const phone = '+905551234567';
+  const whatsappDown = () => Promise.reject(new Error('Bird unavailable'));
+  const whatsappOk = () => Promise.resolve();
+
+  let provider: FakeSmsProvider;
+  let service: SmsService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    provider = new FakeSmsProvider();
+    service = new SmsService(provider, { payment_link: 'on_failure', completion: 'never', download_link: 'always' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send the SMS instead when WhatsApp fails', async () => {
+    await service.deliverWithFallback('payment_link', phone, whatsappDown, 'Ödeme linki: https://pay');
+
+    expect(provider.sent).toEqual([expect.objectContaining({ to: phone, message: 'Ödeme linki: https://pay' })]);
+  });
+
+  it('should not send an SMS when WhatsApp worked', async () => {
+    await service.deliverWithFallback('payment_link', phone, whatsappOk, 'Ödeme linki');
+
+    expect(provider.sent).toHaveLength(0);
+  });
+
+  it('should always send the SMS when configured so', async () => {
+    await service.deliverWithFallback('download_link', phone, whatsappOk, 'Şarkınız hazır');
+
+    expect(provider.sent).toHaveLength(1);
+  });
+
+  it('should keep the WhatsApp error when SMS is off for the type', async () => {
+    await expect(service.deliverWithFallback('completion', phone, whatsappDown, 'Hazır')).rejects.toThrow('Bird unavailable');
+
+    expect(provider.sent).toHaveLength(0);
+  });
+
+  it('should keep the WhatsApp error when the SMS fails too', async () => {
+    jest.spyOn(provider, 'send').mockRejectedValue(new Error('SMS gateway down'));
+
+    await expect(service.deliverWithFallback('payment_link', phone, whatsappDown, 'Ödeme linki')).rejects.toThrow('Bird unavailable');
+  });
+
+  it('should skip customers without a phone number', async () => {
+    await expect(service.deliverWithFallback('payment_link', 'telegram:42', whatsappDown, 'Ödeme linki')).rejects.toThrow();
+    await service.deliverWithFallback('download_link', 'musteri@example.com', whatsappOk, 'Şarkınız hazır');
+
+    expect(provider.sent).toHaveLength(0);
+  });
+
+  it('should send delivery failure fallbacks only for on_failure types', async () => {
+    expect(await service.sendDeliveryFallback('payment_link', phone, 'Ödeme linki')).toBe(true);
+    // 'always' went out together with the WhatsApp message already
+    expect(await service.sendDeliveryFallback('download_link', phone, 'Şarkınız hazır')).toBe(false);
+
+    expect(provider.sent).toHaveLength(1);
+  });
+});
+
+describe('NetgsmSmsProvider', () => {
+  let provider: NetgsmSmsProvider;
+  let get: jest.Mock;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    provider = new NetgsmSmsProvider({ usercode: 'user', password: 'pass', header: 'BIHEDIYE' });
+    get = jest.fn();
+    (provider as any).client = { get };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return the job id of an accepted message', async () => {
+    get.mockResolvedValue({ data: '00 1234567890' });
+
+    await expect(provider.send('+90 555 123 45 67', 'Merhaba')).resolves.toBe('1234567890');
+    expect(get).toHaveBeenCalledWith('/sms/send/get', {
+      params: expect.objectContaining({ gsmno: '905551234567', message: 'Merhaba', msgheader: 'BIHEDIYE' }),
+    });
+  });
+
+  it('should throw on Netgsm error codes', async () => {
+    get.mockResolvedValue({ data: '30' });
+
+    await expect(provider.send('+905551234567', 'Merhaba')).rejects.toThrow('invalid credentials');
+  });
+});
@@ -0,0 +1,288 @@
+import { SunoService } from '../suno.service';
+import { FirebaseQueueService, MusicGenerationJob } from '../firebase-queue.service';
+import { OrderService } from '../order.service';
+import { variantSelectionStep } from '../conversation/steps/variant-selection.step';
+import { Order } from '../../models/order.model';
+
+describe('Song variants', () => {
+  let order: Order;
+  let firebase: any;
+  let messaging: any;
+
+  const SHARE_TOKEN = '0123456789abcdef0123456789abcdef';
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    order = {
+      id: 'order-1',
+      whatsappPhone: '905551112233',
+      channel: 'whatsapp',
+      orderData: { song1: { type: 'Pop', style: 'Romantik' }, story: 'Anılarımız', recipientName: 'Ayşe' } as any,
+      status: 'music_generating',
+      basePrice: 299,
+      additionalCosts: 0,
+      totalPrice: 299,
+      createdAt: new Date(),
+    };
+
+    const jobDoc = { update: jest.fn(async () => {}), delete: jest.fn(async () => {}) };
+    firebase = {
+      getDb: () => ({ collection: () => ({ doc: () => jobDoc }) }),
+      getOrder: jest.fn(async () => ({ ...order })),
+      updateOrder: jest.fn(async (_id: string, updates: Partial<Order>) => Object.assign(order, updates)),
+      uploadAudio: jest.fn(async (orderId: string, songIndex: number, _buffer: Buffer, variant: number) => ({
+        path: `music/${orderId}/song${songIndex}_v${variant}.mp3`,
+        url: `https://storage.googleapis.com/bucket/music/${orderId}/song${songIndex}_v${variant}.mp3?signed`,
+      })),
+      getConversation: jest.fn(async () => null),
+      saveConversation: jest.fn(async () => {}),
+      deleteConversation: jest.fn(async () => {}),
+      getOrdersByPhone: jest.fn(async () => [{ ...order }]),
+      getSignedFileUrl: jest.fn(async (path: string) => `https://storage.googleapis.com/bucket/${path}?fresh=1`),
+      getPendingMessageBuffers: jest.fn(async () => []),
+      logAnalytics: jest.fn(async () => {}),
+    };
+    messaging = {
+      sendTextMessage: jest.fn(async () => {}),
+      sendButtonMessage: jest.fn(async () => {}),
+      sendAudioMessage: jest.fn(async () => {}),
+      sendOrderCompletion: jest.fn(async () => {}),
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should keep both songs Suno returns', async () => {
+    const suno = new SunoService({ apiKey: 'test-key' } as any);
+    (suno as any).client = {
+      get: jest.fn(async () => ({
+        data: {
+          code: 200,
+          data: {
+            status: 'SUCCESS',
+            response: {
+              sunoData: [
+                { id: 'a', audioUrl: 'https://suno/a.mp3', duration: 185.4 },
+                { id: 'b', audioUrl: 'https://suno/b.mp3', duration: 201 },
+              ],
+            },
+          },
+        },
+      })),
+    };
+
+    const status = await suno.checkTaskStatus('task-1');
+
+    expect(status.file_url).toBe('https://suno/a.mp3');
+    expect(status.variants).toEqual([
+      { id: 'a', audioUrl: 'https://suno/a.mp3', duration: 185.4 },
+      { id: 'b', audioUrl: 'https://suno/b.mp3', duration: 201 },
+    ]);
+  });
+
+  describe('after music generation', () => {
+    let queue: FirebaseQueueService;
+    let orders: OrderService;
+    let job: MusicGenerationJob;
+
+    beforeEach(() => {
+      jest.spyOn(global, 'setInterval').mockImplementation((() => 0) as any);
+      jest.spyOn(global, 'setTimeout').mockImplementation((() => 0) as any);
+
+      const suno = {
+        generateMusic: jest.fn(async () => ({ task_id: 'task-1' })),
+        waitForTaskCompletion: jest.fn(async () => ({
+          task_id: 'task-1',
+          status: 'Success',
+          file_url: 'https://suno/a.mp3',
+          variants: [
+            { audioUrl: 'https://suno/a.mp3', duration: 185.4 },
+            { audioUrl: 'https://suno/b.mp3', duration: 201 },
+          ],
+        })),
+        downloadFile: jest.fn(async () => Buffer.from('mp3')),
+      };
+      queue = new FirebaseQueueService(suno as any, firebase, messaging, {} as any);
+      orders = new OrderService({} as any, {} as any, messaging, firebase, queue);
+      queue.setVariantChoiceOpener((order, shareToken) => orders.openVariantSelection(order, shareToken));
+
+      job = {
+        id: 'order-1-song1',
+        orderId: 'order-1',
+        phoneNumber: order.whatsappPhone,
+        songIndex: 1,
+        request: { lyrics: 'Sözler', style: 'Pop', title: 'Ayşe için' } as any,
+        status: 'processing',
+        progress: 0,
+        attempts: 1,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+    });
+
+    it('should ask the customer to choose between the two songs', async () => {
+      await (queue as any).processMusicGeneration(job);
+
+      expect(firebase.uploadAudio).toHaveBeenCalledTimes(2);
+      expect(order.status).toBe('variant_selection');
+      expect(order.song1Variants).toHaveLength(2);
+      expect(firebase.saveConversation).toHaveBeenCalledWith(expect.objectContaining({ step: 'variant_selection' }));
+      expect(firebase.deleteConversation).not.toHaveBeenCalled();
+
+      const previews = messaging.sendTextMessage.mock.calls[0][1];
+      expect(previews).toContain('(3:05)');
+      expect(previews).toContain(`/media/${order.shareToken}?variant=2`);
+      expect(messaging.sendButtonMessage).toHaveBeenCalledWith(
+        order.whatsappPhone,
+        expect.any(String),
+        [expect.objectContaining({ id: 'variant:1' }), expect.objectContaining({ id: 'variant:2' })]
+      );
+      expect(messaging.sendAudioMessage).not.toHaveBeenCalled();
+    });
+
+    it('should open the choice only after the message being handled for the customer', async () => {
+      let release!: () => void;
+      const handling = (orders as any).phoneLocks.runExclusive(order.whatsappPhone, () => new Promise<void>(resolve => { release = resolve; }));
+
+      const generation = (queue as any).processMusicGeneration(job);
+      for (let tick = 0; tick < 50; tick++) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+      expect(firebase.saveConversation).not.toHaveBeenCalled();
+
+      release();
+      await handling;
+      await generation;
+      expect(firebase.saveConversation).toHaveBeenCalledWith(expect.objectContaining({ step: 'variant_selection' }));
+    });
+
+    it('should deliver both songs for premium orders', async () => {
+      order.tier = 'premium';
+
+      await (queue as any).processMusicGeneration(job);
+
+      expect(order.status).toBe('completed');
+      expect(messaging.sendAudioMessage).toHaveBeenCalledTimes(2);
+      expect(messaging.sendAudioMessage).toHaveBeenLastCalledWith(
+        order.whatsappPhone,
+        `https://bihediye.art/media/${order.shareToken}?variant=2`,
+        expect.anything()
+      );
+      expect(firebase.saveConversation).not.toHaveBeenCalled();
+    });
+
+    it('should deliver the first song to a customer who started a new conversation', async () => {
+      firebase.getConversation.mockResolvedValue({ phone: order.whatsappPhone, step: 'song1_type' });
+
+      await (queue as any).processMusicGeneration(job);
+
+      expect(order.status).toBe('completed');
+      expect(order.song1SelectedVariant).toBe(1);
+      expect(messaging.sendAudioMessage).toHaveBeenCalledTimes(1);
+      expect(messaging.sendAudioMessage).toHaveBeenCalledWith(
+        order.whatsappPhone,
+        `https://bihediye.art/media/${order.shareToken}`,
+        expect.anything()
+      );
+      expect(firebase.saveConversation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('choosing a song', () => {
+    let service: OrderService;
+
+    beforeEach(() => {
+      jest.spyOn(global, 'setInterval').mockImplementationOnce((() => 0) as any);
+
+      order.status = 'variant_selection';
+      order.shareToken = SHARE_TOKEN;
+      order.song1Variants = [
+        { number: 1, audioUrl: 'https://storage/v1?signed', audioPath: 'music/order-1/song1_v1.mp3' },
+        { number: 2, audioUrl: 'https://storage/v2?signed', audioPath: 'music/order-1/song1_v2.mp3' },
+      ];
+      service = new OrderService({} as any, {} as any, messaging, firebase);
+    });
+
+    it('should deliver the chosen song and keep the other one private', async () => {
+      await expect((service as any).selectSongVariant('order-1', 2)).resolves.toBe(true);
+
+      expect(order).toEqual(expect.objectContaining({
+        status: 'completed',
+        song1SelectedVariant: 2,
+        song1AudioPath: 'music/order-1/song1_v2.mp3',
+      }));
+      expect(firebase.deleteConversation).toHaveBeenCalledWith(order.whatsappPhone);
+      expect(messaging.sendAudioMessage).toHaveBeenCalledWith(
+        order.whatsappPhone,
+        `https://bihediye.art/media/${SHARE_TOKEN}`,
+        expect.anything()
+      );
+
+      await expect(service.getSongFileUrl(order, { variant: 1 })).resolves.toBeNull();
+      await expect(service.getSongFileUrl(order)).resolves.toContain('song1_v2.mp3');
+    });
+
+    it('should not deliver a song twice', async () => {
+      await (service as any).selectSongVariant('order-1', 1);
+
+      await expect((service as any).selectSongVariant('order-1', 2)).resolves.toBe(false);
+      expect(order.song1SelectedVariant).toBe(1);
+    });
+
+    it('should deliver the first song when no choice arrives in time', async () => {
+      firebase.getOrdersAwaitingVariantChoice = jest.fn(async () => [{ ...order }]);
+
+      await (service as any).deliverExpiredVariantChoices();
+
+      const [offeredBefore] = firebase.getOrdersAwaitingVariantChoice.mock.calls[0];
+      expect(Date.now() - offeredBefore.getTime()).toBeGreaterThanOrEqual(12 * 60 * 60 * 1000);
+      expect(order).toEqual(expect.objectContaining({ status: 'completed', song1SelectedVariant: 1 }));
+      expect(messaging.sendTextMessage).toHaveBeenCalledWith(
+        order.whatsappPhone,
+        expect.stringContaining('Seçim yapmadığınız için 1. versiyonu')
+      );
+      expect(messaging.sendAudioMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep waiting for the choice when the customer says "merhaba"', async () => {
+      messaging.recordInboundMessage = jest.fn(async () => {});
+      firebase.getConversation.mockResolvedValue({
+        phone: order.whatsappPhone, step: 'variant_selection', data: {}, lastUpdated: new Date(), locale: 'tr',
+      });
+
+      await service.handleIncomingMessage(order.whatsappPhone, 'merhaba');
+
+      expect(firebase.deleteConversation).not.toHaveBeenCalled();
+      expect(order.status).toBe('variant_selection');
+      expect(messaging.sendButtonMessage).toHaveBeenCalledWith(
+        order.whatsappPhone,
+        'Lütfen 1 veya 2 yazarak bir versiyon seçin 🎧',
+        expect.any(Array)
+      );
+    });
+
+    it('should understand "2" and re-ask anything else', async () => {
+      const deps: any = {
+        firebaseService: firebase,
+        messaging,
+        orders: { selectSongVariant: jest.fn(async () => true) },
+      };
+      const conversation: any = { phone: order.whatsappPhone, step: 'variant_selection', data: {}, locale: 'tr' };
+
+      await variantSelectionStep.handle({ conversation, from: order.whatsappPhone, message: '2', deps } as any);
+      expect(deps.orders.selectSongVariant).toHaveBeenCalledWith('order-1', 2);
+
+      await variantSelectionStep.handle({ conversation, from: order.whatsappPhone, message: 'hangisi güzel?', deps } as any);
+      expect(deps.orders.selectSongVariant).toHaveBeenCalledTimes(1);
+      expect(messaging.sendButtonMessage).toHaveBeenCalledWith(
+        order.whatsappPhone,
+        'Lütfen 1 veya 2 yazarak bir versiyon seçin 🎧',
+        [expect.objectContaining({ id: 'variant:1' }), expect.objectContaining({ id: 'variant:2' })]
+      );
+    });
+  });
+});
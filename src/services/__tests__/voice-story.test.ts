@@ -0,0 +1,74 @@
+import { ConversationEngine, ConversationDeps } from '../conversation/conversation-engine';
+import { storyAndNotesStep } from '../conversation/steps/story-and-notes.step';
+import { StubTranscriptionProvider } from '../transcription.service';
+import { ConversationState } from '../../models/conversation.model';
+
+describe('Voice-note story input', () => {
+  const transcript = '10 yıldır evliyiz, her zorluğu birlikte atlattık. Not: Slow tempo olsun';
+
+  let engine: ConversationEngine;
+  let deps: ConversationDeps;
+  let conversation: ConversationState;
+
+  beforeEach(() => {
+    deps = {
+      messaging: {
+        sendTextMessage: jest.fn(),
+        sendButtonMessage: jest.fn(),
+        downloadMedia: jest.fn(async () => ({ data: Buffer.from('ogg'), contentType: 'audio/ogg' })),
+      },
+      firebaseService: { logAnalytics: jest.fn() },
+      aiConversationService: {
+        parseEditIntent: jest.fn(async () => ({ field: null, response: '' })),
+        parseStoryAndNotes: jest.fn(async (message: string) => ({
+          story: message,
+          notes: null,
+          response: '',
+        })),
+      },
+      transcriptionProvider: new StubTranscriptionProvider(transcript),
+    } as any;
+
+    engine = new ConversationEngine(deps)
+      .register(storyAndNotesStep)
+      .register({ step: 'confirm', transitions: [], handle: async () => {} });
+
+    conversation = {
+      phone: '+905551234567',
+      step: 'story_and_notes',
+      data: {},
+      lastUpdated: new Date(),
+    };
+  });
+
+  it('should show the transcription and wait for confirmation', async () => {
+    await engine.processMedia(conversation, { url: 'https://media.bird.com/voice.ogg', type: 'audio' });
+
+    expect(deps.messaging.downloadMedia).toHaveBeenCalledWith(conversation.phone, 'https://media.bird.com/voice.ogg');
+    expect(conversation.pendingTranscription).toBe(transcript);
+    expect(conversation.step).toBe('story_and_notes');
+    expect(deps.messaging.sendTextMessage).toHaveBeenCalledWith(
+      conversation.phone,
+      expect.stringContaining(transcript)
+    );
+  });
+
+  it('should use the confirmed transcription as the story', async () => {
+    await engine.processMedia(conversation, { url: 'https://media.bird.com/voice.ogg', type: 'audio' });
+    await engine.process(conversation, 'Evet, doğru', { id: 'transcript:confirm', title: 'Evet, doğru' });
+
+    expect(deps.aiConversationService.parseStoryAndNotes).toHaveBeenCalledWith(transcript, undefined);
+    expect(conversation.data.story).toBe(transcript);
+    expect(conversation.pendingTranscription).toBeUndefined();
+    expect(conversation.step).toBe('confirm');
+  });
+
+  it('should discard the transcription when the customer rejects it', async () => {
+    await engine.processMedia(conversation, { url: 'https://media.bird.com/voice.ogg', type: 'audio' });
+    await engine.process(conversation, 'hayır');
+
+    expect(deps.aiConversationService.parseStoryAndNotes).not.toHaveBeenCalled();
+    expect(conversation.pendingTranscription).toBeUndefined();
+    expect(conversation.step).toBe('story_and_notes');
+  });
+});
@@ -0,0 +1,89 @@
+import { WhatsAppService } from '../whatsapp.service';
+import { ChannelRouter } from '../channels/channel-router';
+import { buildTemplateParams, WHATSAPP_TEMPLATES } from '../whatsapp-templates';
+
+describe('WhatsApp template messages', () => {
+  const phone = '+905551234567';
+  const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000);
+
+  let service: WhatsAppService;
+  let post: jest.Mock;
+  let lastInboundAt: Date | null;
+
+  const sentBodies = () => post.mock.calls.map(([, payload]) => payload.body);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    lastInboundAt = null;
+    post = jest.fn(async () => ({ data: { id: 'bird-1', status: 'accepted' } }));
+    service = new WhatsAppService({ accessKey: 'test', templateNamespace: 'ns-1' });
+    (service as any).client = { post };
+    service.setSessionStore({
+      getLastInboundAt: jest.fn(async () => lastInboundAt),
+      recordInboundAt: jest.fn(),
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send a template with ordered parameters in the customer language', async () => {
+    await service.sendTemplateMessage(phone, 'payment_link', { orderId: 'order-1', price: 350, url: 'https://pay' }, 'de');
+
+    expect(sentBodies()[0]).toEqual({
+      type: 'hsm',
+      hsm: {
+        namespace: 'ns-1',
+        templateName: 'bihediye_payment_link',
+        language: { policy: 'deterministic', code: 'de' },
+        params: [{ default: 'order-1' }, { default: '350' }, { default: 'https://pay' }],
+      },
+    });
+  });
+
+  it('should reject a template with missing variables', () => {
+    expect(() => buildTemplateParams(WHATSAPP_TEMPLATES.song_ready, { orderId: 'order-1' }))
+      .toThrow('missing variables: url');
+  });
+
+  it('should fall back to the template when the session window is closed', async () => {
+    lastInboundAt = hoursAgo(30);
+
+    await service.sendAudioMessage(phone, 'https://storage/song.mp3', { orderId: 'order-1', locale: 'en' });
+
+    expect(sentBodies()).toHaveLength(1);
+    expect(sentBodies()[0].hsm).toEqual(expect.objectContaining({
+      templateName: 'bihediye_song_ready',
+      language: { policy: 'deterministic', code: 'en' },
+    }));
+  });
+
+  it('should send free-form text while the window is open', async () => {
+    await service.recordInboundMessage(phone, hoursAgo(2));
+
+    await new ChannelRouter(service).sendOrderCompletion(phone, 'order-1');
+
+    expect(sentBodies()[0].type).toBe('text');
+  });
+
+  it('should announce the song in the customer language', async () => {
+    await service.recordInboundMessage(phone, hoursAgo(2));
+
+    await service.sendAudioMessage(phone, 'https://bihediye.art/media/token', { orderId: 'order-1', locale: 'en' });
+
+    expect(sentBodies()[0].text.text).toContain('Your Personal Song Is Ready!');
+    expect(sentBodies()[0].text.text).toContain('https://bihediye.art/media/token');
+  });
+
+  it('should retry with the template when Bird rejects the free-form message', async () => {
+    lastInboundAt = hoursAgo(1);
+    post.mockRejectedValueOnce({ message: 'Request failed', response: { data: { code: 131047 } } });
+
+    await new ChannelRouter(service).sendOrderCompletion(phone, 'order-1');
+
+    expect(sentBodies().map(body => body.type)).toEqual(['text', 'hsm']);
+  });
+});
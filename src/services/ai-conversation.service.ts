@@ -1,4 +1,7 @@
 import { OpenAIService } from './openai.service';
+import { EditableField } from '../models/conversation.model';
+import { LyricsLanguage, SongLanguage } from '../models/order.model';
+import { ANSWER_WORDS, COMMAND_WORDS, containsAnyWord, Locale, LOCALE_LANGUAGE_NAMES, t } from '../i18n';
 
 /**
  * AI-powered conversational interface for order collection
@@ -7,6 +10,21 @@ import { OpenAIService } from './openai.service';
 export class AIConversationService {
   constructor(private openaiService: OpenAIService) {}
 
+  /**
+   * Prompt suffix asking for the reply in the customer's language
+   * Field values stay Turkish (they are matched against the option lists)
+   */
+  private replyLanguageInstruction(locale?: Locale): string {
+    if (!locale || locale === 'tr') {
+      return '';
+    }
+
+    return `
+
+DİL: Kullanıcı ${LOCALE_LANGUAGE_NAMES[locale]} konuşuyor. "response" alanını ${LOCALE_LANGUAGE_NAMES[locale]} yaz.
+Diğer alanlardaki değerleri (tür, tarz, vokal vb.) yukarıdaki Türkçe değerlerle döndür.`;
+  }
+
   /**
    * Clean AI response and extract JSON
    */
@@ -510,38 +528,38 @@ JSON formatında cevap ver:
   /**
    * Parse order confirmation (yes/no)
    */
-  async parseConfirmation(userMessage: string): Promise<{ confirmed: boolean | null; response: string }> {
+  async parseConfirmation(userMessage: string, locale?: Locale): Promise<{ confirmed: boolean | null; response: string }> {
     const message = userMessage.toLowerCase();
 
     // Evet anlamına gelen kelimeler
-    const yesWords = ['evet', 'tamam', 'onaylıyorum', 'onayla', 'sipariş ver', 'devam', 'ok', 'okay', '1'];
+    const yesWords = [...ANSWER_WORDS.yes, 'tamam', 'tamamdır', 'onaylıyorum', 'onayla', 'sipariş ver', 'devam', 'ok', 'okay', 'confirm', 'bestätigen', '1'];
     // Hayır anlamına gelen kelimeler
-    const noWords = ['hayır', 'hayir', 'iptal', 'vazgeçtim', 'istemiyorum', '2'];
+    const noWords = [...ANSWER_WORDS.no, ...COMMAND_WORDS.cancel, 'vazgeçtim', 'istemiyorum', '2'];
 
-    if (yesWords.some(word => message.includes(word))) {
+    if (containsAnyWord(message, yesWords)) {
       return {
         confirmed: true,
-        response: '✅ Harika! Siparişinizi oluşturuyoruz...',
+        response: t(locale, 'confirm.confirmed'),
       };
     }
 
-    if (noWords.some(word => message.includes(word))) {
+    if (containsAnyWord(message, noWords)) {
       return {
         confirmed: false,
-        response: '❌ Sipariş iptal edildi. Yeni sipariş için "merhaba" yazabilirsiniz.',
+        response: t(locale, 'command.cancelled'),
       };
     }
 
     return {
       confirmed: null,
-      response: '❌ Siparişi onaylıyor musunuz? "Evet" veya "Hayır" yazın.',
+      response: t(locale, 'confirm.unclear'),
     };
   }
 
   /**
    * Parse lyrics review response (approve, revise, or write_own)
    */
-  async parseLyricsReview(userMessage: string): Promise<{
+  async parseLyricsReview(userMessage: string, locale?: Locale): Promise<{
     action: 'approve' | 'revise' | 'write_own' | null;
     revisionRequest?: string;
     response: string;
@@ -549,47 +567,18 @@ JSON formatında cevap ver:
     const message = userMessage.toLowerCase().trim();
 
     // Onayla kelimeleri
-    const approveWords = ['onayla', 'onaylıyorum', 'tamam', 'evet', 'güzel', 'süper', 'harika', '1'];
+    const approveWords = [...ANSWER_WORDS.yes, 'onayla', 'onaylıyorum', 'tamam', 'tamamdır', 'güzel', 'süper', 'harika', 'approve', 'bestätigen', '1'];
     // Revize kelimeleri
-    const reviseWords = ['revize', 'düzelt', 'değiştir', 'revize et', 'düzeltme', '2'];
+    const reviseWords = ['revize', 'düzelt', 'değiştir', 'revize et', 'düzeltme', 'revise', 'change', 'ändern', '2'];
     // Komple yazma kelimeleri
-    const writeOwnWords = ['komple', 'ben yazacağım', 'kendim yazacağım', 'kendi sözlerim', '3'];
+    const writeOwnWords = ['komple', 'ben yazacağım', 'kendim yazacağım', 'kendi sözlerim', 'write my own', 'selbst schreiben', '3'];
 
-    if (approveWords.some(word => message.includes(word))) {
-      return {
-        action: 'approve',
-        response: '✅ Şarkı sözleri onaylandı! Devam ediyoruz...',
-      };
+    if (containsAnyWord(message, approveWords)) {
+      return this.resolveLyricsReviewSelection('approve', locale);
     }
 
-    if (writeOwnWords.some(word => message.includes(word))) {
-      return {
-        action: 'write_own',
-        response: `📝 *Harika! Kendi sözlerinizi yazabilirsiniz.*
-
-*Suno AI Formatı (Başlıkları kullanın):*
-
-**[Intro]** - Giriş müziği (enstrümantal)
-**[Verse]** - Kıta (hikayeyi anlatır)
-**[Pre-Chorus]** - Nakarat öncesi geçiş
-**[Chorus]** - Nakarat (akılda kalıcı kısım)
-**[Bridge]** - Köprü (farklı melodi/duygu)
-**[Instrumental Break]** - Enstrümantal ara
-**[Outro]** - Bitiş
-
-**Örnek Sıralama:**
-[Intro]
-[Verse]
-[Pre-Chorus]
-[Chorus]
-[Verse]
-[Chorus]
-[Bridge]
-[Chorus]
-[Outro]
-
-Şimdi sözlerinizi bu formatta yazıp gönderin! 🎵`,
-      };
+    if (containsAnyWord(message, writeOwnWords)) {
+      return this.resolveLyricsReviewSelection('write_own', locale);
     }
 
     if (reviseWords.some(word => message.includes(word)) || message.length > 15) {
@@ -597,13 +586,33 @@ JSON formatında cevap ver:
       return {
         action: 'revise',
         revisionRequest: userMessage,
-        response: '✏️ Anladım! Şarkı sözlerini düzenliyoruz...',
+        response: t(locale, 'lyrics.revising'),
       };
     }
 
     return {
       action: null,
-      response: '❓ Şarkı sözlerini onaylıyor musunuz yoksa değişiklik mi istiyorsunuz?\n\n1️⃣ Onayla\n2️⃣ Değişiklik İstiyorum\n3️⃣ Komple Ben Yazacağım',
+      response: t(locale, 'lyrics.unclear'),
+    };
+  }
+
+  /**
+   * Lyrics review result for a button reply (no parsing needed)
+   */
+  resolveLyricsReviewSelection(action: 'approve' | 'write_own', locale?: Locale): {
+    action: 'approve' | 'write_own';
+    response: string;
+  } {
+    if (action === 'approve') {
+      return {
+        action: 'approve',
+        response: t(locale, 'lyrics.approved'),
+      };
+    }
+
+    return {
+      action: 'write_own',
+      response: t(locale, 'lyrics.writeOwn'),
     };
   }
 
@@ -614,12 +623,22 @@ JSON formatında cevap ver:
    */
   async parseSongSettings(
     userMessage: string,
-    existingData?: { type?: string; style?: string; vocal?: string; artistStyleDescription?: string }
+    existingData?: {
+      type?: string;
+      style?: string;
+      vocal?: string;
+      artistStyleDescription?: string;
+      language?: SongLanguage;
+      bilingual?: { verse: LyricsLanguage; chorus: LyricsLanguage };
+    },
+    locale?: Locale
   ): Promise<{
     type: string | null;
     style: string | null;
     vocal: string | null;
     artistStyleDescription?: string;
+    language?: SongLanguage;
+    bilingual?: { verse: LyricsLanguage; chorus: LyricsLanguage };
     response: string;
   }> {
     // Start with existing data if available
@@ -632,6 +651,7 @@ MEVCUT BİLGİLER (daha önce alındı):
 - Tarz: ${existing.style || 'YOK'}
 - Vokal: ${existing.vocal || 'YOK'}
 - Artist Style: ${existing.artistStyleDescription || 'YOK'}
+- Dil: ${existing.language || 'YOK'}
 
 GÖREV:
 Kullanıcının yeni mesajından EKSİK olan bilgileri çıkar.
@@ -732,6 +752,14 @@ VOKAL:
 ✅ Kadın, Erkek, Fark etmez
 ✅ "farketmez", "önemli değil", "상관없어" → "Fark etmez"
 
+DİL (OPSİYONEL - kullanıcı söylemediyse null bırak, ASLA sorma!):
+✅ Türkçe, İngilizce, Almanca, Kürtçe, Azerice
+✅ "ingilizce olsun", "in English" → language: "İngilizce"
+✅ "kürtçe" → language: "Kürtçe", "azerbaycan türkçesi" → language: "Azerice"
+✅ İki dilli / karışık istenirse → language: "Karışık", bilingual: { "verse": kıta dili, "chorus": nakarat dili }
+  - "sözler türkçe nakarat ingilizce" → language: "Karışık", bilingual: { "verse": "Türkçe", "chorus": "İngilizce" }
+  - "iki dilli olsun" (dil belirtmeden) → language: "Karışık", bilingual: null
+
 TÜRK MÜZİK TERİMLERİ:
 - "arabesk rock", "pop arabesk" → type: ilk tür, artistStyleDescription: fusion açıklaması
 - "anadolu rock" → type: "Rock", artistStyleDescription: "Anatolian rock"
@@ -797,6 +825,8 @@ JSON CEVAP FORMATI:
   "style": "çıkarılan tarz veya mevcut tarz veya null",
   "vocal": "çıkarılan vokal veya mevcut vokal veya null",
   "artistStyleDescription": "müzikal özellikler veya null",
+  "language": "Türkçe" | "İngilizce" | "Almanca" | "Kürtçe" | "Azerice" | "Karışık" | null,
+  "bilingual": { "verse": "...", "chorus": "..." } veya null,
   "response": "Samimi mesaj"
 }
 
@@ -823,7 +853,7 @@ CEVAP KURALLARI:
 
 - ASLA dolu bilgiyi tekrar sorma!
 - ASLA teknik terimler kullanma (vocal, style, type yerine: ses, tarz, tür)
-- Emoji kullan ama fazla abartma (1-2 tane yeterli)`;
+- Emoji kullan ama fazla abartma (1-2 tane yeterli)${this.replyLanguageInstruction(locale)}`;
 
     try {
       console.log('🔍 parseSongSettings INPUT:', {
@@ -843,6 +873,7 @@ CEVAP KURALLARI:
         style: parsed.style || existing.style || null,
         vocal: parsed.vocal || existing.vocal || null,
         artistStyleDescription: parsed.artistStyleDescription || existing.artistStyleDescription,
+        ...this.parseSongLanguage(parsed, existing),
         response: parsed.response,
       };
 
@@ -856,7 +887,15 @@ CEVAP KURALLARI:
         style: existing.style || null,
         vocal: existing.vocal || null,
         artistStyleDescription: existing.artistStyleDescription,
-        response: `Şarkınızı özelleştirelim! Eksik bilgiler:
+        language: existing.language,
+        bilingual: existing.bilingual,
+        response: locale && locale !== 'tr'
+          ? t(locale, 'songSettings.current', {
+              type: existing.type || '❓',
+              style: existing.style || '❓',
+              vocal: existing.vocal || '❓',
+            })
+          : `Şarkınızı özelleştirelim! Eksik bilgiler:
 
 ${!existing.type ? '🎵 Tür: Pop, Rap, Jazz, Arabesk, Klasik, Rock, Metal, Nostaljik\n' : ''}${!existing.style ? '🎭 Tarz: Romantik, Duygusal, Eğlenceli, Sakin\n' : ''}${!existing.vocal ? '🎤 Vokal: Kadın, Erkek, Fark etmez\n' : ''}
 Örnek: "Arabesk Rock, Eğlenceli"`,
@@ -864,6 +903,29 @@ ${!existing.type ? '🎵 Tür: Pop, Rap, Jazz, Arabesk, Klasik, Rock, Metal, Nos
     }
   }
 
+  /**
+   * Validate the song language from the LLM answer (unknown values keep the existing choice)
+   */
+  private parseSongLanguage(
+    parsed: any,
+    existing: { language?: SongLanguage; bilingual?: { verse: LyricsLanguage; chorus: LyricsLanguage } }
+  ): { language?: SongLanguage; bilingual?: { verse: LyricsLanguage; chorus: LyricsLanguage } } {
+    const languages: LyricsLanguage[] = ['Türkçe', 'İngilizce', 'Almanca', 'Kürtçe', 'Azerice'];
+
+    if (parsed.language === 'Karışık') {
+      const bilingual = languages.includes(parsed.bilingual?.verse) && languages.includes(parsed.bilingual?.chorus)
+        ? { verse: parsed.bilingual.verse, chorus: parsed.bilingual.chorus }
+        : existing.bilingual;
+      return { language: 'Karışık', bilingual };
+    }
+
+    if (languages.includes(parsed.language)) {
+      return { language: parsed.language, bilingual: undefined };
+    }
+
+    return { language: existing.language, bilingual: existing.bilingual };
+  }
+
   /**
    * Parse combined recipient info (relation + name + include name)
    * FLEXIBLE: Accepts personal relations, businesses, and projects
@@ -871,7 +933,8 @@ ${!existing.type ? '🎵 Tür: Pop, Rap, Jazz, Arabesk, Klasik, Rock, Metal, Nos
    */
   async parseRecipientInfo(
     userMessage: string,
-    existingData?: { relation?: string; includeNameInSong?: boolean | null; name?: string }
+    existingData?: { relation?: string; includeNameInSong?: boolean | null; name?: string },
+    locale?: Locale
   ): Promise<{
     relation: string | null;
     name: string | null;
@@ -1106,7 +1169,7 @@ CEVAP VERMEDE:
 
 ❌ YANLIŞ SORULAR:
 - "Hangi ilişki/hedef için bu şarkıyı hazırlıyoruz?" (ÇOK TEKNİK!)
-- "Kişi, İşletme, Proje?" (KULLANICI KARIŞIR!)`;
+- "Kişi, İşletme, Proje?" (KULLANICI KARIŞIR!)${this.replyLanguageInstruction(locale)}`;
 
     try {
       console.log('🔍 parseRecipientInfo INPUT:', {
@@ -1137,7 +1200,9 @@ CEVAP VERMEDE:
         relation: existing.relation || null,
         name: existing.name || null,
         includeNameInSong: existing.includeNameInSong ?? null,
-        response: `Bu şarkı kimin/neyin için? 😊
+        response: locale && locale !== 'tr'
+          ? t(locale, 'recipient.prompt')
+          : `Bu şarkı kimin/neyin için? 😊
 
 Kişi (Annem, Sevgilim...), İşletme (Firmam, Markam...), veya Proje olabilir.
 
@@ -1149,7 +1214,7 @@ ${!existing.includeNameInSong && existing.includeNameInSong !== false ? 'Şarkı
   /**
    * Parse combined story and notes
    */
-  async parseStoryAndNotes(userMessage: string): Promise<{
+  async parseStoryAndNotes(userMessage: string, locale?: Locale): Promise<{
     story: string | null;
     notes: string | null;
     response: string;
@@ -1158,7 +1223,7 @@ ${!existing.includeNameInSong && existing.includeNameInSong !== false ? 'Şarkı
       return {
         story: null,
         notes: null,
-        response: `Mesaj çok uzun (${userMessage.length} karakter). Lütfen 1200 karakter altında yazın.`,
+        response: t(locale, 'story.tooLong', { length: userMessage.length }),
       };
     }
 
@@ -1166,9 +1231,7 @@ ${!existing.includeNameInSong && existing.includeNameInSong !== false ? 'Şarkı
       return {
         story: null,
         notes: null,
-        response: `Biraz daha detay verebilir misiniz? 😊
-
-Hikayenizi ve varsa özel isteklerinizi yazın (en az birkaç cümle).`,
+        response: t(locale, 'story.tooShort'),
       };
     }
 
@@ -1182,7 +1245,7 @@ JSON cevap ver:
   "story": "hikaye kısmı",
   "notes": "not kısmı" veya null,
   "response": "Samimi onay mesajı"
-}`;
+}${this.replyLanguageInstruction(locale)}`;
 
     try {
       const result = await this.openaiService.generateText(prompt, { temperature: 0.3 });
@@ -1200,8 +1263,65 @@ JSON cevap ver:
       return {
         story: userMessage,
         notes: null,
-        response: '✅ Hikayeniz alındı! Harika bir şarkı çıkacak 💝',
+        response: t(locale, 'story.received'),
       };
     }
   }
+
+  /**
+   * Detect a request to change an earlier answer ("tarzı değiştir", "ismi yanlış yazdım")
+   * Returns field null when the message is not an edit request
+   */
+  async parseEditIntent(userMessage: string, locale?: Locale): Promise<{ field: EditableField | null; response: string }> {
+    const message = userMessage.toLocaleLowerCase('tr-TR').trim();
+
+    // Edit requests are short - long messages are answers (e.g. a story mentioning "değiştirdi")
+    const editWords = [
+      'değiştir', 'degistir', 'düzelt', 'duzelt', 'düzenle', 'duzenle', 'yanlış', 'yanlis',
+      'change', 'edit', 'wrong', 'ändern', 'falsch', 'تغيير', 'تعديل',
+    ];
+    if (message.length > 80 || !editWords.some(word => message.includes(word))) {
+      return { field: null, response: '' };
+    }
+
+    const prompt = `Kullanıcı sipariş sırasında daha önce verdiği bir cevabı değiştirmek istiyor olabilir: "${userMessage}"
+
+Alanlar:
+- type: Şarkı türü (Pop, Rock, Rap...)
+- style: Şarkı tarzı (Romantik, Duygusal, Eğlenceli, Sakin)
+- vocal: Vokal (Kadın, Erkek)
+- relation: Hediye edilen kişi (Annem, Sevgilim...)
+- name: Şarkıda geçecek isim
+- story: Hikaye
+
+JSON cevap ver:
+{
+  "field": "type" | "style" | "vocal" | "relation" | "name" | "story" | null,
+  "response": "Samimi kısa mesaj"
+}${this.replyLanguageInstruction(locale)}`;
+
+    try {
+      const result = await this.openaiService.generateText(prompt, { temperature: 0.1 });
+      const parsed = this.cleanAndParseJSON(result);
+      const fields: EditableField[] = ['type', 'style', 'vocal', 'relation', 'name', 'story'];
+
+      return {
+        field: fields.includes(parsed.field) ? parsed.field : null,
+        response: parsed.response || '',
+      };
+    } catch (error) {
+      // Fallback: keyword matching
+      const keywordFields: Array<[string[], EditableField]> = [
+        [['tür', 'tur', 'genre'], 'type'],
+        [['tarz', 'mood', 'stimmung'], 'style'],
+        [['vokal', 'ses', 'voice', 'stimme'], 'vocal'],
+        [['isim', 'ismi', 'adı', 'adi', 'name'], 'name'],
+        [['kişi', 'kisi', 'kime', 'recipient', 'person'], 'relation'],
+        [['hikaye', 'story', 'geschichte'], 'story'],
+      ];
+      const match = keywordFields.find(([words]) => words.some(word => message.includes(word)));
+
+      return { field: match ? match[1] : null, response: '' };
+    }
+  }
 }
@@ -0,0 +1,270 @@
+import { execFile } from 'child_process';
+import { existsSync, readFileSync } from 'fs';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { Locale, t } from '../i18n';
+import { Order } from '../models/order.model';
+import { parseDurationSeconds } from './audio-qa.service';
+
+const execFileAsync = promisify(execFile);
+
+export interface CoverArt {
+  mimeType: string;                    // image/jpeg | image/png
+  data: Buffer;
+}
+
+/**
+ * ID3 tags of a delivered song
+ */
+export interface AudioTags {
+  title: string;
+  artist: string;
+  album?: string;
+  year?: string;
+  lyrics?: string;
+  language?: string;                   // ISO-639-2 (USLT), e.g. "tur"
+  cover?: CoverArt;
+}
+
+/**
+ * Mastering of a generated song (MP3 in, MP3 out)
+ */
+export interface AudioMasterer {
+  readonly name: string;
+  master(audio: Buffer): Promise<Buffer>;
+}
+
+export interface MasteringOptions {
+  targetLufs: number;
+  truePeakDb: number;
+  fadeInSeconds: number;
+  fadeOutSeconds: number;
+}
+
+const DEFAULT_MASTERING: MasteringOptions = {
+  targetLufs: -14,
+  truePeakDb: -1,
+  fadeInSeconds: 0.3,
+  fadeOutSeconds: 3,
+};
+
+/**
+ * ffmpeg mastering: EBU R128 loudness normalization (loudnorm) and fade-in/out
+ * The fade-out needs the duration, read with a stream copy first (no decoding)
+ */
+export class FfmpegAudioMasterer implements AudioMasterer {
+  readonly name = 'ffmpeg';
+  private options: MasteringOptions;
+
+  constructor(private ffmpegPath: string = 'ffmpeg', options: Partial<MasteringOptions> = {}) {
+    this.options = { ...DEFAULT_MASTERING, ...options };
+  }
+
+  async master(audio: Buffer): Promise<Buffer> {
+    const dir = await mkdtemp(path.join(tmpdir(), 'bihediye-master-'));
+    const input = path.join(dir, 'input.mp3');
+    const output = path.join(dir, 'output.mp3');
+    const { targetLufs, truePeakDb, fadeInSeconds, fadeOutSeconds } = this.options;
+
+    try {
+      await writeFile(input, audio);
+
+      const probe = await execFileAsync(
+        this.ffmpegPath,
+        ['-hide_banner', '-i', input, '-map', '0:a', '-c', 'copy', '-f', 'null', '-'],
+        { timeout: 60000 }
+      );
+      const duration = parseDurationSeconds(probe.stderr);
+      const fadeOutStart = Math.max(0, duration - fadeOutSeconds).toFixed(2);
+
+      await execFileAsync(
+        this.ffmpegPath,
+        [
+          '-hide_banner', '-nostats', '-y',
+          '-i', input,
+          '-map', '0:a',
+          '-af', [
+            `loudnorm=I=${targetLufs}:TP=${truePeakDb}:LRA=11`,
+            `afade=t=in:st=0:d=${fadeInSeconds}`,
+            `afade=t=out:st=${fadeOutStart}:d=${fadeOutSeconds}`,
+          ].join(','),
+          // loudnorm resamples to 192 kHz internally
+          '-ar', '44100',
+          '-c:a', 'libmp3lame', '-b:a', '192k',
+          // Tags are written by writeId3Tag
+          '-map_metadata', '-1', '-write_id3v2', '0',
+          output,
+        ],
+        { timeout: 180000 }
+      );
+
+      return await readFile(output);
+    } catch (error: any) {
+      console.error('ffmpeg mastering error:', error.message);
+      throw new Error(`Ses işleme hatası: ${error.message}`);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Post-processing between the Suno download and the Storage upload:
+ * mastering (when configured) and ID3 tags with the default cover art
+ * A mastering error never blocks a delivery - the original audio is tagged instead.
+ */
+export class AudioPostProcessor {
+  constructor(
+    private masterer: AudioMasterer | null,
+    private defaultCover?: CoverArt
+  ) {}
+
+  async process(audio: Buffer, tags: AudioTags): Promise<Buffer> {
+    let mastered = audio;
+
+    if (this.masterer) {
+      try {
+        mastered = await this.masterer.master(audio);
+      } catch (error: any) {
+        console.error('⚠️ Mastering failed - delivering the original audio:', error.message);
+      }
+    }
+
+    return writeId3Tag(mastered, { ...tags, cover: tags.cover || this.defaultCover });
+  }
+}
+
+/**
+ * Create the configured post-processor
+ * ID3 tags are always written, mastering only with 'ffmpeg'
+ */
+export function createAudioPostProcessor(config: {
+  mastering: string;
+  ffmpegPath: string;
+  targetLufs: number;
+  coverArtPath: string;
+}): AudioPostProcessor {
+  const masterer = config.mastering === 'ffmpeg'
+    ? new FfmpegAudioMasterer(config.ffmpegPath, { targetLufs: config.targetLufs })
+    : null;
+
+  let cover: CoverArt | undefined;
+  if (config.coverArtPath && existsSync(config.coverArtPath)) {
+    cover = {
+      mimeType: config.coverArtPath.toLowerCase().endsWith('.png') ? 'image/png' : 'image/jpeg',
+      data: readFileSync(config.coverArtPath),
+    };
+  } else if (config.coverArtPath) {
+    console.warn(`⚠️ Cover art not found: ${config.coverArtPath}`);
+  }
+
+  return new AudioPostProcessor(masterer, cover);
+}
+
+const ID3_LANGUAGES: Record<Locale, string> = {
+  tr: 'tur',
+  en: 'eng',
+  de: 'deu',
+  ar: 'ara',
+};
+
+/**
+ * Personalized song title: the one written with the lyrics, otherwise "Ayşe için"
+ */
+export function songTitle(order: Order): string {
+  if (order.song1Title) {
+    return order.song1Title;
+  }
+
+  const recipientName = order.orderData.recipientName?.trim();
+  return recipientName
+    ? t(order.locale, 'song.title', { name: recipientName })
+    : t(order.locale, 'song.titleDefault');
+}
+
+/**
+ * ID3 tags of an order's song
+ */
+export function orderAudioTags(order: Order, lyrics?: string): AudioTags {
+  return {
+    title: songTitle(order),
+    artist: 'bihediye.art',
+    album: 'bihediye.art',
+    year: String((order.createdAt || new Date()).getFullYear()),
+    lyrics: lyrics || order.song1Lyrics,
+    language: ID3_LANGUAGES[order.locale || 'tr'],
+  };
+}
+
+/**
+ * Replace the file's ID3v2 tag with an ID3v2.3 tag (UTF-16 text frames, USLT lyrics, APIC cover)
+ */
+export function writeId3Tag(audio: Buffer, tags: AudioTags): Buffer {
+  const frames: Buffer[] = [
+    textFrame('TIT2', tags.title),
+    textFrame('TPE1', tags.artist),
+  ];
+
+  if (tags.album) {
+    frames.push(textFrame('TALB', tags.album));
+  }
+  if (tags.year) {
+    frames.push(textFrame('TYER', tags.year));
+  }
+  if (tags.lyrics) {
+    frames.push(id3Frame('USLT', Buffer.concat([
+      Buffer.from([0x01]),
+      Buffer.from((tags.language || 'tur').slice(0, 3), 'latin1'),
+      utf16(''), Buffer.from([0x00, 0x00]),   // empty content descriptor
+      utf16(tags.lyrics),
+    ])));
+  }
+  if (tags.cover) {
+    frames.push(id3Frame('APIC', Buffer.concat([
+      Buffer.from([0x00]),
+      Buffer.from(tags.cover.mimeType, 'latin1'), Buffer.from([0x00]),
+      Buffer.from([0x03, 0x00]),              // front cover, empty description
+      tags.cover.data,
+    ])));
+  }
+
+  const body = Buffer.concat(frames);
+  const header = Buffer.from([0x49, 0x44, 0x33, 0x03, 0x00, 0x00, ...syncsafe(body.length)]);
+
+  return Buffer.concat([header, body, stripId3Tag(audio)]);
+}
+
+/**
+ * Audio without a leading ID3v2 tag
+ */
+export function stripId3Tag(audio: Buffer): Buffer {
+  if (audio.length < 10 || audio.toString('latin1', 0, 3) !== 'ID3') {
+    return audio;
+  }
+
+  const size = (audio[6] << 21) | (audio[7] << 14) | (audio[8] << 7) | audio[9];
+  const footer = audio[5] & 0x10 ? 10 : 0;
+  return audio.subarray(10 + size + footer);
+}
+
+function textFrame(id: string, text: string): Buffer {
+  return id3Frame(id, Buffer.concat([Buffer.from([0x01]), utf16(text)]));
+}
+
+function id3Frame(id: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(10);
+  header.write(id, 0, 'latin1');
+  header.writeUInt32BE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+// UTF-16 with byte order mark (ID3v2.3 has no UTF-8)
+function utf16(text: string): Buffer {
+  return Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, 'utf16le')]);
+}
+
+function syncsafe(size: number): number[] {
+  return [(size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f];
+}
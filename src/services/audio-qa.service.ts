@@ -0,0 +1,209 @@
+import { execFile } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { AudioMetrics, AudioQaIssue, AudioQaResult } from '../models/order.model';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Measures a generated song (MP3 buffer)
+ */
+export interface AudioAnalyzer {
+  readonly name: string;
+  analyze(audio: Buffer): Promise<AudioMetrics>;
+}
+
+/**
+ * ffmpeg analysis in a single pass: silencedetect, volumedetect and ebur128 (loudness, true peak)
+ * The buffer is written to a temp file so ffmpeg can read the duration from the MP3 header
+ */
+export class FfmpegAudioAnalyzer implements AudioAnalyzer {
+  readonly name = 'ffmpeg';
+
+  constructor(private ffmpegPath: string = 'ffmpeg') {}
+
+  async analyze(audio: Buffer): Promise<AudioMetrics> {
+    const dir = await mkdtemp(path.join(tmpdir(), 'bihediye-qa-'));
+    const file = path.join(dir, 'song.mp3');
+
+    try {
+      await writeFile(file, audio);
+      const { stderr } = await execFileAsync(
+        this.ffmpegPath,
+        [
+          '-hide_banner', '-nostats',
+          '-i', file,
+          '-af', 'silencedetect=noise=-50dB:d=0.5,volumedetect,ebur128=peak=true:framelog=verbose',
+          '-f', 'null', '-',
+        ],
+        { timeout: 120000, maxBuffer: 10 * 1024 * 1024 }
+      );
+      return parseFfmpegAnalysis(stderr);
+    } catch (error: any) {
+      console.error('ffmpeg analysis error:', error.message);
+      throw new Error(`Ses analizi hatası: ${error.message}`);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Local fake - returns the given measurements in order, the last one repeats (tests / local development)
+ */
+export class FakeAudioAnalyzer implements AudioAnalyzer {
+  readonly name = 'fake';
+  analyzed = 0;
+
+  constructor(private results: AudioMetrics[] = [{
+    durationSeconds: 180,
+    leadingSilenceSeconds: 0,
+    trailingSilenceSeconds: 1,
+    clippedRatio: 0,
+    truePeakDb: -1,
+    integratedLufs: -14,
+  }]) {}
+
+  async analyze(audio: Buffer): Promise<AudioMetrics> {
+    console.log(`🎚️ Fake audio analysis (${audio.length} bytes)`);
+    this.analyzed++;
+    return this.results.length > 1 ? this.results.shift()! : this.results[0];
+  }
+}
+
+/**
+ * Create the configured analyzer (null = quality gate disabled)
+ */
+export function createAudioAnalyzer(config: { analyzer: string; ffmpegPath: string }): AudioAnalyzer | null {
+  if (config.analyzer === 'ffmpeg') {
+    return new FfmpegAudioAnalyzer(config.ffmpegPath);
+  }
+  if (config.analyzer === 'fake') {
+    return new FakeAudioAnalyzer();
+  }
+  return null;
+}
+
+/**
+ * Read the filter reports from ffmpeg's log output
+ */
+export function parseFfmpegAnalysis(output: string): AudioMetrics {
+  const durationSeconds = parseDurationSeconds(output);
+
+  // A silence still running at the end of the file may have no silence_end
+  const starts = [...output.matchAll(/silence_start: (-?[\d.]+)/g)].map(match => Math.max(0, Number(match[1])));
+  const ends = [...output.matchAll(/silence_end: ([\d.]+)/g)].map(match => Number(match[1]));
+  const silences = starts.map((start, index) => ({ start, end: ends[index] ?? durationSeconds }));
+
+  const first = silences[0];
+  const last = silences[silences.length - 1];
+  const leadingSilenceSeconds = first && first.start <= 0.05 ? first.end - first.start : 0;
+  const trailingSilenceSeconds = last && last.end >= durationSeconds - 0.5 ? durationSeconds - last.start : 0;
+
+  const samples = Number(output.match(/n_samples: (\d+)/)?.[1] || 0);
+  const fullScaleSamples = Number(output.match(/histogram_0db: (\d+)/)?.[1] || 0);
+
+  return {
+    durationSeconds,
+    leadingSilenceSeconds,
+    trailingSilenceSeconds,
+    clippedRatio: samples ? fullScaleSamples / samples : 0,
+    truePeakDb: lastNumber(output, /Peak:\s+(-?[\d.]+) dBFS/g),
+    integratedLufs: lastNumber(output, /I:\s+(-?[\d.]+) LUFS/g),
+  };
+}
+
+/**
+ * Input duration from ffmpeg's log header ("Duration: 00:03:05.40")
+ */
+export function parseDurationSeconds(output: string): number {
+  const duration = output.match(/Duration: (\d+):(\d+):([\d.]+)/);
+  if (!duration) {
+    throw new Error('Ses süresi okunamadı');
+  }
+  return Number(duration[1]) * 3600 + Number(duration[2]) * 60 + Number(duration[3]);
+}
+
+function lastNumber(output: string, pattern: RegExp): number | undefined {
+  const matches = [...output.matchAll(pattern)];
+  return matches.length ? Number(matches[matches.length - 1][1]) : undefined;
+}
+
+export interface AudioQaThresholds {
+  minDurationSeconds: number;
+  maxDurationSeconds: number;
+  maxLeadingSilenceSeconds: number;
+  maxTrailingSilenceSeconds: number;
+  maxClippedRatio: number;
+  minLufs: number;
+  maxLufs: number;
+}
+
+export const DEFAULT_AUDIO_QA_THRESHOLDS: AudioQaThresholds = {
+  minDurationSeconds: 60,
+  maxDurationSeconds: 480,
+  maxLeadingSilenceSeconds: 3,
+  maxTrailingSilenceSeconds: 8,
+  maxClippedRatio: 0.005,
+  minLufs: -24,
+  maxLufs: -6,
+};
+
+// Streaming loudness target - variants closer to it score higher
+const TARGET_LUFS = -14;
+
+/**
+ * Audio quality gate for generated songs (duration, silence, clipping, loudness)
+ * Score: 100, -25 per failed check, up to -10 each for loudness distance, silence and clipping
+ */
+export class AudioQaService {
+  constructor(
+    private analyzer: AudioAnalyzer,
+    private thresholds: AudioQaThresholds = DEFAULT_AUDIO_QA_THRESHOLDS
+  ) {}
+
+  async check(audio: Buffer): Promise<AudioQaResult> {
+    return this.evaluate(await this.analyzer.analyze(audio));
+  }
+
+  evaluate(metrics: AudioMetrics): AudioQaResult {
+    const limits = this.thresholds;
+    const issues: AudioQaIssue[] = [];
+
+    if (metrics.durationSeconds < limits.minDurationSeconds) {
+      issues.push('too_short');
+    }
+    if (metrics.durationSeconds > limits.maxDurationSeconds) {
+      issues.push('too_long');
+    }
+    if (metrics.leadingSilenceSeconds > limits.maxLeadingSilenceSeconds) {
+      issues.push('leading_silence');
+    }
+    if (metrics.trailingSilenceSeconds > limits.maxTrailingSilenceSeconds) {
+      issues.push('trailing_silence');
+    }
+    if (metrics.clippedRatio > limits.maxClippedRatio) {
+      issues.push('clipping');
+    }
+    if (metrics.integratedLufs !== undefined && metrics.integratedLufs < limits.minLufs) {
+      issues.push('too_quiet');
+    }
+    if (metrics.integratedLufs !== undefined && metrics.integratedLufs > limits.maxLufs) {
+      issues.push('too_loud');
+    }
+
+    const loudnessPenalty = metrics.integratedLufs !== undefined ? Math.min(10, Math.abs(metrics.integratedLufs - TARGET_LUFS)) : 0;
+    const silencePenalty = Math.min(10, metrics.leadingSilenceSeconds + metrics.trailingSilenceSeconds);
+    const clippingPenalty = Math.min(10, metrics.clippedRatio * 2000);
+    const score = 100 - issues.length * 25 - loudnessPenalty - silencePenalty - clippingPenalty;
+
+    return {
+      passed: issues.length === 0,
+      score: Math.max(0, Math.round(score * 10) / 10),
+      issues,
+      metrics,
+    };
+  }
+}
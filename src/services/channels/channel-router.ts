@@ -0,0 +1,158 @@
+import { formatDate, Locale, t } from '../../i18n';
+import { InteractiveOption, SendOptions, WhatsAppService } from '../whatsapp.service';
+import { ChannelName, MessagingChannel, parseCustomerKey } from './messaging-channel';
+
+/**
+ * Sends to a customer key on the channel it belongs to
+ * (conversation engine, order processing and queues only talk to the router)
+ */
+export class ChannelRouter {
+  private channels = new Map<ChannelName, MessagingChannel>();
+
+  constructor(private whatsappService: WhatsAppService) {
+    this.register(whatsappService);
+  }
+
+  /**
+   * Add a channel (called from index.ts for the configured channels)
+   */
+  register(channel: MessagingChannel): void {
+    this.channels.set(channel.name, channel);
+  }
+
+  /**
+   * Channel and channel user id for a customer key
+   */
+  resolve(to: string): { channel: MessagingChannel; userId: string } {
+    const { channel, userId } = parseCustomerKey(to);
+    const target = this.channels.get(channel);
+    if (!target) {
+      throw new Error(`Messaging channel not configured: ${channel}`);
+    }
+    return { channel: target, userId };
+  }
+
+  /**
+   * Note an inbound message - only WhatsApp has a session window to keep track of
+   */
+  async recordInboundMessage(from: string, at: Date = new Date()): Promise<void> {
+    const { channel, userId } = parseCustomerKey(from);
+    if (channel === 'whatsapp') {
+      await this.whatsappService.recordInboundMessage(userId, at);
+    }
+  }
+
+  async sendTextMessage(to: string, message: string, options: SendOptions = {}): Promise<void> {
+    const { channel, userId } = this.resolve(to);
+    await channel.sendTextMessage(userId, message, options);
+  }
+
+  async sendButtonMessage(to: string, message: string, buttons: InteractiveOption[]): Promise<void> {
+    const { channel, userId } = this.resolve(to);
+    await channel.sendButtonMessage(userId, message, buttons);
+  }
+
+  async sendListMessage(
+    to: string,
+    message: string,
+    buttonText: string,
+    options: InteractiveOption[],
+    sectionTitle?: string
+  ): Promise<void> {
+    const { channel, userId } = this.resolve(to);
+    await channel.sendListMessage(userId, message, buttonText, options, sectionTitle);
+  }
+
+  async sendAudioMessage(to: string, audioUrl: string, options: SendOptions = {}): Promise<void> {
+    const { channel, userId } = this.resolve(to);
+    await channel.sendAudioMessage(userId, audioUrl, options);
+  }
+
+  async sendVideoMessage(to: string, videoUrl: string, caption?: string): Promise<void> {
+    const { channel, userId } = this.resolve(to);
+    await channel.sendVideoMessage(userId, videoUrl, caption);
+  }
+
+  async sendImageMessage(to: string, imageUrl: string, caption?: string): Promise<void> {
+    const { channel, userId } = this.resolve(to);
+    await channel.sendImageMessage(userId, imageUrl, caption);
+  }
+
+  async sendDocumentMessage(to: string, documentUrl: string, filename: string): Promise<void> {
+    const { channel, userId } = this.resolve(to);
+    await channel.sendDocumentMessage(userId, documentUrl, filename);
+  }
+
+  /**
+   * Download media the customer sent (media URLs are only readable by their own channel)
+   */
+  async downloadMedia(from: string, mediaUrl: string): Promise<{ data: Buffer; contentType?: string }> {
+    const { channel } = this.resolve(from);
+    return channel.downloadMedia(mediaUrl);
+  }
+
+  /**
+   * Send order confirmation message
+   */
+  async sendOrderConfirmation(
+    to: string,
+    orderId: string,
+    totalPrice: number,
+    estimatedDelivery: Date,
+    locale: Locale = 'tr'
+  ): Promise<void> {
+    await this.sendTextMessage(to, t(locale, 'order.confirmation', {
+      orderId,
+      price: totalPrice.toFixed(2),
+      delivery: formatDate(estimatedDelivery, locale, { dateStyle: 'short', timeStyle: 'short' }),
+    }));
+  }
+
+  /**
+   * Send order progress update
+   */
+  async sendProgressUpdate(to: string, orderId: string, status: string, progress: number, locale: Locale = 'tr'): Promise<void> {
+    await this.sendTextMessage(to, t(locale, 'order.progress', {
+      orderId,
+      progressBar: this.createProgressBar(progress),
+      progress,
+      status,
+    }));
+  }
+
+  /**
+   * Send order completion message (with the permanent share page link if given)
+   */
+  async sendOrderCompletion(to: string, orderId: string, locale: Locale = 'tr', shareUrl?: string): Promise<void> {
+    const message = shareUrl
+      ? `${t(locale, 'order.completed', { orderId })}\n\n${t(locale, 'order.shareLink', { url: shareUrl })}`
+      : t(locale, 'order.completed', { orderId });
+
+    await this.sendTextMessage(to, message, {
+      orderId,
+      kind: 'completion',
+      locale,
+      template: { id: 'order_completed', params: { orderId } },
+    });
+  }
+
+  /**
+   * Send error message (user-friendly, no technical details)
+   */
+  async sendErrorMessage(to: string, orderId: string, errorMessage: string, locale: Locale = 'tr'): Promise<void> {
+    await this.sendTextMessage(to, t(locale, 'order.error', { orderId }), {
+      orderId,
+      locale,
+      template: { id: 'order_delayed', params: { orderId } },
+    });
+  }
+
+  /**
+   * Create a text-based progress bar
+   */
+  private createProgressBar(percentage: number): string {
+    const filled = Math.floor(percentage / 10);
+    const empty = 10 - filled;
+    return '█'.repeat(filled) + '░'.repeat(empty);
+  }
+}
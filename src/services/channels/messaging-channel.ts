@@ -0,0 +1,72 @@
+import { ConversationSelection } from '../../models/conversation.model';
+import { InteractiveOption, SendOptions } from '../whatsapp.service';
+
+export type ChannelName = 'whatsapp' | 'telegram' | 'web';
+
+/**
+ * Who wrote to us, on which channel
+ * userId: phone number (WhatsApp), chat id (Telegram), session id (web chat)
+ */
+export interface ChannelIdentity {
+  channel: ChannelName;
+  userId: string;
+  displayName?: string;
+}
+
+/**
+ * Transport the ordering bot talks through
+ * `to` is always the channel's own user id (see customerKey for the app-wide key)
+ */
+export interface MessagingChannel {
+  readonly name: ChannelName;
+
+  sendTextMessage(to: string, message: string, options?: SendOptions): Promise<void>;
+  sendButtonMessage(to: string, message: string, buttons: InteractiveOption[]): Promise<void>;
+  sendListMessage(
+    to: string,
+    message: string,
+    buttonText: string,
+    options: InteractiveOption[],
+    sectionTitle?: string
+  ): Promise<void>;
+  sendAudioMessage(to: string, audioUrl: string, options?: SendOptions): Promise<void>;
+  sendVideoMessage(to: string, videoUrl: string, caption?: string): Promise<void>;
+  sendImageMessage(to: string, imageUrl: string, caption?: string): Promise<void>;
+  sendDocumentMessage(to: string, documentUrl: string, filename: string): Promise<void>;
+  downloadMedia(mediaUrl: string): Promise<{ data: Buffer; contentType?: string }>;
+
+  /**
+   * Sender of an inbound event in the channel's own format (null = not a user message)
+   */
+  identify(inbound: any): ChannelIdentity | null;
+}
+
+/**
+ * Where channels hand over inbound messages (OrderService)
+ */
+export interface ChannelMessageHandler {
+  handleIncomingMessage(from: string, message: string): Promise<void>;
+  handleIncomingSelection(from: string, selection: ConversationSelection): Promise<void>;
+  handleIncomingMedia(from: string, mediaUrl: string, mediaType: string): Promise<void>;
+}
+
+const PREFIXED_CHANNELS: ChannelName[] = ['telegram', 'web'];
+
+/**
+ * App-wide customer key (conversations, orders, locks)
+ * WhatsApp keeps the bare phone number so existing data stays valid,
+ * other channels are prefixed: "telegram:12345", "web:3f2a..."
+ */
+export function customerKey(channel: ChannelName, userId: string): string {
+  return channel === 'whatsapp' ? userId : `${channel}:${userId}`;
+}
+
+export function parseCustomerKey(key: string): ChannelIdentity {
+  const separator = key.indexOf(':');
+  const prefix = key.substring(0, separator) as ChannelName;
+
+  if (separator > 0 && PREFIXED_CHANNELS.includes(prefix)) {
+    return { channel: prefix, userId: key.substring(separator + 1) };
+  }
+  return { channel: 'whatsapp', userId: key };
+}
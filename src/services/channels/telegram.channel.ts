@@ -0,0 +1,218 @@
+import axios, { AxiosInstance } from 'axios';
+import { t } from '../../i18n';
+import { InteractiveOption, SendOptions } from '../whatsapp.service';
+import { ChannelIdentity, ChannelMessageHandler, customerKey, MessagingChannel } from './messaging-channel';
+
+export interface TelegramConfig {
+  botToken: string;
+  webhookSecret?: string; // secret_token given to setWebhook
+}
+
+/**
+ * Telegram Bot API adapter
+ * Updates arrive on /webhook/telegram, replies go through the Bot API.
+ * Bot messages use the same *bold* / _italic_ markup as WhatsApp (Markdown parse mode)
+ */
+export class TelegramChannel implements MessagingChannel {
+  static readonly SECRET_HEADER = 'x-telegram-bot-api-secret-token';
+
+  readonly name = 'telegram' as const;
+
+  private client: AxiosInstance;
+  private handler?: ChannelMessageHandler;
+
+  constructor(private config: TelegramConfig) {
+    this.client = axios.create({
+      baseURL: `https://api.telegram.org/bot${config.botToken}`,
+      timeout: 30000,
+    });
+  }
+
+  /**
+   * Set the inbound message handler (called from index.ts after OrderService is created)
+   */
+  setMessageHandler(handler: ChannelMessageHandler): void {
+    this.handler = handler;
+  }
+
+  /**
+   * Webhook secret check (every request is accepted when no secret is configured)
+   */
+  verifySecret(secret?: string): boolean {
+    return !this.config.webhookSecret || secret === this.config.webhookSecret;
+  }
+
+  identify(update: any): ChannelIdentity | null {
+    const message = update?.message || update?.callback_query?.message;
+    const user = update?.message?.from || update?.callback_query?.from;
+    if (!message?.chat?.id) {
+      return null;
+    }
+
+    return {
+      channel: 'telegram',
+      userId: String(message.chat.id),
+      displayName: user?.first_name,
+    };
+  }
+
+  /**
+   * Handle a webhook update: text, button taps (callback queries) and media
+   */
+  async handleUpdate(update: any): Promise<void> {
+    const identity = this.identify(update);
+    if (!identity || !this.handler) {
+      return;
+    }
+
+    const from = customerKey('telegram', identity.userId);
+
+    if (update.callback_query) {
+      await this.handleCallbackQuery(from, update.callback_query);
+      return;
+    }
+
+    const message = update.message;
+    if (message.text) {
+      // /start opens the conversation like a greeting
+      const text = message.text.trim() === '/start' ? 'merhaba' : message.text;
+      await this.handler.handleIncomingMessage(from, text);
+      return;
+    }
+
+    const media = this.extractMedia(message);
+    if (media) {
+      const fileUrl = await this.getFileUrl(media.fileId);
+      await this.handler.handleIncomingMedia(from, fileUrl, media.type);
+      return;
+    }
+
+    console.log(`Unsupported Telegram message from ${from}`);
+  }
+
+  async sendTextMessage(to: string, message: string, options: SendOptions = {}): Promise<void> {
+    await this.sendFormatted('/sendMessage', { chat_id: to, text: message });
+  }
+
+  async sendButtonMessage(to: string, message: string, buttons: InteractiveOption[]): Promise<void> {
+    await this.sendFormatted('/sendMessage', {
+      chat_id: to,
+      text: message,
+      reply_markup: this.keyboard(buttons.map(button => button.title), buttons),
+    });
+  }
+
+  async sendListMessage(
+    to: string,
+    message: string,
+    buttonText: string,
+    options: InteractiveOption[],
+    sectionTitle?: string
+  ): Promise<void> {
+    const labels = options.map(option => option.description ? `${option.title} - ${option.description}` : option.title);
+
+    await this.sendFormatted('/sendMessage', {
+      chat_id: to,
+      text: message,
+      reply_markup: this.keyboard(labels, options),
+    });
+  }
+
+  async sendAudioMessage(to: string, audioUrl: string, options: SendOptions = {}): Promise<void> {
+    try {
+      await this.sendFormatted('/sendAudio', {
+        chat_id: to,
+        audio: audioUrl,
+        caption: t(options.locale, 'delivery.songReadyCaption'),
+      });
+    } catch (error: any) {
+      // Telegram fetches the file itself and gives up on large / slow URLs - send the link instead
+      console.error('Error sending Telegram audio, sending link:', error.response?.data || error.message);
+      await this.sendTextMessage(to, t(options.locale, 'delivery.songReady', { url: audioUrl }));
+    }
+  }
+
+  async sendVideoMessage(to: string, videoUrl: string, caption?: string): Promise<void> {
+    await this.sendFormatted('/sendVideo', { chat_id: to, video: videoUrl, caption });
+  }
+
+  async sendImageMessage(to: string, imageUrl: string, caption?: string): Promise<void> {
+    await this.sendFormatted('/sendPhoto', { chat_id: to, photo: imageUrl, caption });
+  }
+
+  async sendDocumentMessage(to: string, documentUrl: string, filename: string): Promise<void> {
+    await this.sendFormatted('/sendDocument', { chat_id: to, document: documentUrl, caption: filename });
+  }
+
+  async downloadMedia(mediaUrl: string): Promise<{ data: Buffer; contentType?: string }> {
+    try {
+      const response = await axios.get(mediaUrl, { responseType: 'arraybuffer', timeout: 60000 });
+      return {
+        data: Buffer.from(response.data),
+        contentType: response.headers['content-type'] as string | undefined,
+      };
+    } catch (error: any) {
+      console.error('Error downloading Telegram media:', error.response?.status || error.message);
+      throw new Error(`Telegram medya indirme hatası: ${error.message}`);
+    }
+  }
+
+  private async handleCallbackQuery(from: string, query: any): Promise<void> {
+    // Stops the loading spinner on the button
+    this.client.post('/answerCallbackQuery', { callback_query_id: query.id }).catch((error: any) => {
+      console.error('Error answering Telegram callback query:', error.message);
+    });
+
+    const buttons: any[] = (query.message?.reply_markup?.inline_keyboard || []).flat();
+    const button = buttons.find(candidate => candidate.callback_data === query.data);
+
+    await this.handler!.handleIncomingSelection(from, {
+      id: query.data,
+      title: button?.text || query.data,
+    });
+  }
+
+  /**
+   * One button per row (list rows can be long)
+   */
+  private keyboard(labels: string[], options: InteractiveOption[]): any {
+    return {
+      inline_keyboard: options.map((option, index) => [{ text: labels[index], callback_data: option.id }]),
+    };
+  }
+
+  /**
+   * Send with Markdown, resend as plain text when Telegram can't parse the markup
+   * (an unmatched * or _ in customer provided text rejects the whole message)
+   */
+  private async sendFormatted(method: string, body: any): Promise<void> {
+    try {
+      await this.client.post(method, { ...body, parse_mode: 'Markdown' });
+    } catch (error: any) {
+      const description = error.response?.data?.description || '';
+      if (!/can't parse entities/i.test(description)) {
+        console.error(`Telegram ${method} error:`, error.response?.data || error.message);
+        throw new Error(`Telegram mesaj gönderme hatası: ${description || error.message}`);
+      }
+
+      await this.client.post(method, body);
+    }
+  }
+
+  private extractMedia(message: any): { fileId: string; type: string } | null {
+    if (message.voice) return { fileId: message.voice.file_id, type: 'audio' };
+    if (message.audio) return { fileId: message.audio.file_id, type: 'audio' };
+    if (message.photo?.length) return { fileId: message.photo[message.photo.length - 1].file_id, type: 'image' };
+    if (message.video) return { fileId: message.video.file_id, type: 'video' };
+    if (message.document) return { fileId: message.document.file_id, type: 'document' };
+    return null;
+  }
+
+  /**
+   * Download URL of an uploaded file (valid for at least an hour)
+   */
+  private async getFileUrl(fileId: string): Promise<string> {
+    const response = await this.client.post('/getFile', { file_id: fileId });
+    return `https://api.telegram.org/file/bot${this.config.botToken}/${response.data.result.file_path}`;
+  }
+}
@@ -0,0 +1,183 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { InteractiveOption, SendOptions } from '../whatsapp.service';
+import { ChannelIdentity, ChannelMessageHandler, customerKey, MessagingChannel } from './messaging-channel';
+import { WebSocketConnection } from './websocket';
+
+/**
+ * Server -> widget events
+ */
+export type WebChatEvent =
+  | { type: 'session'; sessionId: string }
+  | { type: 'text'; text: string }
+  | { type: 'buttons'; text: string; options: InteractiveOption[] }
+  | { type: 'list'; text: string; buttonText: string; options: InteractiveOption[] }
+  | { type: 'audio' | 'video' | 'image' | 'document'; url: string; caption?: string };
+
+/**
+ * Web chat widget adapter (WebSocket)
+ *
+ * The widget connects to `${path}?session=<id>` with the session id it got
+ * on its first connection (kept in localStorage) and sends JSON messages:
+ *   { "type": "text", "text": "merhaba" }
+ *   { "type": "selection", "id": "style:Pop", "title": "Pop" }
+ * Replies are WebChatEvent JSON messages. Messages sent while the widget is
+ * disconnected are kept in memory and delivered on reconnect.
+ */
+export class WebChatChannel implements MessagingChannel {
+  private readonly MAX_BACKLOG = 50;
+  private readonly SESSION_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+  readonly name = 'web' as const;
+
+  private connections = new Map<string, Set<WebSocketConnection>>();
+  private backlog = new Map<string, WebChatEvent[]>();
+  private handler?: ChannelMessageHandler;
+
+  constructor(private path: string = '/ws/chat') {}
+
+  /**
+   * Set the inbound message handler (called from index.ts after OrderService is created)
+   */
+  setMessageHandler(handler: ChannelMessageHandler): void {
+    this.handler = handler;
+  }
+
+  /**
+   * Accept widget connections on the http server
+   */
+  attach(server: Server): void {
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex) => {
+      if (new URL(req.url || '/', 'http://localhost').pathname !== this.path) {
+        return;
+      }
+      this.handleUpgrade(req, socket);
+    });
+  }
+
+  /**
+   * Session of a widget connection request (null = new visitor)
+   */
+  identify(req: IncomingMessage): ChannelIdentity | null {
+    const session = new URL(req.url || '/', 'http://localhost').searchParams.get('session');
+    return session && this.SESSION_PATTERN.test(session) ? { channel: 'web', userId: session } : null;
+  }
+
+  handleUpgrade(req: IncomingMessage, socket: Duplex): void {
+    const connection = WebSocketConnection.accept(req, socket);
+    if (!connection) {
+      return;
+    }
+
+    const sessionId = this.identify(req)?.userId || uuidv4();
+    this.connect(sessionId, connection);
+  }
+
+  /**
+   * Register an open connection for a session and flush its backlog
+   */
+  connect(sessionId: string, connection: WebSocketConnection): void {
+    const sessionConnections = this.connections.get(sessionId) || new Set<WebSocketConnection>();
+    sessionConnections.add(connection);
+    this.connections.set(sessionId, sessionConnections);
+
+    connection.on('message', (raw: string) => {
+      this.handleClientMessage(sessionId, raw).catch(error => {
+        console.error(`Error handling web chat message from ${sessionId}:`, error.message);
+      });
+    });
+    connection.on('close', () => {
+      sessionConnections.delete(connection);
+      if (sessionConnections.size === 0) {
+        this.connections.delete(sessionId);
+      }
+    });
+
+    connection.send(JSON.stringify({ type: 'session', sessionId }));
+
+    const pending = this.backlog.get(sessionId) || [];
+    this.backlog.delete(sessionId);
+    pending.forEach(event => connection.send(JSON.stringify(event)));
+  }
+
+  async sendTextMessage(to: string, message: string, options: SendOptions = {}): Promise<void> {
+    this.deliver(to, { type: 'text', text: message });
+  }
+
+  async sendButtonMessage(to: string, message: string, buttons: InteractiveOption[]): Promise<void> {
+    this.deliver(to, { type: 'buttons', text: message, options: buttons });
+  }
+
+  async sendListMessage(
+    to: string,
+    message: string,
+    buttonText: string,
+    options: InteractiveOption[],
+    sectionTitle?: string
+  ): Promise<void> {
+    this.deliver(to, { type: 'list', text: message, buttonText, options });
+  }
+
+  async sendAudioMessage(to: string, audioUrl: string, options: SendOptions = {}): Promise<void> {
+    this.deliver(to, { type: 'audio', url: audioUrl, caption: '🎵 Özel Şarkınız Hazır!' });
+  }
+
+  async sendVideoMessage(to: string, videoUrl: string, caption?: string): Promise<void> {
+    this.deliver(to, { type: 'video', url: videoUrl, caption });
+  }
+
+  async sendImageMessage(to: string, imageUrl: string, caption?: string): Promise<void> {
+    this.deliver(to, { type: 'image', url: imageUrl, caption });
+  }
+
+  async sendDocumentMessage(to: string, documentUrl: string, filename: string): Promise<void> {
+    this.deliver(to, { type: 'document', url: documentUrl, caption: filename });
+  }
+
+  async downloadMedia(mediaUrl: string): Promise<{ data: Buffer; contentType?: string }> {
+    throw new Error('Web chat does not accept media uploads');
+  }
+
+  private async handleClientMessage(sessionId: string, raw: string): Promise<void> {
+    if (!this.handler) {
+      return;
+    }
+
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      console.warn(`Invalid web chat message from ${sessionId}`);
+      return;
+    }
+
+    const from = customerKey('web', sessionId);
+
+    if (message.type === 'text' && typeof message.text === 'string' && message.text.trim()) {
+      await this.handler.handleIncomingMessage(from, message.text.trim());
+    } else if (message.type === 'selection' && typeof message.id === 'string') {
+      await this.handler.handleIncomingSelection(from, {
+        id: message.id,
+        title: typeof message.title === 'string' ? message.title : message.id,
+      });
+    }
+  }
+
+  /**
+   * Send to every open tab of the session, keep it for later when none is open
+   */
+  private deliver(sessionId: string, event: WebChatEvent): void {
+    const open = Array.from(this.connections.get(sessionId) || []).filter(connection => connection.isOpen);
+
+    if (open.length === 0) {
+      const pending = this.backlog.get(sessionId) || [];
+      pending.push(event);
+      this.backlog.set(sessionId, pending.slice(-this.MAX_BACKLOG));
+      return;
+    }
+
+    const data = JSON.stringify(event);
+    open.forEach(connection => connection.send(data));
+  }
+}
@@ -0,0 +1,203 @@
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 64 * 1024;
+
+const OPCODE = {
+  CONTINUATION: 0x0,
+  TEXT: 0x1,
+  CLOSE: 0x8,
+  PING: 0x9,
+  PONG: 0xa,
+};
+
+interface Frame {
+  fin: boolean;
+  opcode: number;
+  payload: Buffer;
+}
+
+/**
+ * Minimal server side WebSocket (RFC 6455) for the web chat widget
+ * Text messages, ping/pong and close only - no extensions, no binary frames.
+ * Events: 'message' (text), 'close'
+ */
+export class WebSocketConnection extends EventEmitter {
+  private buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private closed = false;
+
+  /**
+   * Complete the upgrade handshake (http server 'upgrade' event)
+   */
+  static accept(req: IncomingMessage, socket: Duplex): WebSocketConnection | null {
+    const key = req.headers['sec-websocket-key'];
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return null;
+    }
+
+    const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '',
+      '',
+    ].join('\r\n'));
+
+    return new WebSocketConnection(socket);
+  }
+
+  constructor(private socket: Duplex) {
+    super();
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    socket.on('close', () => this.onClosed());
+    socket.on('error', () => this.onClosed());
+  }
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  send(text: string): void {
+    if (!this.closed) {
+      this.socket.write(this.encodeFrame(OPCODE.TEXT, Buffer.from(text, 'utf8')));
+    }
+  }
+
+  close(code: number = 1000): void {
+    if (this.closed) {
+      return;
+    }
+
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    this.socket.write(this.encodeFrame(OPCODE.CLOSE, payload));
+    this.socket.end();
+    this.onClosed();
+  }
+
+  private onClosed(): void {
+    if (!this.closed) {
+      this.closed = true;
+      this.emit('close');
+    }
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    let frame: Frame | null;
+    while (!this.closed && (frame = this.decodeFrame())) {
+      this.handleFrame(frame);
+    }
+  }
+
+  private handleFrame(frame: Frame): void {
+    switch (frame.opcode) {
+      case OPCODE.TEXT:
+      case OPCODE.CONTINUATION: {
+        this.fragments.push(frame.payload);
+        const size = this.fragments.reduce((total, fragment) => total + fragment.length, 0);
+        if (size > MAX_MESSAGE_BYTES) {
+          this.close(1009);
+          return;
+        }
+        if (frame.fin) {
+          const text = Buffer.concat(this.fragments).toString('utf8');
+          this.fragments = [];
+          this.emit('message', text);
+        }
+        return;
+      }
+      case OPCODE.CLOSE:
+        this.close();
+        return;
+      case OPCODE.PING:
+        this.socket.write(this.encodeFrame(OPCODE.PONG, frame.payload));
+        return;
+      case OPCODE.PONG:
+        return;
+      default:
+        // Binary frames are not part of the chat protocol
+        this.close(1003);
+    }
+  }
+
+  /**
+   * Next complete frame from the buffer (null = wait for more data)
+   */
+  private decodeFrame(): Frame | null {
+    if (this.buffer.length < 2) {
+      return null;
+    }
+
+    const first = this.buffer[0];
+    const second = this.buffer[1];
+    let length = second & 0x7f;
+    let offset = 2;
+
+    if (length === 126) {
+      if (this.buffer.length < 4) return null;
+      length = this.buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (this.buffer.length < 10) return null;
+      const longLength = this.buffer.readBigUInt64BE(2);
+      length = longLength > BigInt(MAX_MESSAGE_BYTES) ? MAX_MESSAGE_BYTES + 1 : Number(longLength);
+      offset = 10;
+    }
+
+    if (length > MAX_MESSAGE_BYTES) {
+      this.close(1009);
+      return null;
+    }
+
+    // Clients must mask every frame
+    if (!(second & 0x80)) {
+      this.close(1002);
+      return null;
+    }
+
+    if (this.buffer.length < offset + 4 + length) {
+      return null;
+    }
+
+    const mask = this.buffer.subarray(offset, offset + 4);
+    const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= mask[i % 4];
+    }
+
+    this.buffer = this.buffer.subarray(offset + 4 + length);
+    return { fin: (first & 0x80) !== 0, opcode: first & 0x0f, payload };
+  }
+
+  /**
+   * Unmasked server frame
+   */
+  private encodeFrame(opcode: number, payload: Buffer): Buffer {
+    let header: Buffer;
+
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 65536) {
+      header = Buffer.alloc(4);
+      header[0] = 0x80 | opcode;
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[0] = 0x80 | opcode;
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+
+    return Buffer.concat([header, payload]);
+  }
+}
@@ -0,0 +1,391 @@
+import {
+  ConversationMedia,
+  ConversationSelection,
+  ConversationState,
+  ConversationStep,
+  EditableField,
+} from '../../models/conversation.model';
+import { Order } from '../../models/order.model';
+import { FirebaseService } from '../firebase.service';
+import { OpenAIService } from '../openai.service';
+import { AIConversationService } from '../ai-conversation.service';
+import { DiscountService } from '../discount.service';
+import { TranscriptionProvider } from '../transcription.service';
+import { ChannelRouter } from '../channels/channel-router';
+
+/**
+ * Order operations the conversation steps need from OrderService
+ * (passed in as bound callbacks so the steps don't depend on OrderService itself)
+ */
+export interface ConversationOrderActions {
+  sendOrderConfirmation(conversation: ConversationState): Promise<void>;
+  createOrderAndSendPaymentLink(conversation: ConversationState): Promise<void>;
+  sendPaymentLink(order: Order): Promise<void>;
+  generateAndShowLyrics(orderId: string): Promise<void>;
+  startMusicGeneration(orderId: string): Promise<void>;
+  selectSongVariant(orderId: string, variant: number): Promise<boolean>;
+  calculatePrice(options: any): number;
+}
+
+export interface ConversationDeps {
+  messaging: ChannelRouter; // Replies go out on the customer's channel
+  firebaseService: FirebaseService;
+  openaiService: OpenAIService;
+  aiConversationService: AIConversationService;
+  discountService: DiscountService;
+  transcriptionProvider?: TranscriptionProvider; // Voice notes are rejected when not configured
+  orders: ConversationOrderActions;
+}
+
+export interface StepContext {
+  conversation: ConversationState;
+  from: string;
+  message: string;
+  // Set when the customer tapped a button / list row instead of typing
+  selection?: ConversationSelection;
+  deps: ConversationDeps;
+  /**
+   * Shared retry policy: records a failed parse attempt and returns true
+   * when the step should stop asking and fall back to defaults
+   */
+  registerFailedAttempt(): boolean;
+}
+
+export interface StepMediaContext extends Omit<StepContext, 'message' | 'selection'> {
+  media: ConversationMedia;
+}
+
+/**
+ * Why a step is being entered:
+ * - forward: normal flow
+ * - back: customer typed "geri"
+ * - edit: customer asked to change an earlier answer
+ * - return: edit finished, resuming the step the customer was on
+ */
+export type TransitionReason = 'forward' | 'back' | 'edit' | 'return';
+
+export interface StepTransitionContext {
+  conversation: ConversationState;
+  from: string;
+  deps: ConversationDeps;
+  previousStep?: ConversationStep;
+  reason: TransitionReason;
+  editFields?: EditableField[];
+}
+
+export interface StepResult {
+  next?: ConversationStep;  // Step to move to (must be listed in the handler's transitions)
+  edit?: EditableField[];   // Jump to the step owning these answers, then come back
+  persist?: boolean;        // false when the step already saved/deleted the conversation itself
+}
+
+export interface StepHandler {
+  step: ConversationStep;
+  transitions: ConversationStep[];
+  handle(ctx: StepContext): Promise<StepResult | void>;
+  // Media messages (voice notes etc.) - steps without it don't accept media
+  handleMedia?(ctx: StepMediaContext): Promise<StepResult | void>;
+  // Answers collected by this step (edit targets)
+  fields?: EditableField[];
+  // Remove collected answers so the step asks for them again (all fields if none given)
+  clearData?(conversation: ConversationState, fields?: EditableField[]): void;
+  // Check free-form edit intents ("tarzı değiştir") before handling messages
+  // Only for steps without free-text answers (confirm) - a story may well say "değiştir"
+  acceptsEditIntents?: boolean;
+  // Merge consecutive free-text messages (sent within a few seconds) before handling
+  aggregatesText?: boolean;
+  onEnter?(ctx: StepTransitionContext): Promise<void>;
+  onExit?(ctx: StepTransitionContext): Promise<void>;
+  // Analytics event logged when the step is completed (left via a valid transition)
+  completionEvent?: string;
+  completionData?(conversation: ConversationState): Record<string, any>;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number; // Failed attempts before falling back to defaults
+}
+
+/**
+ * Declarative conversation state machine
+ * Each step is a registered handler with explicit allowed transitions
+ */
+export class ConversationEngine {
+  private handlers: Map<ConversationStep, StepHandler> = new Map();
+
+  constructor(
+    private deps: ConversationDeps,
+    private retryPolicy: RetryPolicy = { maxAttempts: 2 }
+  ) {}
+
+  /**
+   * Register a step handler
+   */
+  register(handler: StepHandler): this {
+    this.handlers.set(handler.step, handler);
+    return this;
+  }
+
+  getHandler(step: ConversationStep): StepHandler | undefined {
+    return this.handlers.get(step);
+  }
+
+  /**
+   * Run the current step's handler for an incoming message
+   * Returns false if conversation should NOT be saved
+   */
+  async process(
+    conversation: ConversationState,
+    message: string,
+    selection?: ConversationSelection
+  ): Promise<boolean> {
+    // CRITICAL: Ensure conversation.data exists
+    if (!conversation.data) {
+      conversation.data = {};
+    }
+
+    const handler = this.handlers.get(conversation.step);
+    if (!handler) {
+      console.error(`❌ No handler registered for conversation step: ${conversation.step}`);
+      return true;
+    }
+
+    if (handler.acceptsEditIntents && !selection) {
+      const editIntent = await this.deps.aiConversationService.parseEditIntent(message, conversation.locale);
+      if (editIntent.field && await this.edit(conversation, [editIntent.field])) {
+        return true;
+      }
+    }
+
+    const result = await handler.handle(this.createContext(conversation, message, selection));
+    return this.applyResult(conversation, result || {});
+  }
+
+  /**
+   * Whether the given step accepts media messages
+   */
+  acceptsMedia(step: ConversationStep): boolean {
+    return !!this.handlers.get(step)?.handleMedia;
+  }
+
+  /**
+   * Whether free-text messages for the given step go through the aggregation window
+   */
+  aggregatesText(step: ConversationStep): boolean {
+    return !!this.handlers.get(step)?.aggregatesText;
+  }
+
+  /**
+   * Run the current step's media handler (see acceptsMedia)
+   * Returns false if conversation should NOT be saved
+   */
+  async processMedia(conversation: ConversationState, media: ConversationMedia): Promise<boolean> {
+    if (!conversation.data) {
+      conversation.data = {};
+    }
+
+    const handler = this.handlers.get(conversation.step);
+    if (!handler?.handleMedia) {
+      console.error(`❌ Step ${conversation.step} does not accept media`);
+      return false;
+    }
+
+    const { message, selection, ...context } = this.createContext(conversation, '');
+    const result = await handler.handleMedia({ ...context, media });
+    return this.applyResult(conversation, result || {});
+  }
+
+  /**
+   * Go back to the previous step ("geri")
+   * While editing an answer, abandons the edit and restores the previous data
+   * Returns false if there is no step to go back to
+   */
+  async back(conversation: ConversationState): Promise<boolean> {
+    if (conversation.returnToStep) {
+      const returnTo = conversation.returnToStep;
+      conversation.data = conversation.editSnapshot || conversation.data;
+      conversation.returnToStep = undefined;
+      conversation.editSnapshot = undefined;
+      return this.transition(conversation, returnTo, 'return');
+    }
+
+    const history = conversation.history || [];
+    const previous = history[history.length - 1];
+    const current = this.handlers.get(conversation.step);
+    const target = previous ? this.handlers.get(previous) : undefined;
+
+    // Welcome only introduces the service - nothing to redo there
+    if (!target || previous === 'welcome' || !current?.transitions.includes(previous)) {
+      return false;
+    }
+
+    conversation.history = history.slice(0, -1);
+    if (target.clearData) {
+      target.clearData(conversation);
+    }
+
+    return this.transition(conversation, previous, 'back');
+  }
+
+  /**
+   * Jump to the step owning the given answers, clear them and return afterwards
+   * Only answers of already completed steps (or the current step) can be edited
+   */
+  async edit(conversation: ConversationState, fields: EditableField[]): Promise<boolean> {
+    const target = Array.from(this.handlers.values()).find(h => h.fields?.some(f => fields.includes(f)));
+    if (!target) {
+      return false;
+    }
+
+    const editFields = fields.filter(f => target.fields!.includes(f));
+
+    // Editing an answer of the current step - just ask for it again
+    if (target.step === conversation.step) {
+      if (target.clearData) {
+        target.clearData(conversation, editFields);
+      }
+      if (target.onEnter) {
+        await target.onEnter({
+          conversation,
+          from: conversation.phone,
+          deps: this.deps,
+          previousStep: conversation.step,
+          reason: 'edit',
+          editFields,
+        });
+      }
+      return true;
+    }
+
+    // One edit at a time, and only for steps the customer already completed
+    if (conversation.returnToStep || !(conversation.history || []).includes(target.step)) {
+      return false;
+    }
+
+    const returnTo = conversation.step;
+    const snapshot = JSON.parse(JSON.stringify(conversation.data));
+
+    const moved = await this.transition(conversation, target.step, 'edit', editFields, () => {
+      if (target.clearData) {
+        target.clearData(conversation, editFields);
+      }
+    });
+
+    if (moved) {
+      conversation.returnToStep = returnTo;
+      conversation.editSnapshot = snapshot;
+    }
+
+    return moved;
+  }
+
+  /**
+   * Move conversation to another step
+   * Illegal transitions are rejected (step unchanged) and logged
+   */
+  async transition(
+    conversation: ConversationState,
+    next: ConversationStep,
+    reason: TransitionReason = 'forward',
+    editFields?: EditableField[],
+    beforeEnter?: () => void
+  ): Promise<boolean> {
+    const from = conversation.phone;
+    const previousStep = conversation.step;
+    const current = this.handlers.get(previousStep);
+    const target = this.handlers.get(next);
+
+    if (!current || !target || !current.transitions.includes(next)) {
+      console.error(`❌ Illegal conversation transition for ${from}: ${previousStep} → ${next}`);
+      await this.deps.firebaseService.logAnalytics('conversation_illegal_transition', {
+        phone: from,
+        fromStep: previousStep,
+        toStep: next,
+        timestamp: new Date().toISOString(),
+      });
+      return false;
+    }
+
+    const transitionContext: StepTransitionContext = {
+      conversation,
+      from,
+      deps: this.deps,
+      previousStep,
+      reason,
+      editFields,
+    };
+
+    if (current.onExit) {
+      await current.onExit(transitionContext);
+    }
+
+    // Only normal progress counts as completing a step
+    if (reason === 'forward') {
+      conversation.history = [...(conversation.history || []), previousStep];
+    }
+
+    if (reason === 'forward' && current.completionEvent) {
+      await this.deps.firebaseService.logAnalytics(current.completionEvent, {
+        phone: from,
+        ...(current.completionData ? current.completionData(conversation) : {}),
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    conversation.step = next;
+    conversation.retryCount = 0;
+    console.log(`➡️ Conversation ${from}: ${previousStep} → ${next} (${reason})`);
+
+    if (beforeEnter) {
+      beforeEnter();
+    }
+
+    if (target.onEnter) {
+      await target.onEnter(transitionContext);
+    }
+
+    return true;
+  }
+
+  /**
+   * Apply a step result (edit jump / transition) and tell whether to save
+   */
+  private async applyResult(conversation: ConversationState, result: StepResult): Promise<boolean> {
+    if (result.edit) {
+      await this.edit(conversation, result.edit);
+    } else if (result.next) {
+      if (conversation.returnToStep) {
+        // Edited answer collected - go back to where the customer was
+        const returnTo = conversation.returnToStep;
+        conversation.returnToStep = undefined;
+        conversation.editSnapshot = undefined;
+        await this.transition(conversation, returnTo, 'return');
+      } else {
+        await this.transition(conversation, result.next);
+      }
+    }
+
+    return result.persist !== false;
+  }
+
+  private createContext(
+    conversation: ConversationState,
+    message: string,
+    selection?: ConversationSelection
+  ): StepContext {
+    return {
+      conversation,
+      from: conversation.phone,
+      message,
+      selection,
+      deps: this.deps,
+      registerFailedAttempt: () => {
+        conversation.retryCount = (conversation.retryCount || 0) + 1;
+        if (conversation.retryCount >= this.retryPolicy.maxAttempts) {
+          conversation.retryCount = 0; // Reset counter
+          return true;
+        }
+        return false;
+      },
+    };
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * In-process mutex per key (phone number)
+ * Tasks for the same key run strictly one after another, in arrival order;
+ * different keys run in parallel
+ */
+export class KeyedMutex {
+  private tails = new Map<string, Promise<void>>();
+
+  async runExclusive<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) || Promise.resolve();
+
+    let release!: () => void;
+    const current = new Promise<void>(resolve => (release = resolve));
+    const tail = previous.then(() => current);
+    this.tails.set(key, tail);
+
+    await previous;
+    try {
+      return await task();
+    } finally {
+      release();
+      // Last task for this key - drop the entry so the map doesn't grow
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Number of keys with running or waiting tasks
+   */
+  get size(): number {
+    return this.tails.size;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Persistence for message fragments waiting in an aggregation window
+ * (implemented by FirebaseService - a restart doesn't drop fragments)
+ */
+export interface MessageBufferStore {
+  appendMessageFragment(phone: string, text: string, flushAt: Date): Promise<void>;
+  // Read and remove the buffered fragments (in arrival order)
+  takeMessageFragments(phone: string): Promise<string[]>;
+  getPendingMessageBuffers(): Promise<Array<{ phone: string; flushAt: Date }>>;
+}
+
+/**
+ * Debounced aggregation of consecutive free-text messages per phone
+ * Customers often send their story as several short messages in a row;
+ * fragments arriving within the window are merged and handed over once
+ * the sender stops typing
+ */
+export class MessageAggregator {
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    private store: MessageBufferStore,
+    private onReady: (phone: string) => Promise<void>,
+    private windowMs: number
+  ) {}
+
+  /**
+   * Buffer a fragment and (re)start the window for this phone
+   */
+  async add(phone: string, text: string): Promise<void> {
+    await this.store.appendMessageFragment(phone, text, new Date(Date.now() + this.windowMs));
+    this.schedule(phone, this.windowMs);
+  }
+
+  /**
+   * Take the merged text now (null if nothing is buffered)
+   */
+  async take(phone: string): Promise<string | null> {
+    this.clearTimer(phone);
+    const fragments = await this.store.takeMessageFragments(phone);
+    return fragments.length > 0 ? fragments.join('\n') : null;
+  }
+
+  hasPending(phone: string): boolean {
+    return this.timers.has(phone);
+  }
+
+  /**
+   * Reschedule windows that were open when the process stopped
+   */
+  async restore(): Promise<number> {
+    const buffers = await this.store.getPendingMessageBuffers();
+    buffers.forEach(({ phone, flushAt }) => {
+      this.schedule(phone, Math.max(0, flushAt.getTime() - Date.now()));
+    });
+
+    if (buffers.length > 0) {
+      console.log(`📨 Restored ${buffers.length} pending message buffers`);
+    }
+    return buffers.length;
+  }
+
+  private schedule(phone: string, delayMs: number): void {
+    this.clearTimer(phone);
+    this.timers.set(phone, setTimeout(async () => {
+      this.timers.delete(phone);
+      try {
+        await this.onReady(phone);
+      } catch (error) {
+        console.error(`Error flushing aggregated messages for ${phone}:`, error);
+      }
+    }, delayMs));
+  }
+
+  private clearTimer(phone: string): void {
+    const timer = this.timers.get(phone);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(phone);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { InteractiveOption } from '../whatsapp.service';
+import { EditableField } from '../../models/conversation.model';
+
+/**
+ * Structured choices offered as WhatsApp reply buttons / list rows
+ * Option ids are "<group>:<value>" so replies can be applied without the LLM
+ */
+
+export type SelectionGroup = 'type' | 'style' | 'vocal' | 'confirm' | 'edit' | 'lyrics' | 'transcript' | 'variant';
+
+export const SONG_TYPE_OPTIONS: InteractiveOption[] = [
+  'Pop', 'Rap', 'Jazz', 'Arabesk', 'Klasik', 'Rock', 'Metal', 'Nostaljik',
+].map(type => ({ id: `type:${type}`, title: type }));
+
+export const SONG_STYLE_OPTIONS: InteractiveOption[] = [
+  'Romantik', 'Duygusal', 'Eğlenceli', 'Sakin',
+].map(style => ({ id: `style:${style}`, title: style }));
+
+export const VOCAL_OPTIONS: InteractiveOption[] = [
+  'Kadın', 'Erkek', 'Fark etmez',
+].map(vocal => ({ id: `vocal:${vocal}`, title: vocal }));
+
+export const CONFIRM_OPTIONS: InteractiveOption[] = [
+  { id: 'confirm:yes', title: 'Onayla' },
+  { id: 'confirm:no', title: 'İptal' },
+  { id: 'confirm:edit', title: 'Düzenle' },
+];
+
+export const EDIT_OPTIONS: InteractiveOption[] = [
+  { id: 'edit:song', title: 'Tür / Tarz / Vokal' },
+  { id: 'edit:recipient', title: 'Kişi / İsim' },
+  { id: 'edit:story', title: 'Hikaye' },
+];
+
+export const EDIT_SELECTION_FIELDS: Record<string, EditableField[]> = {
+  song: ['type', 'style', 'vocal'],
+  recipient: ['relation', 'name'],
+  story: ['story'],
+};
+
+export const LYRICS_REVIEW_OPTIONS: InteractiveOption[] = [
+  { id: 'lyrics:approve', title: 'Onayla' },
+  { id: 'lyrics:revise', title: 'Revize Et' },
+  { id: 'lyrics:write_own', title: 'Ben Yazacağım' },
+];
+
+export const VARIANT_OPTIONS: InteractiveOption[] = [
+  { id: 'variant:1', title: '1. Versiyon' },
+  { id: 'variant:2', title: '2. Versiyon' },
+];
+
+export const TRANSCRIPT_OPTIONS: InteractiveOption[] = [
+  { id: 'transcript:confirm', title: 'Evet, doğru' },
+  { id: 'transcript:retry', title: 'Tekrar göndereceğim' },
+];
+
+/**
+ * Split a selection id into its group and value
+ * Returns null for ids that weren't issued by us
+ */
+export function parseSelectionId(id: string): { group: SelectionGroup; value: string } | null {
+  const separator = id.indexOf(':');
+  if (separator <= 0) {
+    return null;
+  }
+
+  const group = id.slice(0, separator) as SelectionGroup;
+  if (!['type', 'style', 'vocal', 'confirm', 'edit', 'lyrics', 'transcript', 'variant'].includes(group)) {
+    return null;
+  }
+
+  return { group, value: id.slice(separator + 1) };
+}
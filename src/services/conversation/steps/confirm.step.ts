@@ -0,0 +1,117 @@
+import { StepHandler } from '../conversation-engine';
+import { EditableField } from '../../../models/conversation.model';
+import { EDIT_OPTIONS, EDIT_SELECTION_FIELDS, parseSelectionId } from '../selections';
+import { ANSWER_WORDS, COMMAND_WORDS, localizeOptions, t } from '../../../i18n';
+
+/**
+ * Confirm: order summary, discount code entry and final approval
+ */
+export const confirmStep: StepHandler = {
+  step: 'confirm',
+  transitions: ['processing', 'song_settings', 'recipient_info', 'story_and_notes'],
+  acceptsEditIntents: true,
+
+  async onEnter({ conversation, deps }) {
+    await deps.orders.sendOrderConfirmation(conversation);
+  },
+
+  async handle({ conversation, from, message, selection, deps }) {
+    // Button / list replies (Onayla / İptal / Düzenle)
+    const selected = selection ? parseSelectionId(selection.id) : null;
+    if (selected?.group === 'edit' && EDIT_SELECTION_FIELDS[selected.value]) {
+      return { edit: EDIT_SELECTION_FIELDS[selected.value] };
+    }
+    if (selected?.group === 'confirm' && selected.value === 'edit') {
+      await deps.messaging.sendListMessage(
+        from,
+        t(conversation.locale, 'confirm.chooseEdit'),
+        t(conversation.locale, 'confirm.chooseEditButton'),
+        localizeOptions(EDIT_OPTIONS, conversation.locale)
+      );
+      return;
+    }
+
+    // Handle discount code OR confirmation
+    const messageLower = message.toLowerCase().trim();
+
+    // Edit shortcuts from the order summary
+    const editShortcuts: Record<string, EditableField[]> = {
+      '3': ['type', 'style', 'vocal'],
+      '4': ['relation', 'name'],
+      '5': ['story'],
+    };
+    if (editShortcuts[messageLower]) {
+      return { edit: editShortcuts[messageLower] };
+    }
+
+    // Check if user is trying to apply discount code
+    const answerWords = [...ANSWER_WORDS.yes, ...ANSWER_WORDS.no, ...COMMAND_WORDS.cancel, '1', '2', 'onayla'];
+    if (!selected && !answerWords.includes(messageLower) && !conversation.discountCode) {
+      // Try to apply discount code
+      const basePrice = deps.orders.calculatePrice(conversation.data.deliveryOptions!);
+      const discountResult = await deps.discountService.validateAndApplyDiscount(
+        message.trim().toUpperCase(),
+        from,
+        basePrice
+      );
+
+      if (discountResult.isValid && discountResult.discountCode) {
+        // Save discount and show updated confirmation
+        conversation.discountCode = discountResult.discountCode.code;
+        conversation.discountAmount = discountResult.discountAmount;
+        conversation.finalPrice = discountResult.finalPrice;
+
+        await deps.messaging.sendTextMessage(
+          from,
+          t(conversation.locale, 'confirm.discountApplied', { message: discountResult.message })
+        );
+        await deps.orders.sendOrderConfirmation(conversation);
+        return;
+      }
+
+      // Invalid code - show error and ask for confirmation
+      await deps.messaging.sendTextMessage(
+        from,
+        t(conversation.locale, 'confirm.discountInvalid', { message: discountResult.message })
+      );
+      return;
+    }
+
+    // Parse confirmation
+    const confirmResult = selected?.group === 'confirm'
+      ? { confirmed: selected.value === 'yes', response: '' }
+      : await deps.aiConversationService.parseConfirmation(message, conversation.locale);
+
+    if (confirmResult.confirmed === null) {
+      await deps.messaging.sendTextMessage(from, confirmResult.response);
+      return;
+    }
+
+    if (confirmResult.confirmed === true) {
+      // Log analytics
+      await deps.firebaseService.logAnalytics('conversation_completed', {
+        phone: from,
+        songType: conversation.data.song1?.type,
+        songStyle: conversation.data.song1?.style,
+        hasDiscount: !!conversation.discountCode,
+        timestamp: new Date().toISOString(),
+      });
+
+      // Moves the conversation to 'processing' (or deletes it) and persists it itself
+      await deps.orders.createOrderAndSendPaymentLink(conversation);
+      return { persist: false };
+    }
+
+    // Cancelled
+    await deps.firebaseService.logAnalytics('conversation_abandoned', {
+      phone: from,
+      step: 'confirm',
+      reason: 'user_cancelled',
+      timestamp: new Date().toISOString(),
+    });
+
+    await deps.firebaseService.deleteConversation(from);
+    await deps.messaging.sendTextMessage(from, t(conversation.locale, 'command.cancelled'));
+    return { persist: false };
+  },
+};
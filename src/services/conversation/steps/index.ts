@@ -0,0 +1,23 @@
+import { StepHandler } from '../conversation-engine';
+import { welcomeStep } from './welcome.step';
+import { songSettingsStep } from './song-settings.step';
+import { recipientInfoStep } from './recipient-info.step';
+import { storyAndNotesStep } from './story-and-notes.step';
+import { confirmStep } from './confirm.step';
+import { lyricsReviewStep } from './lyrics-review.step';
+import { processingStep } from './processing.step';
+import { variantSelectionStep } from './variant-selection.step';
+
+/**
+ * Default WhatsApp ordering flow (registration order = flow order)
+ */
+export const defaultConversationSteps: StepHandler[] = [
+  welcomeStep,
+  songSettingsStep,
+  recipientInfoStep,
+  storyAndNotesStep,
+  confirmStep,
+  lyricsReviewStep,
+  processingStep,
+  variantSelectionStep,
+];
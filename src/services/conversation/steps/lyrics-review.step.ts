@@ -0,0 +1,206 @@
+import { StepHandler } from '../conversation-engine';
+import { LYRICS_REVIEW_OPTIONS, parseSelectionId } from '../selections';
+import { localizeOptions, t } from '../../../i18n';
+
+/**
+ * Lyrics review (after payment): approve, revise (max 2) or write own lyrics
+ */
+export const lyricsReviewStep: StepHandler = {
+  step: 'lyrics_review_song1',
+  transitions: [],
+
+  async handle({ conversation, from, message, selection, deps }) {
+    // Check if we're waiting for custom lyrics from user
+    if (conversation.waitingForCustomLyrics) {
+      const orders = await deps.firebaseService.getOrdersByPhone(from);
+      const pendingOrder = orders.find(o => o.status === 'lyrics_generating' || o.status === 'paid');
+
+      if (pendingOrder) {
+        // Check if user wrote lyrics with Suno AI format headers
+        const hasSunoFormat = /\[(Intro|Verse|Chorus|Bridge|Pre-Chorus|Outro|Instrumental Break)\]/i.test(message);
+
+        let finalLyrics = message;
+
+        if (!hasSunoFormat) {
+          // User didn't use format - let OpenAI format it
+          await deps.messaging.sendTextMessage(from, t(conversation.locale, 'lyrics.formatting'));
+
+          try {
+            const formatResult = await deps.openaiService.formatUserLyrics(message);
+            finalLyrics = formatResult.lyrics;
+
+            // Log token usage
+            if (formatResult.tokenUsage) {
+              await deps.firebaseService.logAnalytics('openai_token_usage', {
+                orderId: pendingOrder.id,
+                phone: pendingOrder.whatsappPhone,
+                operation: 'format_user_lyrics',
+                promptTokens: formatResult.tokenUsage.promptTokens,
+                completionTokens: formatResult.tokenUsage.completionTokens,
+                totalTokens: formatResult.tokenUsage.totalTokens,
+                timestamp: new Date().toISOString(),
+              });
+            }
+          } catch (error: any) {
+            console.error('Error formatting user lyrics:', error);
+            await deps.messaging.sendTextMessage(
+              from,
+              t(conversation.locale, 'lyrics.formatFailed', { message: error.message })
+            );
+            return;
+          }
+        }
+
+        // Update order with custom lyrics
+        await deps.firebaseService.updateOrder(pendingOrder.id, {
+          song1Lyrics: finalLyrics,
+        });
+
+        // Send confirmation and start music generation
+        await deps.messaging.sendTextMessage(
+          from,
+          t(conversation.locale, 'lyrics.customReceived', { lyrics: finalLyrics })
+        );
+
+        conversation.waitingForCustomLyrics = false;
+        await deps.firebaseService.deleteConversation(from);
+        await deps.orders.startMusicGeneration(pendingOrder.id);
+        return { persist: false };
+      }
+      return;
+    }
+
+    // User is reviewing lyrics after payment
+    const selected = selection ? parseSelectionId(selection.id) : null;
+
+    if (selected?.group === 'lyrics' && selected.value === 'revise') {
+      // Button carries no revision details - ask for them
+      await deps.messaging.sendTextMessage(
+        from,
+        t(conversation.locale, 'lyrics.askRevision')
+      );
+      return;
+    }
+
+    const reviewResult: {
+      action: 'approve' | 'revise' | 'write_own' | null;
+      revisionRequest?: string;
+      response: string;
+    } = selected?.group === 'lyrics' && (selected.value === 'approve' || selected.value === 'write_own')
+      ? deps.aiConversationService.resolveLyricsReviewSelection(selected.value, conversation.locale)
+      : await deps.aiConversationService.parseLyricsReview(message, conversation.locale);
+
+    if (!reviewResult.action) {
+      await deps.messaging.sendTextMessage(from, reviewResult.response);
+      return;
+    }
+
+    if (reviewResult.action === 'approve') {
+      // User approved - start music generation
+      await deps.messaging.sendTextMessage(from, reviewResult.response);
+
+      // Find order by phone
+      const orders = await deps.firebaseService.getOrdersByPhone(from);
+      const pendingOrder = orders.find(o => o.status === 'lyrics_generating' || o.status === 'paid');
+
+      if (pendingOrder) {
+        // IMPORTANT: Delete conversation BEFORE starting music generation
+        // This resets user state to initial (allows new orders)
+        await deps.firebaseService.deleteConversation(from);
+
+        // Start music generation directly (lyrics already generated and approved)
+        await deps.orders.startMusicGeneration(pendingOrder.id);
+        return { persist: false };
+      }
+      return;
+    }
+
+    if (reviewResult.action === 'write_own') {
+      // User wants to write their own lyrics
+      await deps.messaging.sendTextMessage(from, reviewResult.response);
+      conversation.waitingForCustomLyrics = true;
+      return;
+    }
+
+    // User wants revision
+    const revisionCount = conversation.lyricsRevisionCount || 0;
+
+    if (revisionCount >= 2) {
+      // Max revisions reached
+      await deps.messaging.sendTextMessage(
+        from,
+        t(conversation.locale, 'lyrics.revisionLimit')
+      );
+
+      const orders = await deps.firebaseService.getOrdersByPhone(from);
+      const pendingOrder = orders.find(o => o.status === 'lyrics_generating' || o.status === 'paid');
+
+      if (pendingOrder) {
+        // Delete conversation first (reset user state)
+        await deps.firebaseService.deleteConversation(from);
+
+        // Start music generation directly (lyrics already exist and approved)
+        await deps.orders.startMusicGeneration(pendingOrder.id);
+        return { persist: false };
+      }
+      return;
+    }
+
+    // Process revision
+    await deps.messaging.sendTextMessage(from, `${reviewResult.response} ⏳`);
+
+    const orders = await deps.firebaseService.getOrdersByPhone(from);
+    const pendingOrder = orders.find(o => o.status === 'lyrics_generating' || o.status === 'paid');
+
+    if (pendingOrder && reviewResult.revisionRequest) {
+      // Revise lyrics
+      const revisionResult = await deps.openaiService.reviseLyrics(
+        conversation.tempLyrics!,
+        reviewResult.revisionRequest
+      );
+
+      // Log token usage
+      if (revisionResult.tokenUsage) {
+        await deps.firebaseService.logAnalytics('openai_token_usage', {
+          orderId: pendingOrder.id,
+          phone: pendingOrder.whatsappPhone,
+          operation: 'lyrics_revision',
+          revisionNumber: revisionCount + 1,
+          promptTokens: revisionResult.tokenUsage.promptTokens,
+          completionTokens: revisionResult.tokenUsage.completionTokens,
+          totalTokens: revisionResult.tokenUsage.totalTokens,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Update conversation
+      conversation.tempLyrics = revisionResult.lyrics;
+      conversation.lyricsRevisionCount = revisionCount + 1;
+
+      // Update order
+      await deps.firebaseService.updateOrder(pendingOrder.id, {
+        song1Lyrics: revisionResult.lyrics,
+        song1LyricsRevisionCount: revisionCount + 1,
+      });
+
+      // Send revised lyrics
+      const remainingRevisions = 2 - (revisionCount + 1);
+      await deps.messaging.sendTextMessage(
+        from,
+        t(conversation.locale, 'lyrics.revised', { lyrics: revisionResult.lyrics, remaining: remainingRevisions }),
+        { orderId: pendingOrder.id, kind: 'lyrics' }
+      );
+
+      await deps.messaging.sendButtonMessage(
+        from,
+        t(conversation.locale, remainingRevisions > 0 ? 'lyrics.revisedQuestion' : 'lyrics.revisedQuestionFinal'),
+        localizeOptions(
+          remainingRevisions > 0
+            ? LYRICS_REVIEW_OPTIONS
+            : LYRICS_REVIEW_OPTIONS.filter(option => option.id !== 'lyrics:revise'),
+          conversation.locale
+        )
+      );
+    }
+  },
+};
@@ -0,0 +1,141 @@
+import { StepHandler, StepContext } from '../conversation-engine';
+import { t } from '../../../i18n';
+
+/**
+ * Processing: waiting for payment (new link, late discount code)
+ * Conversation is never saved from this step
+ */
+export const processingStep: StepHandler = {
+  step: 'processing',
+  transitions: [],
+
+  async handle(ctx) {
+    const { conversation, from, message, deps } = ctx;
+    const trimmedMessage = message.trim();
+
+    if (trimmedMessage === '1') {
+      // User wants a new payment link
+      const orders = await deps.firebaseService.getOrdersByPhone(from);
+      const pendingOrder = orders.find(o => o.status === 'payment_pending');
+
+      if (pendingOrder) {
+        await deps.messaging.sendTextMessage(from, t(conversation.locale, 'order.newPaymentLink'));
+
+        // Generate new payment link
+        await deps.orders.sendPaymentLink(pendingOrder);
+
+        console.log(`💳 New payment link generated for order ${pendingOrder.id}`);
+      } else {
+        await deps.messaging.sendTextMessage(from, t(conversation.locale, 'order.noPendingOrder'));
+      }
+      return { persist: false };
+    }
+
+    if (trimmedMessage.length >= 3 && /^[A-Z0-9]+$/i.test(trimmedMessage)) {
+      // User might be entering a discount code (3+ alphanumeric characters)
+      const handled = await applyLateDiscountCode(ctx, trimmedMessage);
+      if (handled) {
+        return { persist: false };
+      }
+    }
+
+    // Default message - inform about waiting for payment
+    await deps.messaging.sendTextMessage(from, t(conversation.locale, 'order.waitingForPayment'));
+    return { persist: false };
+  },
+};
+
+/**
+ * Apply a discount code to the pending (unpaid) order
+ * Returns false if there is no pending order the code can be applied to
+ */
+async function applyLateDiscountCode({ conversation, from, deps }: StepContext, code: string): Promise<boolean> {
+  const orders = await deps.firebaseService.getOrdersByPhone(from);
+  const pendingOrder = orders.find(o => o.status === 'payment_pending');
+
+  if (!pendingOrder || pendingOrder.discountCode) {
+    return false;
+  }
+
+  // Try to apply discount code
+  const discountResult = await deps.discountService.validateAndApplyDiscount(
+    code.toUpperCase(),
+    from,
+    pendingOrder.totalPrice
+  );
+
+  if (!discountResult.isValid || !discountResult.discountCode) {
+    // Invalid discount code
+    await deps.messaging.sendTextMessage(
+      from,
+      `${discountResult.message}
+
+${t(conversation.locale, 'order.waitingForPayment')}`
+    );
+    return true;
+  }
+
+  // Calculate new price
+  const newFinalPrice = discountResult.finalPrice;
+  const discountAmount = discountResult.discountAmount;
+
+  // Update order with discount
+  await deps.firebaseService.updateOrder(pendingOrder.id, {
+    discountCode: discountResult.discountCode.code,
+    discountAmount: discountAmount,
+    totalPrice: newFinalPrice,
+  });
+
+  // Record discount usage
+  await deps.discountService.recordDiscountUsage(
+    discountResult.discountCode.id,
+    pendingOrder.id,
+    from,
+    discountAmount,
+    pendingOrder.totalPrice,
+    newFinalPrice
+  );
+
+  // Send success message and new payment link
+  if (newFinalPrice === 0) {
+    // 100% discount - free order!
+    await deps.messaging.sendTextMessage(
+      from,
+      t(conversation.locale, 'order.discountFree', { message: discountResult.message })
+    );
+
+    // Update order to paid status
+    await deps.firebaseService.updateOrder(pendingOrder.id, {
+      status: 'paid',
+      paidAt: new Date(),
+    });
+
+    // Delete conversation
+    await deps.firebaseService.deleteConversation(from);
+
+    // Start lyrics generation
+    await deps.orders.generateAndShowLyrics(pendingOrder.id);
+  } else {
+    // Partial discount - send new payment link
+    await deps.messaging.sendTextMessage(
+      from,
+      t(conversation.locale, 'order.discountApplied', {
+        message: discountResult.message,
+        oldPrice: pendingOrder.totalPrice,
+        discount: discountAmount,
+        price: newFinalPrice,
+      })
+    );
+
+    // Generate new payment link with updated price
+    await deps.orders.sendPaymentLink({
+      ...pendingOrder,
+      totalPrice: newFinalPrice,
+      discountCode: discountResult.discountCode.code,
+      discountAmount: discountAmount,
+    });
+  }
+
+  console.log(`✅ Discount code ${discountResult.discountCode.code} applied to order ${pendingOrder.id}`);
+  return true;
+}
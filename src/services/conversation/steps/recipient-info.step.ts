@@ -0,0 +1,127 @@
+import { StepHandler } from '../conversation-engine';
+import { t } from '../../../i18n';
+
+/**
+ * Recipient info: relation + include name + name (collected progressively)
+ */
+export const recipientInfoStep: StepHandler = {
+  step: 'recipient_info',
+  transitions: ['story_and_notes', 'song_settings', 'confirm'],
+  fields: ['relation', 'name'],
+  completionEvent: 'recipient_info_completed',
+
+  completionData(conversation) {
+    return {
+      relation: conversation.data.recipientRelation,
+      includeNameInSong: conversation.data.includeNameInSong,
+    };
+  },
+
+  clearData(conversation, fields = ['relation', 'name']) {
+    if (fields.includes('relation')) {
+      conversation.data.recipientRelation = undefined;
+    }
+    if (fields.includes('name')) {
+      conversation.data.recipientName = undefined;
+      conversation.data.includeNameInSong = undefined;
+    }
+  },
+
+  async onEnter({ conversation, from, deps, reason }) {
+    const locale = conversation.locale;
+
+    // Changing one answer - only ask for what was cleared
+    if (reason === 'edit' || reason === 'back') {
+      const prompts: string[] = [];
+      if (!conversation.data.recipientRelation) {
+        prompts.push(t(locale, 'recipient.relationQuestion'));
+      }
+      if (conversation.data.includeNameInSong === undefined) {
+        prompts.push(t(locale, 'recipient.nameQuestion'));
+      }
+
+      await deps.messaging.sendTextMessage(
+        from,
+        `${t(locale, 'recipient.title')}
+
+${prompts.join('\n')}
+
+---
+${t(locale, 'footer.back')}`
+      );
+      return;
+    }
+
+    await deps.messaging.sendTextMessage(
+      from,
+      `${t(locale, 'recipient.prompt')}
+
+---
+${t(locale, 'footer.back')}`
+    );
+  },
+
+  async handle(ctx) {
+    const { conversation, from, message, deps } = ctx;
+
+    // PROGRESSIVE: Pass existing recipient data to avoid re-asking
+    const existingRecipient = {
+      relation: conversation.data.recipientRelation,
+      includeNameInSong: conversation.data.includeNameInSong,
+      name: conversation.data.recipientName,
+    };
+
+    const recipientResult = await deps.aiConversationService.parseRecipientInfo(
+      message,
+      existingRecipient,
+      conversation.locale
+    );
+
+    // PROGRESSIVE: Update conversation with collected data (even if partial)
+    conversation.data.recipientRelation = recipientResult.relation || conversation.data.recipientRelation;
+    conversation.data.includeNameInSong = recipientResult.includeNameInSong ?? conversation.data.includeNameInSong;
+    conversation.data.recipientName = recipientResult.name || conversation.data.recipientName;
+
+    console.log('💾 Updated conversation recipient data:', {
+      relation: conversation.data.recipientRelation,
+      includeNameInSong: conversation.data.includeNameInSong,
+      name: conversation.data.recipientName,
+    });
+
+    // Check if ALL required fields are NOW present
+    if (!conversation.data.recipientRelation || conversation.data.includeNameInSong === null || conversation.data.includeNameInSong === undefined) {
+      if (!ctx.registerFailedAttempt()) {
+        await deps.messaging.sendTextMessage(from, recipientResult.response);
+        return; // Stay on same step, but conversation is saved with partial data
+      }
+
+      // Too many failed attempts - use random defaults
+      const randomRelations = ['Annem', 'Sevgilim', 'Arkadaşım', 'Ailem'];
+      const randomRelation = randomRelations[Math.floor(Math.random() * randomRelations.length)];
+
+      conversation.data.recipientRelation = randomRelation;
+      conversation.data.includeNameInSong = false;
+
+      await deps.messaging.sendTextMessage(
+        from,
+        t(conversation.locale, 'recipient.fallbackRelation', { relation: randomRelation })
+      );
+    } else if (conversation.data.includeNameInSong && !conversation.data.recipientName) {
+      // Name should be included but not provided, ask again
+      if (!ctx.registerFailedAttempt()) {
+        await deps.messaging.sendTextMessage(from, recipientResult.response);
+        return;
+      }
+
+      // Use a default name
+      conversation.data.recipientName = 'Sevgili';
+
+      await deps.messaging.sendTextMessage(
+        from,
+        t(conversation.locale, 'recipient.fallbackName')
+      );
+    }
+
+    return { next: 'story_and_notes' };
+  },
+};
@@ -0,0 +1,165 @@
+import { ConversationDeps, StepHandler } from '../conversation-engine';
+import { parseSelectionId, SONG_STYLE_OPTIONS, SONG_TYPE_OPTIONS, VOCAL_OPTIONS } from '../selections';
+import { Locale, localizeOptions, t } from '../../../i18n';
+
+/**
+ * Send a picker for the first missing song setting (nothing if all are set)
+ */
+export async function sendSongSettingsPicker(
+  deps: ConversationDeps,
+  to: string,
+  song: { type?: string; style?: string; vocal?: string },
+  locale?: Locale,
+  intro?: string
+): Promise<void> {
+  const prefix = intro ? `${intro}\n\n` : '';
+
+  if (!song.type) {
+    await deps.messaging.sendListMessage(
+      to,
+      `${prefix}${t(locale, 'songSettings.pickType')}`,
+      t(locale, 'songSettings.pickTypeButton'),
+      localizeOptions(SONG_TYPE_OPTIONS, locale)
+    );
+  } else if (!song.style) {
+    await deps.messaging.sendListMessage(
+      to,
+      `${prefix}${t(locale, 'songSettings.pickStyle')}`,
+      t(locale, 'songSettings.pickStyleButton'),
+      localizeOptions(SONG_STYLE_OPTIONS, locale)
+    );
+  } else if (!song.vocal) {
+    await deps.messaging.sendButtonMessage(
+      to,
+      `${prefix}${t(locale, 'songSettings.pickVocal')}`,
+      localizeOptions(VOCAL_OPTIONS, locale)
+    );
+  }
+}
+
+/**
+ * Song settings: type + style + vocal (collected progressively)
+ */
+export const songSettingsStep: StepHandler = {
+  step: 'song_settings',
+  transitions: ['recipient_info', 'story_and_notes', 'confirm'],
+  fields: ['type', 'style', 'vocal'],
+  completionEvent: 'song_settings_completed',
+
+  completionData(conversation) {
+    return {
+      songType: conversation.data.song1?.type,
+      songStyle: conversation.data.song1?.style,
+      vocal: conversation.data.song1?.vocal,
+      hasArtistStyle: !!conversation.data.song1?.artistStyleDescription,
+      language: conversation.data.song1?.language,
+    };
+  },
+
+  clearData(conversation, fields = ['type', 'style', 'vocal']) {
+    const song = { ...(conversation.data.song1 || {}) } as any;
+    if (fields.includes('type')) {
+      song.type = undefined;
+      song.artistStyleDescription = undefined; // Artist style belongs to the type answer
+    }
+    if (fields.includes('style')) song.style = undefined;
+    if (fields.includes('vocal')) song.vocal = undefined;
+    conversation.data.song1 = song;
+  },
+
+  async onEnter({ conversation, from, deps, previousStep }) {
+    // Welcome message already explains the options
+    if (previousStep === 'welcome') {
+      return;
+    }
+
+    const song = (conversation.data.song1 || {}) as any;
+    await sendSongSettingsPicker(
+      deps,
+      from,
+      song,
+      conversation.locale,
+      `${t(conversation.locale, 'songSettings.current', {
+        type: song.type || '❓',
+        style: song.style || '❓',
+        vocal: song.vocal || '❓',
+      })}
+${t(conversation.locale, 'footer.back')}`
+    );
+  },
+
+  async handle(ctx) {
+    const { conversation, from, message, deps } = ctx;
+
+    // Ensure song1 is initialized before accessing it
+    const existingSongData = (conversation.data.song1 || {}) as any;
+
+    // Button / list reply - apply directly, no LLM parse
+    const selected = ctx.selection ? parseSelectionId(ctx.selection.id) : null;
+    if (selected && ['type', 'style', 'vocal'].includes(selected.group)) {
+      const song = { ...existingSongData, [selected.group]: selected.value };
+      if (selected.group === 'type') {
+        song.artistStyleDescription = undefined;
+      }
+      conversation.data.song1 = song;
+
+      if (!song.type || !song.style || !song.vocal) {
+        await sendSongSettingsPicker(deps, from, song, conversation.locale);
+        return;
+      }
+
+      return { next: 'recipient_info' };
+    }
+
+    // Pass existing song data to avoid re-asking for already collected info
+    const settingsResult = await deps.aiConversationService.parseSongSettings(
+      message,
+      existingSongData,
+      conversation.locale
+    );
+
+    // PROGRESSIVE: Update conversation with collected data (even if partial)
+    conversation.data.song1 = {
+      type: settingsResult.type || existingSongData.type,
+      style: settingsResult.style || existingSongData.style,
+      vocal: settingsResult.vocal || existingSongData.vocal,
+      artistStyleDescription: settingsResult.artistStyleDescription || existingSongData.artistStyleDescription,
+      language: settingsResult.language,
+      bilingual: settingsResult.bilingual,
+    } as any;
+
+    console.log('💾 Updated conversation.data.song1:', conversation.data.song1);
+
+    // Check if ALL required fields are NOW present
+    const currentSongData = (conversation.data.song1 || {}) as any;
+    if (!currentSongData.type || !currentSongData.style || !currentSongData.vocal) {
+      if (!ctx.registerFailedAttempt()) {
+        // Still missing info - send AI's response asking for missing fields
+        await deps.messaging.sendTextMessage(from, settingsResult.response);
+        return; // Stay on same step, but conversation is saved with partial data
+      }
+
+      // Too many failed attempts - use defaults
+      conversation.data.song1 = {
+        type: currentSongData.type || 'Pop',
+        style: currentSongData.style || 'Eğlenceli',
+        vocal: currentSongData.vocal || 'Fark etmez',
+        artistStyleDescription: currentSongData.artistStyleDescription,
+        language: currentSongData.language,
+        bilingual: currentSongData.bilingual,
+      } as any;
+
+      await deps.messaging.sendTextMessage(
+        from,
+        t(conversation.locale, 'songSettings.fallback', {
+          type: conversation.data.song1.type,
+          style: conversation.data.song1.style,
+          vocal: conversation.data.song1.vocal,
+        })
+      );
+    }
+
+    // All settings collected!
+    return { next: 'recipient_info' };
+  },
+};
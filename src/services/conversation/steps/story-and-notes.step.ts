@@ -0,0 +1,153 @@
+import { StepHandler } from '../conversation-engine';
+import { parseSelectionId, TRANSCRIPT_OPTIONS } from '../selections';
+import { ANSWER_WORDS, localizeOptions, t } from '../../../i18n';
+
+/**
+ * Story and notes: free text story, optional notes for the song
+ */
+export const storyAndNotesStep: StepHandler = {
+  step: 'story_and_notes',
+  transitions: ['confirm', 'song_settings', 'recipient_info'],
+  fields: ['story'],
+  // Stories often arrive as several short messages
+  aggregatesText: true,
+  completionEvent: 'story_completed',
+
+  completionData(conversation) {
+    return {
+      hasNotes: !!conversation.data.notes,
+    };
+  },
+
+  clearData(conversation) {
+    conversation.data.story = undefined;
+    conversation.data.notes = undefined;
+    conversation.pendingTranscription = undefined;
+  },
+
+  async onEnter({ conversation, from, deps }) {
+    await deps.messaging.sendTextMessage(
+      from,
+      `${t(conversation.locale, 'story.prompt')}
+
+---
+${t(conversation.locale, 'footer.back')}`
+    );
+  },
+
+  async handle({ conversation, from, message, selection, deps }) {
+    // Voice-note story waiting for confirmation
+    if (conversation.pendingTranscription) {
+      const selected = selection ? parseSelectionId(selection.id) : null;
+      const answer = message.toLocaleLowerCase('tr-TR').trim();
+      const confirmed = selected?.group === 'transcript'
+        ? selected.value === 'confirm'
+        : [...ANSWER_WORDS.yes, 'doğru', 'dogru', 'tamam', 'evet, doğru', '1'].includes(answer);
+      const rejected = selected?.group === 'transcript'
+        ? selected.value === 'retry'
+        : [...ANSWER_WORDS.no, 'yanlış', 'yanlis', 'tekrar', '2'].includes(answer);
+
+      const transcription = conversation.pendingTranscription;
+      conversation.pendingTranscription = undefined;
+
+      if (rejected) {
+        await deps.messaging.sendTextMessage(
+          from,
+          t(conversation.locale, 'story.transcriptionRetry')
+        );
+        return;
+      }
+
+      // Confirmed - use the transcription as if typed (any other text replaces it)
+      if (confirmed) {
+        message = transcription;
+      }
+    }
+
+    const storyResult = await deps.aiConversationService.parseStoryAndNotes(message, conversation.locale);
+
+    if (!storyResult.story) {
+      await deps.messaging.sendTextMessage(from, storyResult.response);
+      return;
+    }
+
+    // Save story and notes
+    conversation.data.story = storyResult.story;
+    if (storyResult.notes) {
+      conversation.data.notes = storyResult.notes;
+    }
+
+    // Set delivery options (audio only)
+    conversation.data.deliveryOptions = {
+      audioFile: true,
+      musicPlatform: false,
+      video: false
+    };
+
+    // Show order confirmation (includes discount code option)
+    return { next: 'confirm' };
+  },
+
+  async handleMedia({ conversation, from, media, deps }) {
+    if (media.type !== 'audio') {
+      await deps.messaging.sendTextMessage(
+        from,
+        t(conversation.locale, 'story.notAudio')
+      );
+      return;
+    }
+
+    if (!deps.transcriptionProvider) {
+      await deps.messaging.sendTextMessage(
+        from,
+        t(conversation.locale, 'story.voiceUnavailable')
+      );
+      return;
+    }
+
+    await deps.messaging.sendTextMessage(from, t(conversation.locale, 'story.transcribing'));
+
+    try {
+      const audio = await deps.messaging.downloadMedia(from, media.url);
+      const result = await deps.transcriptionProvider.transcribe(audio.data, {
+        mimeType: audio.contentType,
+        language: conversation.locale || 'tr',
+      });
+
+      if (!result.text) {
+        await deps.messaging.sendTextMessage(
+          from,
+          t(conversation.locale, 'story.transcriptionEmpty')
+        );
+        return;
+      }
+
+      conversation.pendingTranscription = result.text;
+
+      await deps.firebaseService.logAnalytics('voice_story_transcribed', {
+        phone: from,
+        provider: deps.transcriptionProvider.name,
+        durationSeconds: result.durationSeconds,
+        characters: result.text.length,
+        timestamp: new Date().toISOString(),
+      });
+
+      // Transcription can exceed the interactive body limit - ask with buttons separately
+      await deps.messaging.sendTextMessage(
+        from,
+        t(conversation.locale, 'story.transcribed', { text: result.text })
+      );
+      await deps.messaging.sendButtonMessage(
+        from,
+        t(conversation.locale, 'story.transcriptionConfirm'),
+        localizeOptions(TRANSCRIPT_OPTIONS, conversation.locale)
+      );
+    } catch (error: any) {
+      console.error('Error transcribing voice story:', error);
+      await deps.messaging.sendTextMessage(
+        from,
+        t(conversation.locale, 'story.transcriptionFailed')
+      );
+    }
+  },
+};
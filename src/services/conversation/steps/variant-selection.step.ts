@@ -0,0 +1,36 @@
+import { StepHandler } from '../conversation-engine';
+import { parseSelectionId, VARIANT_OPTIONS } from '../selections';
+import { localizeOptions, t } from '../../../i18n';
+
+/**
+ * Variant selection (after music generation): the customer picks one of the two
+ * Suno songs ("1 mi 2 mi?"), the other one is kept for upsell
+ */
+export const variantSelectionStep: StepHandler = {
+  step: 'variant_selection',
+  transitions: [],
+
+  async handle({ conversation, from, message, selection, deps }) {
+    const orders = await deps.firebaseService.getOrdersByPhone(from);
+    const order = orders.find(o => o.status === 'variant_selection');
+
+    if (!order) {
+      // Already delivered (e.g. chosen from another device) - start over
+      await deps.firebaseService.deleteConversation(from);
+      return { persist: false };
+    }
+
+    const selected = selection ? parseSelectionId(selection.id) : null;
+    const answer = selected?.group === 'variant' ? selected.value : message.trim().match(/^([12])\b/)?.[1];
+
+    if (answer && await deps.orders.selectSongVariant(order.id, Number(answer))) {
+      return { persist: false };
+    }
+
+    await deps.messaging.sendButtonMessage(
+      from,
+      t(conversation.locale, 'variant.invalid'),
+      localizeOptions(VARIANT_OPTIONS.slice(0, order.song1Variants?.length || 2), conversation.locale)
+    );
+  },
+};
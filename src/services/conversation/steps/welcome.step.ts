@@ -0,0 +1,24 @@
+import { StepHandler } from '../conversation-engine';
+import { config } from '../../../config/config';
+import { sendSongSettingsPicker } from './song-settings.step';
+import { t } from '../../../i18n';
+
+/**
+ * Welcome: introduce the service and explain both ordering methods
+ */
+export const welcomeStep: StepHandler = {
+  step: 'welcome',
+  transitions: ['song_settings'],
+
+  async handle({ conversation, from, deps }) {
+    await deps.messaging.sendTextMessage(
+      from,
+      t(conversation.locale, 'welcome', { price: config.pricing.songBasePrice })
+    );
+
+    // Step-by-step customers can tap through the choices instead of typing
+    await sendSongSettingsPicker(deps, from, {}, conversation.locale);
+
+    return { next: 'song_settings' };
+  },
+};
@@ -0,0 +1,233 @@
+import { execFile } from 'child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { Locale, t } from '../i18n';
+import { Order, SongDetails } from '../models/order.model';
+import { CoverArt, songTitle } from './audio-processing.service';
+
+const execFileAsync = promisify(execFile);
+
+const COVER_SIZE = 1000;
+
+/**
+ * SVG -> PNG rasterizer
+ */
+export interface CoverRenderer {
+  readonly name: string;
+  render(svg: string): Promise<Buffer>;
+}
+
+/**
+ * librsvg (rsvg-convert) - fully local, fonts come from fontconfig
+ */
+export class RsvgCoverRenderer implements CoverRenderer {
+  readonly name = 'rsvg';
+
+  constructor(private rsvgPath: string = 'rsvg-convert') {}
+
+  async render(svg: string): Promise<Buffer> {
+    const dir = await mkdtemp(path.join(tmpdir(), 'bihediye-cover-'));
+    const input = path.join(dir, 'cover.svg');
+    const output = path.join(dir, 'cover.png');
+
+    try {
+      await writeFile(input, svg, 'utf-8');
+      await execFileAsync(
+        this.rsvgPath,
+        ['-w', String(COVER_SIZE), '-h', String(COVER_SIZE), '-f', 'png', '-o', output, input],
+        { timeout: 30000 }
+      );
+      return await readFile(output);
+    } catch (error: any) {
+      console.error('rsvg-convert error:', error.message);
+      throw new Error(`Kapak görseli oluşturma hatası: ${error.message}`);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Local fake - returns a 1x1 PNG and keeps the rendered SVGs (tests / local development)
+ */
+export class FakeCoverRenderer implements CoverRenderer {
+  readonly name = 'fake';
+  rendered: string[] = [];
+
+  async render(svg: string): Promise<Buffer> {
+    console.log(`🎨 Fake cover render (${svg.length} chars)`);
+    this.rendered.push(svg);
+    return Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=', 'base64');
+  }
+}
+
+/**
+ * Create the configured renderer (null = no generated cover art)
+ */
+export function createCoverRenderer(config: { renderer: string; rsvgPath: string }): CoverRenderer | null {
+  if (config.renderer === 'rsvg') {
+    return new RsvgCoverRenderer(config.rsvgPath);
+  }
+  if (config.renderer === 'fake') {
+    return new FakeCoverRenderer();
+  }
+  return null;
+}
+
+export type Occasion = 'birthday' | 'anniversary' | 'valentines' | 'mothers_day' | 'fathers_day' | 'wedding' | 'graduation';
+
+// Checked in order - the first match wins
+const OCCASION_KEYWORDS: Array<[Occasion, string[]]> = [
+  ['mothers_day', ['anneler günü', "mother's day", 'mothers day', 'muttertag', 'عيد الأم']],
+  ['fathers_day', ['babalar günü', "father's day", 'fathers day', 'vatertag', 'عيد الأب']],
+  ['valentines', ['sevgililer günü', 'valentine', 'valentinstag', 'عيد الحب']],
+  ['birthday', ['doğum günü', 'doğumgünü', 'birthday', 'geburtstag', 'عيد ميلاد']],
+  ['anniversary', ['yıl dönümü', 'yıldönümü', 'anniversary', 'jahrestag', 'ذكرى زواج', 'ذكرى سنوية']],
+  ['wedding', ['düğün', 'nikah', 'wedding', 'hochzeit', 'زفاف']],
+  ['graduation', ['mezuniyet', 'graduation', 'abschluss', 'تخرج']],
+];
+
+/**
+ * Occasion of the gift, from the story and notes
+ */
+export function detectOccasion(order: Order): Occasion | undefined {
+  const text = [order.orderData.story, order.orderData.notes, order.orderData.recipientRelation]
+    .filter(Boolean)
+    .join(' ')
+    .toLocaleLowerCase('tr');
+
+  return OCCASION_KEYWORDS.find(([, keywords]) => keywords.some(keyword => text.includes(keyword)))?.[0];
+}
+
+interface Palette {
+  from: string;
+  to: string;
+  text: string;
+  accent: string;
+}
+
+const GENRE_PALETTES: Record<SongDetails['type'], Palette> = {
+  Pop: { from: '#ff6fb5', to: '#7b5cff', text: '#ffffff', accent: '#ffe066' },
+  Rap: { from: '#1f1c2c', to: '#928dab', text: '#ffffff', accent: '#f9d423' },
+  Jazz: { from: '#1e3c52', to: '#b08d57', text: '#fdf6e3', accent: '#f4d58d' },
+  Arabesk: { from: '#5b0e2d', to: '#c0392b', text: '#fff5e6', accent: '#f5b041' },
+  Klasik: { from: '#f5efe6', to: '#c9b79c', text: '#3b2f2f', accent: '#8c6d46' },
+  Rock: { from: '#141414', to: '#b31217', text: '#ffffff', accent: '#ff5e3a' },
+  Metal: { from: '#000000', to: '#434343', text: '#e0e0e0', accent: '#9e9e9e' },
+  Nostaljik: { from: '#d9a441', to: '#8e5b3a', text: '#fff8ec', accent: '#fff3d6' },
+};
+
+export interface CoverDetails {
+  title: string;
+  dedication?: string;                 // "Ayşe için" (when the title doesn't say it)
+  occasion?: string;                   // Localized label
+  genre?: SongDetails['type'];
+  locale?: Locale;
+}
+
+/**
+ * Cover details of an order: personalized title, recipient, occasion and genre
+ */
+export function orderCoverDetails(order: Order): CoverDetails {
+  const recipientName = order.orderData.recipientName?.trim();
+  const occasion = detectOccasion(order);
+
+  return {
+    title: songTitle(order),
+    dedication: recipientName && order.song1Title && !order.song1Title.includes(recipientName)
+      ? t(order.locale, 'song.title', { name: recipientName })
+      : undefined,
+    occasion: occasion ? t(order.locale, `cover.occasion.${occasion}` as const) : undefined,
+    genre: order.orderData.song1?.type,
+    locale: order.locale,
+  };
+}
+
+/**
+ * Square cover template: genre gradient, vinyl rings, occasion label, title, dedication
+ */
+export function renderCoverSvg(details: CoverDetails): string {
+  const palette = GENRE_PALETTES[details.genre || 'Pop'] || GENRE_PALETTES.Pop;
+  const direction = details.locale === 'ar' ? ' direction="rtl"' : '';
+  const lines = wrapTitle(details.title);
+  const fontSize = lines.length === 1 && lines[0].length <= 12 ? 96 : 78;
+  const lineHeight = fontSize * 1.15;
+  const firstLineY = 520 - ((lines.length - 1) * lineHeight) / 2;
+
+  const title = lines
+    .map((line, index) => `<text x="500" y="${Math.round(firstLineY + index * lineHeight)}" font-size="${fontSize}" font-weight="bold"${direction}>${escapeXml(line)}</text>`)
+    .join('\n    ');
+  const occasion = details.occasion
+    ? `<rect x="310" y="150" width="380" height="64" rx="32" fill="${palette.accent}"/>
+    <text x="500" y="194" font-size="32" font-weight="bold" fill="${palette.from}"${direction}>${escapeXml(details.occasion)}</text>`
+    : '';
+  const dedication = details.dedication
+    ? `<text x="500" y="${Math.round(firstLineY + lines.length * lineHeight + 20)}" font-size="44" font-style="italic" fill="${palette.accent}"${direction}>${escapeXml(details.dedication)}</text>`
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${COVER_SIZE}" height="${COVER_SIZE}" viewBox="0 0 ${COVER_SIZE} ${COVER_SIZE}">
+  <defs>
+    <linearGradient id="background" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0%" stop-color="${palette.from}"/>
+      <stop offset="100%" stop-color="${palette.to}"/>
+    </linearGradient>
+  </defs>
+  <rect width="${COVER_SIZE}" height="${COVER_SIZE}" fill="url(#background)"/>
+  <g fill="none" stroke="${palette.text}" stroke-opacity="0.12" stroke-width="3">
+    <circle cx="500" cy="520" r="430"/>
+    <circle cx="500" cy="520" r="360"/>
+    <circle cx="500" cy="520" r="290"/>
+  </g>
+  <g font-family="DejaVu Sans, Arial, sans-serif" text-anchor="middle" fill="${palette.text}">
+    ${occasion}
+    ${title}
+    ${dedication}
+    <text x="500" y="920" font-size="30" letter-spacing="6" fill-opacity="0.8">BIHEDIYE.ART</text>
+  </g>
+</svg>
+`;
+}
+
+// Up to 3 lines of ~16 characters, the rest is cut with an ellipsis
+function wrapTitle(title: string): string[] {
+  const lines: string[] = [];
+
+  for (const word of title.trim().split(/\s+/)) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && (last + ' ' + word).length <= 16) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  }
+
+  if (lines.length > 3) {
+    lines.splice(3);
+    lines[2] = `${lines[2]}…`;
+  }
+  return lines.map(line => (line.length > 20 ? `${line.slice(0, 19)}…` : line));
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Personalized cover art of an order (PNG)
+ */
+export class CoverArtService {
+  constructor(private renderer: CoverRenderer) {}
+
+  async createCover(order: Order): Promise<CoverArt> {
+    const data = await this.renderer.render(renderCoverSvg(orderCoverDetails(order)));
+    return { mimeType: 'image/png', data };
+  }
+}
@@ -0,0 +1,147 @@
+import { FirebaseService } from './firebase.service';
+import { WhatsAppService } from './whatsapp.service';
+import { CRITICAL_MESSAGE_KINDS, OutboundMessage, OutboundMessageStatus } from '../models/outbound-message.model';
+
+// Status events can arrive out of order (read before delivered)
+const STATUS_RANK: Record<OutboundMessageStatus, number> = {
+  accepted: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  failed: 4,
+};
+
+/**
+ * Outbound message delivery tracking
+ * Applies Bird status events (whatsapp.outbound) to the recorded messages
+ * and recovers failed payment link / audio deliveries
+ */
+export class DeliveryTrackingService {
+  private readonly MAX_RESENDS = 2;
+  private escalationHandler?: (message: OutboundMessage) => Promise<void>;
+
+  constructor(
+    private firebaseService: FirebaseService,
+    private whatsappService: WhatsAppService,
+    private adminPhone?: string
+  ) {}
+
+  /**
+   * Called after a critical message is given up on (SMS fallback in OrderService)
+   */
+  setEscalationHandler(handler: (message: OutboundMessage) => Promise<void>): void {
+    this.escalationHandler = handler;
+  }
+
+  /**
+   * Apply a status event (sent / delivered / read / failed)
+   */
+  async handleStatusEvent(messageId: string, status: string, failureReason?: string): Promise<void> {
+    if (!messageId || !(status in STATUS_RANK)) {
+      return;
+    }
+
+    const message = await this.firebaseService.getOutboundMessage(messageId);
+    if (!message) {
+      console.log(`Status ${status} for untracked message ${messageId}`);
+      return;
+    }
+
+    const newStatus = status as OutboundMessageStatus;
+    const now = new Date();
+    const updates: Partial<OutboundMessage> = {
+      updatedAt: now,
+      [`${newStatus}At`]: now,
+    };
+
+    if (STATUS_RANK[newStatus] > STATUS_RANK[message.status]) {
+      updates.status = newStatus;
+    }
+    if (newStatus === 'failed') {
+      updates.failureReason = failureReason;
+    }
+
+    await this.firebaseService.updateOutboundMessage(messageId, updates);
+
+    // Abandoned-payment reminders need to know whether the link was seen at all
+    if (newStatus === 'read' && message.kind === 'payment_link' && message.orderId && !message.readAt) {
+      await this.firebaseService.updateOrder(message.orderId, { paymentLinkReadAt: now });
+    }
+
+    if (newStatus === 'failed' && message.status !== 'failed' && CRITICAL_MESSAGE_KINDS.includes(message.kind)) {
+      await this.recoverFailedDelivery({ ...message, ...updates });
+    }
+  }
+
+  /**
+   * Resend a failed critical message, escalate to the admin after the last attempt
+   */
+  private async recoverFailedDelivery(message: OutboundMessage): Promise<void> {
+    if (message.attempt <= this.MAX_RESENDS) {
+      try {
+        const newMessageId = await this.whatsappService.resendMessage(message);
+
+        await this.firebaseService.logAnalytics('delivery_retried', {
+          orderId: message.orderId,
+          phone: message.to,
+          kind: message.kind,
+          attempt: message.attempt + 1,
+          failedMessageId: message.id,
+          newMessageId,
+          timestamp: new Date().toISOString(),
+        });
+
+        console.log(`🔁 Resent ${message.kind} message ${message.id} (attempt ${message.attempt + 1})`);
+        return;
+      } catch (error: any) {
+        console.error(`Error resending message ${message.id}:`, error.message);
+      }
+    }
+
+    await this.escalate(message);
+  }
+
+  private async escalate(message: OutboundMessage): Promise<void> {
+    await this.firebaseService.updateOutboundMessage(message.id, { escalated: true });
+
+    await this.firebaseService.logAnalytics('delivery_escalated', {
+      orderId: message.orderId,
+      phone: message.to,
+      kind: message.kind,
+      attempts: message.attempt,
+      reason: message.failureReason,
+      timestamp: new Date().toISOString(),
+    });
+
+    console.error(`🚨 ${message.kind} delivery failed for order ${message.orderId} (${message.to}) - escalated`);
+
+    if (this.escalationHandler) {
+      try {
+        await this.escalationHandler(message);
+      } catch (error: any) {
+        console.error('Error in delivery escalation handler:', error.message);
+      }
+    }
+
+    if (!this.adminPhone) {
+      return;
+    }
+
+    try {
+      await this.whatsappService.sendTextMessage(
+        this.adminPhone,
+        `🚨 *Teslimat Başarısız*
+
+📦 Sipariş: ${message.orderId || '-'}
+📱 Müşteri: ${message.to}
+✉️ Mesaj: ${message.kind === 'audio' ? 'Şarkı linki' : 'Ödeme linki'}
+🔁 Deneme: ${message.attempt}
+❌ Sebep: ${message.failureReason || 'bilinmiyor'}
+
+Lütfen müşteriyle iletişime geçin.`
+      );
+    } catch (error: any) {
+      console.error('Error notifying admin about failed delivery:', error.message);
+    }
+  }
+}
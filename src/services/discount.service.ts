@@ -2,6 +2,16 @@ import { v4 as uuidv4 } from 'uuid';
 import { DiscountCode, DiscountUsage } from '../models/discount.model';
 import { FirebaseService } from './firebase.service';
 
+/**
+ * Sipariş oluşturulurken reddedilen indirim kodu (mesaj müşteriye gösterilir)
+ */
+export class InvalidDiscountError extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+    this.name = 'InvalidDiscountError';
+  }
+}
+
 export class DiscountService {
   constructor(private firebaseService: FirebaseService) {}
 
@@ -0,0 +1,109 @@
+import { MessageKey, t } from '../i18n';
+import { Order } from '../models/order.model';
+
+export interface EmailContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface EmailSection {
+  title: MessageKey;
+  body: MessageKey;
+  action?: { label: MessageKey; url: string };
+  quote?: string;               // Preformatted block (lyrics)
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Shared layout: inline styles only (mail clients drop <style> blocks)
+ */
+function render(order: Order, subject: MessageKey, section: EmailSection, params: Record<string, string | number>): EmailContent {
+  const locale = order.locale;
+  const title = t(locale, section.title, params);
+  const body = t(locale, section.body, params);
+  const orderNumber = t(locale, 'email.orderNumber', { orderId: order.id });
+  const footer = t(locale, 'email.footer');
+  const dir = locale === 'ar' ? 'rtl' : 'ltr';
+
+  const action = section.action
+    ? `<p style="margin:32px 0;text-align:center"><a href="${escapeHtml(section.action.url)}" style="background:#e4405f;color:#ffffff;padding:14px 28px;border-radius:8px;text-decoration:none;font-weight:bold;display:inline-block">${escapeHtml(t(locale, section.action.label))}</a></p>`
+    : '';
+  const quote = section.quote
+    ? `<div style="background:#fdf2f4;border-radius:8px;padding:20px;white-space:pre-line;font-style:italic;line-height:1.6">${escapeHtml(section.quote)}</div>`
+    : '';
+
+  const html = `<!DOCTYPE html>
+<html lang="${locale || 'tr'}" dir="${dir}">
+<head><meta charset="UTF-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"><title>${escapeHtml(title)}</title></head>
+<body style="margin:0;padding:0;background:#f6f6f6;font-family:Arial,Helvetica,sans-serif;color:#333333">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0"><tr><td align="center" style="padding:24px 12px">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;background:#ffffff;border-radius:12px">
+<tr><td style="padding:24px 32px;border-bottom:1px solid #eeeeee;font-size:20px;font-weight:bold;color:#e4405f">bihediye.art</td></tr>
+<tr><td style="padding:32px">
+<h1 style="margin:0 0 16px;font-size:22px">${escapeHtml(title)}</h1>
+<p style="margin:0 0 16px;line-height:1.6">${escapeHtml(body)}</p>
+${quote}${action}<p style="margin:16px 0 0;color:#888888;font-size:13px">${escapeHtml(orderNumber)}</p>
+</td></tr>
+<tr><td style="padding:16px 32px;border-top:1px solid #eeeeee;color:#aaaaaa;font-size:12px">${escapeHtml(footer)}</td></tr>
+</table>
+</td></tr></table>
+</body>
+</html>`;
+
+  const text = [
+    title,
+    '',
+    body,
+    section.quote ? `\n${section.quote}\n` : '',
+    section.action ? `${t(locale, section.action.label)}: ${section.action.url}` : '',
+    '',
+    orderNumber,
+    '--',
+    footer,
+  ].filter((line, i, lines) => line !== '' || lines[i - 1] !== '').join('\n');
+
+  return { subject: t(locale, subject, params), html, text };
+}
+
+/**
+ * Order saved, waiting for payment
+ */
+export function orderReceivedEmail(order: Order, paymentUrl: string): EmailContent {
+  return render(order, 'email.orderReceived.subject', {
+    title: 'email.orderReceived.title',
+    body: 'email.orderReceived.body',
+    action: { label: 'email.orderReceived.action', url: paymentUrl },
+  }, { orderId: order.id });
+}
+
+export function paymentSuccessEmail(order: Order): EmailContent {
+  return render(order, 'email.paymentSuccess.subject', {
+    title: 'email.paymentSuccess.title',
+    body: 'email.paymentSuccess.body',
+  }, { orderId: order.id, price: order.totalPrice });
+}
+
+export function lyricsReadyEmail(order: Order, lyrics: string): EmailContent {
+  return render(order, 'email.lyricsReady.subject', {
+    title: 'email.lyricsReady.title',
+    body: 'email.lyricsReady.body',
+    quote: lyrics,
+  }, { orderId: order.id });
+}
+
+export function songDeliveredEmail(order: Order, downloadUrl: string): EmailContent {
+  return render(order, 'email.songDelivered.subject', {
+    title: 'email.songDelivered.title',
+    body: 'email.songDelivered.body',
+    action: { label: 'email.songDelivered.action', url: downloadUrl },
+  }, { orderId: order.id });
+}
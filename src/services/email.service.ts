@@ -0,0 +1,104 @@
+import { Order } from '../models/order.model';
+import {
+  EmailContent,
+  lyricsReadyEmail,
+  orderReceivedEmail,
+  paymentSuccessEmail,
+  songDeliveredEmail,
+} from './email-templates';
+import { MailMessage, SmtpClient, SmtpConfig } from './smtp-client';
+
+/**
+ * Email transport
+ * Returns the transport's message / queue id
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<string>;
+}
+
+/**
+ * SMTP transport - one connection per message
+ * Local development: MailHog / Mailpit on localhost:1025 (no auth, no TLS)
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+
+  constructor(private config: SmtpConfig) {}
+
+  async send(message: MailMessage): Promise<string> {
+    try {
+      return await new SmtpClient(this.config).send(message);
+    } catch (error: any) {
+      console.error('SMTP error:', error.message);
+      throw new Error(`E-posta gönderme hatası: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Local fake - keeps sent emails in memory (tests / local development)
+ */
+export class FakeEmailTransport implements EmailTransport {
+  readonly name = 'fake';
+  readonly sent: Array<MailMessage & { sentAt: Date }> = [];
+
+  async send(message: MailMessage): Promise<string> {
+    this.sent.push({ ...message, sentAt: new Date() });
+    console.log(`📧 Fake email to ${message.to}: ${message.subject}`);
+    return `fake-${this.sent.length}`;
+  }
+}
+
+/**
+ * Create the configured email transport (null = email disabled)
+ */
+export function createEmailTransport(config: { transport: string; smtp: SmtpConfig }): EmailTransport | null {
+  if (config.transport === 'smtp') {
+    return new SmtpEmailTransport(config.smtp);
+  }
+  if (config.transport === 'fake') {
+    return new FakeEmailTransport();
+  }
+  return null;
+}
+
+/**
+ * Order lifecycle emails for web orders (channel 'email')
+ * A failed email never fails the order - errors are logged and false is returned
+ */
+export class EmailService {
+  constructor(private transport: EmailTransport, private from: string) {}
+
+  async sendOrderReceived(order: Order, paymentUrl: string): Promise<boolean> {
+    return this.deliver(order, 'order_received', orderReceivedEmail(order, paymentUrl));
+  }
+
+  async sendPaymentSuccess(order: Order): Promise<boolean> {
+    return this.deliver(order, 'payment_success', paymentSuccessEmail(order));
+  }
+
+  async sendLyricsReady(order: Order, lyrics: string): Promise<boolean> {
+    return this.deliver(order, 'lyrics_ready', lyricsReadyEmail(order, lyrics));
+  }
+
+  async sendSongDelivered(order: Order, downloadUrl: string): Promise<boolean> {
+    return this.deliver(order, 'song_delivered', songDeliveredEmail(order, downloadUrl));
+  }
+
+  private async deliver(order: Order, kind: string, content: EmailContent): Promise<boolean> {
+    if (!order.customerEmail) {
+      console.warn(`⚠️ No email address on order ${order.id} - ${kind} email not sent`);
+      return false;
+    }
+
+    try {
+      const messageId = await this.transport.send({ from: this.from, to: order.customerEmail, ...content });
+      console.log(`📧 ${kind} email sent for order ${order.id} via ${this.transport.name} (${messageId})`);
+      return true;
+    } catch (error: any) {
+      console.error(`Error sending ${kind} email for order ${order.id}:`, error.message);
+      return false;
+    }
+  }
+}
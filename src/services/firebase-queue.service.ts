@@ -1,7 +1,18 @@
-import { SunoService, MusicGenerationRequest } from './suno.service';
+import { SunoService, MusicGenerationRequest, SunoVariant } from './suno.service';
 import { FirebaseService } from './firebase.service';
-import { WhatsAppService } from './whatsapp.service';
+import { ChannelRouter } from './channels/channel-router';
+import { SmsMessageType, SmsService } from './sms.service';
+import { EmailService } from './email.service';
+import { OrderProgressHub } from './order-progress-hub';
+import { AudioQaService } from './audio-qa.service';
+import { AudioPostProcessor, CoverArt, orderAudioTags, songTitle } from './audio-processing.service';
+import { CoverArtService } from './cover-art.service';
+import { coverArtUrl, createShareToken, sharePageUrl, songMediaUrl } from './share-links';
+import { localizeOptions, t } from '../i18n';
 import { OpenAIService } from './openai.service';
+import { VARIANT_OPTIONS } from './conversation/selections';
+import { AudioQaReport, AudioQaResult, Order, SongVariant } from '../models/order.model';
+import { config } from '../config/config';
 
 export interface MusicGenerationJob {
   id: string;
@@ -14,12 +25,21 @@ export interface MusicGenerationJob {
   attempts: number;
   error?: string;
   contentModerationRetries?: number; // Track content moderation retries separately
+  qaRegenerations?: number; // Generations discarded by the audio quality gate
   createdAt: Date;
   updatedAt: Date;
   processingStartedAt?: Date;
   completedAt?: Date;
 }
 
+/**
+ * A Suno variant downloaded for the quality gate (uploaded to Storage once accepted)
+ */
+interface SunoDownload {
+  sunoVariant: SunoVariant;
+  audio: Buffer;
+}
+
 /**
  * Firebase-based queue service for music generation
  * Uses Firestore for persistence and state management
@@ -28,8 +48,15 @@ export interface MusicGenerationJob {
 export class FirebaseQueueService {
   private sunoService: SunoService;
   private firebaseService: FirebaseService;
-  private whatsappService: WhatsAppService;
+  private messaging: ChannelRouter;
   private openaiService: OpenAIService;
+  private smsService?: SmsService;
+  private emailService?: EmailService;
+  private progressHub?: OrderProgressHub;
+  private audioQa?: AudioQaService;
+  private audioPostProcessor?: AudioPostProcessor;
+  private coverArt?: CoverArtService;
+  private variantChoiceOpener?: (order: Order, shareToken: string) => Promise<boolean>;
   private processingJobs: Set<string> = new Set(); // Track concurrent jobs
   private processingInterval?: NodeJS.Timeout;
   private readonly COLLECTION = 'bihediye_music_queue';
@@ -37,22 +64,73 @@ export class FirebaseQueueService {
   private readonly MAX_ATTEMPTS = 3;
   private readonly MAX_CONTENT_MODERATION_RETRIES = 2; // Max retries for content moderation
   private readonly MAX_CONCURRENT_JOBS = 10; // Suno API limit: 20/10s, using 10 for safety
+  private readonly AVERAGE_JOB_MINUTES = 4; // Suno generation (2-3 min) + storage upload
 
   constructor(
     sunoService: SunoService,
     firebaseService: FirebaseService,
-    whatsappService: WhatsAppService,
+    messaging: ChannelRouter,
     openaiService: OpenAIService
   ) {
     this.sunoService = sunoService;
     this.firebaseService = firebaseService;
-    this.whatsappService = whatsappService;
+    this.messaging = messaging;
     this.openaiService = openaiService;
 
     // Start processing jobs
     this.startProcessing();
   }
 
+  /**
+   * SMS fallback for song deliveries (called from index.ts when an SMS provider is configured)
+   */
+  setSmsService(smsService: SmsService): void {
+    this.smsService = smsService;
+  }
+
+  /**
+   * Song delivery emails for web orders (called from index.ts when an email transport is configured)
+   */
+  setEmailService(emailService: EmailService): void {
+    this.emailService = emailService;
+  }
+
+  /**
+   * Audio quality gate before delivery (called from index.ts when an analyzer is configured)
+   */
+  setAudioQa(audioQa: AudioQaService): void {
+    this.audioQa = audioQa;
+  }
+
+  /**
+   * Mastering and ID3 tags before upload (called from index.ts)
+   */
+  setAudioPostProcessor(audioPostProcessor: AudioPostProcessor): void {
+    this.audioPostProcessor = audioPostProcessor;
+  }
+
+  /**
+   * Generated cover art per song (called from index.ts when a renderer is configured)
+   */
+  setCoverArt(coverArt: CoverArtService): void {
+    this.coverArt = coverArt;
+  }
+
+  /**
+   * Start the "1 mi 2 mi?" conversation under the customer's conversation lock
+   * (called from index.ts - OrderService.openVariantSelection). Without it every variant is delivered
+   */
+  setVariantChoiceOpener(opener: (order: Order, shareToken: string) => Promise<boolean>): void {
+    this.variantChoiceOpener = opener;
+  }
+
+  /**
+   * Publish music generation progress to live listeners (tracking page)
+   */
+  setProgressHub(hub: OrderProgressHub): void {
+    this.progressHub = hub;
+  }
+
   /**
    * Add music generation job to queue
    */
@@ -176,17 +254,18 @@ export class FirebaseQueueService {
     try {
       // Check if music is already generated and uploaded (for retry scenarios)
       const order = await this.firebaseService.getOrder(orderId);
-      let storageUrl: string;
+      let variants: SongVariant[];
 
       if (order && order.song1AudioUrl && job.attempts > 1) {
         // Music already exists, skip generation (retry scenario)
-        storageUrl = order.song1AudioUrl;
-        console.log(`♻️ Using existing music from previous attempt: ${storageUrl.substring(0, 100)}...`);
+        variants = order.song1Variants || [{ number: 1, audioUrl: order.song1AudioUrl, audioPath: order.song1AudioPath }];
+        console.log(`♻️ Using existing music from previous attempt: ${order.song1AudioUrl.substring(0, 100)}...`);
       } else {
         // Generate music (first attempt or no existing audio)
         const musicTask = await this.sunoService.generateMusic(request);
 
         console.log(`✅ Music generation task created for job ${job.id}: ${musicTask.task_id}`);
+        await this.updateJobProgress(job, 10);
 
         // Wait for music generation to complete (Suno is async, polls every 5 seconds)
         let musicResult;
@@ -195,7 +274,14 @@ export class FirebaseQueueService {
           musicResult = await this.sunoService.waitForTaskCompletion(
             musicTask.task_id,
             60,  // max attempts (60 * 5s = 5 minutes)
-            5000 // poll interval (5 seconds)
+            5000, // poll interval (5 seconds)
+            // Suno usually takes 2-3 minutes: 10% -> 70% over the first ~30 polls, in 5% steps
+            async (attempt) => {
+              const progress = Math.min(70, 10 + attempt * 2);
+              if (progress - job.progress >= 5) {
+                await this.updateJobProgress(job, progress);
+              }
+            }
           );
         } catch (error: any) {
           // Check if it's a content moderation error (lyrics or tags/style)
@@ -288,6 +374,7 @@ export class FirebaseQueueService {
                   recipientRelation: order.orderData.recipientRelation,
                   includeNameInSong: order.orderData.includeNameInSong,
                   notes: order.orderData.notes,
+                  locale: order.locale,
                 };
 
                 const lyricsResult = await this.openaiService.generateLyrics(lyricsRequest, true);
@@ -348,33 +435,60 @@ export class FirebaseQueueService {
           throw new Error('Music generation failed - no file URL returned');
         }
 
-        // Download audio from Suno URL
-        console.log(`📥 Downloading audio from Suno...`);
-        const audioBuffer = await this.sunoService.downloadFile(musicResult.file_url);
-        console.log(`✅ Audio downloaded: ${(audioBuffer.length / 1024 / 1024).toFixed(2)} MB`);
+        // Suno produces two variants - both are stored (the customer may choose, the other is kept for upsell)
+        const sunoVariants = musicResult.variants?.length ? musicResult.variants : [{ audioUrl: musicResult.file_url }];
+        const downloads: SunoDownload[] = [];
+
+        for (const [index, sunoVariant] of sunoVariants.entries()) {
+          // Download audio from Suno URL
+          console.log(`📥 Downloading variant ${index + 1}/${sunoVariants.length} from Suno...`);
+          const audio = await this.sunoService.downloadFile(sunoVariant.audioUrl);
+          console.log(`✅ Audio downloaded: ${(audio.length / 1024 / 1024).toFixed(2)} MB`);
+          downloads.push({ sunoVariant, audio });
+        }
+
+        // Quality gate: failing songs are regenerated, the better one becomes variant 1
+        const accepted = await this.checkAudioQuality(job, order, downloads);
+        if (!accepted) {
+          return; // Exit and let the queue regenerate the song
+        }
+        variants = [];
+        const cover = order ? await this.createCoverArt(order) : undefined;
 
-        // Upload to Firebase Storage
-        console.log(`📤 Uploading audio to Firebase Storage...`);
-        storageUrl = await this.firebaseService.uploadAudio(orderId, songIndex, audioBuffer);
-        console.log(`✅ Audio uploaded to Storage: ${storageUrl}`);
+        for (const [index, { sunoVariant, audio }] of accepted.entries()) {
+          const number = index + 1;
 
-        // Save Storage URL to order immediately (so retry can use it)
+          // Mastering and ID3 tags (title, lyrics, cover art)
+          const file = this.audioPostProcessor && order
+            ? await this.audioPostProcessor.process(audio, { ...orderAudioTags(order, job.request.lyrics), cover })
+            : audio;
+
+          // Upload to Firebase Storage
+          console.log(`📤 Uploading variant ${number} to Firebase Storage...`);
+          const stored = await this.firebaseService.uploadAudio(orderId, songIndex, file, number);
+          console.log(`✅ Audio uploaded to Storage: ${stored.url}`);
+
+          variants.push({ number, audioUrl: stored.url, audioPath: stored.path, duration: sunoVariant.duration });
+          await this.updateJobProgress(job, 70 + Math.round((20 * number) / accepted.length));
+        }
+
+        // Save Storage URLs to order immediately (so retry can use them)
         await this.firebaseService.updateOrder(orderId, {
-          song1AudioUrl: storageUrl,
+          song1AudioUrl: variants[0].audioUrl,
+          song1AudioPath: variants[0].audioPath,
+          song1Variants: variants,
         });
       }
 
-      // Update order status to completed
-      await this.firebaseService.updateOrder(orderId, {
-        song1AudioUrl: storageUrl,
-        status: 'completed',
-      });
-
-      // Send music file to user via WhatsApp (using Storage URL)
-      console.log(`📤 Sending music file to user via WhatsApp...`);
-      await this.whatsappService.sendAudioMessage(phoneNumber, storageUrl);
+      // Customers get permanent links - the signed Storage URL expires after 7 days
+      const shareToken = order?.shareToken || createShareToken();
 
-      await this.whatsappService.sendOrderCompletion(phoneNumber, orderId);
+      if (order && this.shouldOfferVariantChoice(order, variants) && await this.variantChoiceOpener!(order, shareToken)) {
+        // Delivered once the customer picks one (OrderService.selectSongVariant)
+        await this.offerVariantChoice(order, variants, shareToken);
+      } else {
+        await this.deliverSong(order, phoneNumber, orderId, variants, shareToken);
+      }
 
       // Mark job as completed
       job.status = 'completed';
@@ -390,9 +504,11 @@ export class FirebaseQueueService {
 
       console.log(`🎉 Job ${job.id} completed successfully`);
 
-      // IMPORTANT: Delete conversation so user can start a new order
-      await this.firebaseService.deleteConversation(phoneNumber);
-      console.log(`🗑️ Conversation deleted for ${phoneNumber} (order completed)`);
+      if (order?.status !== 'variant_selection') {
+        // IMPORTANT: Delete conversation so user can start a new order
+        await this.firebaseService.deleteConversation(phoneNumber);
+        console.log(`🗑️ Conversation deleted for ${phoneNumber} (order completed)`);
+      }
 
       // Clean up completed job after 1 hour
       setTimeout(async () => {
@@ -412,6 +528,22 @@ export class FirebaseQueueService {
     }
   }
 
+  /**
+   * Send a delivery notification with SMS as fallback (see SmsService)
+   */
+  private async sendWithSmsFallback(
+    phoneNumber: string,
+    type: SmsMessageType,
+    smsMessage: string,
+    send: () => Promise<void>
+  ): Promise<void> {
+    if (!this.smsService) {
+      await send();
+      return;
+    }
+    await this.smsService.deliverWithFallback(type, phoneNumber, send, smsMessage);
+  }
+
   /**
    * Handle job failure
    */
@@ -422,11 +554,15 @@ export class FirebaseQueueService {
       // Max attempts reached - mark as failed
       console.error(`❌ Job ${job.id} failed after ${this.MAX_ATTEMPTS} attempts - notifying user`);
 
-      await this.whatsappService.sendErrorMessage(
-        job.phoneNumber,
-        job.orderId,
-        'Music generation failed after multiple attempts'
-      );
+      const order = await this.firebaseService.getOrder(job.orderId);
+      if (order?.channel !== 'email') {
+        await this.messaging.sendErrorMessage(
+          job.phoneNumber,
+          job.orderId,
+          'Music generation failed after multiple attempts',
+          order?.locale
+        );
+      }
 
       // Update order status to failed
       await this.firebaseService.updateOrder(job.orderId, {
@@ -464,15 +600,252 @@ export class FirebaseQueueService {
   }
 
   /**
-   * Update job progress
+   * Audio quality gate (duration, silence, clipping, loudness) - results are stored on the order
+   * Returns the downloads ranked by score (failing ones dropped), or null when the job was
+   * queued for regeneration. Out of regenerations, the best failing song is delivered and
+   * flagged for admin review. Analysis errors never block a delivery.
    */
-  private async updateJobProgress(jobId: string, progress: number): Promise<void> {
-    const db = this.firebaseService.getDb();
-    await db.collection(this.COLLECTION).doc(jobId).update({
-      progress,
-      updatedAt: new Date().toISOString(),
+  private async checkAudioQuality(
+    job: MusicGenerationJob,
+    order: Order | null,
+    downloads: SunoDownload[]
+  ): Promise<SunoDownload[] | null> {
+    if (!this.audioQa) {
+      return downloads;
+    }
+
+    const attempt = job.qaRegenerations || 0;
+    const previousResults = (order?.song1AudioQa?.results || []).filter(result => result.attempt < attempt);
+    const checked: Array<{ download: SunoDownload; result: AudioQaResult }> = [];
+
+    try {
+      for (const download of downloads) {
+        checked.push({ download, result: await this.audioQa.check(download.audio) });
+      }
+    } catch (error: any) {
+      console.error(`⚠️ Audio QA failed for job ${job.id} - delivering unchecked:`, error.message);
+      await this.saveAudioQaReport(job.orderId, {
+        checkedAt: new Date(),
+        regenerations: attempt,
+        passed: false,
+        needsReview: true,
+        error: error.message,
+        results: previousResults,
+      });
+      return downloads;
+    }
+
+    const passing = checked.filter(({ result }) => result.passed);
+
+    if (passing.length === 0 && attempt < config.audioQa.maxRegenerations) {
+      console.warn(`🎚️ Audio QA failed for job ${job.id} (${checked.map(({ result }) => result.issues.join(',')).join(' / ')}) - regenerating`);
+      await this.saveAudioQaReport(job.orderId, {
+        checkedAt: new Date(),
+        regenerations: attempt + 1,
+        passed: false,
+        needsReview: false,
+        results: [
+          ...previousResults,
+          ...checked.map(({ download, result }) => ({ ...result, attempt, sunoId: download.sunoVariant.id })),
+        ],
+      });
+      await this.firebaseService.logAnalytics('audio_qa_failed', {
+        orderId: job.orderId,
+        attempt,
+        issues: checked.flatMap(({ result }) => result.issues),
+        timestamp: new Date().toISOString(),
+      });
+
+      // Same as a content moderation retry: not a failed attempt
+      job.qaRegenerations = attempt + 1;
+      await this.firebaseService.getDb().collection(this.COLLECTION).doc(job.id).update({
+        qaRegenerations: job.qaRegenerations,
+        status: 'pending',
+        attempts: 0,
+        error: `Audio QA regeneration ${job.qaRegenerations}/${config.audioQa.maxRegenerations}`,
+        updatedAt: new Date().toISOString(),
+      });
+      return null;
+    }
+
+    // Stable sort - equal scores keep Suno's order
+    const ranked = (passing.length ? passing : checked).sort((a, b) => b.result.score - a.result.score);
+    if (passing.length === 0) {
+      console.warn(`⚠️ Audio QA failed for job ${job.id} after ${attempt} regeneration(s) - delivering best song for review`);
+    }
+
+    await this.saveAudioQaReport(job.orderId, {
+      checkedAt: new Date(),
+      regenerations: attempt,
+      passed: passing.length > 0,
+      needsReview: passing.length === 0,
+      results: [
+        ...previousResults,
+        ...checked.map(entry => ({
+          ...entry.result,
+          attempt,
+          sunoId: entry.download.sunoVariant.id,
+          variant: ranked.includes(entry) ? ranked.indexOf(entry) + 1 : undefined,
+        })),
+      ],
     });
-    console.log(`📊 Job ${jobId} progress: ${progress}%`);
+    return ranked.map(({ download }) => download);
+  }
+
+  private async saveAudioQaReport(orderId: string, report: AudioQaReport): Promise<void> {
+    try {
+      await this.firebaseService.updateOrder(orderId, { song1AudioQa: report });
+    } catch (error: any) {
+      console.error(`Error saving audio QA report of order ${orderId}:`, error.message);
+    }
+  }
+
+  /**
+   * Whether the customer chooses between the variants (by product tier)
+   * Web orders can't answer in a chat and always get every variant. Whether the
+   * customer is free to answer is decided by the variant choice opener.
+   */
+  private shouldOfferVariantChoice(order: Order, variants: SongVariant[]): boolean {
+    if (!this.variantChoiceOpener || order.channel === 'email' || variants.length < 2 || order.song1SelectedVariant) {
+      return false;
+    }
+    return config.songVariants[order.tier || 'standard'] === 'choice';
+  }
+
+  /**
+   * Send both variants as previews and ask "1 mi 2 mi?"
+   * The answer is handled by the variant_selection conversation step
+   */
+  private async offerVariantChoice(order: Order, variants: SongVariant[], shareToken: string): Promise<void> {
+    const previews = variants.map(variant => t(order.locale, 'variant.previewLine', {
+      number: variant.number,
+      duration: formatDuration(variant.duration),
+      url: songMediaUrl(shareToken, { variant: variant.number }),
+    }));
+
+    await this.messaging.sendTextMessage(
+      order.whatsappPhone,
+      t(order.locale, 'variant.previews', { previews: previews.join('\n\n') }),
+      { orderId: order.id, locale: order.locale }
+    );
+    await this.messaging.sendButtonMessage(
+      order.whatsappPhone,
+      t(order.locale, 'variant.question'),
+      localizeOptions(VARIANT_OPTIONS.slice(0, variants.length), order.locale)
+    );
+
+    console.log(`🎧 Variant choice sent for order ${order.id}`);
+  }
+
+  /**
+   * Render and store the order's cover art - a failure falls back to the default cover
+   */
+  private async createCoverArt(order: Order): Promise<CoverArt | undefined> {
+    if (!this.coverArt) {
+      return undefined;
+    }
+
+    try {
+      const cover = await this.coverArt.createCover(order);
+      const stored = await this.firebaseService.uploadCoverArt(order.id, cover.data);
+      order.coverArtPath = stored.path;
+      await this.firebaseService.updateOrder(order.id, { coverArtPath: stored.path });
+      console.log(`🎨 Cover art created for order ${order.id}`);
+      return cover;
+    } catch (error: any) {
+      console.error(`⚠️ Cover art failed for order ${order.id}:`, error.message);
+      return undefined;
+    }
+  }
+
+  /**
+   * Complete the order and deliver the chosen variant, or every variant (bundle)
+   */
+  private async deliverSong(
+    order: Order | null,
+    phoneNumber: string,
+    orderId: string,
+    variants: SongVariant[],
+    shareToken: string
+  ): Promise<void> {
+    const chosen = variants.find(variant => variant.number === order?.song1SelectedVariant);
+    const delivered = chosen ? [chosen] : variants;
+
+    // Update order status to completed
+    await this.firebaseService.updateOrder(orderId, {
+      song1AudioUrl: delivered[0].audioUrl,
+      song1AudioPath: delivered[0].audioPath,
+      shareToken,
+      status: 'completed',
+    });
+
+    const songUrls = delivered.length > 1
+      ? delivered.map(variant => songMediaUrl(shareToken, { variant: variant.number }))
+      : [songMediaUrl(shareToken)];
+
+    if (order?.channel === 'email') {
+      // Web order: download link by email (share page with every variant for bundles)
+      if (this.emailService) {
+        const downloadUrl = delivered.length > 1 ? sharePageUrl(shareToken) : songMediaUrl(shareToken, { download: true });
+        await this.emailService.sendSongDelivered(order, downloadUrl);
+      } else {
+        console.warn(`⚠️ Email not configured - web order ${orderId} not notified`);
+      }
+      return;
+    }
+
+    if (order?.coverArtPath) {
+      // Cover art first - best effort, the song is what matters
+      try {
+        await this.messaging.sendImageMessage(
+          phoneNumber,
+          coverArtUrl(shareToken),
+          t(order.locale || 'tr', 'cover.caption', { title: songTitle(order) })
+        );
+      } catch (error: any) {
+        console.error(`Error sending cover art of order ${orderId}:`, error.message);
+      }
+    }
+
+    // Send music file to user via WhatsApp (permanent /media links)
+    console.log(`📤 Sending ${songUrls.length} music file(s) to user via WhatsApp...`);
+    await this.sendWithSmsFallback(
+      phoneNumber,
+      'download_link',
+      t(order?.locale || 'tr', 'sms.downloadLink', { url: sharePageUrl(shareToken) }),
+      async () => {
+        for (const songUrl of songUrls) {
+          await this.messaging.sendAudioMessage(phoneNumber, songUrl, { orderId, locale: order?.locale });
+        }
+      }
+    );
+
+    await this.sendWithSmsFallback(
+      phoneNumber,
+      'completion',
+      t(order?.locale || 'tr', 'sms.completed', { orderId }),
+      () => this.messaging.sendOrderCompletion(phoneNumber, orderId, order?.locale, sharePageUrl(shareToken))
+    );
+  }
+
+  /**
+   * Update job progress (and notify the order's tracking page)
+   * Progress is informational - a failed write never fails the job
+   */
+  private async updateJobProgress(job: MusicGenerationJob, progress: number): Promise<void> {
+    job.progress = progress;
+    this.progressHub?.publish({ orderId: job.orderId, progress });
+
+    try {
+      const db = this.firebaseService.getDb();
+      await db.collection(this.COLLECTION).doc(job.id).update({
+        progress,
+        updatedAt: new Date().toISOString(),
+      });
+      console.log(`📊 Job ${job.id} progress: ${progress}%`);
+    } catch (error: any) {
+      console.error(`Error updating progress of job ${job.id}:`, error.message);
+    }
   }
 
   /**
@@ -493,6 +866,37 @@ export class FirebaseQueueService {
     return job;
   }
 
+  /**
+   * Position of a pending job in the queue (1 = next), null if it is not waiting
+   * NOTE: Sorts in memory to avoid composite index requirements
+   */
+  async getQueuePosition(jobId: string): Promise<number | null> {
+    const db = this.firebaseService.getDb();
+    const snapshot = await db.collection(this.COLLECTION).where('status', '==', 'pending').get();
+
+    const pending = snapshot.docs.map(doc => doc.data() as MusicGenerationJob);
+    const job = pending.find(p => p.id === jobId);
+    if (!job) {
+      return null;
+    }
+
+    const createdAt = new Date(job.createdAt).getTime();
+    return pending.filter(p => new Date(p.createdAt).getTime() < createdAt).length + 1;
+  }
+
+  /**
+   * Rough minutes until a job's song is ready (for customer-facing ETAs)
+   */
+  estimateRemainingMinutes(job: MusicGenerationJob, queuePosition: number | null): number {
+    if (job.status === 'processing') {
+      return Math.max(1, Math.ceil(this.AVERAGE_JOB_MINUTES * (100 - job.progress) / 100));
+    }
+
+    // Pending jobs start in batches of MAX_CONCURRENT_JOBS
+    const batchesAhead = Math.floor(((queuePosition || 1) - 1) / this.MAX_CONCURRENT_JOBS);
+    return (batchesAhead + 1) * this.AVERAGE_JOB_MINUTES;
+  }
+
   /**
    * Get queue stats
    */
@@ -575,3 +979,14 @@ export class FirebaseQueueService {
     }
   }
 }
+
+/**
+ * Song length as m:ss ("-" when Suno didn't report it)
+ */
+function formatDuration(seconds?: number): string {
+  if (!seconds) {
+    return '-';
+  }
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+}
@@ -1,15 +1,37 @@
 import * as admin from 'firebase-admin';
 import { Order } from '../models/order.model';
-import { ConversationState } from './order.service';
+import { ConversationState } from '../models/conversation.model';
 import { DiscountCode, DiscountUsage } from '../models/discount.model';
+import { OutboundMessage, QueuedOutboundMessage } from '../models/outbound-message.model';
 import { GA4Service } from './ga4.service';
+import { OrderProgressHub } from './order-progress-hub';
+import { parseCustomerKey } from './channels/messaging-channel';
 import { config } from '../config/config';
 
+/**
+ * Uploaded Storage file - the path is kept so links can be re-signed later
+ */
+export interface StoredFile {
+  path: string;
+  url: string;
+}
+
+/**
+ * Thrown when a conversation was changed by someone else since it was loaded
+ */
+export class ConversationConflictError extends Error {
+  constructor(public phone: string, public expectedVersion?: number, public storedVersion?: number) {
+    super(`Conversation ${phone} changed concurrently (expected v${expectedVersion}, found v${storedVersion})`);
+    this.name = 'ConversationConflictError';
+  }
+}
+
 export class FirebaseService {
   private db: admin.firestore.Firestore;
   private storage: admin.storage.Storage;
   private bucket: any;
   private ga4?: GA4Service;
+  private progressHub?: OrderProgressHub;
 
   // Collection names with bihediye_ prefix
   private readonly COLLECTIONS = {
@@ -19,6 +41,10 @@ export class FirebaseService {
     ANALYTICS: 'bihediye_analytics',
     DISCOUNTS: 'bihediye_discounts',
     DISCOUNT_USAGES: 'bihediye_discount_usages',
+    MESSAGE_BUFFERS: 'bihediye_message_buffers',
+    INBOUND_EVENTS: 'bihediye_inbound_events',
+    OUTBOUND_MESSAGES: 'bihediye_outbound_messages',
+    OUTBOUND_QUEUE: 'bihediye_outbound_queue',
   };
 
   constructor(serviceAccountPath?: string) {
@@ -63,6 +89,13 @@ export class FirebaseService {
     }
   }
 
+  /**
+   * Publish order status changes to live listeners (tracking page)
+   */
+  setProgressHub(hub: OrderProgressHub): void {
+    this.progressHub = hub;
+  }
+
   /**
    * ORDERS COLLECTION
    */
@@ -93,13 +126,7 @@ export class FirebaseService {
         return null;
       }
 
-      const data = doc.data()!;
-      return {
-        ...data,
-        createdAt: data.createdAt?.toDate(),
-        completedAt: data.completedAt?.toDate(),
-        estimatedDelivery: data.estimatedDelivery?.toDate(),
-      } as Order;
+      return this.fromOrderDoc(doc.data()!);
     } catch (error) {
       console.error('Error getting order:', error);
       throw error;
@@ -119,6 +146,10 @@ export class FirebaseService {
       }
 
       await this.db.collection(this.COLLECTIONS.ORDERS).doc(orderId).update(updateData);
+
+      if (updates.status) {
+        this.progressHub?.publish({ orderId, status: updates.status });
+      }
     } catch (error) {
       console.error('Error updating order:', error);
       throw error;
@@ -135,12 +166,7 @@ export class FirebaseService {
 
       return snapshot.docs.map(doc => {
         const data = doc.data();
-        return {
-          ...data,
-          createdAt: data.createdAt?.toDate(),
-          completedAt: data.completedAt?.toDate(),
-          estimatedDelivery: data.estimatedDelivery?.toDate(),
-        } as Order;
+        return this.fromOrderDoc(data);
       });
     } catch (error) {
       console.error('Error getting all orders:', error);
@@ -148,6 +174,81 @@ export class FirebaseService {
     }
   }
 
+  /**
+   * Firestore document -> Order
+   * Orders saved before the channel field: web orders carried the email in whatsappPhone
+   */
+  private fromOrderDoc(data: admin.firestore.DocumentData): Order {
+    const legacyEmail = !data.channel && String(data.whatsappPhone || '').includes('@');
+
+    return {
+      ...data,
+      channel: data.channel || (legacyEmail ? 'email' : parseCustomerKey(data.whatsappPhone || '').channel),
+      customerEmail: data.customerEmail || (legacyEmail ? data.whatsappPhone : undefined),
+      createdAt: data.createdAt?.toDate(),
+      completedAt: data.completedAt?.toDate(),
+      estimatedDelivery: data.estimatedDelivery?.toDate(),
+      variantOfferedAt: data.variantOfferedAt?.toDate(),
+      song1AudioQa: data.song1AudioQa && { ...data.song1AudioQa, checkedAt: data.song1AudioQa.checkedAt?.toDate() },
+    } as Order;
+  }
+
+  /**
+   * Delivered order by its share token (/s/:shareToken, /media/:shareToken)
+   */
+  async getOrderByShareToken(shareToken: string): Promise<Order | null> {
+    try {
+      const snapshot = await this.db
+        .collection(this.COLLECTIONS.ORDERS)
+        .where('shareToken', '==', shareToken)
+        .limit(1)
+        .get();
+
+      return snapshot.empty ? null : this.fromOrderDoc(snapshot.docs[0].data());
+    } catch (error) {
+      console.error('Error getting order by share token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Orders delivered although their song failed the audio quality gate
+   */
+  async getOrdersNeedingAudioReview(limit: number = 50): Promise<Order[]> {
+    try {
+      const snapshot = await this.db
+        .collection(this.COLLECTIONS.ORDERS)
+        .where('song1AudioQa.needsReview', '==', true)
+        .limit(limit)
+        .get();
+
+      return snapshot.docs.map(doc => this.fromOrderDoc(doc.data()));
+    } catch (error) {
+      console.error('Error getting orders needing audio review:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Orders whose customer was asked to choose a variant before the given date
+   */
+  async getOrdersAwaitingVariantChoice(offeredBefore: Date, limit: number = 50): Promise<Order[]> {
+    try {
+      const snapshot = await this.db
+        .collection(this.COLLECTIONS.ORDERS)
+        .where('status', '==', 'variant_selection')
+        .limit(limit)
+        .get();
+
+      return snapshot.docs
+        .map(doc => this.fromOrderDoc(doc.data()))
+        .filter(order => !order.variantOfferedAt || order.variantOfferedAt < offeredBefore);
+    } catch (error) {
+      console.error('Error getting orders awaiting a variant choice:', error);
+      throw error;
+    }
+  }
+
   async getOrdersByPhone(phone: string, limit: number = 10): Promise<Order[]> {
     try {
       const snapshot = await this.db
@@ -159,12 +260,7 @@ export class FirebaseService {
 
       return snapshot.docs.map(doc => {
         const data = doc.data();
-        return {
-          ...data,
-          createdAt: data.createdAt?.toDate(),
-          completedAt: data.completedAt?.toDate(),
-          estimatedDelivery: data.estimatedDelivery?.toDate(),
-        } as Order;
+        return this.fromOrderDoc(data);
       });
     } catch (error) {
       console.error('Error getting orders by phone:', error);
@@ -176,17 +272,41 @@ export class FirebaseService {
    * CONVERSATIONS COLLECTION
    */
 
+  /**
+   * Save conversation with an optimistic version check
+   * A loaded conversation carries the version it was read at; if the stored
+   * document moved on in the meantime (another instance handled a message)
+   * the save is rejected with ConversationConflictError instead of silently
+   * overwriting that update. Fresh states without a version (new or reset
+   * conversations) overwrite deliberately.
+   */
   async saveConversation(conversation: ConversationState): Promise<void> {
     try {
-      await this.db
-        .collection(this.COLLECTIONS.CONVERSATIONS)
-        .doc(conversation.phone)
-        .set({
+      const ref = this.db.collection(this.COLLECTIONS.CONVERSATIONS).doc(conversation.phone);
+
+      const version = await this.db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(ref);
+        const storedVersion: number | undefined = doc.exists ? doc.data()!.version : undefined;
+
+        if (conversation.version !== undefined && doc.exists && storedVersion !== conversation.version) {
+          throw new ConversationConflictError(conversation.phone, conversation.version, storedVersion);
+        }
+
+        const nextVersion = (storedVersion || 0) + 1;
+        transaction.set(ref, {
           ...conversation,
+          version: nextVersion,
           lastUpdated: admin.firestore.Timestamp.fromDate(conversation.lastUpdated),
         });
+        return nextVersion;
+      });
+
+      // Later saves in the same handling pass continue from the new version
+      conversation.version = version;
     } catch (error) {
-      console.error('Error saving conversation:', error);
+      if (!(error instanceof ConversationConflictError)) {
+        console.error('Error saving conversation:', error);
+      }
       throw error;
     }
   }
@@ -239,8 +359,212 @@ export class FirebaseService {
     }
   }
 
+  /**
+   * MESSAGE BUFFERS COLLECTION (aggregation window for multi-part messages)
+   */
+
+  async appendMessageFragment(phone: string, text: string, flushAt: Date): Promise<void> {
+    try {
+      await this.db
+        .collection(this.COLLECTIONS.MESSAGE_BUFFERS)
+        .doc(phone)
+        .set(
+          {
+            phone,
+            fragments: admin.firestore.FieldValue.arrayUnion({ text, receivedAt: Date.now() }),
+            flushAt: admin.firestore.Timestamp.fromDate(flushAt),
+          },
+          { merge: true }
+        );
+    } catch (error) {
+      console.error('Error appending message fragment:', error);
+      throw error;
+    }
+  }
+
+  async takeMessageFragments(phone: string): Promise<string[]> {
+    try {
+      const ref = this.db.collection(this.COLLECTIONS.MESSAGE_BUFFERS).doc(phone);
+
+      return await this.db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(ref);
+        if (!doc.exists) {
+          return [];
+        }
+
+        transaction.delete(ref);
+        const fragments: Array<{ text: string; receivedAt: number }> = doc.data()!.fragments || [];
+        return fragments
+          .sort((a, b) => a.receivedAt - b.receivedAt)
+          .map(fragment => fragment.text);
+      });
+    } catch (error) {
+      console.error('Error taking message fragments:', error);
+      throw error;
+    }
+  }
+
+  async getPendingMessageBuffers(): Promise<Array<{ phone: string; flushAt: Date }>> {
+    try {
+      const snapshot = await this.db.collection(this.COLLECTIONS.MESSAGE_BUFFERS).get();
+
+      return snapshot.docs.map(doc => ({
+        phone: doc.id,
+        flushAt: doc.data().flushAt?.toDate() || new Date(),
+      }));
+    } catch (error) {
+      console.error('Error getting pending message buffers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * INBOUND EVENTS COLLECTION (webhook idempotency)
+   */
+
+  /**
+   * Record an inbound webhook event id
+   * Returns false if the event was already seen within its TTL (redelivery).
+   * Expired documents are removed by a Firestore TTL policy on `expiresAt`;
+   * until then they are treated as absent.
+   */
+  async registerInboundEvent(eventId: string, ttlMs: number): Promise<boolean> {
+    try {
+      const ref = this.db.collection(this.COLLECTIONS.INBOUND_EVENTS).doc(eventId);
+
+      return await this.db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(ref);
+        if (doc.exists && doc.data()!.expiresAt?.toDate() > new Date()) {
+          return false;
+        }
+
+        transaction.set(ref, {
+          eventId,
+          receivedAt: admin.firestore.FieldValue.serverTimestamp(),
+          expiresAt: admin.firestore.Timestamp.fromDate(new Date(Date.now() + ttlMs)),
+        });
+        return true;
+      });
+    } catch (error) {
+      console.error('Error registering inbound event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * OUTBOUND MESSAGES COLLECTION (delivery tracking)
+   */
+
+  async saveOutboundMessage(message: OutboundMessage): Promise<void> {
+    try {
+      await this.db
+        .collection(this.COLLECTIONS.OUTBOUND_MESSAGES)
+        .doc(message.id)
+        .set(this.toOutboundMessageDoc(message));
+    } catch (error) {
+      console.error('Error saving outbound message:', error);
+      throw error;
+    }
+  }
+
+  async getOutboundMessage(messageId: string): Promise<OutboundMessage | null> {
+    try {
+      const doc = await this.db.collection(this.COLLECTIONS.OUTBOUND_MESSAGES).doc(messageId).get();
+      return doc.exists ? this.fromOutboundMessageDoc(doc.data()!) : null;
+    } catch (error) {
+      console.error('Error getting outbound message:', error);
+      throw error;
+    }
+  }
+
+  async updateOutboundMessage(messageId: string, updates: Partial<OutboundMessage>): Promise<void> {
+    try {
+      await this.db
+        .collection(this.COLLECTIONS.OUTBOUND_MESSAGES)
+        .doc(messageId)
+        .update(this.toOutboundMessageDoc(updates));
+    } catch (error) {
+      console.error('Error updating outbound message:', error);
+      throw error;
+    }
+  }
+
+  private static readonly OUTBOUND_MESSAGE_DATES = ['createdAt', 'updatedAt', 'sentAt', 'deliveredAt', 'readAt', 'failedAt'];
+
+  private toOutboundMessageDoc(message: Partial<OutboundMessage>): any {
+    const data: any = { ...message };
+    FirebaseService.OUTBOUND_MESSAGE_DATES.forEach(field => {
+      if (data[field] instanceof Date) {
+        data[field] = admin.firestore.Timestamp.fromDate(data[field]);
+      }
+    });
+    return data;
+  }
+
+  private fromOutboundMessageDoc(data: admin.firestore.DocumentData): OutboundMessage {
+    const message: any = { ...data };
+    FirebaseService.OUTBOUND_MESSAGE_DATES.forEach(field => {
+      message[field] = data[field]?.toDate();
+    });
+    return message as OutboundMessage;
+  }
+
+  /**
+   * OUTBOUND QUEUE COLLECTION (pending critical messages + dead letters)
+   */
+
+  async saveQueuedMessage(entry: QueuedOutboundMessage): Promise<void> {
+    try {
+      await this.db.collection(this.COLLECTIONS.OUTBOUND_QUEUE).doc(entry.id).set(entry);
+    } catch (error) {
+      console.error('Error saving queued message:', error);
+      throw error;
+    }
+  }
+
+  async updateQueuedMessage(id: string, updates: Partial<QueuedOutboundMessage>): Promise<void> {
+    try {
+      await this.db.collection(this.COLLECTIONS.OUTBOUND_QUEUE).doc(id).update(updates);
+    } catch (error) {
+      console.error('Error updating queued message:', error);
+      throw error;
+    }
+  }
+
+  async deleteQueuedMessage(id: string): Promise<void> {
+    try {
+      await this.db.collection(this.COLLECTIONS.OUTBOUND_QUEUE).doc(id).delete();
+    } catch (error) {
+      console.error('Error deleting queued message:', error);
+      throw error;
+    }
+  }
+
+  async getQueuedMessages(status: QueuedOutboundMessage['status']): Promise<QueuedOutboundMessage[]> {
+    try {
+      const snapshot = await this.db
+        .collection(this.COLLECTIONS.OUTBOUND_QUEUE)
+        .where('status', '==', status)
+        .get();
+
+      return snapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+          ...data,
+          createdAt: data.createdAt?.toDate(),
+          updatedAt: data.updatedAt?.toDate(),
+        } as QueuedOutboundMessage;
+      });
+    } catch (error) {
+      console.error('Error getting queued messages:', error);
+      throw error;
+    }
+  }
+
   /**
    * Clean up old conversations (idle for more than 24 hours)
+   * A paid order waiting for its variant choice keeps its conversation - it is
+   * closed by the choice or by the choice timeout (OrderService)
    */
   async cleanupOldConversations(): Promise<number> {
     try {
@@ -250,14 +574,15 @@ export class FirebaseService {
         .where('lastUpdated', '<', admin.firestore.Timestamp.fromDate(oneDayAgo))
         .get();
 
+      const stale = snapshot.docs.filter(doc => doc.data().step !== 'variant_selection');
       const batch = this.db.batch();
-      snapshot.docs.forEach(doc => {
+      stale.forEach(doc => {
         batch.delete(doc.ref);
       });
 
       await batch.commit();
-      console.log(`🧹 Cleaned up ${snapshot.size} old conversations`);
-      return snapshot.size;
+      console.log(`🧹 Cleaned up ${stale.length} old conversations`);
+      return stale.length;
     } catch (error) {
       console.error('Error cleaning up conversations:', error);
       throw error;
@@ -284,6 +609,18 @@ export class FirebaseService {
     }
   }
 
+  /**
+   * Last inbound WhatsApp message (24h session window)
+   */
+  async recordInboundAt(phone: string, at: Date): Promise<void> {
+    await this.saveUser(phone, { lastInboundAt: admin.firestore.Timestamp.fromDate(at) });
+  }
+
+  async getLastInboundAt(phone: string): Promise<Date | null> {
+    const user = await this.getUser(phone);
+    return user?.lastInboundAt?.toDate() || null;
+  }
+
   async getUser(phone: string): Promise<any | null> {
     try {
       const doc = await this.db.collection(this.COLLECTIONS.USERS).doc(phone).get();
@@ -420,11 +757,12 @@ export class FirebaseService {
    * @param orderId - Order ID for organizing files
    * @param songIndex - Song index (1, 2, etc.)
    * @param audioBuffer - Audio file buffer
-   * @returns Public URL to the uploaded file (signed URL, valid for 7 days)
+   * @param variant - Suno variant number (Suno produces two songs per task)
+   * @returns Storage path and signed URL (valid for 7 days - customers get /media links signed on demand)
    */
-  async uploadAudio(orderId: string, songIndex: number, audioBuffer: Buffer): Promise<string> {
+  async uploadAudio(orderId: string, songIndex: number, audioBuffer: Buffer, variant: number = 1): Promise<StoredFile> {
     try {
-      const filename = `music/${orderId}/song${songIndex}_${Date.now()}.mp3`;
+      const filename = `music/${orderId}/song${songIndex}_v${variant}_${Date.now()}.mp3`;
       const file = this.bucket.file(filename);
 
       console.log(`📤 Uploading audio to Firebase Storage: ${filename}`);
@@ -437,6 +775,7 @@ export class FirebaseService {
           metadata: {
             orderId,
             songIndex: songIndex.toString(),
+            variant: variant.toString(),
             uploadedAt: new Date().toISOString(),
           },
         },
@@ -452,13 +791,45 @@ export class FirebaseService {
       console.log(`✅ Audio uploaded successfully`);
       console.log(`   URL: ${signedUrl.substring(0, 100)}...`);
 
-      return signedUrl;
+      return { path: filename, url: signedUrl };
     } catch (error: any) {
       console.error('❌ Error uploading audio to Storage:', error.message);
       throw new Error(`Firebase Storage yükleme hatası: ${error.message}`);
     }
   }
 
+  /**
+   * Upload generated cover art (PNG) to Firebase Storage - served via /cover/:shareToken
+   */
+  async uploadCoverArt(orderId: string, image: Buffer): Promise<StoredFile> {
+    try {
+      const filename = `music/${orderId}/cover_${Date.now()}.png`;
+      const file = this.bucket.file(filename);
+
+      await file.save(image, {
+        metadata: {
+          contentType: 'image/png',
+          metadata: {
+            orderId,
+            uploadedAt: new Date().toISOString(),
+          },
+        },
+        resumable: false,
+      });
+
+      const [signedUrl] = await file.getSignedUrl({
+        action: 'read',
+        expires: Date.now() + 7 * 24 * 60 * 60 * 1000, // 7 days
+      });
+
+      console.log(`✅ Cover art uploaded: ${filename}`);
+      return { path: filename, url: signedUrl };
+    } catch (error: any) {
+      console.error('Error uploading cover art to Storage:', error.message);
+      throw new Error(`Firebase Storage kapak yükleme hatası: ${error.message}`);
+    }
+  }
+
   /**
    * Upload video buffer to Firebase Storage
    */
@@ -494,6 +865,19 @@ export class FirebaseService {
     }
   }
 
+  /**
+   * Short-lived signed URL of a private Storage file
+   * @param downloadName - Serve as attachment with this file name
+   */
+  async getSignedFileUrl(filepath: string, expiresInMs: number, downloadName?: string): Promise<string> {
+    const [signedUrl] = await this.bucket.file(filepath).getSignedUrl({
+      action: 'read',
+      expires: Date.now() + expiresInMs,
+      ...(downloadName ? { responseDisposition: `attachment; filename="${downloadName}"` } : {}),
+    });
+    return signedUrl;
+  }
+
   /**
    * Delete file from Firebase Storage
    */
@@ -1,5 +1,6 @@
 import axios, { AxiosInstance } from 'axios';
 import { SongDetails } from '../models/order.model';
+import { Locale, LOCALE_LANGUAGE_NAMES } from '../i18n';
 
 export interface OpenAIConfig {
   apiKey: string;
@@ -13,6 +14,7 @@ export interface LyricsGenerationRequest {
   recipientRelation?: string;
   includeNameInSong: boolean;
   notes?: string;
+  locale?: Locale; // Customer's chat language - default song language
 }
 
 export interface TokenUsage {
@@ -23,6 +25,7 @@ export interface TokenUsage {
 
 export interface LyricsGenerationResult {
   lyrics: string;
+  title?: string;       // Personalized song title (new lyrics only)
   tokenUsage?: TokenUsage;
 }
 
@@ -49,10 +52,11 @@ export class OpenAIService {
   async generateLyrics(request: LyricsGenerationRequest, retryForContentModeration: boolean = false): Promise<LyricsGenerationResult> {
     try {
       const prompt = this.buildLyricsPrompt(request);
+      const language = this.getLyricsLanguages(request).join(' ve ');
 
       const systemPrompt = retryForContentModeration
         ? `Sen profesyonel bir şarkı sözü yazarısın. Duygusal, anlamlı ve müzikal şarkı sözleri yazıyorsun.
-            Şarkı sözleri kişiye özel olmalı, samimi ve içten olmalı. Türkçe dilbilgisi kurallarına dikkat et.
+            Şarkı sözleri kişiye özel olmalı, samimi ve içten olmalı. ${language} dilbilgisi kurallarına dikkat et.
 
             🚨 UYARI: ÖNCEKİ ŞARKI SÖZLERİ İÇERİK DENETİMİNDEN REDDEDİLDİ!
 
@@ -78,7 +82,7 @@ export class OpenAIService {
             Her satır kısa ve şarkı söylenebilir olmalı. Uzun cümleler YASAK.
             Şarkı EN AZ 2 dakika uzunluğunda olmalı, yeterince uzun ve detaylı şarkı sözleri yaz.`
         : `Sen profesyonel bir şarkı sözü yazarısın. Duygusal, anlamlı ve müzikal şarkı sözleri yazıyorsun.
-            Şarkı sözleri kişiye özel olmalı, samimi ve içten olmalı. Türkçe dilbilgisi kurallarına dikkat et.
+            Şarkı sözleri kişiye özel olmalı, samimi ve içten olmalı. ${language} dilbilgisi kurallarına dikkat et.
 
             ⚠️ ÇOK ÖNEMLİ - İÇERİK KURALLARI:
             - Şarkı sözleri MUTLAKA temiz, pozitif ve uygun olmalı
@@ -141,21 +145,25 @@ export class OpenAIService {
         contentLength: response.data.choices?.[0]?.message?.content?.length || 0,
       });
 
-      const lyrics = response.data.choices?.[0]?.message?.content?.trim();
+      const content = response.data.choices?.[0]?.message?.content?.trim();
 
-      if (!lyrics) {
+      if (!content) {
         console.error('❌ Empty lyrics response from OpenAI');
         console.error('Full response:', JSON.stringify(response.data, null, 2));
         throw new Error('OpenAI boş yanıt döndürdü');
       }
 
+      const { title, lyrics } = extractSongTitle(content);
+
       console.log('✅ Lyrics generated successfully');
+      console.log('- Title:', title || '-');
       console.log('- Length:', lyrics.length, 'characters');
       console.log('- Lines:', lyrics.split('\n').length);
       console.log('- Has tags:', /\[verse\]|\[chorus\]|\[bridge\]/.test(lyrics));
 
       return {
         lyrics,
+        title,
         tokenUsage: tokenUsage ? {
           promptTokens: tokenUsage.prompt_tokens,
           completionTokens: tokenUsage.completion_tokens,
@@ -173,14 +181,43 @@ export class OpenAIService {
     }
   }
 
+  /**
+   * Lyrics language(s): [verse, chorus] for bilingual songs, otherwise one language
+   * Falls back to the customer's chat language when no song language was chosen
+   */
+  private getLyricsLanguages(request: LyricsGenerationRequest): string[] {
+    const song = request.songDetails;
+
+    if (song.language === 'Karışık') {
+      const verse = song.bilingual?.verse || 'Türkçe';
+      const chorus = song.bilingual?.chorus || (verse === 'İngilizce' ? 'Türkçe' : 'İngilizce');
+      return verse === chorus ? [verse] : [verse, chorus];
+    }
+
+    return [song.language || LOCALE_LANGUAGE_NAMES[request.locale || 'tr']];
+  }
+
   /**
    * Generate lyrics prompt based on request
    */
   private buildLyricsPrompt(request: LyricsGenerationRequest): string {
     const parts: string[] = [];
 
+    const languages = this.getLyricsLanguages(request);
+    const language = languages.join(' ve ');
+
     parts.push(`Aşağıdaki özelliklere sahip bir şarkı sözü yaz:\n`);
 
+    // Şarkı dili
+    if (languages.length === 2) {
+      parts.push(`**Şarkı Dili:** İki dilli - [intro], [verse], [pre-chorus], [bridge] ve [outro] ${languages[0]}, [chorus] ${languages[1]}`);
+    } else if (request.songDetails.language) {
+      parts.push(`**Şarkı Dili:** ${language}`);
+    } else {
+      // Müşteri seçmediyse sohbet dili (hikayede/notlarda başka bir dil isterse o geçerli)
+      parts.push(`**Şarkı Dili:** ${language} (hikayede veya notlarda açıkça başka bir dil istenmişse o dilde yaz)`);
+    }
+
     // Müzik türü ve tarzı
     parts.push(`**Müzik Türü:** ${request.songDetails.type}`);
     parts.push(`**Şarkı Tarzı:** ${request.songDetails.style}`);
@@ -240,10 +277,11 @@ export class OpenAIService {
     parts.push(`1. Her bölüm MUTLAKA etiketle başlamalı: [intro], [verse], [chorus], vb.`);
     parts.push(`2. Her satır kısa olmalı (maksimum 10-12 kelime)`);
     parts.push(`3. Samimi, duygusal ve kişiye özel olmalı`);
-    parts.push(`4. Türkçe dilbilgisi ve kafiye kurallarına dikkat et`);
+    parts.push(`4. ${language} dilbilgisi ve kafiye kurallarına dikkat et`);
     parts.push(`5. ${request.songDetails.style} bir atmosfer oluştur`);
     parts.push(`6. Şarkı ${request.songDetails.type} türüne uygun olmalı`);
     parts.push(`7. TOPLAM EN AZ 60-70 SATIR OLMALI (2+ dakikalık şarkı için)`);
+    parts.push(`8. İlk satıra şarkının adını yaz: [title] Şarkı Adı - ${language} dilinde, hikayeye ve kişiye özel, en fazla 5 kelime`);
 
     return parts.join('\n');
   }
@@ -708,3 +746,17 @@ Sadece temizlenmiş şarkı sözlerini döndür, başka açıklama yapma.`;
     }
   }
 }
+
+/**
+ * Split the "[title] ..." line off the generated lyrics
+ */
+export function extractSongTitle(content: string): { title?: string; lyrics: string } {
+  const match = content.match(/^\s*\[title\][ \t:]*(.*)$/im);
+  if (!match) {
+    return { lyrics: content };
+  }
+
+  const title = match[1].trim().replace(/^["'“«]+|["'”»]+$/g, '').trim();
+  const lyrics = content.replace(match[0], '').trim();
+  return { title: title ? title.slice(0, 80) : undefined, lyrics };
+}
@@ -0,0 +1,42 @@
+import { EventEmitter } from 'events';
+import { Order } from '../models/order.model';
+
+export interface OrderProgressEvent {
+  orderId: string;
+  status?: Order['status'];
+  progress?: number;                   // Music generation progress (0-100)
+}
+
+/**
+ * In-process fan-out of order progress to live listeners (tracking page SSE)
+ * Fed by FirebaseService.updateOrder (status changes) and
+ * FirebaseQueueService.updateJobProgress (music generation progress).
+ * Events only reach listeners of the same instance - the tracking page
+ * refreshes periodically as well.
+ */
+export class OrderProgressHub {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open tracking page
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: OrderProgressEvent): void {
+    this.emitter.emit(event.orderId, event);
+  }
+
+  /**
+   * Listen to one order, returns the unsubscribe function
+   */
+  subscribe(orderId: string, listener: (event: OrderProgressEvent) => void): () => void {
+    this.emitter.on(orderId, listener);
+    return () => {
+      this.emitter.off(orderId, listener);
+    };
+  }
+
+  listenerCount(orderId: string): number {
+    return this.emitter.listenerCount(orderId);
+  }
+}
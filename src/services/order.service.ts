@@ -1,61 +1,109 @@
+import { randomBytes } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
-import { Order, OrderRequest } from '../models/order.model';
+import { Order, OrderRequest, OrderTrackingState, SongDetails } from '../models/order.model';
+import { ConversationMedia, ConversationSelection, ConversationState } from '../models/conversation.model';
+import { OutboundMessage } from '../models/outbound-message.model';
 import { SunoService } from './suno.service';
 import { OpenAIService } from './openai.service';
-import { WhatsAppService } from './whatsapp.service';
-import { FirebaseService } from './firebase.service';
+import { ConversationConflictError, FirebaseService } from './firebase.service';
 import { FirebaseQueueService } from './firebase-queue.service';
 import { PaytrService } from './paytr.service';
-import { DiscountService } from './discount.service';
+import { DiscountService, InvalidDiscountError } from './discount.service';
 import { AIConversationService } from './ai-conversation.service';
+import { TranscriptionProvider } from './transcription.service';
+import { ChannelRouter } from './channels/channel-router';
+import { parseCustomerKey } from './channels/messaging-channel';
+import { SmsMessageType, SmsService } from './sms.service';
+import { EmailService } from './email.service';
+import { coverArtUrl, createShareToken, deliveredPageUrl, deliveredSongUrl, deliveredVariants, songMediaUrl } from './share-links';
+import { songTitle } from './audio-processing.service';
+import { ConversationEngine } from './conversation/conversation-engine';
+import { KeyedMutex } from './conversation/keyed-mutex';
+import { MessageAggregator } from './conversation/message-aggregator';
+import { defaultConversationSteps } from './conversation/steps';
+import { CONFIRM_OPTIONS, LYRICS_REVIEW_OPTIONS } from './conversation/selections';
 import { config } from '../config/config';
+import { COMMAND_WORDS, detectLocale, formatDate, Locale, localeFromPhone, localizeOptions, MessageKey, STATUS_PHRASES, t } from '../i18n';
 
-/**
- * Conversation state for collecting order information via WhatsApp
- */
-export interface ConversationState {
-  phone: string;
-  step:
-    | 'welcome'
-    | 'song_settings'      // Combined: type + style + vocal
-    | 'recipient_info'      // Combined: relation + name
-    | 'story_and_notes'     // Combined: story + notes
-    | 'confirm'             // Includes discount code
-    | 'lyrics_review_song1'
-    | 'processing';
-  data: Partial<OrderRequest>;
-  discountCode?: string;
-  discountAmount?: number;
-  finalPrice?: number;
-  lastUpdated: Date;
-  tempLyrics?: string;
-  lyricsRevisionCount?: number;
-  retryCount?: number;  // Track failed parse attempts per step
-  lastMessage?: string; // Track last user message to detect duplicates
-  duplicateCount?: number; // Count duplicate messages
-  waitingForCustomLyrics?: boolean; // User chose to write their own lyrics
-}
+export { ConversationState } from '../models/conversation.model';
 
 export class OrderService {
   private queueService?: FirebaseQueueService;
   private paytrService?: PaytrService;
   private discountService: DiscountService;
   private aiConversationService: AIConversationService;
+  private conversationEngine: ConversationEngine;
+  // Messages of one sender are handled strictly one after another
+  private phoneLocks = new KeyedMutex();
+  private messageAggregator: MessageAggregator;
+  private smsService?: SmsService;
+  private emailService?: EmailService;
 
   constructor(
     private sunoService: SunoService,
     private openaiService: OpenAIService,
-    private whatsappService: WhatsAppService,
+    private messaging: ChannelRouter,
     private firebaseService: FirebaseService,
     queueService?: FirebaseQueueService,
-    paytrService?: PaytrService
+    paytrService?: PaytrService,
+    private transcriptionProvider?: TranscriptionProvider
   ) {
     this.queueService = queueService;
     this.paytrService = paytrService;
     this.discountService = new DiscountService(firebaseService);
     this.aiConversationService = new AIConversationService(openaiService);
+    this.conversationEngine = this.createConversationEngine();
+    this.messageAggregator = new MessageAggregator(
+      firebaseService,
+      (phone) => this.phoneLocks.runExclusive(phone, () => this.processAggregatedMessages(phone)),
+      config.conversation.aggregationWindowMs
+    );
     // Start cleanup job for old conversations
     this.startCleanupJob();
+    // Resume aggregation windows interrupted by a restart
+    this.messageAggregator.restore().catch(error => {
+      console.error('Error restoring message buffers:', error);
+    });
+  }
+
+  /**
+   * SMS fallback for payment links and deliveries (called from index.ts when an SMS provider is configured)
+   */
+  setSmsService(smsService: SmsService): void {
+    this.smsService = smsService;
+  }
+
+  /**
+   * Lifecycle emails for web orders (called from index.ts when an email transport is configured)
+   */
+  setEmailService(emailService: EmailService): void {
+    this.emailService = emailService;
+  }
+
+  /**
+   * Create conversation engine with the default step handlers
+   */
+  private createConversationEngine(): ConversationEngine {
+    const engine = new ConversationEngine({
+      messaging: this.messaging,
+      firebaseService: this.firebaseService,
+      openaiService: this.openaiService,
+      aiConversationService: this.aiConversationService,
+      discountService: this.discountService,
+      transcriptionProvider: this.transcriptionProvider,
+      orders: {
+        sendOrderConfirmation: (conversation) => this.sendOrderConfirmation(conversation),
+        createOrderAndSendPaymentLink: (conversation) => this.createOrderAndSendPaymentLink(conversation),
+        sendPaymentLink: (order) => this.sendPaymentLink(order),
+        generateAndShowLyrics: (orderId) => this.generateAndShowLyrics(orderId),
+        startMusicGeneration: (orderId) => this.startMusicGeneration(orderId),
+        selectSongVariant: (orderId, variant) => this.selectSongVariant(orderId, variant),
+        calculatePrice: (options) => this.calculatePrice(options),
+      },
+    });
+
+    defaultConversationSteps.forEach(step => engine.register(step));
+    return engine;
   }
 
   /**
@@ -64,6 +112,7 @@ export class OrderService {
   private startCleanupJob(): void {
     setInterval(async () => {
       try {
+        await this.deliverExpiredVariantChoices();
         await this.firebaseService.cleanupOldConversations();
       } catch (error) {
         console.error('Cleanup job error:', error);
@@ -72,20 +121,113 @@ export class OrderService {
   }
 
   /**
-   * Handle incoming WhatsApp message
+   * Deliver the first variant of paid orders whose customer never answered "1 mi 2 mi?"
+   */
+  private async deliverExpiredVariantChoices(): Promise<void> {
+    const offeredBefore = new Date(Date.now() - config.songVariants.choiceTimeoutHours * 60 * 60 * 1000);
+    const orders = await this.firebaseService.getOrdersAwaitingVariantChoice(offeredBefore);
+
+    for (const order of orders) {
+      try {
+        // Under the phone lock so a choice arriving right now isn't delivered twice
+        await this.runSerialized(order.whatsappPhone, async () => {
+          await this.selectSongVariant(order.id, 1, true);
+        });
+      } catch (error: any) {
+        console.error(`Error delivering the first variant of order ${order.id}:`, error.message);
+      }
+    }
+  }
+
+  /**
+   * Handle incoming customer message (WhatsApp, Telegram or web chat - `from` is the customer key)
+   * Serialized per phone: a message waits until the previous one of the same
+   * sender is fully processed (state loaded, step applied, state saved)
+   */
+  async handleIncomingMessage(
+    from: string,
+    message: string,
+    selection?: ConversationSelection
+  ): Promise<void> {
+    await this.messaging.recordInboundMessage(from);
+    await this.runSerialized(from, () => this.processIncomingMessage(from, message, selection));
+  }
+
+  /**
+   * Run a conversation update under the phone lock
+   * The lock only covers this process - if another instance saved the
+   * conversation meanwhile, the versioned save fails and the message is
+   * retried once on the fresh state
+   */
+  private async runSerialized(phone: string, task: () => Promise<void>): Promise<void> {
+    await this.phoneLocks.runExclusive(phone, () => this.retryOnConflict(phone, task));
+  }
+
+  /**
+   * Run the task again once if the versioned conversation save failed
+   * The task must be repeatable - one-shot reads (e.g. the message buffer) happen before it
    */
-  async handleIncomingMessage(from: string, message: string): Promise<void> {
+  private async retryOnConflict(phone: string, task: () => Promise<void>): Promise<void> {
+    try {
+      await task();
+    } catch (error) {
+      if (!(error instanceof ConversationConflictError)) {
+        throw error;
+      }
+
+      console.warn(`⚠️ ${error.message} - retrying on fresh state`);
+      await this.firebaseService.logAnalytics('conversation_conflict', {
+        phone,
+        expectedVersion: error.expectedVersion,
+        storedVersion: error.storedVersion,
+        timestamp: new Date().toISOString(),
+      });
+      await task();
+    }
+  }
+
+  /**
+   * Handle the merged text once the aggregation window closed
+   * take() deletes the buffer, so it runs once - only the processing is retried
+   * Called under the phone lock
+   */
+  private async processAggregatedMessages(phone: string): Promise<void> {
+    const text = await this.messageAggregator.take(phone);
+    if (text) {
+      await this.retryOnConflict(phone, () => this.processIncomingMessage(phone, text, undefined, true));
+    }
+  }
+
+  private async processIncomingMessage(
+    from: string,
+    message: string,
+    selection?: ConversationSelection,
+    aggregated = false
+  ): Promise<void> {
     // Load conversation from Firebase
     let conversation = await this.firebaseService.getConversation(from);
 
+    // Global commands are recognized in every supported language
+    const messageLower = message.trim().toLocaleLowerCase('tr-TR');
+    const isCommand = (words: string[]) =>
+      words.includes(messageLower) || words.includes(message.trim().toLowerCase());
+
+    // Order status works at every step (and after the conversation was deleted)
+    const asksForStatus = isCommand(COMMAND_WORDS.status)
+      || (!conversation && STATUS_PHRASES.some(phrase => messageLower.includes(phrase)));
+    if (asksForStatus) {
+      await this.sendOrderStatus(from, conversation?.locale);
+      return;
+    }
+
     // Check if user says "merhaba" - reset conversation
-    const isGreeting = message.toLowerCase().trim() === 'merhaba' ||
-                       message.toLowerCase().trim() === 'hello' ||
-                       message.toLowerCase().trim() === 'hi';
+    // A paid order waiting for its variant choice keeps the conversation (the step re-asks)
+    const isGreeting = isCommand(COMMAND_WORDS.greeting) && conversation?.step !== 'variant_selection';
 
     if (!conversation || isGreeting) {
       // If greeting and conversation exists, delete old one first
       if (conversation && isGreeting) {
+        await this.messageAggregator.take(from);
         await this.firebaseService.deleteConversation(from);
         console.log(`🔄 Old conversation deleted for ${from}, starting fresh`);
       }
@@ -96,32 +238,25 @@ export class OrderService {
         step: 'welcome',
         data: {},
         lastUpdated: new Date(),
+        locale: await this.resolveLocale(from, message),
       };
 
       // Log analytics: conversation started
       await this.firebaseService.logAnalytics('conversation_started', {
         phone: from,
+        locale: conversation.locale,
         timestamp: new Date().toISOString(),
       });
     }
 
     // Update last activity
     conversation.lastUpdated = new Date();
+    const locale = conversation.locale;
 
-    // Handle special commands (Turkish-aware lowercase)
-    const messageLower = message.trim().toLocaleLowerCase('tr-TR');
-    if (messageLower === 'iptal' || messageLower === 'cancel') {
-      // Check if payment already made (lyrics_review step means payment completed)
-      if (conversation.step === 'lyrics_review_song1') {
-        await this.whatsappService.sendTextMessage(
-          from,
-          `⚠️ *Ödeme tamamlandıktan sonra iptal yapılamaz.*
-
-Herhangi bir sorun için lütfen iletişime geçin:
-📧 destek@bihediye.art
-
-Siparişiniz işleme devam ediyor...`
-        );
+    if (isCommand(COMMAND_WORDS.cancel)) {
+      // Check if payment already made (lyrics_review / variant_selection steps mean payment completed)
+      if (conversation.step === 'lyrics_review_song1' || conversation.step === 'variant_selection') {
+        await this.messaging.sendTextMessage(from, t(locale, 'command.cancelAfterPayment'));
         return;
       }
 
@@ -133,15 +268,7 @@ Siparişiniz işleme devam ediyor...`
 
         if (currentOrder) {
           // Payment was completed - cannot cancel
-          await this.whatsappService.sendTextMessage(
-            from,
-            `⚠️ *Ödeme tamamlandıktan sonra iptal yapılamaz.*
-
-Herhangi bir sorun için lütfen iletişime geçin:
-📧 destek@bihediye.art
-
-Siparişiniz işleme devam ediyor...`
-          );
+          await this.messaging.sendTextMessage(from, t(locale, 'command.cancelAfterPayment'));
           return;
         }
         // If no paid order found, allow cancellation (payment was not completed)
@@ -154,720 +281,262 @@ Siparişiniz işleme devam ediyor...`
         timestamp: new Date().toISOString(),
       });
 
+      await this.messageAggregator.take(from);
       await this.firebaseService.deleteConversation(from);
-      await this.whatsappService.sendTextMessage(from, '❌ Sipariş iptal edildi. Yeni sipariş için "merhaba" yazın.');
+      await this.messaging.sendTextMessage(from, t(locale, 'command.cancelled'));
       return;
     }
 
-    if (message.toLowerCase() === 'yardim' || message.toLowerCase() === 'help') {
-      await this.sendHelpMessage(from);
+    if (isCommand(COMMAND_WORDS.help)) {
+      await this.sendHelpMessage(from, locale);
       return;
     }
 
-    // Process based on current step
-    const shouldSaveConversation = await this.processConversationStep(conversation, message);
+    if (isCommand(COMMAND_WORDS.back) && conversation.step !== 'welcome') {
+      if (await this.conversationEngine.back(conversation)) {
+        await this.firebaseService.saveConversation(conversation);
+        return;
+      }
 
-    // Save conversation state to Firebase (unless processing step returned false)
-    if (shouldSaveConversation !== false) {
-      await this.firebaseService.saveConversation(conversation);
+      await this.messaging.sendTextMessage(
+        from,
+        conversation.step === 'song_settings'
+          ? t(locale, 'command.backAtFirstStep')
+          : t(locale, 'command.backNotAllowed')
+      );
+      return;
     }
-  }
 
-  /**
-   * Process conversation step
-   * Returns false if conversation should NOT be saved (e.g., processing step)
-   */
-  private async processConversationStep(conversation: ConversationState, message: string): Promise<boolean | void> {
-    const from = conversation.phone;
-
-    // Detect duplicate messages
-    if (conversation.lastMessage === message) {
-      conversation.duplicateCount = (conversation.duplicateCount || 0) + 1;
-
-      // After 2 duplicate messages, treat as retry failure
-      if (conversation.duplicateCount >= 2) {
-        console.log(`⚠️ Duplicate message detected ${conversation.duplicateCount} times: "${message}"`);
-        conversation.retryCount = (conversation.retryCount || 0) + 2; // Force fallback
-        conversation.duplicateCount = 0; // Reset
+    if (!aggregated) {
+      // Free text for a story-like step: wait for the rest of the message parts
+      if (!selection && this.conversationEngine.aggregatesText(conversation.step)) {
+        await this.messageAggregator.add(from, message);
+        return;
       }
-    } else {
-      // New message, reset duplicate counter
-      conversation.lastMessage = message;
-      conversation.duplicateCount = 0;
-    }
-
-    switch (conversation.step) {
-      case 'welcome':
-        await this.whatsappService.sendTextMessage(
-          from,
-          `🎵 *bihediye.art'a hoş geldiniz!*
-
-Sevdiklerinize yapay zeka ile özel şarkı hediye edin! 💝
-
-💰 ${config.pricing.songBasePrice} TL | ⏱️ 2 saat teslimat
-
-*📝 İKİ YÖNTEM:*
-
-*1️⃣ TEK MESAJDA HER ŞEYİ YAZIN:*
-Örnek: "Annem için Pop tarzında Romantik bir şarkı, Kadın sesi olsun. İsmini geçsin, adı Ayşe. 30 yıldır bize fedakarlıkla baktı, her zaman yanımızda oldu..."
-
-*2️⃣ ADIM ADIM İLERLEYELİM:*
-🎵 Tür: Pop, Rap, Jazz, Arabesk, Klasik, Rock, Metal, Nostaljik
-🎭 Tarz: Romantik, Duygusal, Eğlenceli, Sakin
-🎤 Vokal: Kadın, Erkek, Fark etmez
 
----
-💡 İptal: *"iptal"* yazın`
-        );
-        conversation.step = 'song_settings';
-        break;
-
-      case 'song_settings':
-        // CRITICAL: Ensure conversation.data exists
-        if (!conversation.data) {
-          conversation.data = {};
-        }
-
-        // Ensure song1 is initialized before accessing it
-        const existingSongData = (conversation.data.song1 || {}) as any;
-
-        // Pass existing song data to avoid re-asking for already collected info
-        const settingsResult = await this.aiConversationService.parseSongSettings(
-          message,
-          existingSongData
-        );
-
-        // PROGRESSIVE: Update conversation with collected data (even if partial)
-        conversation.data.song1 = {
-          type: settingsResult.type || existingSongData.type,
-          style: settingsResult.style || existingSongData.style,
-          vocal: settingsResult.vocal || existingSongData.vocal,
-          artistStyleDescription: settingsResult.artistStyleDescription || existingSongData.artistStyleDescription,
-        } as any;
-
-        console.log('💾 Updated conversation.data.song1:', conversation.data.song1);
-
-        // Check if ALL required fields are NOW present
-        const currentSongData = (conversation.data.song1 || {}) as any;
-        if (!currentSongData.type || !currentSongData.style || !currentSongData.vocal) {
-          // Increment retry counter
-          conversation.retryCount = (conversation.retryCount || 0) + 1;
-
-          // After 2 failed attempts, use random defaults
-          if (conversation.retryCount >= 2) {
-            conversation.data.song1 = {
-              type: currentSongData.type || 'Pop',
-              style: currentSongData.style || 'Eğlenceli',
-              vocal: currentSongData.vocal || 'Fark etmez',
-              artistStyleDescription: currentSongData.artistStyleDescription,
-            } as any;
-            conversation.retryCount = 0; // Reset counter
-
-            await this.whatsappService.sendTextMessage(
-              from,
-              `Üzgünüm, tam anlamadım 😊 Devam edebilmek için ${conversation.data.song1?.type || 'Pop'}, ${conversation.data.song1?.style || 'Eğlenceli'}, ${conversation.data.song1?.vocal || 'Fark etmez'} seçiyorum.`
-            );
-            // Continue to next step (don't return)
-          } else {
-            // Still missing info - send AI's response asking for missing fields
-            await this.whatsappService.sendTextMessage(from, settingsResult.response);
-            return; // Stay on same step, but conversation is saved with partial data
-          }
-        } else {
-          // Reset retry counter on success
-          conversation.retryCount = 0;
-        }
-
-        // All settings collected!
-
-        // Log analytics
-        await this.firebaseService.logAnalytics('song_settings_completed', {
-          phone: from,
-          songType: conversation.data.song1.type,
-          songStyle: conversation.data.song1.style,
-          vocal: conversation.data.song1.vocal,
-          hasArtistStyle: !!conversation.data.song1.artistStyleDescription,
-          timestamp: new Date().toISOString(),
-        });
-
-        // Next: recipient info
-        await this.whatsappService.sendTextMessage(
-          from,
-          `💝 *Hediye Bilgileri:*
-
-Bu kişi sizin neyiniz? (Annem, Sevgilim, vb.)
-Şarkıda ismini geçirmek ister misiniz? (Evet/Hayır)
-İsmi nedir? (Geçecekse)
-
-Örnek: "Annem, Evet, Fatma"
-
----
-💡 İptal etmek için *"iptal"* yazın.`
-        );
-        conversation.step = 'recipient_info';
-        break;
-
-      case 'recipient_info':
-        // CRITICAL: Ensure conversation.data exists
-        if (!conversation.data) {
-          conversation.data = {};
-        }
-
-        // PROGRESSIVE: Pass existing recipient data to avoid re-asking
-        const existingRecipient = {
-          relation: conversation.data.recipientRelation,
-          includeNameInSong: conversation.data.includeNameInSong,
-          name: conversation.data.recipientName,
-        };
-
-        const recipientResult = await this.aiConversationService.parseRecipientInfo(
-          message,
-          existingRecipient
-        );
-
-        // PROGRESSIVE: Update conversation with collected data (even if partial)
-        conversation.data.recipientRelation = recipientResult.relation || conversation.data.recipientRelation;
-        conversation.data.includeNameInSong = recipientResult.includeNameInSong ?? conversation.data.includeNameInSong;
-        conversation.data.recipientName = recipientResult.name || conversation.data.recipientName;
+      // Anything else (e.g. a button tapped right after typing) comes after the buffered text
+      if (this.messageAggregator.hasPending(from)) {
+        await this.processAggregatedMessages(from);
+        await this.processIncomingMessage(from, message, selection, true);
+        return;
+      }
+    }
 
-        console.log('💾 Updated conversation recipient data:', {
-          relation: conversation.data.recipientRelation,
-          includeNameInSong: conversation.data.includeNameInSong,
-          name: conversation.data.recipientName,
-        });
+    // Process based on current step
+    const shouldSaveConversation = await this.conversationEngine.process(conversation, message, selection);
 
-        // Check if ALL required fields are NOW present
-        if (!conversation.data.recipientRelation || conversation.data.includeNameInSong === null || conversation.data.includeNameInSong === undefined) {
-          // Increment retry counter
-          conversation.retryCount = (conversation.retryCount || 0) + 1;
-
-          // After 2 failed attempts, use random defaults
-          if (conversation.retryCount >= 2) {
-            const randomRelations = ['Annem', 'Sevgilim', 'Arkadaşım', 'Ailem'];
-            const randomRelation = randomRelations[Math.floor(Math.random() * randomRelations.length)];
-
-            conversation.data.recipientRelation = randomRelation;
-            conversation.data.includeNameInSong = false;
-            conversation.retryCount = 0; // Reset counter
-
-            await this.whatsappService.sendTextMessage(
-              from,
-              `Üzgünüm, tam anlamadım 😊 Devam edebilmek için "${randomRelation}" seçiyorum ve isim kullanmadan devam ediyorum.`
-            );
-            // Continue to next step (don't return)
-          } else {
-            await this.whatsappService.sendTextMessage(from, recipientResult.response);
-            return; // Stay on same step, but conversation is saved with partial data
-          }
-        } else {
-          // If name should be included but not provided, ask again
-          if (conversation.data.includeNameInSong && !conversation.data.recipientName) {
-            conversation.retryCount = (conversation.retryCount || 0) + 1;
-
-            if (conversation.retryCount >= 2) {
-              // Use a default name
-              conversation.data.recipientName = 'Sevgili';
-              conversation.retryCount = 0;
-
-              await this.whatsappService.sendTextMessage(
-                from,
-                `İsmi anlayamadım, "Sevgili" olarak devam ediyorum 😊`
-              );
-              // Continue to next step
-            } else {
-              await this.whatsappService.sendTextMessage(from, recipientResult.response);
-              return;
-            }
-          }
+    // Save conversation state to Firebase (unless the step handled persistence itself)
+    if (shouldSaveConversation) {
+      await this.firebaseService.saveConversation(conversation);
+    }
+  }
 
-          // Reset retry counter on success
-          conversation.retryCount = 0;
-        }
+  /**
+   * Send the customer's recent orders with queue position, progress and ETA
+   */
+  private async sendOrderStatus(from: string, conversationLocale?: Locale): Promise<void> {
+    const orders = await this.firebaseService.getOrdersByPhone(from, 5);
+    const locale = conversationLocale || orders[0]?.locale || localeFromPhone(from) || 'tr';
 
-        // Log analytics
-        await this.firebaseService.logAnalytics('recipient_info_completed', {
-          phone: from,
-          relation: recipientResult.relation,
-          includeNameInSong: recipientResult.includeNameInSong,
-          timestamp: new Date().toISOString(),
-        });
+    if (orders.length === 0) {
+      await this.messaging.sendTextMessage(from, t(locale, 'status.none'));
+      return;
+    }
 
-        // Next: story and notes
-        await this.whatsappService.sendTextMessage(
-          from,
-          `📖 *Hikayenizi Anlatın:*
+    const blocks: string[] = [];
+    for (const order of orders) {
+      const lines = [
+        t(locale, 'status.order', {
+          songType: order.orderData.song1?.type || '-',
+          date: order.createdAt ? formatDate(order.createdAt, locale) : '-',
+          orderId: order.id,
+          status: t(locale, `status.${order.status}` as MessageKey),
+        }),
+      ];
 
-Şarkıda geçmesini istediğiniz duyguları, anıları, hikayenizi yazın.
+      if (order.status === 'music_generating' || order.status === 'paid') {
+        lines.push(...await this.describeMusicProgress(order, locale));
+      }
 
-💡 Varsa özel isteklerinizi de ekleyebilirsiniz (tempo, stil, vb.)
+      blocks.push(lines.join('\n'));
+    }
 
-Örnek:
-"10 yıldır evliyiz, her zorluğu birlikte atlattık...
+    await this.messaging.sendTextMessage(
+      from,
+      `${t(locale, 'status.header')}
 
-Not: Slow tempo olsun"
+${blocks.join('\n\n')}
 
 ---
-💡 İptal etmek için *"iptal"* yazın.`
-        );
-        conversation.step = 'story_and_notes';
-        break;
-
-      case 'story_and_notes':
-        // CRITICAL: Ensure conversation.data exists
-        if (!conversation.data) {
-          conversation.data = {};
-        }
-
-        const storyResult = await this.aiConversationService.parseStoryAndNotes(message);
-
-        if (!storyResult.story) {
-          await this.whatsappService.sendTextMessage(from, storyResult.response);
-          return;
-        }
-
-        // Save story and notes
-        conversation.data.story = storyResult.story;
-        if (storyResult.notes) {
-          conversation.data.notes = storyResult.notes;
-        }
-
-        // Set delivery options (audio only)
-        conversation.data.deliveryOptions = {
-          audioFile: true,
-          musicPlatform: false,
-          video: false
-        };
-
-        // Log analytics
-        await this.firebaseService.logAnalytics('story_completed', {
-          phone: from,
-          hasNotes: !!storyResult.notes,
-          timestamp: new Date().toISOString(),
-        });
-
-        // Show order confirmation (includes discount code option)
-        await this.sendOrderConfirmation(conversation);
-        break;
-
-      case 'confirm':
-        // Handle discount code OR confirmation
-        const messageLower = message.toLowerCase().trim();
-
-        // Check if user is trying to apply discount code
-        if (messageLower !== 'evet' && messageLower !== 'hayır' && messageLower !== '1' && messageLower !== '2'
-            && messageLower !== 'onayla' && messageLower !== 'iptal' && !conversation.discountCode) {
-          // Try to apply discount code
-          const basePrice = this.calculatePrice(conversation.data.deliveryOptions!);
-          const discountResult = await this.discountService.validateAndApplyDiscount(
-            message.trim().toUpperCase(),
-            from,
-            basePrice
-          );
-
-          if (discountResult.isValid && discountResult.discountCode) {
-            // Save discount and show updated confirmation
-            conversation.discountCode = discountResult.discountCode.code;
-            conversation.discountAmount = discountResult.discountAmount;
-            conversation.finalPrice = discountResult.finalPrice;
-
-            await this.whatsappService.sendTextMessage(from, `${discountResult.message}
-
-Güncellenmiş sipariş özeti:`);
-            await this.sendOrderConfirmation(conversation);
-            return;
-          } else {
-            // Invalid code - show error and ask for confirmation
-            await this.whatsappService.sendTextMessage(
-              from,
-              `${discountResult.message}
-
-Yine de devam etmek ister misiniz?
-1️⃣ Evet
-2️⃣ Hayır`
-            );
-            return;
-          }
-        }
-
-        // Parse confirmation
-        const confirmResult = await this.aiConversationService.parseConfirmation(message);
-
-        if (confirmResult.confirmed === null) {
-          await this.whatsappService.sendTextMessage(from, confirmResult.response);
-          return;
-        }
-
-        if (confirmResult.confirmed === true) {
-          // Log analytics
-          await this.firebaseService.logAnalytics('conversation_completed', {
-            phone: from,
-            songType: conversation.data.song1?.type,
-            songStyle: conversation.data.song1?.style,
-            hasDiscount: !!conversation.discountCode,
-            timestamp: new Date().toISOString(),
-          });
-
-          await this.createOrderAndSendPaymentLink(conversation);
-        } else {
-          // Cancelled
-          await this.firebaseService.logAnalytics('conversation_abandoned', {
-            phone: from,
-            step: 'confirm',
-            reason: 'user_cancelled',
-            timestamp: new Date().toISOString(),
-          });
+${t(locale, 'status.footer')}`
+    );
+  }
 
-          await this.firebaseService.deleteConversation(from);
-          await this.whatsappService.sendTextMessage(from, '❌ Sipariş iptal edildi. Yeni sipariş için "merhaba" yazın.');
-        }
-        break;
-
-      case 'lyrics_review_song1':
-        // Check if we're waiting for custom lyrics from user
-        if (conversation.waitingForCustomLyrics) {
-          const orders = await this.firebaseService.getOrdersByPhone(from);
-          const pendingOrder = orders.find(o => o.status === 'lyrics_generating' || o.status === 'paid');
-
-          if (pendingOrder) {
-            // Check if user wrote lyrics with Suno AI format headers
-            const hasSunoFormat = /\[(Intro|Verse|Chorus|Bridge|Pre-Chorus|Outro|Instrumental Break)\]/i.test(message);
-
-            let finalLyrics = message;
-
-            if (!hasSunoFormat) {
-              // User didn't use format - let OpenAI format it
-              await this.whatsappService.sendTextMessage(from, '⏳ Sözlerinizi Suno AI formatına çeviriyoruz...');
-
-              try {
-                const formatResult = await this.openaiService.formatUserLyrics(message);
-                finalLyrics = formatResult.lyrics;
-
-                // Log token usage
-                if (formatResult.tokenUsage) {
-                  await this.firebaseService.logAnalytics('openai_token_usage', {
-                    orderId: pendingOrder.id,
-                    phone: pendingOrder.whatsappPhone,
-                    operation: 'format_user_lyrics',
-                    promptTokens: formatResult.tokenUsage.promptTokens,
-                    completionTokens: formatResult.tokenUsage.completionTokens,
-                    totalTokens: formatResult.tokenUsage.totalTokens,
-                    timestamp: new Date().toISOString(),
-                  });
-                }
-              } catch (error: any) {
-                console.error('Error formatting user lyrics:', error);
-                await this.whatsappService.sendTextMessage(
-                  from,
-                  `❌ Sözlerinizi formatlarken hata oluştu: ${error.message}\n\nLütfen tekrar deneyin veya başka sözler gönderin.`
-                );
-                return;
-              }
-            }
-
-            // Update order with custom lyrics
-            await this.firebaseService.updateOrder(pendingOrder.id, {
-              song1Lyrics: finalLyrics,
-            });
-
-            // Send confirmation and start music generation
-            await this.whatsappService.sendTextMessage(
-              from,
-              `✅ *Şarkı Sözleri Alındı!*
-
-${finalLyrics}
+  /**
+   * Queue position, progress and ETA lines for an order in music generation
+   */
+  private async describeMusicProgress(order: Order, locale: Locale): Promise<string[]> {
+    const music = await this.getMusicProgress(order);
 
----
+    const lines: string[] = [];
+    if (music.queuePosition) {
+      lines.push(t(locale, 'status.queuePosition', { position: music.queuePosition }));
+    }
+    if (music.progress !== undefined) {
+      lines.push(t(locale, 'status.progress', { progress: music.progress }));
+    }
+    lines.push(music.etaMinutes > 0
+      ? t(locale, 'status.eta', { minutes: music.etaMinutes })
+      : t(locale, 'status.etaSoon'));
 
-Müzik üretimine başlıyoruz! 🎵`
-            );
+    return lines;
+  }
 
-            conversation.waitingForCustomLyrics = false;
-            await this.firebaseService.deleteConversation(from);
-            await this.startMusicGeneration(pendingOrder.id);
-          }
-          return;
-        }
+  /**
+   * Queue position, progress and remaining minutes of an order in music generation
+   */
+  private async getMusicProgress(order: Order): Promise<{ queuePosition?: number; progress?: number; etaMinutes: number }> {
+    const job = this.queueService ? await this.queueService.getJobStatus(`${order.id}-song1`) : null;
+
+    if (!job || job.status === 'completed' || job.status === 'failed') {
+      // No queue info (sync mode) - fall back to the delivery estimate
+      const minutesLeft = order.estimatedDelivery
+        ? Math.ceil((order.estimatedDelivery.getTime() - Date.now()) / 60000)
+        : 0;
+      return { etaMinutes: Math.max(0, minutesLeft) };
+    }
 
-        // User is reviewing lyrics after payment
-        const reviewResult = await this.aiConversationService.parseLyricsReview(message);
+    const position = job.status === 'pending' ? await this.queueService!.getQueuePosition(job.id) : null;
+    return {
+      queuePosition: position || undefined,
+      progress: job.status === 'processing' ? job.progress : undefined,
+      etaMinutes: this.queueService!.estimateRemainingMinutes(job, position),
+    };
+  }
 
-        if (!reviewResult.action) {
-          await this.whatsappService.sendTextMessage(from, reviewResult.response);
-          return;
-        }
+  /**
+   * Public tracking link of an order (/track/:orderId?t=<token>)
+   * The token is created on first use and stored on the order
+   */
+  private async ensureTrackingUrl(order: Order): Promise<string> {
+    if (!order.trackingToken) {
+      order.trackingToken = randomBytes(16).toString('hex');
+      await this.firebaseService.updateOrder(order.id, { trackingToken: order.trackingToken });
+    }
 
-        if (reviewResult.action === 'approve') {
-          // User approved - start music generation
-          await this.whatsappService.sendTextMessage(from, reviewResult.response);
+    const baseUrl = process.env.BASE_URL || 'https://bihediye.art';
+    return `${baseUrl}/track/${order.id}?t=${order.trackingToken}`;
+  }
 
-          // Find order by phone
-          const orders = await this.firebaseService.getOrdersByPhone(from);
-          const pendingOrder = orders.find(o => o.status === 'lyrics_generating' || o.status === 'paid');
+  /**
+   * Chat language for a new conversation: the first message decides,
+   * otherwise the customer's last known language, then the phone country code
+   */
+  private async resolveLocale(phone: string, message: string): Promise<Locale> {
+    const detected = detectLocale(message);
+    const user = detected ? null : await this.firebaseService.getUser(phone);
+    const locale: Locale = detected || user?.locale || localeFromPhone(phone) || 'tr';
 
-          if (pendingOrder) {
-            // IMPORTANT: Delete conversation BEFORE starting music generation
-            // This resets user state to initial (allows new orders)
-            await this.firebaseService.deleteConversation(from);
+    if (detected) {
+      await this.firebaseService.saveUser(phone, { locale });
+    }
 
-            // Start music generation directly (lyrics already generated and approved)
-            await this.startMusicGeneration(pendingOrder.id);
-          }
-        } else if (reviewResult.action === 'revise') {
-          // User wants revision
-          const revisionCount = conversation.lyricsRevisionCount || 0;
-
-          if (revisionCount >= 2) {
-            // Max revisions reached
-            await this.whatsappService.sendTextMessage(
-              from,
-              `❌ Revizyon hakkınız dolmuştur (2/2).
-
-Şarkı sözleri mevcut haliyle onaylandı. Müzik üretimine geçiyoruz... 🎵`
-            );
-
-            const orders = await this.firebaseService.getOrdersByPhone(from);
-            const pendingOrder = orders.find(o => o.status === 'lyrics_generating' || o.status === 'paid');
-
-            if (pendingOrder) {
-              // Delete conversation first (reset user state)
-              await this.firebaseService.deleteConversation(from);
-
-              // Start music generation directly (lyrics already exist and approved)
-              await this.startMusicGeneration(pendingOrder.id);
-            }
-          } else {
-            // Process revision
-            await this.whatsappService.sendTextMessage(from, `${reviewResult.response} ⏳`);
-
-            const orders = await this.firebaseService.getOrdersByPhone(from);
-            const pendingOrder = orders.find(o => o.status === 'lyrics_generating' || o.status === 'paid');
-
-            if (pendingOrder && reviewResult.revisionRequest) {
-              // Revise lyrics
-              const revisionResult = await this.openaiService.reviseLyrics(
-                conversation.tempLyrics!,
-                reviewResult.revisionRequest
-              );
-
-              // Log token usage
-              if (revisionResult.tokenUsage) {
-                await this.firebaseService.logAnalytics('openai_token_usage', {
-                  orderId: pendingOrder.id,
-                  phone: pendingOrder.whatsappPhone,
-                  operation: 'lyrics_revision',
-                  revisionNumber: revisionCount + 1,
-                  promptTokens: revisionResult.tokenUsage.promptTokens,
-                  completionTokens: revisionResult.tokenUsage.completionTokens,
-                  totalTokens: revisionResult.tokenUsage.totalTokens,
-                  timestamp: new Date().toISOString(),
-                });
-              }
-
-              // Update conversation
-              conversation.tempLyrics = revisionResult.lyrics;
-              conversation.lyricsRevisionCount = revisionCount + 1;
-              await this.firebaseService.saveConversation(conversation);
-
-              // Update order
-              await this.firebaseService.updateOrder(pendingOrder.id, {
-                song1Lyrics: revisionResult.lyrics,
-                song1LyricsRevisionCount: revisionCount + 1,
-              });
-
-              // Send revised lyrics
-              const remainingRevisions = 2 - (revisionCount + 1);
-              await this.whatsappService.sendTextMessage(
-                from,
-                `📝 *Revize Edilmiş Şarkı Sözleri:*
-
-${revisionResult.lyrics}
+    return locale;
+  }
 
----
+  /**
+   * Handle a reply button / list selection
+   * Runs through the same flow as text (so "İptal" etc. still work) but steps
+   * apply the selected option directly instead of parsing it with the LLM
+   */
+  async handleIncomingSelection(from: string, selection: ConversationSelection): Promise<void> {
+    await this.handleIncomingMessage(from, selection.title, selection);
+  }
 
-✨ *Kalan revizyon hakkınız: ${remainingRevisions}/2*
+  /**
+   * Handle a WhatsApp reaction to one of our messages
+   * 👍 on the lyrics approves them (during lyrics review),
+   * ❤️ on the delivered song is recorded as customer satisfaction
+   */
+  async handleReaction(messageId: string, emoji: string): Promise<void> {
+    const message = await this.firebaseService.getOutboundMessage(messageId);
+    if (!message?.orderId) {
+      return;
+    }
 
-Ne yapmak istersiniz?
-1️⃣ Onayla (Müzik üretimine geç)
-2️⃣ ${remainingRevisions > 0 ? 'Tekrar Revize Et' : 'Revizyon hakkınız bitti'}
-3️⃣ Komple Ben Yazacağım (Suno AI formatında kendi sözlerinizi gönderin)
+    // Skin tones / emoji variation selectors don't change the meaning
+    const reaction = emoji.replace(/[\u{1F3FB}-\u{1F3FF}\uFE0F]/gu, '');
 
----
-💡 Destek: destek@bihediye.art`
-              );
-            }
-          }
-        } else if (reviewResult.action === 'write_own') {
-          // User wants to write their own lyrics
-          await this.whatsappService.sendTextMessage(from, reviewResult.response);
-          conversation.waitingForCustomLyrics = true;
-          await this.firebaseService.saveConversation(conversation);
+    if (message.kind === 'lyrics' && reaction === '👍') {
+      await this.runSerialized(message.to, async () => {
+        const conversation = await this.firebaseService.getConversation(message.to);
+        if (conversation?.step !== 'lyrics_review_song1' || conversation.waitingForCustomLyrics) {
           return;
         }
-        break;
-
-      case 'processing':
-        // User is waiting for payment - check for different actions
-        const trimmedMessage = message.trim();
-
-        if (trimmedMessage === '1') {
-          // User wants a new payment link
-          const orders = await this.firebaseService.getOrdersByPhone(from);
-          const pendingOrder = orders.find(o => o.status === 'payment_pending');
-
-          if (pendingOrder) {
-            await this.whatsappService.sendTextMessage(from, '🔄 Yeni ödeme linki oluşturuluyor...');
-
-            // Generate new payment link
-            await this.sendPaymentLink(pendingOrder);
 
-            console.log(`💳 New payment link generated for order ${pendingOrder.id}`);
-          } else {
-            await this.whatsappService.sendTextMessage(
-              from,
-              `❌ Ödeme bekleyen sipariş bulunamadı.
+        console.log(`👍 Lyrics approved by reaction for order ${message.orderId}`);
+        await this.processIncomingMessage(message.to, emoji, { id: 'lyrics:approve', title: emoji }, true);
+      });
+      return;
+    }
 
-Yeni sipariş için "merhaba" yazabilirsiniz.`
-            );
-          }
-          return false; // Don't save conversation
-        } else if (trimmedMessage.length >= 3 && /^[A-Z0-9]+$/i.test(trimmedMessage)) {
-          // User might be entering a discount code (3+ alphanumeric characters)
-          const orders = await this.firebaseService.getOrdersByPhone(from);
-          const pendingOrder = orders.find(o => o.status === 'payment_pending');
-
-          if (pendingOrder && !pendingOrder.discountCode) {
-            // Try to apply discount code
-            const discountResult = await this.discountService.validateAndApplyDiscount(
-              trimmedMessage.toUpperCase(),
-              from,
-              pendingOrder.totalPrice
-            );
-
-            if (discountResult.isValid && discountResult.discountCode) {
-              // Calculate new price
-              const newFinalPrice = discountResult.finalPrice;
-              const discountAmount = discountResult.discountAmount;
-
-              // Update order with discount
-              await this.firebaseService.updateOrder(pendingOrder.id, {
-                discountCode: discountResult.discountCode.code,
-                discountAmount: discountAmount,
-                totalPrice: newFinalPrice,
-              });
-
-              // Record discount usage
-              await this.discountService.recordDiscountUsage(
-                discountResult.discountCode.id,
-                pendingOrder.id,
-                from,
-                discountAmount,
-                pendingOrder.totalPrice,
-                newFinalPrice
-              );
-
-              // Send success message and new payment link
-              if (newFinalPrice === 0) {
-                // 100% discount - free order!
-                await this.whatsappService.sendTextMessage(
-                  from,
-                  `🎁 *İndirim Kodu Uygulandı!*
-
-${discountResult.message}
-
-💰 Yeni Tutar: 0 TL (Hediyemiz olsun! 🎁)
-
-Ödeme gerekmeden siparişiniz hazırlanacaktır! 🎵`
-                );
-
-                // Update order to paid status
-                await this.firebaseService.updateOrder(pendingOrder.id, {
-                  status: 'paid',
-                  paidAt: new Date(),
-                });
-
-                // Delete conversation
-                await this.firebaseService.deleteConversation(from);
-
-                // Start lyrics generation
-                await this.generateAndShowLyrics(pendingOrder.id);
-              } else {
-                // Partial discount - send new payment link
-                await this.whatsappService.sendTextMessage(
-                  from,
-                  `✅ *İndirim Kodu Uygulandı!*
-
-${discountResult.message}
-
-💰 Eski Tutar: ${pendingOrder.totalPrice} TL
-🎁 İndirim: -${discountAmount} TL
-✨ Yeni Tutar: ${newFinalPrice} TL
-
-Yeni ödeme linki oluşturuluyor... 🔄`
-                );
-
-                // Generate new payment link with updated price
-                await this.sendPaymentLink({
-                  ...pendingOrder,
-                  totalPrice: newFinalPrice,
-                  discountCode: discountResult.discountCode.code,
-                  discountAmount: discountAmount,
-                });
-              }
-
-              console.log(`✅ Discount code ${discountResult.discountCode.code} applied to order ${pendingOrder.id}`);
-            } else {
-              // Invalid discount code
-              await this.whatsappService.sendTextMessage(
-                from,
-                `${discountResult.message}
-
-⏳ *Ödemeniz bekleniyor...*
-
-Ödeme linkini kullanarak ödemeyi tamamlayın.
-
-💡 *Seçenekler:*
-• Rakam *"1"* yazarak yeni link alabilirsiniz
-• İndirim kodunuz varsa yazabilirsiniz
-• *"iptal"* yazarak siparişi iptal edebilirsiniz`
-              );
-            }
-            return false; // Don't save conversation
-          }
-        }
+    if (message.kind === 'audio' && reaction === '❤') {
+      const order = await this.firebaseService.getOrder(message.orderId);
+      if (!order || order.customerReaction) {
+        return;
+      }
 
-        // Default message - inform about waiting for payment
-        await this.whatsappService.sendTextMessage(
-          from,
-          `⏳ *Ödemeniz bekleniyor...*
+      await this.firebaseService.updateOrder(order.id, {
+        customerReaction: emoji,
+        customerReactionAt: new Date(),
+      });
 
-Ödeme linkini kullanarak ödemeyi tamamlayın.
+      await this.firebaseService.logAnalytics('song_loved', {
+        orderId: order.id,
+        phone: order.whatsappPhone,
+        reaction: emoji,
+        timestamp: new Date().toISOString(),
+      });
 
-💡 *Seçenekler:*
-• Rakam *"1"* yazarak yeni link alabilirsiniz
-• İndirim kodunuz varsa yazabilirsiniz
-• *"iptal"* yazarak siparişi iptal edebilirsiniz`
-        );
-        return false; // Don't save conversation
-        break;
+      await this.messaging.sendTextMessage(order.whatsappPhone, t(order.locale, 'order.reactionThanks'));
     }
   }
 
   /**
-   * Handle media (photo) from WhatsApp
+   * Handle media (photo, voice note) from the customer
    */
   async handleIncomingMedia(from: string, mediaUrl: string, mediaType: string): Promise<void> {
+    await this.messaging.recordInboundMessage(from);
+    await this.runSerialized(from, () => this.processIncomingMedia(from, mediaUrl, mediaType));
+  }
+
+  private async processIncomingMedia(from: string, mediaUrl: string, mediaType: string): Promise<void> {
     const conversation = await this.firebaseService.getConversation(from);
 
     if (!conversation) {
-      await this.whatsappService.sendTextMessage(
-        from,
-        'Önce sipariş başlatmalısınız. "merhaba" yazın.'
-      );
+      await this.messaging.sendTextMessage(from, t(undefined, 'command.startFirst'));
       return;
     }
 
     // Note: cover_photo step is deprecated (no longer used in WhatsApp flow)
-    // Media handling can be added here if needed for future features
+    // Only steps with a media handler (voice-note story) accept media
+    if (!this.conversationEngine.acceptsMedia(conversation.step)) {
+      if (mediaType === 'audio') {
+        await this.messaging.sendTextMessage(from, t(conversation.locale, 'command.mediaNotAccepted'));
+      }
+      return;
+    }
+
+    conversation.lastUpdated = new Date();
+
+    const shouldSaveConversation = await this.conversationEngine.processMedia(conversation, {
+      url: mediaUrl,
+      type: mediaType as ConversationMedia['type'],
+    });
+
+    if (shouldSaveConversation) {
+      await this.firebaseService.saveConversation(conversation);
+    }
   }
 
   /**
@@ -900,36 +569,36 @@ Yeni ödeme linki oluşturuluyor... 🔄`
       }
     }
 
-    let pricingText = '';
-    if (discountAmount > 0) {
-      pricingText = `💰 *Fiyat: ${basePrice} TL*
-🎁 *İndirim: -${discountAmount} TL* (${conversation.discountCode})
-✨ *Toplam: ${finalPrice} TL*`;
-    } else {
-      pricingText = `💰 *Toplam: ${finalPrice} TL*`;
-    }
-
-    const discountPrompt = discountAmount > 0 ? '' : `
-
-🎁 *İndirim kodunuz var mı?* Kodu yazın veya direkt onaylayın.`;
-
-    const summary = `📋 *Sipariş Özeti*
-
-🎵 ${data.song1?.type} | ${data.song1?.style} | ${data.song1?.vocal}
-👤 ${data.recipientRelation}${data.includeNameInSong ? ` (${data.recipientName})` : ''}
-
-${pricingText}
-
-⏰ 2 saat teslimat${discountPrompt}
-
-1️⃣ Onayla
-2️⃣ İptal
-
----
-💡 İptal etmek için *"iptal"* yazın.`;
+    const locale = conversation.locale;
+    const pricingText = discountAmount > 0
+      ? t(locale, 'confirm.priceDiscounted', {
+          basePrice,
+          discount: discountAmount,
+          code: conversation.discountCode,
+          price: finalPrice,
+        })
+      : t(locale, 'confirm.price', { price: finalPrice });
+
+    const summary = t(locale, 'confirm.summary', {
+      song: [data.song1?.type, data.song1?.style, data.song1?.vocal, this.describeSongLanguage(data.song1)]
+        .filter(Boolean)
+        .join(' | '),
+      recipient: `${data.recipientRelation}${data.includeNameInSong ? ` (${data.recipientName})` : ''}`,
+      pricing: pricingText,
+      discountPrompt: discountAmount > 0 ? '' : t(locale, 'confirm.discountPrompt'),
+    });
+
+    await this.messaging.sendButtonMessage(conversation.phone, summary, localizeOptions(CONFIRM_OPTIONS, locale));
+  }
 
-    await this.whatsappService.sendTextMessage(conversation.phone, summary);
-    conversation.step = 'confirm';
+  /**
+   * Song language for the order summary ("Karışık (Türkçe / İngilizce)")
+   */
+  private describeSongLanguage(song?: Partial<SongDetails>): string | undefined {
+    if (song?.language === 'Karışık' && song.bilingual) {
+      return `${song.language} (${song.bilingual.verse} / ${song.bilingual.chorus})`;
+    }
+    return song?.language;
   }
 
   /**
@@ -965,6 +634,7 @@ ${pricingText}
       const order: Order = {
         id: orderId,
         whatsappPhone: conversation.phone,
+        channel: parseCustomerKey(conversation.phone).channel,
         orderData: orderRequest,
         status: 'payment_pending', // Ödeme bekliyor
         basePrice: pricing.basePrice,
@@ -972,6 +642,7 @@ ${pricingText}
         totalPrice: finalPrice,
         discountCode: conversation.discountCode,
         discountAmount: discountAmount,
+        locale: conversation.locale,
         createdAt: new Date(),
         estimatedDelivery: new Date(Date.now() + 2 * 60 * 60 * 1000),
       };
@@ -1008,16 +679,9 @@ ${pricingText}
         console.log(`🎁 Free order detected (100% discount) - skipping payment for ${orderId}`);
 
         // Send confirmation
-        await this.whatsappService.sendTextMessage(
+        await this.messaging.sendTextMessage(
           conversation.phone,
-          `🎉 *Siparişiniz Onaylandı!*
-
-🎵 Sipariş No: ${orderId}
-💰 Tutar: 0 TL (Hediyemiz olsun! 🎁)
-
-Şarkınızın hazırlanmasına başlıyoruz! 2 saat içinde teslim edilecek.
-
-Teşekkür ederiz! ❤️`
+          t(conversation.locale, 'order.freeConfirmed', { orderId })
         );
 
         // Clean up conversation immediately (allow new orders)
@@ -1044,8 +708,8 @@ Teşekkür ederiz! ❤️`
         return;
       }
 
-      // For paid orders, set to processing step and save conversation
-      conversation.step = 'processing';
+      // For paid orders, move to processing step and save conversation
+      await this.conversationEngine.transition(conversation, 'processing');
       await this.firebaseService.saveConversation(conversation);
 
       // Generate payment link and send
@@ -1054,16 +718,9 @@ Teşekkür ederiz! ❤️`
       } else {
         // PayTR not configured - inform user
         console.error('❌ PayTR service not configured - cannot process payment');
-        await this.whatsappService.sendTextMessage(
+        await this.messaging.sendTextMessage(
           conversation.phone,
-          `❌ *Ödeme Sistemi Aktif Değil*
-
-Şu anda ödeme altyapımız yapılandırılmamış durumda.
-
-Lütfen daha sonra tekrar deneyin veya destek ile iletişime geçin:
-📧 support@bihediye.art
-
-Sipariş numaranız: ${orderId}`
+          t(conversation.locale, 'order.paymentUnavailable', { orderId })
         );
 
         // Cancel the order
@@ -1085,9 +742,9 @@ Sipariş numaranız: ${orderId}`
 
     } catch (error: any) {
       console.error('Error creating order:', error);
-      await this.whatsappService.sendTextMessage(
+      await this.messaging.sendTextMessage(
         conversation.phone,
-        `❌ Sipariş oluşturulurken hata: ${error.message}`
+        t(conversation.locale, 'order.createFailed', { message: error.message })
       );
     }
   }
@@ -1097,119 +754,41 @@ Sipariş numaranız: ${orderId}`
    */
   private async sendPaymentLink(order: Order): Promise<void> {
     try {
-      if (!this.paytrService) {
-        throw new Error('PayTR service not configured');
-      }
-
-      const baseUrl = process.env.BASE_URL || 'https://bihediye.art';
-
-      // Clean and prepare payment data (remove Turkish characters)
-      const cleanText = (text: string): string => {
-        return text
-          .replace(/ğ/g, 'g')
-          .replace(/Ğ/g, 'G')
-          .replace(/ü/g, 'u')
-          .replace(/Ü/g, 'U')
-          .replace(/ş/g, 's')
-          .replace(/Ş/g, 'S')
-          .replace(/ı/g, 'i')
-          .replace(/İ/g, 'I')
-          .replace(/ö/g, 'o')
-          .replace(/Ö/g, 'O')
-          .replace(/ç/g, 'c')
-          .replace(/Ç/g, 'C')
-          .replace(/[^a-zA-Z0-9\s]/g, ''); // Remove special characters
-      };
-
-      const recipientName = order.orderData.recipientName
-        ? cleanText(order.orderData.recipientName)
-        : 'Musteri';
-
       // Use phone number for email to ensure it's always valid
       const phoneClean = order.whatsappPhone.replace(/[^0-9]/g, ''); // Remove non-numeric chars
-      const userEmail = `${phoneClean}@bihediye.art`;
-
-      // Clean song type for basket
-      const songTypeClean = cleanText(order.orderData.song1.type);
+      const paymentUrl = await this.createPaymentLink(order, `${phoneClean}@bihediye.art`);
+
+      // Kullanıcıya ödeme linki gönder
+      await this.sendWithSmsFallback(
+        'payment_link',
+        order,
+        t(order.locale, 'sms.paymentLink', { orderId: order.id, url: paymentUrl }),
+        () => this.messaging.sendTextMessage(
+          order.whatsappPhone,
+          t(order.locale, 'order.paymentLink', { orderId: order.id, price: order.totalPrice, url: paymentUrl }),
+          {
+            orderId: order.id,
+            kind: 'payment_link',
+            locale: order.locale,
+            template: { id: 'payment_link', params: { orderId: order.id, price: order.totalPrice, url: paymentUrl } },
+          }
+        )
+      );
 
-      console.log('📝 PayTR request data:', {
+      // Log analytics: payment link sent
+      await this.firebaseService.logAnalytics('payment_link_sent', {
         orderId: order.id,
-        email: userEmail,
+        phone: order.whatsappPhone,
         amount: order.totalPrice,
-        userName: recipientName,
-        userPhone: order.whatsappPhone,
-        basketItem: `${songTypeClean} Sarki Hediyesi`,
+        timestamp: new Date().toISOString(),
       });
 
-      // Ödeme token oluştur
-      const tokenResponse = await this.paytrService.createPaymentToken(
-        {
-          orderId: order.id,
-          email: userEmail,
-          amount: order.totalPrice,
-          userIp: '85.34.0.1', // WhatsApp kullanıcısı için varsayılan IP
-          userName: recipientName,
-          userPhone: order.whatsappPhone,
-          basketItems: [
-            {
-              name: `${songTypeClean} Sarki Hediyesi`,
-              price: order.totalPrice,
-              quantity: 1,
-            },
-          ],
-        },
-        `${baseUrl}/payment/success?orderId=${order.id}`,
-        `${baseUrl}/payment/fail?orderId=${order.id}`
-      );
-
-      if (tokenResponse.status === 'success' && tokenResponse.token) {
-        const paymentUrl = `${baseUrl}/payment/${order.id}`;
-
-        // Kullanıcıya ödeme linki gönder
-        await this.whatsappService.sendTextMessage(
-          order.whatsappPhone,
-          `✅ *Sipariş Oluşturuldu!*
-
-🎵 Sipariş No: ${order.id}
-💰 Tutar: ${order.totalPrice} TL
-
-*Ödeme yapmak için:*
-👉 ${paymentUrl}
-
-⏰ Link 30 dakika geçerlidir.
-
-Ödeme tamamlandıktan sonra şarkınızın hazırlanmasına başlanacaktır!
-
----
-
-💡 *Seçenekler:*
-• Rakam *"1"* yazarak yeni link alabilirsiniz
-• İndirim kodunuz varsa yazabilirsiniz
-• *"iptal"* yazarak siparişi iptal edebilirsiniz`
-        );
-
-        // Store payment token in order
-        await this.firebaseService.updateOrder(order.id, {
-          paymentToken: tokenResponse.token,
-        });
-
-        // Log analytics: payment link sent
-        await this.firebaseService.logAnalytics('payment_link_sent', {
-          orderId: order.id,
-          phone: order.whatsappPhone,
-          amount: order.totalPrice,
-          timestamp: new Date().toISOString(),
-        });
-
-        console.log(`💳 Payment link sent for order ${order.id}`);
-      } else {
-        throw new Error(`PayTR token error: ${tokenResponse.reason || 'Unknown'}`);
-      }
+      console.log(`💳 Payment link sent for order ${order.id}`);
     } catch (error: any) {
       console.error('Error sending payment link:', error);
-      await this.whatsappService.sendTextMessage(
+      await this.messaging.sendTextMessage(
         order.whatsappPhone,
-        `❌ Ödeme linki oluşturulamadı. Lütfen daha sonra tekrar deneyin.`
+        t(order.locale, 'order.paymentLinkFailed')
       );
       throw error;
     }
@@ -1246,16 +825,14 @@ Sipariş numaranız: ${orderId}`
         timestamp: new Date().toISOString(),
       });
 
-      // Check if this is a WhatsApp order or web order (web orders use email as phone)
-      const isWebOrder = order.whatsappPhone.includes('@');
-
-      // For web orders, skip lyrics review and start processing directly
-      if (isWebOrder) {
-        console.log(`📱 Web order detected - skipping WhatsApp notifications for ${orderId}`);
+      // For web orders, skip lyrics review and start processing directly (notified by email)
+      if (order.channel === 'email') {
+        await this.notifyByEmail(order, email => email.sendPaymentSuccess(order));
         await this.processOrder(orderId);
       } else {
         // Generate lyrics and show to user (WhatsApp only)
-        await this.generateAndShowLyrics(orderId);
+        // Under the phone lock so a message arriving meanwhile can't overwrite the review state
+        await this.phoneLocks.runExclusive(order.whatsappPhone, () => this.generateAndShowLyrics(orderId));
       }
 
       console.log(`✅ Payment processed for order ${orderId}`);
@@ -1279,21 +856,12 @@ Sipariş numaranız: ${orderId}`
 
       // Different message for free vs paid orders
       const isFreeOrder = order.totalPrice === 0;
+      const trackUrl = await this.ensureTrackingUrl(order);
       const statusMessage = isFreeOrder
-        ? `🎁 *Sipariş Onaylandı!*
-
-🎵 Sipariş No: ${orderId}
-💰 0 TL (Hediyemiz olsun! 🎁)
-
-Şarkı sözleriniz yazılıyor... ⏳`
-        : `✅ *Ödeme Başarılı!*
-
-🎵 Sipariş No: ${orderId}
-💰 ${order.totalPrice} TL
+        ? t(order.locale, 'order.freeLyricsStarted', { orderId, trackUrl })
+        : t(order.locale, 'order.paymentSuccess', { orderId, price: order.totalPrice, trackUrl });
 
-Şarkı sözleriniz yazılıyor... ⏳`;
-
-      await this.whatsappService.sendTextMessage(order.whatsappPhone, statusMessage);
+      await this.messaging.sendTextMessage(order.whatsappPhone, statusMessage);
 
       const lyricsRequest = {
         songDetails: order.orderData.song1,
@@ -1302,6 +870,7 @@ Sipariş numaranız: ${orderId}`
         recipientRelation: order.orderData.recipientRelation,
         includeNameInSong: order.orderData.includeNameInSong,
         notes: order.orderData.notes,
+        locale: order.locale,
       };
 
       const lyricsResult = await this.openaiService.generateLyrics(lyricsRequest);
@@ -1320,8 +889,10 @@ Sipariş numaranız: ${orderId}`
       }
 
       // Save lyrics to order
+      order.song1Title = lyricsResult.title;
       await this.firebaseService.updateOrder(orderId, {
         song1Lyrics: lyricsResult.lyrics,
+        song1Title: lyricsResult.title,
         song1LyricsRevisionCount: 0,
       });
 
@@ -1333,27 +904,22 @@ Sipariş numaranız: ${orderId}`
         lastUpdated: new Date(),
         tempLyrics: lyricsResult.lyrics,
         lyricsRevisionCount: 0,
+        locale: order.locale,
       };
       await this.firebaseService.saveConversation(conversation);
 
       // Send lyrics to user
-      await this.whatsappService.sendTextMessage(
+      await this.messaging.sendTextMessage(
         order.whatsappPhone,
-        `📝 *Şarkı Sözleriniz Hazır!*
-
-${lyricsResult.lyrics}
-
----
-
-✨ *Dilerseniz şarkı sözüne revizyon verebilirsiniz. Hakkınız 2 tanedir.*
-
-Ne yapmak istersiniz?
-1️⃣ Onayla (Müzik üretimine geç)
-2️⃣ Revizyon İstiyorum (Değiştirmek istediğiniz kısmı yazın)
-3️⃣ Komple Ben Yazacağım (Suno AI formatında kendi sözlerinizi gönderin)
+        t(order.locale, 'order.lyricsReady', { lyrics: lyricsResult.lyrics }),
+        { orderId, kind: 'lyrics' }
+      );
 
----
-💡 Destek: destek@bihediye.art`
+      // Lyrics can exceed the interactive body limit - ask with buttons separately
+      await this.messaging.sendButtonMessage(
+        order.whatsappPhone,
+        t(order.locale, 'order.lyricsQuestion'),
+        localizeOptions(LYRICS_REVIEW_OPTIONS, order.locale)
       );
 
       console.log(`📝 Lyrics generated and sent to user for review: ${orderId}`);
@@ -1378,11 +944,13 @@ Ne yapmak istersiniz?
       const order: Order = {
         id: orderId,
         whatsappPhone: conversation.phone,
+        channel: parseCustomerKey(conversation.phone).channel,
         orderData: orderRequest,
         status: 'pending',
         basePrice: pricing.basePrice,
         additionalCosts: pricing.additionalCosts,
         totalPrice: pricing.totalPrice,
+        locale: conversation.locale,
         createdAt: new Date(),
         estimatedDelivery: new Date(Date.now() + 2 * 60 * 60 * 1000),
       };
@@ -1390,15 +958,16 @@ Ne yapmak istersiniz?
       // Save order to Firebase
       await this.firebaseService.saveOrder(order);
 
-      conversation.step = 'processing';
+      await this.conversationEngine.transition(conversation, 'processing');
       await this.firebaseService.saveConversation(conversation);
 
       // Send confirmation
-      await this.whatsappService.sendOrderConfirmation(
+      await this.messaging.sendOrderConfirmation(
         conversation.phone,
         orderId,
         order.totalPrice,
         order.estimatedDelivery || new Date(),
+        order.locale
       );
 
       // Log analytics
@@ -1418,9 +987,9 @@ Ne yapmak istersiniz?
 
     } catch (error: any) {
       console.error('Error creating order:', error);
-      await this.whatsappService.sendTextMessage(
+      await this.messaging.sendTextMessage(
         conversation.phone,
-        `❌ Sipariş oluşturulurken hata: ${error.message}`
+        t(conversation.locale, 'order.createFailed', { message: error.message })
       );
     }
   }
@@ -1476,10 +1045,13 @@ Ne yapmak istersiniz?
           songIndex: 1,
           request: {
             lyrics: order.song1Lyrics, // Use approved lyrics from order
+            title: order.song1Title,
             songType: synthesizedGenre, // Use synthesized genre
             style: order.orderData.song1.style,
             vocal: order.orderData.song1.vocal,
             artistStyleDescription: order.orderData.song1.artistStyleDescription,
+            language: order.orderData.song1.language,
+            bilingual: order.orderData.song1.bilingual,
           },
         });
         // Queue will handle the rest (music generation + delivery)
@@ -1490,10 +1062,13 @@ Ne yapmak istersiniz?
         console.log('⚠️ No queue service - using sync mode');
         const song1Task = await this.sunoService.generateMusic({
           lyrics: order.song1Lyrics, // Use approved lyrics
+          title: order.song1Title,
           songType: order.orderData.song1.type,
           style: order.orderData.song1.style,
           vocal: order.orderData.song1.vocal,
           artistStyleDescription: order.orderData.song1.artistStyleDescription,
+          language: order.orderData.song1.language,
+          bilingual: order.orderData.song1.bilingual,
         });
 
         const song1Music = await this.sunoService.waitForTaskCompletion(song1Task.task_id);
@@ -1504,13 +1079,13 @@ Ne yapmak istersiniz?
           song1AudioUrl: song1Music.file_url,
         });
 
-        await this.whatsappService.sendProgressUpdate(order.whatsappPhone, orderId, 'Müzikler hazır!', 70);
+        await this.messaging.sendProgressUpdate(order.whatsappPhone, orderId, t(order.locale, 'order.progress.musicReady'), 70, order.locale);
 
         // Generate video if requested
         if (order.orderData.deliveryOptions.video) {
           order.status = 'video_generating';
           await this.firebaseService.updateOrder(orderId, { status: 'video_generating' });
-          await this.whatsappService.sendProgressUpdate(order.whatsappPhone, orderId, 'Video oluşturuluyor...', 80);
+          await this.messaging.sendProgressUpdate(order.whatsappPhone, orderId, t(order.locale, 'order.progress.video'), 80, order.locale);
 
           const videoPrompt = await this.openaiService.generateVideoPrompt(
             order.orderData.story,
@@ -1533,13 +1108,20 @@ Ne yapmak istersiniz?
         // Complete
         order.status = 'completed';
         order.completedAt = new Date();
+        order.shareToken = order.shareToken || createShareToken();
         await this.firebaseService.updateOrder(orderId, {
           status: 'completed',
           completedAt: order.completedAt,
+          shareToken: order.shareToken,
         });
 
-        await this.whatsappService.sendProgressUpdate(order.whatsappPhone, orderId, 'Tamamlandı!', 100);
-        await this.whatsappService.sendOrderCompletion(order.whatsappPhone, orderId);
+        await this.messaging.sendProgressUpdate(order.whatsappPhone, orderId, t(order.locale, 'order.progress.completed'), 100, order.locale);
+        await this.sendWithSmsFallback(
+          'completion',
+          order,
+          t(order.locale, 'sms.completed', { orderId }),
+          () => this.messaging.sendOrderCompletion(order.whatsappPhone, orderId, order.locale, deliveredPageUrl(order))
+        );
 
         // Log analytics
         await this.firebaseService.logAnalytics('order_completed', {
@@ -1567,28 +1149,28 @@ Ne yapmak istersiniz?
         status: 'failed',
         errorMessage: error.message,
       });
-      await this.whatsappService.sendErrorMessage(order.whatsappPhone, orderId, error.message);
+      await this.messaging.sendErrorMessage(order.whatsappPhone, orderId, error.message, order.locale);
     }
   }
 
   /**
-   * Process order (same as order.routes.ts)
+   * Process order without lyrics review (web orders)
    */
   private async processOrder(orderId: string): Promise<void> {
     const order = await this.firebaseService.getOrder(orderId);
     if (!order) return;
 
-    // Check if this is a web order
-    const isWebOrder = order.whatsappPhone.includes('@');
+    // Web orders are notified by email instead of messages
+    const isWebOrder = order.channel === 'email';
 
     try {
       // Generate lyrics
       order.status = 'lyrics_generating';
       await this.firebaseService.updateOrder(orderId, { status: 'lyrics_generating' });
 
-      // Only send WhatsApp updates for WhatsApp orders
+      // Progress updates only go to messaging channels
       if (!isWebOrder) {
-        await this.whatsappService.sendProgressUpdate(order.whatsappPhone, orderId, 'Şarkı sözleri yazılıyor...', 10);
+        await this.messaging.sendProgressUpdate(order.whatsappPhone, orderId, t(order.locale, 'order.progress.lyrics'), 10, order.locale);
       }
 
       // Log analytics: lyrics generation started
@@ -1606,6 +1188,7 @@ Ne yapmak istersiniz?
         recipientRelation: order.orderData.recipientRelation,
         includeNameInSong: order.orderData.includeNameInSong,
         notes: order.orderData.notes,
+        locale: order.locale,
       };
 
       const lyricsResult = await this.openaiService.generateLyrics(lyricsRequest);
@@ -1624,7 +1207,12 @@ Ne yapmak istersiniz?
       }
 
       order.song1Lyrics = lyricsResult.lyrics;
-      await this.firebaseService.updateOrder(orderId, { song1Lyrics: lyricsResult.lyrics });
+      order.song1Title = lyricsResult.title;
+      await this.firebaseService.updateOrder(orderId, { song1Lyrics: lyricsResult.lyrics, song1Title: lyricsResult.title });
+
+      if (isWebOrder) {
+        await this.notifyByEmail(order, email => email.sendLyricsReady(order, lyricsResult.lyrics));
+      }
 
       // Synthesize music genre for Suno AI V5 (combines type + notes + artist styles)
       console.log('🎼 Synthesizing music genre for Suno AI V5...');
@@ -1653,10 +1241,13 @@ Ne yapmak istersiniz?
           songIndex: 1,
           request: {
             lyrics: lyricsResult.lyrics,
+            title: lyricsResult.title,
             songType: synthesizedGenre, // Use synthesized genre instead of basic type
             style: order.orderData.song1.style,
             vocal: order.orderData.song1.vocal,
             artistStyleDescription: order.orderData.song1.artistStyleDescription, // Pass artist style
+            language: order.orderData.song1.language,
+            bilingual: order.orderData.song1.bilingual,
           },
         });
         // Queue will handle the rest (music generation + delivery)
@@ -1666,10 +1257,13 @@ Ne yapmak istersiniz?
         console.log('⚠️ No queue service - using sync mode');
         const song1Task = await this.sunoService.generateMusic({
           lyrics: lyricsResult.lyrics,
+          title: lyricsResult.title,
           songType: order.orderData.song1.type,
           style: order.orderData.song1.style,
           vocal: order.orderData.song1.vocal,
           artistStyleDescription: order.orderData.song1.artistStyleDescription, // Pass artist style
+          language: order.orderData.song1.language,
+          bilingual: order.orderData.song1.bilingual,
         });
 
         const song1Music = await this.sunoService.waitForTaskCompletion(song1Task.task_id);
@@ -1680,14 +1274,18 @@ Ne yapmak istersiniz?
           song1AudioUrl: song1Music.file_url,
         });
 
-        await this.whatsappService.sendProgressUpdate(order.whatsappPhone, orderId, 'Müzikler hazır!', 70);
+        if (!isWebOrder) {
+          await this.messaging.sendProgressUpdate(order.whatsappPhone, orderId, t(order.locale, 'order.progress.musicReady'), 70, order.locale);
+        }
       }
 
       // Generate video if requested
       if (order.orderData.deliveryOptions.video) {
         order.status = 'video_generating';
         await this.firebaseService.updateOrder(orderId, { status: 'video_generating' });
-        await this.whatsappService.sendProgressUpdate(order.whatsappPhone, orderId, 'Video oluşturuluyor...', 80);
+        if (!isWebOrder) {
+          await this.messaging.sendProgressUpdate(order.whatsappPhone, orderId, t(order.locale, 'order.progress.video'), 80, order.locale);
+        }
 
         const videoPrompt = await this.openaiService.generateVideoPrompt(
           order.orderData.story,
@@ -1710,13 +1308,23 @@ Ne yapmak istersiniz?
       // Complete
       order.status = 'completed';
       order.completedAt = new Date();
+      order.shareToken = order.shareToken || createShareToken();
       await this.firebaseService.updateOrder(orderId, {
         status: 'completed',
         completedAt: order.completedAt,
+        shareToken: order.shareToken,
       });
 
-      await this.whatsappService.sendProgressUpdate(order.whatsappPhone, orderId, 'Tamamlandı!', 100);
-      await this.whatsappService.sendOrderCompletion(order.whatsappPhone, orderId);
+      // Web orders get a single "song delivered" email from deliverOrder
+      if (!isWebOrder) {
+        await this.messaging.sendProgressUpdate(order.whatsappPhone, orderId, t(order.locale, 'order.progress.completed'), 100, order.locale);
+        await this.sendWithSmsFallback(
+          'completion',
+          order,
+          t(order.locale, 'sms.completed', { orderId }),
+          () => this.messaging.sendOrderCompletion(order.whatsappPhone, orderId, order.locale, deliveredPageUrl(order))
+        );
+      }
 
       // Log analytics
       await this.firebaseService.logAnalytics('order_completed', {
@@ -1744,7 +1352,9 @@ Ne yapmak istersiniz?
         status: 'failed',
         errorMessage: error.message,
       });
-      await this.whatsappService.sendErrorMessage(order.whatsappPhone, orderId, error.message);
+      if (!isWebOrder) {
+        await this.messaging.sendErrorMessage(order.whatsappPhone, orderId, error.message, order.locale);
+      }
     }
   }
 
@@ -1752,13 +1362,207 @@ Ne yapmak istersiniz?
    * Deliver order
    */
   private async deliverOrder(order: Order): Promise<void> {
+    if (order.channel === 'email') {
+      if (order.song1AudioUrl) {
+        const downloadUrl = order.shareToken ? songMediaUrl(order.shareToken, { download: true }) : order.song1AudioUrl;
+        await this.notifyByEmail(order, email => email.sendSongDelivered(order, downloadUrl));
+      }
+      return;
+    }
+
+    if (order.song1AudioUrl && order.coverArtPath && order.shareToken) {
+      // Cover art first - the song follows as audio
+      await this.sendCoverArt(order, order.shareToken);
+    }
+
     if (order.song1AudioUrl) {
       // Send audio link (sendAudioMessage already includes nice message)
-      await this.whatsappService.sendAudioMessage(order.whatsappPhone, order.song1AudioUrl);
+      await this.sendWithSmsFallback(
+        'download_link',
+        order,
+        t(order.locale, 'sms.downloadLink', { url: deliveredPageUrl(order)! }),
+        () => this.messaging.sendAudioMessage(order.whatsappPhone, deliveredSongUrl(order)!, { orderId: order.id, locale: order.locale })
+      );
     }
 
     if (order.videoUrl) {
-      await this.whatsappService.sendVideoMessage(order.whatsappPhone, order.videoUrl, 'Hediyenizin videosu 🎬');
+      await this.messaging.sendVideoMessage(order.whatsappPhone, order.videoUrl, t(order.locale, 'order.videoCaption'));
+    }
+  }
+
+  /**
+   * Send the generated cover art as an image - best effort, the song is what matters
+   */
+  private async sendCoverArt(order: Order, shareToken: string): Promise<void> {
+    try {
+      await this.messaging.sendImageMessage(
+        order.whatsappPhone,
+        coverArtUrl(shareToken),
+        t(order.locale, 'cover.caption', { title: songTitle(order) })
+      );
+    } catch (error: any) {
+      console.error(`Error sending cover art of order ${order.id}:`, error.message);
+    }
+  }
+
+  /**
+   * Open the variant_selection conversation of a finished order (called by the queue via index.ts)
+   * Runs under the phone lock like every conversation update. A customer who already
+   * started a new conversation keeps it - returns false and gets the first variant.
+   */
+  async openVariantSelection(order: Order, shareToken: string): Promise<boolean> {
+    let opened = false;
+
+    await this.runSerialized(order.whatsappPhone, async () => {
+      if (await this.firebaseService.getConversation(order.whatsappPhone)) {
+        console.log(`ℹ️ ${order.whatsappPhone} is in another conversation - delivering variant 1 of order ${order.id}`);
+        order.song1SelectedVariant = 1;
+        await this.firebaseService.updateOrder(order.id, { song1SelectedVariant: 1 });
+        opened = false;
+        return;
+      }
+
+      order.status = 'variant_selection';
+      order.shareToken = shareToken;
+      order.variantOfferedAt = new Date();
+      await this.firebaseService.updateOrder(order.id, {
+        status: 'variant_selection',
+        shareToken,
+        variantOfferedAt: order.variantOfferedAt,
+      });
+
+      await this.firebaseService.saveConversation({
+        phone: order.whatsappPhone,
+        step: 'variant_selection',
+        data: order.orderData,
+        lastUpdated: new Date(),
+        locale: order.locale,
+      });
+      opened = true;
+    });
+
+    return opened;
+  }
+
+  /**
+   * Deliver the variant the customer chose - the other one stays in Storage (upsell)
+   * timedOut: nobody answered in time and the first variant is delivered instead
+   * Returns false when the order has no such variant
+   */
+  private async selectSongVariant(orderId: string, variantNumber: number, timedOut = false): Promise<boolean> {
+    const order = await this.firebaseService.getOrder(orderId);
+    const variant = order?.song1Variants?.find(candidate => candidate.number === variantNumber);
+    if (!order || order.status !== 'variant_selection' || !variant) {
+      return false;
+    }
+
+    order.song1SelectedVariant = variant.number;
+    order.song1AudioUrl = variant.audioUrl;
+    order.song1AudioPath = variant.audioPath;
+    order.status = 'completed';
+    order.completedAt = new Date();
+    order.shareToken = order.shareToken || createShareToken();
+    await this.firebaseService.updateOrder(orderId, {
+      song1SelectedVariant: variant.number,
+      song1AudioUrl: variant.audioUrl,
+      song1AudioPath: variant.audioPath,
+      status: 'completed',
+      completedAt: order.completedAt,
+      shareToken: order.shareToken,
+    });
+    await this.firebaseService.deleteConversation(order.whatsappPhone);
+
+    await this.messaging.sendTextMessage(
+      order.whatsappPhone,
+      t(order.locale, timedOut ? 'variant.timedOut' : 'variant.selected', { number: variant.number })
+    );
+    await this.deliverOrder(order);
+    await this.sendWithSmsFallback(
+      'completion',
+      order,
+      t(order.locale, 'sms.completed', { orderId }),
+      () => this.messaging.sendOrderCompletion(order.whatsappPhone, orderId, order.locale, deliveredPageUrl(order))
+    );
+
+    await this.firebaseService.logAnalytics('song_variant_selected', {
+      orderId,
+      phone: order.whatsappPhone,
+      variant: variant.number,
+      variantCount: order.song1Variants!.length,
+      timedOut,
+      timestamp: new Date().toISOString(),
+    });
+
+    console.log(`🎧 Variant ${variant.number} selected for order ${orderId}`);
+    return true;
+  }
+
+  /**
+   * Send a critical notification with SMS as fallback (policy per type in config.sms.fallback)
+   */
+  private async sendWithSmsFallback(
+    type: SmsMessageType,
+    order: Order,
+    smsMessage: string,
+    send: () => Promise<void>
+  ): Promise<void> {
+    if (!this.smsService) {
+      await send();
+      return;
+    }
+    await this.smsService.deliverWithFallback(type, order.whatsappPhone, send, smsMessage);
+  }
+
+  /**
+   * Lifecycle email for a web order (skipped with a warning when email is not configured)
+   */
+  private async notifyByEmail(order: Order, send: (email: EmailService) => Promise<boolean>): Promise<void> {
+    if (!this.emailService) {
+      console.warn(`⚠️ Email not configured - web order ${order.id} not notified`);
+      return;
+    }
+    await send(this.emailService);
+  }
+
+  /**
+   * WhatsApp reported a payment link / song delivery as failed for good - reach the customer by SMS
+   * Called by DeliveryTrackingService after its resends, and by WhatsAppService for
+   * background retries that never got out
+   */
+  async handleUndeliveredMessage(message: OutboundMessage): Promise<void> {
+    if (!this.smsService || !message.orderId) {
+      return;
+    }
+
+    const order = await this.firebaseService.getOrder(message.orderId);
+    if (!order) {
+      return;
+    }
+
+    let sent = false;
+    if (message.kind === 'payment_link') {
+      const paymentUrl = `${process.env.BASE_URL || 'https://bihediye.art'}/payment/${order.id}`;
+      sent = await this.smsService.sendDeliveryFallback(
+        'payment_link',
+        order.whatsappPhone,
+        t(order.locale, 'sms.paymentLink', { orderId: order.id, url: paymentUrl })
+      );
+    } else if (message.kind === 'audio' && order.song1AudioUrl) {
+      sent = await this.smsService.sendDeliveryFallback(
+        'download_link',
+        order.whatsappPhone,
+        t(order.locale, 'sms.downloadLink', { url: deliveredPageUrl(order)! })
+      );
+    }
+
+    if (sent) {
+      await this.firebaseService.logAnalytics('sms_fallback_sent', {
+        orderId: order.id,
+        phone: order.whatsappPhone,
+        kind: message.kind,
+        failedMessageId: message.id,
+        timestamp: new Date().toISOString(),
+      });
     }
   }
 
@@ -1830,18 +1634,8 @@ Ne yapmak istersiniz?
   /**
    * Send help message
    */
-  private async sendHelpMessage(from: string): Promise<void> {
-    await this.whatsappService.sendTextMessage(
-      from,
-      `📚 *Yardım*
-
-Komutlar:
-• "merhaba" - Yeni sipariş başlat
-• "iptal" - Mevcut siparişi iptal et
-• "yardim" - Bu mesajı göster
-
-Destek: support@bihediye.art`
-    );
+  private async sendHelpMessage(from: string, locale?: Locale): Promise<void> {
+    await this.messaging.sendTextMessage(from, t(locale, 'command.help'));
   }
 
   /**
@@ -1851,6 +1645,79 @@ Destek: support@bihediye.art`
     return await this.firebaseService.getOrder(orderId);
   }
 
+  /**
+   * Live state of an order for the tracking page
+   * Lyrics are only shown once approved, progress and ETA only during music generation
+   */
+  async getTrackingState(order: Order): Promise<OrderTrackingState> {
+    const lyricsApproved = ['music_generating', 'variant_selection', 'video_generating', 'completed'].includes(order.status);
+    const state: OrderTrackingState = {
+      orderId: order.id,
+      status: order.status,
+      songType: order.orderData.song1?.type,
+      recipientName: order.orderData.recipientName,
+      lyrics: lyricsApproved ? order.song1Lyrics : undefined,
+      audioUrl: order.status === 'completed' ? deliveredSongUrl(order) : undefined,
+      shareUrl: order.status === 'completed' ? deliveredPageUrl(order) : undefined,
+      updatedAt: new Date().toISOString(),
+    };
+
+    if (order.status === 'paid' || order.status === 'music_generating') {
+      Object.assign(state, await this.getMusicProgress(order));
+    }
+
+    return state;
+  }
+
+  /**
+   * Order by its share token - null unless delivered or waiting for the variant choice (previews)
+   */
+  async getOrderByShareToken(shareToken: string): Promise<Order | null> {
+    const order = await this.firebaseService.getOrderByShareToken(shareToken);
+    return order?.status === 'completed' || order?.status === 'variant_selection' ? order : null;
+  }
+
+  /**
+   * Fresh URL of the delivered song file for /media
+   * Storage files stay private - a short-lived signed URL is created per request
+   * @param options.variant - Suno variant: any while choosing, afterwards only delivered ones
+   */
+  async getSongFileUrl(order: Order, options: { variant?: number; download?: boolean } = {}): Promise<string | null> {
+    let audioPath = order.song1AudioPath;
+    let audioUrl = order.song1AudioUrl;
+
+    if (options.variant) {
+      const variants = order.status === 'variant_selection' ? order.song1Variants || [] : deliveredVariants(order);
+      const variant = variants.find(candidate => candidate.number === options.variant);
+      if (!variant) {
+        return null;
+      }
+      audioPath = variant.audioPath;
+      audioUrl = variant.audioUrl;
+    }
+
+    if (audioPath) {
+      return await this.firebaseService.getSignedFileUrl(
+        audioPath,
+        60 * 60 * 1000, // 1 hour
+        options.download ? `bihediye-${order.id}${options.variant ? `-${options.variant}` : ''}.mp3` : undefined
+      );
+    }
+
+    // Sync mode / older orders: only the provider URL is stored
+    return audioUrl || null;
+  }
+
+  /**
+   * Fresh URL of the generated cover art for /cover
+   */
+  async getCoverArtUrl(order: Order): Promise<string | null> {
+    if (!order.coverArtPath) {
+      return null;
+    }
+    return await this.firebaseService.getSignedFileUrl(order.coverArtPath, 60 * 60 * 1000);
+  }
+
   /**
    * Get all orders
    */
@@ -1858,6 +1725,13 @@ Destek: support@bihediye.art`
     return await this.firebaseService.getAllOrders();
   }
 
+  /**
+   * Orders whose song failed the audio quality gate (admin review)
+   */
+  async getOrdersNeedingAudioReview(): Promise<Order[]> {
+    return await this.firebaseService.getOrdersNeedingAudioReview();
+  }
+
   /**
    * Get orders by phone
    */
@@ -1879,32 +1753,82 @@ Destek: support@bihediye.art`
     return await this.firebaseService.getStats();
   }
 
+  /**
+   * Whether payment links can be created (PayTR configured)
+   */
+  isPaymentConfigured(): boolean {
+    return !!this.paytrService;
+  }
+
+  /**
+   * Price of a web order with an optional discount code (checkout preview)
+   * The customer identity (phone or email) is checked against allowedPhones
+   */
+  async previewDiscount(code: string, customer: string): Promise<{
+    isValid: boolean;
+    message: string;
+    basePrice: number;
+    discountAmount: number;
+    finalPrice: number;
+  }> {
+    const pricing = this.calculatePriceDetails({});
+    const result = await this.discountService.validateAndApplyDiscount(code, customer, pricing.totalPrice);
+
+    return {
+      isValid: result.isValid,
+      message: result.message,
+      basePrice: pricing.totalPrice,
+      discountAmount: result.discountAmount,
+      finalPrice: result.finalPrice,
+    };
+  }
+
   /**
    * Create order from web (no WhatsApp conversation)
-   * For mobile/web app users
+   * For mobile/web app users - notified by email
+   * An invalid discount code is rejected (the checkout previews it first)
    */
-  async createWebOrder(orderRequest: OrderRequest, userId: string, userEmail: string): Promise<{
+  async createWebOrder(
+    orderRequest: OrderRequest,
+    userId: string,
+    userEmail: string,
+    options: { discountCode?: string; locale?: Locale } = {}
+  ): Promise<{
     orderId: string;
-    paymentUrl: string;
+    paymentUrl: string | null;
     totalPrice: number;
     discountApplied: number;
     finalPrice: number;
   }> {
     try {
       const orderId = uuidv4().replace(/-/g, '');
+      const customer = orderRequest.phone || userEmail;
 
       // Calculate pricing
       const pricing = this.calculatePriceDetails(orderRequest.deliveryOptions);
 
+      let discount: Awaited<ReturnType<DiscountService['validateAndApplyDiscount']>> | null = null;
+      if (options.discountCode) {
+        discount = await this.discountService.validateAndApplyDiscount(options.discountCode, customer, pricing.totalPrice);
+        if (!discount.isValid) {
+          throw new InvalidDiscountError(options.discountCode, discount.message);
+        }
+      }
+
       // Create order
       const order: Order = {
         id: orderId,
-        whatsappPhone: orderRequest.phone || userEmail,
+        whatsappPhone: customer,
+        channel: 'email',
+        customerEmail: userEmail,
         orderData: orderRequest,
         status: 'payment_pending',
         basePrice: pricing.basePrice,
         additionalCosts: pricing.additionalCosts,
-        totalPrice: pricing.totalPrice,
+        totalPrice: discount ? discount.finalPrice : pricing.totalPrice,
+        discountCode: discount?.discountCode?.code,
+        discountAmount: discount?.discountAmount || 0,
+        locale: options.locale,
         createdAt: new Date(),
         estimatedDelivery: new Date(Date.now() + 2 * 60 * 60 * 1000),
       };
@@ -1912,86 +1836,139 @@ Destek: support@bihediye.art`
       // Save order
       await this.firebaseService.saveOrder(order);
 
+      if (discount?.discountCode && discount.discountAmount > 0) {
+        await this.discountService.recordDiscountUsage(
+          discount.discountCode.id,
+          orderId,
+          customer,
+          discount.discountAmount,
+          pricing.totalPrice,
+          order.totalPrice
+        );
+      }
+
       // Log analytics
       await this.firebaseService.logAnalytics('order_created_web', {
         orderId,
         userId,
         userEmail,
         totalPrice: order.totalPrice,
+        discountCode: order.discountCode,
         timestamp: new Date().toISOString(),
       });
 
-      // Generate payment link
-      if (!this.paytrService) {
-        throw new Error('Payment system not configured');
-      }
-
-      const baseUrl = process.env.BASE_URL || 'https://bihediye.art';
-
-      const cleanText = (text: string): string => {
-        return text
-          .replace(/ğ/g, 'g')
-          .replace(/Ğ/g, 'G')
-          .replace(/ü/g, 'u')
-          .replace(/Ü/g, 'U')
-          .replace(/ş/g, 's')
-          .replace(/Ş/g, 'S')
-          .replace(/ı/g, 'i')
-          .replace(/İ/g, 'I')
-          .replace(/ö/g, 'o')
-          .replace(/Ö/g, 'O')
-          .replace(/ç/g, 'c')
-          .replace(/Ç/g, 'C')
-          .replace(/[^a-zA-Z0-9\s]/g, '');
+      const result = {
+        orderId,
+        paymentUrl: null as string | null,
+        totalPrice: pricing.totalPrice,
+        discountApplied: order.discountAmount || 0,
+        finalPrice: order.totalPrice,
       };
 
-      const recipientName = order.orderData.recipientName
-        ? cleanText(order.orderData.recipientName)
-        : 'Musteri';
-
-      const songTypeClean = cleanText(order.orderData.song1.type);
-
-      const tokenResponse = await this.paytrService.createPaymentToken(
-        {
-          orderId: order.id,
-          email: userEmail,
-          amount: order.totalPrice,
-          userIp: '85.34.0.1',
-          userName: recipientName,
-          userPhone: order.whatsappPhone,
-          basketItems: [
-            {
-              name: `${songTypeClean} Sarki Hediyesi`,
-              price: order.totalPrice,
-              quantity: 1,
-            },
-          ],
-        },
-        `${baseUrl}/payment/success?orderId=${order.id}`,
-        `${baseUrl}/payment/fail?orderId=${order.id}`
-      );
-
-      if (tokenResponse.status !== 'success' || !tokenResponse.token) {
-        throw new Error(`Payment token creation failed: ${tokenResponse.reason || 'Unknown'}`);
+      // Free order (100% discount) - no payment, start right away
+      if (order.totalPrice === 0) {
+        console.log(`🎁 Free web order ${orderId} - skipping payment`);
+        await this.firebaseService.updateOrder(orderId, { status: 'paid', paidAt: new Date() });
+        this.processOrder(orderId).catch(error => {
+          console.error(`Error processing free web order ${orderId}:`, error);
+        });
+        return result;
       }
 
-      // Store payment token
-      await this.firebaseService.updateOrder(orderId, {
-        paymentToken: tokenResponse.token,
-      });
+      result.paymentUrl = await this.createWebPaymentLink(order);
 
-      const paymentUrl = `${baseUrl}/payment/${order.id}`;
+      await this.notifyByEmail(order, email => email.sendOrderReceived(order, result.paymentUrl!));
 
-      return {
-        orderId,
-        paymentUrl,
-        totalPrice: order.totalPrice,
-        discountApplied: 0,
-        finalPrice: order.totalPrice,
-      };
+      return result;
     } catch (error: any) {
       console.error('Error creating web order:', error);
       throw error;
     }
   }
+
+  /**
+   * Create (or renew) the PayTR payment link of a web order
+   */
+  async createWebPaymentLink(order: Order): Promise<string> {
+    return this.createPaymentLink(order, order.customerEmail || order.whatsappPhone);
+  }
+
+  /**
+   * Create a PayTR payment token for the order and store it
+   * Shared by the WhatsApp and web flows - returns the payment page URL
+   */
+  private async createPaymentLink(order: Order, email: string): Promise<string> {
+    if (!this.paytrService) {
+      throw new Error('PayTR service not configured');
+    }
+
+    const baseUrl = process.env.BASE_URL || 'https://bihediye.art';
+
+    // PayTR only accepts plain ASCII names
+    const recipientName = order.orderData.recipientName
+      ? paytrText(order.orderData.recipientName)
+      : 'Musteri';
+    const basketItem = `${paytrText(order.orderData.song1.type)} Sarki Hediyesi`;
+
+    console.log('📝 PayTR request data:', {
+      orderId: order.id,
+      email,
+      amount: order.totalPrice,
+      userName: recipientName,
+      userPhone: order.whatsappPhone,
+      basketItem,
+    });
+
+    // Ödeme token oluştur
+    const tokenResponse = await this.paytrService.createPaymentToken(
+      {
+        orderId: order.id,
+        email,
+        amount: order.totalPrice,
+        userIp: '85.34.0.1', // Mesajlaşma / web müşterisi için varsayılan IP
+        userName: recipientName,
+        userPhone: order.whatsappPhone,
+        basketItems: [
+          {
+            name: basketItem,
+            price: order.totalPrice,
+            quantity: 1,
+          },
+        ],
+      },
+      `${baseUrl}/payment/success?orderId=${order.id}`,
+      `${baseUrl}/payment/fail?orderId=${order.id}`
+    );
+
+    if (tokenResponse.status !== 'success' || !tokenResponse.token) {
+      throw new Error(`PayTR token error: ${tokenResponse.reason || 'Unknown'}`);
+    }
+
+    // Store payment token in order
+    await this.firebaseService.updateOrder(order.id, {
+      paymentToken: tokenResponse.token,
+    });
+
+    return `${baseUrl}/payment/${order.id}`;
+  }
+}
+
+/**
+ * Turkish characters to ASCII, special characters removed (PayTR user name / basket)
+ */
+function paytrText(text: string): string {
+  return text
+    .replace(/ğ/g, 'g')
+    .replace(/Ğ/g, 'G')
+    .replace(/ü/g, 'u')
+    .replace(/Ü/g, 'U')
+    .replace(/ş/g, 's')
+    .replace(/Ş/g, 'S')
+    .replace(/ı/g, 'i')
+    .replace(/İ/g, 'I')
+    .replace(/ö/g, 'o')
+    .replace(/Ö/g, 'O')
+    .replace(/ç/g, 'c')
+    .replace(/Ç/g, 'C')
+    .replace(/[^a-zA-Z0-9\s]/g, ''); // Remove special characters
 }
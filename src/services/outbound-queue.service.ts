@@ -0,0 +1,373 @@
+import { v4 as uuidv4 } from 'uuid';
+import { KeyedMutex } from './conversation/keyed-mutex';
+import type { BirdMessage } from './whatsapp.service';
+import {
+  CRITICAL_MESSAGE_KINDS,
+  OutboundMessageMeta,
+  QueuedOutboundMessage,
+} from '../models/outbound-message.model';
+
+/**
+ * Where queued messages are kept across restarts (FirebaseService)
+ */
+export interface OutboundQueueStore {
+  saveQueuedMessage(entry: QueuedOutboundMessage): Promise<void>;
+  updateQueuedMessage(id: string, updates: Partial<QueuedOutboundMessage>): Promise<void>;
+  deleteQueuedMessage(id: string): Promise<void>;
+  getQueuedMessages(status: QueuedOutboundMessage['status']): Promise<QueuedOutboundMessage[]>;
+}
+
+export interface OutboundQueueOptions {
+  ratePerSecond: number; // Global send rate (Bird channel throughput)
+  maxAttempts: number;   // Attempts before a message is dead-lettered
+  baseDelayMs: number;   // First backoff delay, doubled per attempt
+  maxDelayMs: number;
+}
+
+/**
+ * Bird's answer to an accepted message
+ */
+export interface BirdSendResponse {
+  id: string;
+  status?: string;
+}
+
+/**
+ * Posts the payload to Bird, returns the response data
+ */
+export type OutboundTransport = (payload: BirdMessage) => Promise<BirdSendResponse>;
+
+/**
+ * Called after every successful send, background retries included (delivery tracking)
+ */
+export type OutboundSentHandler = (payload: BirdMessage, sent: BirdSendResponse, meta: OutboundMessageMeta) => Promise<void>;
+
+/**
+ * Called when a message nobody waits for any more is dead-lettered (background retry or
+ * resumed after a restart) - its caller never saw an error (SMS fallback)
+ */
+export type OutboundUndeliveredHandler = (entry: QueuedOutboundMessage) => Promise<void>;
+
+/**
+ * Outcome of the first attempt: sent, or left to a background retry
+ */
+export type OutboundSendResult = { status: 'sent'; id: string } | { status: 'deferred' };
+
+/**
+ * Outbound WhatsApp send queue
+ * - Messages to the same recipient go out strictly in enqueue order
+ * - All sends share one global rate limit
+ * - 429 / 5xx / network errors are retried with exponential backoff in the background:
+ *   the caller only waits for the first attempt (it may hold the conversation lock),
+ *   later messages to that recipient are queued behind the retried one
+ * - Other errors go straight back to the caller (template fallback etc.)
+ * - Messages that run out of attempts are kept as dead letters for the admin panel;
+ *   the undelivered handler hears about those whose caller had already moved on
+ * - Payment links and audio deliveries are persisted until sent and resumed by restore()
+ *   after a restart; a crash right after Bird accepted the message can send it twice
+ */
+export class OutboundQueueService {
+  private recipientLocks = new KeyedMutex();
+  private backlogs = new Map<string, Promise<void>>(); // Recipients with a message waiting for a retry
+  private nextSlotAt = 0;
+  private store?: OutboundQueueStore;
+  private undeliveredHandler?: OutboundUndeliveredHandler;
+
+  constructor(
+    private transport: OutboundTransport,
+    private onSent: OutboundSentHandler,
+    private options: OutboundQueueOptions
+  ) {}
+
+  setStore(store: OutboundQueueStore): void {
+    this.store = store;
+  }
+
+  setUndeliveredHandler(handler: OutboundUndeliveredHandler): void {
+    this.undeliveredHandler = handler;
+  }
+
+  /**
+   * Queue a message and wait for its first attempt
+   * Resolves with the Bird message id, or 'deferred' when the message was left for a
+   * background retry; rejects with permanent errors
+   */
+  async enqueue(payload: BirdMessage, meta: OutboundMessageMeta = {}): Promise<OutboundSendResult> {
+    const now = new Date();
+    const entry: QueuedOutboundMessage = {
+      id: uuidv4(),
+      to: payload.receiver.contacts[0]?.identifierValue,
+      payload,
+      meta,
+      status: 'pending',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const persisted = this.isCritical(entry) && await this.persist(entry);
+    return this.deliver(entry, persisted, false);
+  }
+
+  /**
+   * Resume persisted messages after a restart (called from index.ts)
+   * Returns the number of resumed messages
+   */
+  async restore(): Promise<number> {
+    if (!this.store) {
+      return 0;
+    }
+
+    const pending = await this.store.getQueuedMessages('pending');
+    pending
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .forEach(entry => {
+        this.deliver(entry, true, true).catch(error => {
+          console.error(`Error resuming queued message ${entry.id}:`, error.message);
+        });
+      });
+
+    if (pending.length > 0) {
+      console.log(`📮 Resumed ${pending.length} queued outbound messages`);
+    }
+    return pending.length;
+  }
+
+  async getDeadLetters(): Promise<QueuedOutboundMessage[]> {
+    if (!this.store) {
+      return [];
+    }
+
+    const deadLetters = await this.store.getQueuedMessages('dead');
+    return deadLetters.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  /**
+   * Send a dead letter again (admin panel), with a fresh set of attempts
+   */
+  async retryDeadLetter(id: string): Promise<OutboundSendResult> {
+    const entry = (await this.getDeadLetters()).find(deadLetter => deadLetter.id === id);
+    if (!entry) {
+      throw new Error(`Dead letter ${id} not found`);
+    }
+
+    entry.status = 'pending';
+    entry.attempts = 0;
+    entry.updatedAt = new Date();
+    await this.store!.updateQueuedMessage(id, { status: 'pending', attempts: 0, updatedAt: entry.updatedAt });
+
+    return this.deliver(entry, true, true);
+  }
+
+  async deleteDeadLetter(id: string): Promise<void> {
+    await this.store?.deleteQueuedMessage(id);
+  }
+
+  /**
+   * Wait until every background retry has finished (tests / shutdown)
+   */
+  async settled(): Promise<void> {
+    while (this.backlogs.size > 0) {
+      await Promise.all(this.backlogs.values());
+    }
+  }
+
+  /**
+   * First attempt under the recipient lock - retries are left to the recipient's backlog
+   * restored = nobody is waiting for the result, so permanent errors are dead-lettered too
+   */
+  private deliver(entry: QueuedOutboundMessage, persisted: boolean, restored: boolean): Promise<OutboundSendResult> {
+    const recipient = entry.to || 'unknown';
+
+    return this.recipientLocks.runExclusive(recipient, async (): Promise<OutboundSendResult> => {
+      // A message to this recipient is waiting for a retry - keep the order
+      if (this.backlogs.has(recipient)) {
+        await this.defer(recipient, entry, persisted, 0);
+        return { status: 'deferred' };
+      }
+
+      await this.waitForSlot();
+      try {
+        const sent = await this.attempt(entry, persisted);
+        return { status: 'sent', id: sent.id };
+      } catch (error: any) {
+        if (this.shouldRetry(entry, error)) {
+          await this.defer(recipient, entry, persisted, this.backoffDelay(entry.attempts, error), error);
+          return { status: 'deferred' };
+        }
+
+        if (this.isRetryable(error) || restored) {
+          await this.deadLetter(entry, error);
+          if (restored) {
+            await this.reportUndelivered(entry);
+          }
+        } else if (persisted) {
+          // Caller handles permanent errors (template fallback) - don't resend after a restart
+          await this.remove(entry.id);
+        }
+        throw error;
+      }
+    });
+  }
+
+  private async attempt(entry: QueuedOutboundMessage, persisted: boolean): Promise<BirdSendResponse> {
+    entry.attempts++;
+    const sent = await this.transport(entry.payload);
+
+    if (persisted) {
+      await this.remove(entry.id);
+    }
+    await this.onSent(entry.payload, sent, entry.meta);
+    return sent;
+  }
+
+  /**
+   * Append the message to the recipient's backlog (stored, so a restart resumes it)
+   */
+  private async defer(recipient: string, entry: QueuedOutboundMessage, persisted: boolean, delay: number, error?: any): Promise<void> {
+    if (error) {
+      console.warn(`Outbound message to ${entry.to} failed (attempt ${entry.attempts}), retrying in ${delay}ms:`,
+        this.describeError(error));
+    }
+
+    const stored = persisted || await this.persist(entry);
+    const previous = this.backlogs.get(recipient) || Promise.resolve();
+    const backlog = previous.then(() => this.retry(entry, stored, delay));
+
+    this.backlogs.set(recipient, backlog);
+    backlog.then(() => {
+      if (this.backlogs.get(recipient) === backlog) {
+        this.backlogs.delete(recipient);
+      }
+    });
+  }
+
+  /**
+   * Background retries with backoff - never rejects, failures end as dead letters
+   */
+  private async retry(entry: QueuedOutboundMessage, persisted: boolean, delay: number): Promise<void> {
+    while (true) {
+      if (delay > 0) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+      await this.waitForSlot();
+
+      try {
+        await this.attempt(entry, persisted);
+        return;
+      } catch (error: any) {
+        if (this.shouldRetry(entry, error)) {
+          delay = this.backoffDelay(entry.attempts, error);
+          console.warn(`Outbound message to ${entry.to} failed (attempt ${entry.attempts}), retrying in ${delay}ms:`,
+            this.describeError(error));
+          continue;
+        }
+
+        // Nobody waits for the result any more - kept for the admin panel
+        await this.deadLetter(entry, error);
+        await this.reportUndelivered(entry);
+        return;
+      }
+    }
+  }
+
+  private shouldRetry(entry: QueuedOutboundMessage, error: any): boolean {
+    return this.isRetryable(error) && entry.attempts < this.options.maxAttempts;
+  }
+
+  /**
+   * Wait for the next free slot of the global rate limit
+   */
+  private async waitForSlot(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlotAt);
+    this.nextSlotAt = slot + 1000 / this.options.ratePerSecond;
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+
+  /**
+   * Rate limited, Bird side failure or no response at all
+   */
+  private isRetryable(error: any): boolean {
+    if (!error.response) {
+      return true;
+    }
+    const status = error.response.status;
+    return status === 429 || status >= 500;
+  }
+
+  /**
+   * Exponential backoff, Retry-After wins when Bird sends one
+   */
+  private backoffDelay(attempt: number, error: any): number {
+    const retryAfter = Number(error.response?.headers?.['retry-after']);
+    if (retryAfter > 0) {
+      return Math.min(retryAfter * 1000, this.options.maxDelayMs);
+    }
+    return Math.min(this.options.baseDelayMs * 2 ** (attempt - 1), this.options.maxDelayMs);
+  }
+
+  private async deadLetter(entry: QueuedOutboundMessage, error: any): Promise<void> {
+    entry.status = 'dead';
+    entry.lastError = this.describeError(error);
+    entry.updatedAt = new Date();
+
+    console.error(`💀 Outbound message to ${entry.to} dead-lettered after ${entry.attempts} attempts:`, entry.lastError);
+
+    if (!this.store) {
+      return;
+    }
+    try {
+      await this.store.saveQueuedMessage(entry);
+    } catch (storeError: any) {
+      console.error('Error saving dead letter:', storeError.message);
+    }
+  }
+
+  private async reportUndelivered(entry: QueuedOutboundMessage): Promise<void> {
+    if (!this.undeliveredHandler) {
+      return;
+    }
+    try {
+      await this.undeliveredHandler(entry);
+    } catch (error: any) {
+      console.error(`Error reporting undelivered message ${entry.id}:`, error.message);
+    }
+  }
+
+  private isCritical(entry: QueuedOutboundMessage): boolean {
+    return !!entry.meta.kind && CRITICAL_MESSAGE_KINDS.includes(entry.meta.kind);
+  }
+
+  /**
+   * Store a pending message (a store failure only costs durability, not the send)
+   */
+  private async persist(entry: QueuedOutboundMessage): Promise<boolean> {
+    if (!this.store) {
+      return false;
+    }
+    try {
+      await this.store.saveQueuedMessage(entry);
+      return true;
+    } catch (error: any) {
+      console.error('Error persisting queued message:', error.message);
+      return false;
+    }
+  }
+
+  private async remove(id: string): Promise<void> {
+    try {
+      await this.store?.deleteQueuedMessage(id);
+    } catch (error: any) {
+      console.error(`Error removing queued message ${id}:`, error.message);
+    }
+  }
+
+  private describeError(error: any): string {
+    const details = error.response?.data ? JSON.stringify(error.response.data) : error.message;
+    return error.response?.status ? `${error.response.status} ${details}` : String(details);
+  }
+}
@@ -2,7 +2,7 @@
 import Bull, { Queue, Job } from 'bull';
 import { MinimaxService, MusicGenerationRequest } from './minimax.service';
 import { FirebaseService } from './firebase.service';
-import { WhatsAppService } from './whatsapp.service';
+import { ChannelRouter } from './channels/channel-router';
 
 export interface MusicGenerationJob {
   orderId: string;
@@ -15,17 +15,17 @@ export class QueueService {
   private musicQueue: Queue<MusicGenerationJob>;
   private minimaxService: MinimaxService;
   private firebaseService: FirebaseService;
-  private whatsappService: WhatsAppService;
+  private messaging: ChannelRouter;
 
   constructor(
     minimaxService: MinimaxService,
     firebaseService: FirebaseService,
-    whatsappService: WhatsAppService,
+    messaging: ChannelRouter,
     redisUrl?: string
   ) {
     this.minimaxService = minimaxService;
     this.firebaseService = firebaseService;
-    this.whatsappService = whatsappService;
+    this.messaging = messaging;
 
     // Initialize Bull queue with Redis
     this.musicQueue = new Bull<MusicGenerationJob>('music-generation', redisUrl || 'redis://127.0.0.1:6379', {
@@ -62,7 +62,7 @@ export class QueueService {
     });
 
     // Notify user that job is queued
-    await this.whatsappService.sendProgressUpdate(
+    await this.messaging.sendProgressUpdate(
       jobData.phoneNumber,
       jobData.orderId,
       `Şarkı ${jobData.songIndex} hazırlanmaya başlandı...`,
@@ -90,7 +90,7 @@ export class QueueService {
       await job.progress(10);
 
       // Send status update to user
-      await this.whatsappService.sendProgressUpdate(
+      await this.messaging.sendProgressUpdate(
         phoneNumber,
         orderId,
         `Şarkı ${songIndex} için müzik oluşturuluyor...`,
@@ -129,12 +129,12 @@ export class QueueService {
 
       // Send music file to user via WhatsApp
       console.log(`📤 Sending music file to user...`);
-      await this.whatsappService.sendAudioMessage(phoneNumber, musicResult.file_url);
+      await this.messaging.sendAudioMessage(phoneNumber, musicResult.file_url, { orderId, locale: order.locale });
 
       await job.progress(100);
 
       // Send completion message
-      await this.whatsappService.sendOrderCompletion(phoneNumber, orderId);
+      await this.messaging.sendOrderCompletion(phoneNumber, orderId, order.locale);
 
       console.log(`🎉 Job ${job.id} completed successfully`);
 
@@ -149,7 +149,7 @@ export class QueueService {
       // If this is the last attempt, notify user
       if (job.attemptsMade + 1 >= 3) {
         console.error(`❌ Job ${job.id} failed after 3 attempts - notifying user`);
-        await this.whatsappService.sendErrorMessage(
+        await this.messaging.sendErrorMessage(
           phoneNumber,
           orderId,
           'Music generation failed after multiple attempts'
@@ -0,0 +1,60 @@
+import { randomBytes } from 'crypto';
+import { Order, SongVariant } from '../models/order.model';
+
+/**
+ * Permanent links of a delivered song
+ * /s/:shareToken     - share page (player, lyrics, dedication)
+ * /media/:shareToken - audio file, signed from private Storage on every request
+ *                      (?variant=2 for the second Suno variant, ?download=1 to download)
+ * /cover/:shareToken - generated cover art (PNG)
+ * Signed Storage URLs expire after 7 days, so customers only ever get these links.
+ */
+
+function baseUrl(): string {
+  return process.env.BASE_URL || 'https://bihediye.art';
+}
+
+export function createShareToken(): string {
+  return randomBytes(16).toString('hex');
+}
+
+export function sharePageUrl(shareToken: string): string {
+  return `${baseUrl()}/s/${shareToken}`;
+}
+
+export function songMediaUrl(shareToken: string, options: { variant?: number; download?: boolean } = {}): string {
+  const query = [
+    options.variant ? `variant=${options.variant}` : '',
+    options.download ? 'download=1' : '',
+  ].filter(Boolean).join('&');
+  return `${baseUrl()}/media/${shareToken}${query ? `?${query}` : ''}`;
+}
+
+export function coverArtUrl(shareToken: string): string {
+  return `${baseUrl()}/cover/${shareToken}`;
+}
+
+/**
+ * Variants the customer owns: the chosen one, or all of them (bundle)
+ * The unchosen variant stays private (upsell)
+ */
+export function deliveredVariants(order: Order): SongVariant[] {
+  const variants = order.song1Variants || [];
+  return order.song1SelectedVariant
+    ? variants.filter(variant => variant.number === order.song1SelectedVariant)
+    : variants;
+}
+
+/**
+ * Audio link of a delivered order (orders delivered before share links: the stored URL)
+ */
+export function deliveredSongUrl(order: Order): string | undefined {
+  return order.shareToken ? songMediaUrl(order.shareToken) : order.song1AudioUrl;
+}
+
+/**
+ * Page link of a delivered order (orders delivered before share links: the stored URL)
+ */
+export function deliveredPageUrl(order: Order): string | undefined {
+  return order.shareToken ? sharePageUrl(order.shareToken) : order.song1AudioUrl;
+}
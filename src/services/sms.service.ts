@@ -0,0 +1,187 @@
+import axios, { AxiosInstance } from 'axios';
+import { parseCustomerKey } from './channels/messaging-channel';
+
+/**
+ * SMS gateway
+ * Returns the provider's message / job id
+ */
+export interface SmsProvider {
+  readonly name: string;
+  send(to: string, message: string): Promise<string>;
+}
+
+export interface NetgsmConfig {
+  usercode: string;
+  password: string;
+  header: string; // Approved sender name (msgheader)
+}
+
+// Netgsm result codes (anything but 00/01/02 is an error)
+const NETGSM_ERRORS: Record<string, string> = {
+  '20': 'message text too long or invalid',
+  '30': 'invalid credentials or API access not enabled',
+  '40': 'sender header not approved',
+  '50': 'IYS controlled send not allowed for this account',
+  '51': 'no IYS brand code for this account',
+  '70': 'invalid parameters',
+  '80': 'send limit exceeded',
+  '85': 'duplicate message limit exceeded',
+};
+
+/**
+ * Netgsm HTTP GET API
+ */
+export class NetgsmSmsProvider implements SmsProvider {
+  readonly name = 'netgsm';
+  private client: AxiosInstance;
+
+  constructor(private config: NetgsmConfig) {
+    this.client = axios.create({
+      baseURL: 'https://api.netgsm.com.tr',
+      timeout: 30000,
+    });
+  }
+
+  async send(to: string, message: string): Promise<string> {
+    try {
+      const response = await this.client.get('/sms/send/get', {
+        params: {
+          usercode: this.config.usercode,
+          password: this.config.password,
+          gsmno: to.replace(/\D/g, ''),
+          message,
+          msgheader: this.config.header,
+          dil: 'TR',
+        },
+      });
+
+      const [code, jobId] = String(response.data).trim().split(/\s+/);
+      if (!['00', '01', '02'].includes(code)) {
+        throw new Error(`Netgsm ${code}: ${NETGSM_ERRORS[code] || 'unknown error'}`);
+      }
+
+      return jobId;
+    } catch (error: any) {
+      console.error('Netgsm SMS error:', error.response?.data || error.message);
+      throw new Error(`SMS gönderme hatası: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Local fake - keeps sent messages in memory (tests / local development)
+ */
+export class FakeSmsProvider implements SmsProvider {
+  readonly name = 'fake';
+  readonly sent: Array<{ to: string; message: string; sentAt: Date }> = [];
+
+  async send(to: string, message: string): Promise<string> {
+    this.sent.push({ to, message, sentAt: new Date() });
+    console.log(`📱 Fake SMS to ${to}: ${message}`);
+    return `fake-${this.sent.length}`;
+  }
+}
+
+/**
+ * Create the configured SMS provider (null = SMS disabled)
+ */
+export function createSmsProvider(config: { provider: string; netgsm: NetgsmConfig }): SmsProvider | null {
+  if (config.provider === 'netgsm') {
+    return new NetgsmSmsProvider(config.netgsm);
+  }
+  if (config.provider === 'fake') {
+    return new FakeSmsProvider();
+  }
+  return null;
+}
+
+/**
+ * Notifications SMS can stand in for
+ */
+export type SmsMessageType = 'payment_link' | 'completion' | 'download_link';
+
+/**
+ * When to send the SMS:
+ * - never: WhatsApp only
+ * - on_failure: only when the WhatsApp send fails (or its delivery is reported failed)
+ * - always: in addition to WhatsApp
+ */
+export type SmsFallbackMode = 'never' | 'on_failure' | 'always';
+
+export type SmsFallbackPolicy = Record<SmsMessageType, SmsFallbackMode>;
+
+/**
+ * SMS fallback for critical notifications (payment link, completion, download link)
+ * Only customers with a phone number (WhatsApp) can get an SMS
+ */
+export class SmsService {
+  constructor(private provider: SmsProvider, private policy: SmsFallbackPolicy) {}
+
+  modeFor(type: SmsMessageType): SmsFallbackMode {
+    return this.policy[type] || 'never';
+  }
+
+  /**
+   * Run the primary (WhatsApp) send and add the SMS according to the policy
+   * The primary error is only rethrown when the SMS could not be sent either
+   */
+  async deliverWithFallback(
+    type: SmsMessageType,
+    to: string,
+    primary: () => Promise<void>,
+    smsMessage: string
+  ): Promise<void> {
+    const mode = this.canReceiveSms(to) ? this.modeFor(type) : 'never';
+
+    if (mode === 'never') {
+      await primary();
+      return;
+    }
+
+    let primaryError: any = null;
+    try {
+      await primary();
+    } catch (error: any) {
+      primaryError = error;
+      console.warn(`⚠️ ${type} not sent on WhatsApp (${error.message}) - sending SMS`);
+    }
+
+    if (mode === 'always' || primaryError) {
+      const smsSent = await this.trySend(type, to, smsMessage);
+      if (primaryError && !smsSent) {
+        throw primaryError;
+      }
+    }
+  }
+
+  /**
+   * SMS for a message whose WhatsApp delivery was reported failed later on
+   * Returns whether an SMS was sent
+   */
+  async sendDeliveryFallback(type: SmsMessageType, to: string, smsMessage: string): Promise<boolean> {
+    // 'always' already sent the SMS together with the WhatsApp message
+    if (!this.canReceiveSms(to) || this.modeFor(type) !== 'on_failure') {
+      return false;
+    }
+    return this.trySend(type, to, smsMessage);
+  }
+
+  private async trySend(type: SmsMessageType, to: string, message: string): Promise<boolean> {
+    try {
+      const messageId = await this.provider.send(to, message);
+      console.log(`📱 ${type} SMS sent to ${to} via ${this.provider.name} (${messageId})`);
+      return true;
+    } catch (error: any) {
+      console.error(`Error sending ${type} SMS to ${to}:`, error.message);
+      return false;
+    }
+  }
+
+  /**
+   * WhatsApp customers are keyed by phone number; Telegram / web chat / email customers have none
+   */
+  private canReceiveSms(to: string): boolean {
+    const { channel, userId } = parseCustomerKey(to);
+    return channel === 'whatsapp' && /^\+?\d{10,15}$/.test(userId.replace(/[\s\-()]/g, ''));
+  }
+}
@@ -0,0 +1,240 @@
+import { randomBytes } from 'crypto';
+import * as net from 'net';
+import * as tls from 'tls';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;     // Implicit TLS (465); otherwise STARTTLS when the server offers it
+  user?: string;
+  password?: string;
+}
+
+export interface MailMessage {
+  from: string;        // "bihediye.art <siparis@bihediye.art>"
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+/**
+ * Address part of "Name <address>"
+ */
+function addressOf(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * RFC 2047 encoded-word for non-ASCII header values
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function encodeMailbox(mailbox: string): string {
+  const match = mailbox.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  return match && match[1] ? `${encodeHeader(match[1])} <${match[2]}>` : mailbox;
+}
+
+function base64Lines(value: string): string {
+  return Buffer.from(value, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+}
+
+/**
+ * multipart/alternative message (plain text + HTML, both base64 so UTF-8 survives any server)
+ */
+export function buildMimeMessage(message: MailMessage, date: Date = new Date()): string {
+  const boundary = `bihediye-${randomBytes(12).toString('hex')}`;
+  const domain = addressOf(message.from).split('@')[1] || 'localhost';
+
+  return [
+    `From: ${encodeMailbox(message.from)}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomBytes(16).toString('hex')}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+/**
+ * Minimal SMTP client (RFC 5321): one connection per message
+ * EHLO, optional STARTTLS / AUTH PLAIN, MAIL FROM, RCPT TO, DATA, QUIT.
+ * Works against MailHog / Mailpit locally (localhost:1025, no auth).
+ */
+export class SmtpClient {
+  private socket!: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private config: SmtpConfig, private timeoutMs: number = 30000) {}
+
+  /**
+   * Send a message, returns the server's reply to DATA (usually contains the queue id)
+   */
+  async send(message: MailMessage): Promise<string> {
+    await this.connect();
+
+    try {
+      await this.expect(await this.read(), [220]);
+      let capabilities = await this.hello();
+
+      if (!this.config.secure && capabilities.includes('STARTTLS')) {
+        await this.command('STARTTLS', [220]);
+        await this.upgrade();
+        capabilities = await this.hello();
+      }
+
+      if (this.config.user) {
+        if (!capabilities.some(line => line.startsWith('AUTH'))) {
+          throw new SmtpError('Server does not support AUTH');
+        }
+        const credentials = Buffer.from(`\0${this.config.user}\0${this.config.password || ''}`).toString('base64');
+        await this.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await this.command(`MAIL FROM:<${addressOf(message.from)}>`, [250]);
+      await this.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+      await this.command('DATA', [354]);
+
+      // Dot-stuffing: lines starting with "." get another one
+      const data = buildMimeMessage(message).replace(/\r\n\./g, '\r\n..');
+      const reply = await this.command(`${data}\r\n.`, [250], 'DATA');
+
+      await this.command('QUIT', [221]).catch(() => undefined);
+      return reply.lines.join(' ');
+    } finally {
+      this.socket.destroy();
+    }
+  }
+
+  private connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const { host, port, secure } = this.config;
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve())
+        : net.connect({ host, port }, () => resolve());
+
+      socket.once('error', reject);
+      this.listen(socket);
+    });
+  }
+
+  private upgrade(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const plain = this.socket;
+      plain.removeAllListeners('data');
+
+      const secure = tls.connect({ socket: plain, servername: this.config.host }, () => resolve());
+      secure.once('error', reject);
+      this.listen(secure);
+    });
+  }
+
+  private listen(socket: net.Socket): void {
+    this.socket = socket;
+    this.buffer = '';
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new SmtpError('SMTP connection timed out')));
+
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      let index: number;
+      while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+        this.lines.push(this.buffer.slice(0, index));
+        this.buffer = this.buffer.slice(index + 2);
+      }
+      this.flush();
+    });
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed')));
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(this.failure);
+    }
+  }
+
+  /**
+   * Resolve the pending read once a full (possibly multi-line "250-...") reply arrived
+   */
+  private flush(): void {
+    if (!this.waiting) {
+      return;
+    }
+
+    const last = this.lines.findIndex(line => line.length < 4 || line[3] !== '-');
+    if (last < 0) {
+      return;
+    }
+
+    const replyLines = this.lines.splice(0, last + 1);
+    const { resolve } = this.waiting;
+    this.waiting = null;
+    resolve({
+      code: parseInt(replyLines[last].slice(0, 3), 10),
+      lines: replyLines.map(line => line.slice(4)),
+    });
+  }
+
+  private read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+      if (this.waiting && this.failure) {
+        this.fail(this.failure);
+      }
+    });
+  }
+
+  private async command(line: string, expected: number[], name: string = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(await this.read(), expected, name);
+  }
+
+  private async expect(reply: SmtpReply, expected: number[], command: string = 'greeting'): Promise<SmtpReply> {
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${command} failed: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  }
+
+  private async hello(): Promise<string[]> {
+    const reply = await this.command('EHLO bihediye.art', [250]);
+    return reply.lines.map(line => line.toUpperCase());
+  }
+}
@@ -1,5 +1,5 @@
 import axios, { AxiosInstance } from 'axios';
-import { SongDetails } from '../models/order.model';
+import { LyricsLanguage, SongDetails, SongLanguage } from '../models/order.model';
 
 export interface SunoConfig {
   apiKey: string;
@@ -8,11 +8,14 @@ export interface SunoConfig {
 
 export interface MusicGenerationRequest {
   lyrics: string;
+  title?: string;       // Personalized title from the lyrics step
   songType: string;     // Pop, Rap, Jazz, etc.
   style: string;        // Romantik, Duygusal, etc.
   vocal?: string;       // Kadın, Erkek, Fark etmez
   duration?: number;
   artistStyleDescription?: string; // Optional artist style description (NO artist names!)
+  language?: SongLanguage;  // Türkçe, İngilizce, ..., Karışık
+  bilingual?: { verse: LyricsLanguage; chorus: LyricsLanguage };
 }
 
 export interface VideoGenerationRequest {
@@ -31,13 +34,23 @@ export interface SunoTaskResponse {
   };
 }
 
+/**
+ * One generated song - Suno produces two variants per task
+ */
+export interface SunoVariant {
+  id?: string;
+  audioUrl: string;
+  duration?: number;    // seconds
+}
+
 export interface SunoTaskStatus {
   task_id: string;
   status: 'Processing' | 'Success' | 'Failed';
   file_id?: string;
   audio_file?: string;
   video_file?: string;
-  file_url?: string;
+  file_url?: string;    // First variant
+  variants?: SunoVariant[];
   error_details?: string;
 }
 
@@ -184,20 +197,26 @@ export class SunoService {
           const sunoData = taskData.response?.sunoData;
 
           if (sunoData && Array.isArray(sunoData) && sunoData.length > 0) {
-            // Get the first generated song (or we could use all of them)
-            const firstSong = sunoData[0];
-            const audioUrl = firstSong.audioUrl || firstSong.sourceAudioUrl;
-
-            if (audioUrl) {
-              console.log(`🎵 Audio URL found: ${audioUrl}`);
+            // Keep every generated song - the customer may choose between them
+            const variants: SunoVariant[] = sunoData
+              .map((song: any) => ({
+                id: song.id,
+                audioUrl: song.audioUrl || song.sourceAudioUrl,
+                duration: typeof song.duration === 'number' ? song.duration : undefined,
+              }))
+              .filter((variant: SunoVariant) => !!variant.audioUrl);
+
+            if (variants.length > 0) {
+              console.log(`🎵 Audio URL found: ${variants[0].audioUrl}`);
               console.log(`   Generated ${sunoData.length} song(s)`);
-              console.log(`   Duration: ${firstSong.duration}s`);
+              console.log(`   Durations: ${variants.map(variant => `${variant.duration}s`).join(', ')}`);
 
               return {
                 task_id: taskId,
                 status: 'Success',
-                file_url: audioUrl,
-                audio_file: audioUrl,
+                file_url: variants[0].audioUrl,
+                audio_file: variants[0].audioUrl,
+                variants,
               };
             }
           }
@@ -295,11 +314,13 @@ export class SunoService {
   /**
    * Wait for task completion with polling
    * Suno API is async, so we poll until completion
+   * onPoll is called after every poll that is still running (progress reporting)
    */
   async waitForTaskCompletion(
     taskId: string,
     maxAttempts: number = 60,  // 60 attempts
-    pollInterval: number = 5000  // 5 seconds
+    pollInterval: number = 5000,  // 5 seconds
+    onPoll?: (attempt: number, maxAttempts: number) => Promise<void> | void
   ): Promise<SunoTaskStatus> {
     console.log(`⏳ Waiting for Suno task completion: ${taskId}`);
     console.log(`   Max attempts: ${maxAttempts}`);
@@ -323,6 +344,10 @@ export class SunoService {
         throw new Error(`SENSITIVE_WORD_ERROR: ${errorDetails}`);
       }
 
+      if (onPoll) {
+        await onPoll(attempt, maxAttempts);
+      }
+
       // Wait before next poll
       if (attempt < maxAttempts) {
         await new Promise(resolve => setTimeout(resolve, pollInterval));
@@ -364,13 +389,23 @@ export class SunoService {
       parts.push(vocalCharacteristics);
     }
 
+    // Şarkı dili (Suno'nun telaffuz ve aksanı doğru seçmesi için)
+    const language = this.translateLanguage(request);
+    if (language) {
+      parts.push(language);
+    }
+
     return parts.join(', ');
   }
 
   /**
-   * Generate a title based on song details
+   * Song title: the personalized one from the lyrics step, otherwise based on the song type
    */
   private generateTitle(request: MusicGenerationRequest): string {
+    if (request.title) {
+      return request.title.slice(0, 80);
+    }
+
     const types: Record<string, string> = {
       'Pop': 'Pop Song',
       'Rap': 'Rap Song',
@@ -498,4 +533,25 @@ export class SunoService {
     };
     return translations[style] || style;
   }
-}
+
+  /**
+   * Şarkı dilini Suno style ifadesine çevir
+   */
+  private translateLanguage(request: MusicGenerationRequest): string | null {
+    const names: Record<LyricsLanguage, string> = {
+      'Türkçe': 'Turkish',
+      'İngilizce': 'English',
+      'Almanca': 'German',
+      'Kürtçe': 'Kurdish',
+      'Azerice': 'Azerbaijani',
+    };
+
+    if (request.language === 'Karışık') {
+      const verse = request.bilingual?.verse || 'Türkçe';
+      const chorus = request.bilingual?.chorus || (verse === 'İngilizce' ? 'Türkçe' : 'İngilizce');
+      return `bilingual, ${names[verse]} verses, ${names[chorus]} chorus`;
+    }
+
+    return request.language ? `${names[request.language]} lyrics` : null;
+  }
+}
\ No newline at end of file
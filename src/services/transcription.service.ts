@@ -0,0 +1,106 @@
+import axios, { AxiosInstance } from 'axios';
+
+export interface TranscriptionOptions {
+  mimeType?: string;  // e.g. audio/ogg (WhatsApp voice notes)
+  language?: string;  // ISO-639-1 hint, e.g. "tr"
+}
+
+export interface TranscriptionResult {
+  text: string;
+  language?: string;
+  durationSeconds?: number;
+}
+
+/**
+ * Speech-to-text provider (voice-note stories)
+ */
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(audio: Buffer, options?: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+export interface WhisperConfig {
+  apiKey: string;
+  model?: string;
+}
+
+/**
+ * OpenAI Whisper transcription
+ */
+export class WhisperTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'whisper';
+  private client: AxiosInstance;
+  private model: string;
+
+  constructor(config: WhisperConfig) {
+    this.model = config.model || 'whisper-1';
+    this.client = axios.create({
+      baseURL: 'https://api.openai.com/v1',
+      headers: {
+        'Authorization': `Bearer ${config.apiKey}`,
+      },
+      timeout: 120000,
+    });
+  }
+
+  async transcribe(audio: Buffer, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    try {
+      const mimeType = options.mimeType || 'audio/ogg';
+      const extension = mimeType.split('/')[1]?.split(';')[0] || 'ogg';
+
+      const form = new FormData();
+      form.append('file', new Blob([audio], { type: mimeType }), `voice.${extension}`);
+      form.append('model', this.model);
+      form.append('response_format', 'verbose_json');
+      if (options.language) {
+        form.append('language', options.language);
+      }
+
+      const response = await this.client.post('/audio/transcriptions', form);
+
+      return {
+        text: (response.data.text || '').trim(),
+        language: response.data.language,
+        durationSeconds: response.data.duration,
+      };
+    } catch (error: any) {
+      console.error('Whisper transcription error:', error.response?.data || error.message);
+      throw new Error(`Ses yazıya çevirme hatası: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Local stub - returns a fixed transcription (tests / local development)
+ */
+export class StubTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'stub';
+
+  constructor(private text: string = 'Bu bir test sesli mesajıdır. 10 yıldır evliyiz, her zorluğu birlikte atlattık.') {}
+
+  async transcribe(audio: Buffer, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    console.log(`🎙️ Stub transcription (${audio.length} bytes)`);
+    return {
+      text: this.text,
+      language: options.language,
+    };
+  }
+}
+
+/**
+ * Create the configured transcription provider
+ */
+export function createTranscriptionProvider(config: {
+  provider: string;
+  apiKey: string;
+  model?: string;
+}): TranscriptionProvider {
+  if (config.provider === 'stub') {
+    return new StubTranscriptionProvider();
+  }
+
+  return new WhisperTranscriptionProvider({
+    apiKey: config.apiKey,
+    model: config.model,
+  });
+}
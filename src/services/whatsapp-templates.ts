@@ -0,0 +1,86 @@
+import { Locale } from '../i18n';
+
+/**
+ * Approved WhatsApp template (HSM)
+ * Only templates may be sent more than 24h after the customer's last message
+ */
+export interface WhatsAppTemplate {
+  name: string;                         // Template name as approved in Bird / Meta
+  languages: Locale[];                  // Approved translations (first = default)
+  variables: string[];                  // Body variables in order ({{1}}, {{2}}, ...)
+  category: 'utility' | 'marketing';
+}
+
+export type WhatsAppTemplateId =
+  | 'song_ready'
+  | 'order_completed'
+  | 'order_delayed'
+  | 'payment_link'
+  | 'discount_offer';
+
+/**
+ * Template registry
+ * Keep in sync with the templates approved in the Bird dashboard
+ */
+export const WHATSAPP_TEMPLATES: Record<WhatsAppTemplateId, WhatsAppTemplate> = {
+  song_ready: {
+    name: 'bihediye_song_ready',
+    languages: ['tr', 'en', 'de', 'ar'],
+    variables: ['orderId', 'url'],
+    category: 'utility',
+  },
+  order_completed: {
+    name: 'bihediye_order_completed',
+    languages: ['tr', 'en', 'de', 'ar'],
+    variables: ['orderId'],
+    category: 'utility',
+  },
+  order_delayed: {
+    name: 'bihediye_order_delayed',
+    languages: ['tr', 'en', 'de', 'ar'],
+    variables: ['orderId'],
+    category: 'utility',
+  },
+  payment_link: {
+    name: 'bihediye_payment_link',
+    languages: ['tr', 'en', 'de', 'ar'],
+    variables: ['orderId', 'price', 'url'],
+    category: 'utility',
+  },
+  discount_offer: {
+    name: 'bihediye_discount_offer',
+    languages: ['tr'],
+    variables: ['code', 'discount'],
+    category: 'marketing',
+  },
+};
+
+/**
+ * Template to send instead of a free-form message when the session window is closed
+ */
+export interface TemplateFallback {
+  id: WhatsAppTemplateId;
+  params: Record<string, string | number>;
+}
+
+/**
+ * Template language for the customer's locale (falls back to the template default)
+ */
+export function templateLanguage(template: WhatsAppTemplate, locale?: Locale): Locale {
+  return locale && template.languages.includes(locale) ? locale : template.languages[0];
+}
+
+/**
+ * Ordered template parameters - every registered variable is required
+ */
+export function buildTemplateParams(
+  template: WhatsAppTemplate,
+  params: Record<string, string | number>
+): Array<{ default: string }> {
+  const missing = template.variables.filter(variable => params[variable] === undefined || params[variable] === '');
+  if (missing.length > 0) {
+    throw new Error(`Template ${template.name} missing variables: ${missing.join(', ')}`);
+  }
+
+  return template.variables.map(variable => ({ default: String(params[variable]) }));
+}
@@ -1,10 +1,42 @@
 import axios, { AxiosInstance } from 'axios';
+import { Locale, t } from '../i18n';
+import { OutboundMessage, OutboundMessageMeta, QueuedOutboundMessage } from '../models/outbound-message.model';
+import {
+  buildTemplateParams,
+  TemplateFallback,
+  templateLanguage,
+  WHATSAPP_TEMPLATES,
+  WhatsAppTemplateId,
+} from './whatsapp-templates';
+import { BirdSendResponse, OutboundQueueService, OutboundQueueStore } from './outbound-queue.service';
+import { ChannelIdentity, MessagingChannel } from './channels/messaging-channel';
 
 export interface WhatsAppConfig {
   accessKey: string;
   workspaceId?: string;
   channelId?: string;
   apiVersion?: string;
+  templateNamespace?: string; // WhatsApp Business template namespace (HSM)
+  rateLimitPerSecond?: number; // Bird channel throughput (messages / second)
+  maxSendAttempts?: number; // Attempts on 429 / 5xx before a message is dead-lettered
+}
+
+/**
+ * Choice offered as a reply button or list row
+ * id comes back in the inbound reply, title is what the customer sees
+ */
+export interface InteractiveOption {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+export interface BirdReplyAction {
+  type: 'reply';
+  reply: {
+    text: string;
+    action: string;
+  };
 }
 
 export interface BirdMessage {
@@ -15,9 +47,22 @@ export interface BirdMessage {
     }>;
   };
   body: {
-    type: 'text' | 'file' | 'image' | 'hsm';
+    type: 'text' | 'file' | 'image' | 'hsm' | 'list';
     text?: {
       text: string;
+      actions?: BirdReplyAction[]; // Reply buttons (max 3)
+    };
+    list?: {
+      text: string;
+      altText: string; // Label of the button that opens the list
+      sections: Array<{
+        title: string;
+        items: Array<{
+          id: string;
+          title: string;
+          description?: string;
+        }>;
+      }>;
     };
     file?: {
       url: string;
@@ -26,17 +71,62 @@ export interface BirdMessage {
       url: string;
       caption?: string;
     };
+    hsm?: {
+      namespace?: string;
+      templateName: string;
+      language: {
+        policy: 'deterministic';
+        code: string;
+      };
+      params: Array<{ default: string }>;
+    };
   };
 }
 
-export class WhatsAppService {
+/**
+ * Where sent messages are recorded for delivery tracking (FirebaseService)
+ */
+export interface OutboundMessageStore {
+  saveOutboundMessage(message: OutboundMessage): Promise<void>;
+}
+
+/**
+ * Last inbound message per customer (FirebaseService)
+ * Decides whether the 24h customer service window is still open
+ */
+export interface SessionWindowStore {
+  getLastInboundAt(phone: string): Promise<Date | null>;
+  recordInboundAt(phone: string, at: Date): Promise<void>;
+}
+
+/**
+ * Send options: tracking meta plus the template to use outside the session window
+ */
+export interface SendOptions extends OutboundMessageMeta {
+  template?: TemplateFallback;
+  locale?: Locale; // Template language
+}
+
+export class WhatsAppService implements MessagingChannel {
+  readonly name = 'whatsapp' as const;
+
+  private readonly SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+  // Persist inbound times at most this often (the window is 24h, a few minutes don't matter)
+  private readonly INBOUND_PERSIST_INTERVAL_MS = 10 * 60 * 1000;
+
   private client: AxiosInstance;
   private workspaceId?: string;
   private channelId?: string;
+  private templateNamespace?: string;
+  private messageStore?: OutboundMessageStore;
+  private sessionStore?: SessionWindowStore;
+  private lastInbound = new Map<string, Date>();
+  private outboundQueue: OutboundQueueService;
 
   constructor(config: WhatsAppConfig) {
     this.workspaceId = config.workspaceId;
     this.channelId = config.channelId;
+    this.templateNamespace = config.templateNamespace;
 
     this.client = axios.create({
       baseURL: 'https://api.bird.com',
@@ -46,12 +136,196 @@ export class WhatsAppService {
       },
       timeout: 30000,
     });
+
+    this.outboundQueue = new OutboundQueueService(
+      payload => this.postMessage(payload),
+      (payload, sent, meta) => this.recordOutboundMessage(payload, sent, meta),
+      {
+        ratePerSecond: config.rateLimitPerSecond || 10,
+        maxAttempts: config.maxSendAttempts || 5,
+        baseDelayMs: 1000,
+        maxDelayMs: 60000,
+      }
+    );
+  }
+
+  /**
+   * Record every sent message (called from index.ts after Firebase is initialized)
+   */
+  setMessageStore(store: OutboundMessageStore): void {
+    this.messageStore = store;
+  }
+
+  /**
+   * Persist payment links / audio deliveries until sent and keep dead letters
+   * (called from index.ts after Firebase is initialized)
+   */
+  setQueueStore(store: OutboundQueueStore): void {
+    this.outboundQueue.setStore(store);
+  }
+
+  /**
+   * Resume messages that were still queued when the process stopped
+   */
+  async restorePendingMessages(): Promise<number> {
+    return this.outboundQueue.restore();
+  }
+
+  /**
+   * Messages that ran out of send attempts (admin panel)
+   */
+  async getDeadLetters(): Promise<QueuedOutboundMessage[]> {
+    return this.outboundQueue.getDeadLetters();
+  }
+
+  async retryDeadLetter(id: string): Promise<void> {
+    await this.outboundQueue.retryDeadLetter(id);
+  }
+
+  async deleteDeadLetter(id: string): Promise<void> {
+    await this.outboundQueue.deleteDeadLetter(id);
+  }
+
+  /**
+   * Report messages that were accepted for a background retry but never got out
+   * (called from index.ts when an SMS provider is configured)
+   */
+  setUndeliveredHandler(handler: (message: OutboundMessage) => Promise<void>): void {
+    this.outboundQueue.setUndeliveredHandler(async entry => {
+      await handler({
+        id: entry.id,
+        to: entry.to,
+        orderId: entry.meta.orderId,
+        kind: entry.meta.kind || 'general',
+        bodyType: entry.payload.body.type,
+        status: 'failed',
+        payload: entry.payload,
+        attempt: entry.meta.attempt || 1,
+        retryOf: entry.meta.retryOf,
+        failureReason: entry.lastError,
+        createdAt: entry.createdAt,
+        updatedAt: entry.updatedAt,
+        failedAt: entry.updatedAt,
+      });
+    });
+  }
+
+  /**
+   * Track the customer service window (called from index.ts after Firebase is initialized)
+   */
+  setSessionStore(store: SessionWindowStore): void {
+    this.sessionStore = store;
+  }
+
+  /**
+   * Sender of a Bird inbound message (whatsapp.inbound payload)
+   */
+  identify(payload: any): ChannelIdentity | null {
+    const contact = payload?.sender?.contact;
+    if (!contact?.identifierValue) {
+      return null;
+    }
+    return { channel: 'whatsapp', userId: contact.identifierValue };
+  }
+
+  /**
+   * Note an inbound customer message (opens / extends the 24h session window)
+   */
+  async recordInboundMessage(phone: string, at: Date = new Date()): Promise<void> {
+    const key = this.formatPhoneNumber(phone);
+    const previous = this.lastInbound.get(key);
+    this.lastInbound.set(key, at);
+
+    if (!this.sessionStore || (previous && at.getTime() - previous.getTime() < this.INBOUND_PERSIST_INTERVAL_MS)) {
+      return;
+    }
+
+    try {
+      await this.sessionStore.recordInboundAt(key, at);
+    } catch (error: any) {
+      console.error('Error recording inbound message time:', error.message);
+    }
+  }
+
+  /**
+   * Whether free-form messages can be sent (customer wrote within the last 24h)
+   * Unknown customers count as closed - a template is always deliverable
+   */
+  async isSessionOpen(phone: string): Promise<boolean> {
+    const key = this.formatPhoneNumber(phone);
+    let lastInboundAt = this.lastInbound.get(key) || null;
+
+    if (!lastInboundAt && this.sessionStore) {
+      try {
+        lastInboundAt = await this.sessionStore.getLastInboundAt(key);
+        if (lastInboundAt) {
+          this.lastInbound.set(key, lastInboundAt);
+        }
+      } catch (error: any) {
+        console.error('Error reading session window, assuming open:', error.message);
+        return true;
+      }
+    }
+
+    return !!lastInboundAt && Date.now() - lastInboundAt.getTime() < this.SESSION_WINDOW_MS;
+  }
+
+  /**
+   * Send an approved template (HSM) message - allowed outside the 24h window
+   */
+  async sendTemplateMessage(
+    to: string,
+    templateId: WhatsAppTemplateId,
+    params: Record<string, string | number>,
+    locale?: Locale,
+    meta: OutboundMessageMeta = {}
+  ): Promise<void> {
+    const template = WHATSAPP_TEMPLATES[templateId];
+
+    try {
+      const payload: BirdMessage = {
+        receiver: {
+          contacts: [
+            {
+              identifierValue: this.formatPhoneNumber(to),
+              identifierKey: 'phonenumber',
+            },
+          ],
+        },
+        body: {
+          type: 'hsm',
+          hsm: {
+            namespace: this.templateNamespace,
+            templateName: template.name,
+            language: {
+              policy: 'deterministic',
+              code: templateLanguage(template, locale),
+            },
+            params: buildTemplateParams(template, params),
+          },
+        },
+      };
+
+      await this.sendMessage(payload, meta);
+    } catch (error: any) {
+      console.error('Error sending template message:', error.response?.data || error.message);
+      throw new Error(`WhatsApp şablon mesajı gönderme hatası: ${error.message}`);
+    }
   }
 
   /**
    * Send a text message via Bird.com WhatsApp
+   * With a template given, the template is sent instead when the session window is closed
    */
-  async sendTextMessage(to: string, message: string): Promise<void> {
+  async sendTextMessage(to: string, message: string, options: SendOptions = {}): Promise<void> {
+    const { template, locale, ...meta } = options;
+
+    if (template && !(await this.isSessionOpen(to))) {
+      console.log(`📋 Session window closed for ${to} - sending template ${template.id}`);
+      await this.sendTemplateMessage(to, template.id, template.params, locale, meta);
+      return;
+    }
+
     try {
       const payload: BirdMessage = {
         receiver: {
@@ -70,29 +344,118 @@ export class WhatsAppService {
         },
       };
 
-      await this.sendMessage(payload);
+      await this.sendMessage(payload, meta);
     } catch (error: any) {
+      // Window closed without us knowing (e.g. the customer wrote from another device long ago)
+      if (template && this.isSessionWindowError(error)) {
+        console.log(`📋 Free-form message rejected for ${to} - sending template ${template.id}`);
+        await this.sendTemplateMessage(to, template.id, template.params, locale, meta);
+        return;
+      }
+
       console.error('Error sending text message:', error.response?.data || error.message);
       throw new Error(`WhatsApp mesaj gönderme hatası: ${error.message}`);
     }
   }
 
   /**
-   * Send an audio file (as text message with link)
+   * Send a text message with reply buttons (max 3, titles max 20 chars)
+   * Falls back to a numbered text message if interactive messages are rejected
    */
-  async sendAudioMessage(to: string, audioUrl: string): Promise<void> {
+  async sendButtonMessage(to: string, message: string, buttons: InteractiveOption[]): Promise<void> {
+    const payload: BirdMessage = {
+      receiver: {
+        contacts: [
+          {
+            identifierValue: this.formatPhoneNumber(to),
+            identifierKey: 'phonenumber',
+          },
+        ],
+      },
+      body: {
+        type: 'text',
+        text: {
+          text: message,
+          actions: buttons.slice(0, 3).map(button => ({
+            type: 'reply',
+            reply: {
+              text: button.title,
+              action: button.id,
+            },
+          })),
+        },
+      },
+    };
+
     try {
-      // Bird.com WhatsApp doesn't support file URL directly
-      // Send as text message with clickable link
-      const message = `🎵 *Özel Şarkınız Hazır!*
+      await this.sendMessage(payload);
+    } catch (error: any) {
+      console.error('Error sending button message, falling back to text:', error.response?.data || error.message);
+      await this.sendTextMessage(to, this.formatOptionsAsText(message, buttons));
+    }
+  }
 
-Şarkınızı dinlemek için aşağıdaki linke tıklayın:
+  /**
+   * Send a list message (max 10 rows, titles max 24 chars)
+   * Falls back to a numbered text message if interactive messages are rejected
+   */
+  async sendListMessage(
+    to: string,
+    message: string,
+    buttonText: string,
+    options: InteractiveOption[],
+    sectionTitle: string = buttonText
+  ): Promise<void> {
+    const payload: BirdMessage = {
+      receiver: {
+        contacts: [
+          {
+            identifierValue: this.formatPhoneNumber(to),
+            identifierKey: 'phonenumber',
+          },
+        ],
+      },
+      body: {
+        type: 'list',
+        list: {
+          text: message,
+          altText: buttonText,
+          sections: [
+            {
+              title: sectionTitle,
+              items: options.slice(0, 10).map(option => ({
+                id: option.id,
+                title: option.title,
+                description: option.description,
+              })),
+            },
+          ],
+        },
+      },
+    };
 
-${audioUrl}
+    try {
+      await this.sendMessage(payload);
+    } catch (error: any) {
+      console.error('Error sending list message, falling back to text:', error.response?.data || error.message);
+      await this.sendTextMessage(to, this.formatOptionsAsText(message, options));
+    }
+  }
 
-🎁 Hediye edeceğiniz kişiye güzel anlar dileriz!`;
+  /**
+   * Send an audio file (as text message with link)
+   */
+  async sendAudioMessage(to: string, audioUrl: string, options: SendOptions = {}): Promise<void> {
+    try {
+      // Bird.com WhatsApp doesn't support file URL directly
+      // Send as text message with clickable link
+      const message = t(options.locale, 'delivery.songReady', { url: audioUrl });
 
-      await this.sendTextMessage(to, message);
+      await this.sendTextMessage(to, message, {
+        ...options,
+        kind: 'audio',
+        template: { id: 'song_ready', params: { orderId: options.orderId || '-', url: audioUrl } },
+      });
     } catch (error: any) {
       console.error('Error sending audio message:', error.response?.data || error.message);
       throw new Error(`WhatsApp ses gönderme hatası: ${error.message}`);
@@ -193,107 +556,115 @@ ${audioUrl}
   }
 
   /**
-   * Send order confirmation message
+   * Download media sent by the customer (Bird media URLs require the access key)
    */
-  async sendOrderConfirmation(
-    to: string,
-    orderId: string,
-    totalPrice: number,
-    estimatedDelivery: Date
-  ): Promise<void> {
-    const message = `✅ *Siparişiniz Alındı!*
-
-🎵 Sipariş No: ${orderId}
-💰 Toplam Tutar: ${totalPrice.toFixed(2)} TL
-⏰ Tahmini Teslimat: ${estimatedDelivery.toLocaleString('tr-TR')}
-
-Siparişiniz işleme alınmıştır. Şarkılarınız hazırlandıktan sonra size iletilecektir.
-
-Mesai saatlerinde 2 saat içerisinde teslim edilecektir!
-
-Teşekkür ederiz! 🎁`;
+  async downloadMedia(mediaUrl: string): Promise<{ data: Buffer; contentType?: string }> {
+    try {
+      const response = await this.client.get(mediaUrl, {
+        responseType: 'arraybuffer',
+        timeout: 60000,
+      });
 
-    await this.sendTextMessage(to, message);
+      return {
+        data: Buffer.from(response.data),
+        contentType: response.headers['content-type'] as string | undefined,
+      };
+    } catch (error: any) {
+      console.error('Error downloading media:', error.response?.status || error.message);
+      throw new Error(`WhatsApp medya indirme hatası: ${error.message}`);
+    }
   }
 
   /**
-   * Send order progress update
+   * Send a tracked message again (failed delivery of a payment link / audio)
+   * Returns the new Bird message id
    */
-  async sendProgressUpdate(to: string, orderId: string, status: string, progress: number): Promise<void> {
-    const progressBar = this.createProgressBar(progress);
-
-    const message = `⏳ *Sipariş Durumu*
-
-🎵 Sipariş No: ${orderId}
-📊 İlerleme: ${progressBar} ${progress}%
-💬 Durum: ${status}
-
-Şarkılarınız hazırlanıyor, lütfen bekleyin...`;
-
-    await this.sendTextMessage(to, message);
+  async resendMessage(message: OutboundMessage): Promise<string | undefined> {
+    return this.sendMessage(message.payload, {
+      orderId: message.orderId,
+      kind: message.kind,
+      attempt: message.attempt + 1,
+      retryOf: message.id,
+    });
   }
 
   /**
-   * Send order completion message
+   * Generic send message method for Bird.com
+   * Goes through the outbound queue (ordering, rate limit, retries)
+   * Returns the Bird message id (undefined when the send was left for a background retry -
+   * tracking is recorded once it goes out)
    */
-  async sendOrderCompletion(to: string, orderId: string): Promise<void> {
-    const message = `🎉 *Siparişiniz Hazır!*
-
-🎵 Sipariş No: ${orderId}
-
-Şarkılarınız ve videolarınız hazır! Aşağıda dosyalarınızı bulabilirsiniz.
-
-Hediyeniz için teşekkür ederiz! ❤️`;
-
-    await this.sendTextMessage(to, message);
+  private async sendMessage(payload: BirdMessage, meta: OutboundMessageMeta = {}): Promise<string | undefined> {
+    try {
+      const result = await this.outboundQueue.enqueue(payload, meta);
+      return result.status === 'sent' ? result.id : undefined;
+    } catch (error: any) {
+      console.error('Bird.com API error:', error.response?.data || error.message);
+      throw error;
+    }
   }
 
   /**
-   * Send error message (user-friendly, no technical details)
+   * Single POST to Bird (retries are up to the queue)
    */
-  async sendErrorMessage(to: string, orderId: string, errorMessage: string): Promise<void> {
-    const message = `⚠️ *Sipariş İşlemi*
-
-🎵 Sipariş No: ${orderId}
-
-Maalesef siparişiniz şu anda işlenemiyor.
+  private async postMessage(payload: BirdMessage): Promise<BirdSendResponse> {
+    const endpoint = this.workspaceId && this.channelId
+      ? `/workspaces/${this.workspaceId}/channels/${this.channelId}/messages`
+      : '/messages';
 
-📞 Lütfen destek ekibimizle iletişime geçin:
-support@bihediye.art
+    const response = await this.client.post(endpoint, payload);
 
-Anlayışınız için teşekkür ederiz.`;
+    console.log('Bird.com WhatsApp message sent:', {
+      messageId: response.data.id,
+      status: response.data.status,
+    });
 
-    await this.sendTextMessage(to, message);
+    return response.data;
   }
 
   /**
-   * Generic send message method for Bird.com
+   * Store the sent message for status tracking (never fails the send)
    */
-  private async sendMessage(payload: BirdMessage): Promise<void> {
-    try {
-      const endpoint = this.workspaceId && this.channelId
-        ? `/workspaces/${this.workspaceId}/channels/${this.channelId}/messages`
-        : '/messages';
-
-      const response = await this.client.post(endpoint, payload);
+  private async recordOutboundMessage(payload: BirdMessage, sent: BirdSendResponse, meta: OutboundMessageMeta): Promise<void> {
+    if (!this.messageStore || !sent.id) {
+      return;
+    }
 
-      console.log('Bird.com WhatsApp message sent:', {
-        messageId: response.data.id,
-        status: response.data.status,
+    try {
+      const now = new Date();
+      await this.messageStore.saveOutboundMessage({
+        id: sent.id,
+        to: payload.receiver.contacts[0]?.identifierValue,
+        orderId: meta.orderId,
+        kind: meta.kind || 'general',
+        bodyType: payload.body.type,
+        status: 'accepted',
+        payload,
+        attempt: meta.attempt || 1,
+        retryOf: meta.retryOf,
+        createdAt: now,
+        updatedAt: now,
       });
     } catch (error: any) {
-      console.error('Bird.com API error:', error.response?.data || error.message);
-      throw error;
+      console.error('Error recording outbound message:', error.message);
     }
   }
 
   /**
-   * Create a text-based progress bar
+   * Bird / WhatsApp rejection because the 24h window is closed (error 131047)
    */
-  private createProgressBar(percentage: number): string {
-    const filled = Math.floor(percentage / 10);
-    const empty = 10 - filled;
-    return '█'.repeat(filled) + '░'.repeat(empty);
+  private isSessionWindowError(error: any): boolean {
+    const details = JSON.stringify(error.response?.data || error.message || '');
+    return /131047|re-engagement|24 ?hour/i.test(details);
+  }
+
+  /**
+   * Plain text version of an interactive message (customer types the option instead)
+   */
+  private formatOptionsAsText(message: string, options: InteractiveOption[]): string {
+    return `${message}
+
+${options.map(option => `• ${option.title}`).join('\n')}`;
   }
 
   /**
@@ -0,0 +1,8 @@
+import 'http';
+
+declare module 'http' {
+  interface IncomingMessage {
+    // Unparsed request body, kept by the JSON parser for webhook signature verification
+    rawBody?: Buffer;
+  }
+}